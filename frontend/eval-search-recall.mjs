@@ -0,0 +1,113 @@
+/**
+ * Search Recall Evaluation
+ *
+ * Measures how well combined_embedding finds the right items for a query,
+ * on the labelled fixture set in src/lib/ai/__fixtures__/search-recall.json
+ * (items with their photos' captions and attributes, and queries with the
+ * items a shopper would want). Two indexes are compared:
+ *
+ * - text:  title + description only (how items were indexed before fusion)
+ * - fused: generateItemEmbeddings' text + caption (+ pixel) fusion
+ *
+ * and for each, recall@1/3/5 and mean reciprocal rank over all queries.
+ * Fixture photos come pre-analysed, so no vision calls are made; the
+ * embeddings come from the configured provider (EMBEDDING_*; the local hash
+ * provider without a key), so the numbers can be compared across models
+ * and FUSION_WEIGHTS changes.
+ *
+ *   node eval-search-recall.mjs            # report
+ *   node eval-search-recall.mjs --check    # also fail if fusion loses recall@5
+ *   node eval-search-recall.mjs --verbose  # plus each query's misses
+ */
+
+import { readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { LIB, transpileLib } from './test-utils.mjs';
+
+const CUTOFFS = [1, 3, 5];
+const check = process.argv.includes('--check');
+const verbose = process.argv.includes('--verbose');
+
+const SOURCES = ['ai/embedding-providers.ts', 'ai/embeddings.ts'];
+const { outDir, load } = transpileLib('recall-eval', SOURCES);
+
+const { getEmbeddingProvider } = await load('ai/embedding-providers.ts');
+const { FUSION_WEIGHTS, cosineSimilarity, embedText, generateItemEmbeddings } =
+  await load('ai/embeddings.ts');
+const fixture = JSON.parse(readFileSync(join(LIB, 'ai/__fixtures__/search-recall.json'), 'utf8'));
+
+const provider = getEmbeddingProvider();
+console.log(`=== Search recall: ${fixture.items.length} items, ${fixture.queries.length} queries, ${provider.model} ===`);
+console.log(`Fusion weights: ${JSON.stringify(FUSION_WEIGHTS)}\n`);
+
+// Index every fixture item both ways
+const indexes = { text: [], fused: [] };
+for (const item of fixture.items) {
+  const embeddings = await generateItemEmbeddings({
+    title: item.title,
+    description: item.description,
+    imageAnalyses: item.images,
+    provider,
+  });
+  indexes.text.push({ id: item.id, vector: await embedText(`${item.title}. ${item.description}`, provider) });
+  indexes.fused.push({ id: item.id, vector: embeddings.combinedEmbedding });
+}
+
+const queries = await Promise.all(fixture.queries.map(async ({ query, relevant }) => ({
+  query,
+  relevant,
+  vector: await embedText(query, provider),
+})));
+
+/** Recall@k averaged over queries, and mean reciprocal rank of the first hit */
+function evaluate(index) {
+  const recall = Object.fromEntries(CUTOFFS.map(k => [k, 0]));
+  let reciprocalRank = 0;
+  const misses = [];
+
+  for (const { query, relevant, vector } of queries) {
+    const ranked = index
+      .map(entry => ({ id: entry.id, score: cosineSimilarity(vector, entry.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.id);
+
+    for (const k of CUTOFFS) {
+      recall[k] += relevant.filter(id => ranked.slice(0, k).includes(id)).length / relevant.length;
+    }
+    const firstHit = ranked.findIndex(id => relevant.includes(id));
+    reciprocalRank += firstHit === -1 ? 0 : 1 / (firstHit + 1);
+
+    const missed = relevant.filter(id => !ranked.slice(0, Math.max(...CUTOFFS)).includes(id));
+    if (missed.length > 0) {
+      misses.push(`"${query}": missed ${missed.join(', ')} (top: ${ranked.slice(0, 3).join(', ')})`);
+    }
+  }
+
+  for (const k of CUTOFFS) {
+    recall[k] /= queries.length;
+  }
+  return { recall, mrr: reciprocalRank / queries.length, misses };
+}
+
+const results = Object.fromEntries(Object.entries(indexes).map(([name, index]) => [name, evaluate(index)]));
+const percent = value => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+console.log(`index  ${CUTOFFS.map(k => `  R@${k}`.padStart(7)).join(' ')}     MRR`);
+for (const [name, { recall, mrr }] of Object.entries(results)) {
+  console.log(`${name.padEnd(6)} ${CUTOFFS.map(k => percent(recall[k])).join(' ')}   ${mrr.toFixed(3)}`);
+}
+
+if (verbose) {
+  for (const [name, { misses }] of Object.entries(results)) {
+    console.log(`\n${name} misses (top ${Math.max(...CUTOFFS)}):`);
+    console.log(misses.length === 0 ? '  none' : misses.map(miss => `  ${miss}`).join('\n'));
+  }
+}
+
+rmSync(outDir, { recursive: true, force: true });
+
+const k = Math.max(...CUTOFFS);
+if (check && results.fused.recall[k] < results.text.recall[k]) {
+  console.log(`\nFusion lowered recall@${k}: ${percent(results.text.recall[k]).trim()} → ${percent(results.fused.recall[k]).trim()}`);
+  process.exit(1);
+}
@@ -0,0 +1,267 @@
+/**
+ * Contract Client Generator
+ *
+ * Reads every `public entry fun` from contracts/marketplace/sources/thriftchain.move
+ * and writes src/lib/sui/contract/thriftchain.generated.ts: the ABI table,
+ * one argument interface per function and one typed builder per function.
+ *
+ *   npm run generate:contract          # rewrite the generated module
+ *   npm run generate:contract -- --check   # exit 1 if it is out of date
+ *
+ * Argument encoding/validation lives in src/lib/sui/contract/runtime.ts;
+ * this script only describes the Move signatures.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FRONTEND = join(__dirname, '..');
+
+export const MOVE_SOURCE = join(FRONTEND, '../contracts/marketplace/sources/thriftchain.move');
+export const GENERATED_CLIENT = join(FRONTEND, 'src/lib/sui/contract/thriftchain.generated.ts');
+
+const PRIMITIVE_TYPES = ['u8', 'u16', 'u32', 'u64', 'u128', 'u256', 'bool', 'address', 'ID', 'String'];
+
+// ============================================
+// MOVE PARSING
+// ============================================
+
+/**
+ * Split a parameter list on top-level commas (ignores commas inside <...>)
+ */
+function splitParams(list) {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '<') depth++;
+    if (char === '>') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Return the body of the block that opens at `start` (index of `{`)
+ */
+function readBlock(source, start) {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    if (source[i] === '}' && --depth === 0) {
+      return source.slice(start + 1, i);
+    }
+  }
+  throw new Error(`Unterminated block at offset ${start}`);
+}
+
+function isPureType(type) {
+  const vector = /^vector<(.+)>$/.exec(type);
+  return vector ? isPureType(vector[1].trim()) : PRIMITIVE_TYPES.includes(type);
+}
+
+/**
+ * Classify a Move parameter by how the client supplies it
+ */
+function classifyParam(name, type, fn) {
+  if (/^&(mut )?TxContext$/.test(type)) return 'context';
+  if (/^&(mut )?Clock$/.test(type)) return 'clock';
+  if (/^&(mut )?Marketplace$/.test(type)) return 'marketplace';
+  if (type === 'Coin<SUI>') return 'coin';
+  if (/^&(mut )?[A-Z]\w*$/.test(type)) return 'object';
+  if (isPureType(type)) return 'pure';
+
+  throw new Error(`Unsupported Move parameter type in ${fn}: ${name}: ${type}`);
+}
+
+function toCamelCase(name) {
+  return name.replace(/_([a-z0-9])/g, (_, char) => char.toUpperCase());
+}
+
+function toPascalCase(name) {
+  const camel = toCamelCase(name);
+  return camel[0].toUpperCase() + camel.slice(1);
+}
+
+/**
+ * Parse every `public entry fun` in a Move module
+ *
+ * @param source - Move source text
+ * @returns Functions in declaration order with params and emitted events
+ */
+export function parseEntryFunctions(source) {
+  // Drop comments so commented-out code can't leak into the ABI
+  const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const pattern = /public\s+entry\s+fun\s+(\w+)\s*\(([\s\S]*?)\)\s*\{/g;
+  const functions = [];
+
+  for (let match; (match = pattern.exec(code)); ) {
+    const [header, name, paramList] = match;
+    const body = readBlock(code, match.index + header.length - 1);
+
+    const params = splitParams(paramList).map(param => {
+      const [paramName, ...typeParts] = param.split(':');
+      const type = typeParts.join(':').trim().replace(/\s+/g, ' ');
+      return {
+        name: paramName.trim(),
+        key: toCamelCase(paramName.trim()),
+        type,
+        kind: classifyParam(paramName.trim(), type, name),
+      };
+    });
+
+    const emits = [...new Set([...body.matchAll(/event::emit\(\s*(\w+)\s*\{/g)].map(m => m[1]))];
+
+    functions.push({ name, params, emits });
+  }
+
+  return functions;
+}
+
+// ============================================
+// CODE GENERATION
+// ============================================
+
+/**
+ * TypeScript type accepted for a Move parameter
+ */
+function tsType(param) {
+  switch (param.kind) {
+    case 'object': return 'string';
+    case 'coin': return 'TransactionArgument';
+    default: return pureTsType(param.type);
+  }
+}
+
+function pureTsType(type) {
+  const vector = /^vector<(.+)>$/.exec(type);
+  if (vector) return `${pureTsType(vector[1].trim())}[]`;
+
+  switch (type) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return 'number';
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      return 'MoveInteger';
+    case 'bool':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+function paramComment(param) {
+  if (param.kind === 'object') return `// ${param.type.replace(/^&(mut )?/, '')} object ID`;
+  if (param.kind === 'coin') return '// Coin<SUI>, e.g. from tx.splitCoins';
+  return `// ${param.type}`;
+}
+
+/**
+ * Render the generated TypeScript module
+ *
+ * @param source - Move source text
+ * @returns File contents for thriftchain.generated.ts
+ */
+export function renderContractClient(source) {
+  const functions = parseEntryFunctions(source);
+  const lines = [];
+
+  lines.push(
+    '/**',
+    ' * ThriftChain Contract Client (generated)',
+    ' *',
+    ` * DO NOT EDIT. Generated by scripts/generate-contract-client.mjs from`,
+    ` * contracts/marketplace/sources/thriftchain.move. Run \`npm run generate:contract\``,
+    ' * after changing an entry function; `npm run test:contract` fails until you do.',
+    ' *',
+    ' * Marketplace, Clock and TxContext parameters are filled in automatically.',
+    ' * Entry functions return nothing, so a call\'s result is the events it',
+    ' * emits (listed per function) - decode them with decodeContractEvents().',
+    ' */',
+    '',
+    "import type { Transaction, TransactionArgument, TransactionResult } from '@mysten/sui/transactions'",
+    "import { callEntryFunction, type EntryFunctionAbi, type MoveInteger } from './runtime'",
+    '',
+    '// ============================================',
+    '// ABI',
+    '// ============================================',
+    '',
+    'export const THRIFTCHAIN_ABI = {',
+  );
+
+  for (const fn of functions) {
+    lines.push(`  ${fn.name}: {`, `    name: '${fn.name}',`, '    params: [');
+    for (const param of fn.params) {
+      lines.push(`      { name: '${param.name}', key: '${param.key}', type: '${param.type}', kind: '${param.kind}' },`);
+    }
+    lines.push('    ],', `    emits: [${fn.emits.map(e => `'${e}'`).join(', ')}],`, '  },');
+  }
+
+  lines.push(
+    '} as const satisfies Record<string, EntryFunctionAbi>',
+    '',
+    'export type ThriftchainEntryFunction = keyof typeof THRIFTCHAIN_ABI',
+    '',
+    '// ============================================',
+    '// ENTRY FUNCTIONS',
+    '// ============================================',
+  );
+
+  for (const fn of functions) {
+    const args = fn.params.filter(p => !['context', 'clock', 'marketplace'].includes(p.kind));
+    const typeName = `${toPascalCase(fn.name)}Args`;
+    const emits = fn.emits.length > 0 ? fn.emits.join(', ') : 'nothing';
+
+    lines.push('', `export interface ${typeName} {`);
+    for (const param of args) {
+      const declaration = `  ${param.key}: ${tsType(param)}`;
+      lines.push(`${declaration.length < 38 ? declaration.padEnd(38) : `${declaration} `}${paramComment(param)}`);
+    }
+    lines.push(
+      '}',
+      '',
+      '/**',
+      ` * \`${fn.name}\` - emits ${emits}`,
+      ' */',
+      `export function ${toCamelCase(fn.name)}(tx: Transaction, args: ${typeName}): TransactionResult {`,
+      `  return callEntryFunction(tx, THRIFTCHAIN_ABI.${fn.name}, args)`,
+      '}',
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// CLI
+// ============================================
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const expected = renderContractClient(readFileSync(MOVE_SOURCE, 'utf8'));
+  const target = relative(process.cwd(), GENERATED_CLIENT);
+
+  if (process.argv.includes('--check')) {
+    const current = readFileSync(GENERATED_CLIENT, 'utf8');
+    if (current !== expected) {
+      console.error(`✗ ${target} is out of date. Run \`npm run generate:contract\`.`);
+      process.exit(1);
+    }
+    console.log(`✓ ${target} is up to date`);
+  } else {
+    writeFileSync(GENERATED_CLIENT, expected);
+    console.log(`✓ Wrote ${target}`);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Test Runner
+ *
+ * Runs every `test:*` script in package.json, one after another, and
+ * keeps going past failures so one run reports every broken suite.
+ *
+ *   npm test
+ */
+
+import { spawnSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FRONTEND = join(__dirname, '..');
+
+const { scripts } = JSON.parse(readFileSync(join(FRONTEND, 'package.json'), 'utf8'));
+const suites = Object.keys(scripts).filter(name => name.startsWith('test:'));
+
+const failed = [];
+for (const suite of suites) {
+  console.log(`\n▶ npm run ${suite}\n`);
+  const { status } = spawnSync('npm', ['run', '--silent', suite], { cwd: FRONTEND, stdio: 'inherit' });
+  if (status !== 0) {
+    failed.push(suite);
+  }
+}
+
+console.log(failed.length === 0
+  ? `\nAll ${suites.length} test suites passed`
+  : `\n${failed.length} of ${suites.length} test suites failed: ${failed.join(', ')}`);
+process.exit(failed.length === 0 ? 0 : 1);
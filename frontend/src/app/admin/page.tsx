@@ -0,0 +1,447 @@
+"use client"
+
+import Image from "next/image"
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { useSession } from "@/lib/session/provider"
+import {
+  REPORT_REASON_LABELS,
+  type AdminAction,
+  type AuditEntry,
+  type ItemCase,
+  type QueueEntry,
+} from "@/lib/moderation/admin"
+import type { ThriftItemObject } from "@/lib/types/sui-objects"
+import { itemStatusToString, mistToSui } from "@/lib/types/sui-objects"
+import { getWalrusBlobUrl } from "@/lib/walrus/upload"
+
+interface ItemDetail {
+  item: ThriftItemObject
+  moderation: ItemCase
+}
+
+const ACTION_LABELS: Record<AdminAction, string> = {
+  hide: "Hidden",
+  ban: "Seller banned",
+  dismiss: "Dismissed",
+}
+
+const shortenAddress = (addr: string) => (addr.length <= 10 ? addr : `${addr.slice(0, 6)}...${addr.slice(-4)}`)
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString()
+
+const imageUrl = (imageId: string) => {
+  if (!imageId || imageId.startsWith("mock_blob_")) return null
+  if (imageId.startsWith("http://") || imageId.startsWith("https://")) return imageId
+  return getWalrusBlobUrl(imageId)
+}
+
+async function fetchJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, init)
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw Object.assign(new Error(body.error || `Request failed (${response.status})`), { status: response.status })
+  }
+  return body
+}
+
+/**
+ * Admin Moderation Console
+ *
+ * Features:
+ * - Queue of listings with open reports, lifted-photo flags and verdicts
+ *   the moderation pipeline blocked or held
+ * - Listing detail: on-chain fields, Walrus photos, findings, reports,
+ *   flags and the listing's audit history
+ * - Hide the listing, ban its seller or dismiss, with a note for the log
+ * - Recent actions by all admins
+ *
+ * Only addresses in ADMIN_ADDRESSES get past the API; everyone else sees
+ * "Admins only".
+ */
+export default function AdminPage() {
+  const { connected, ensureServerSession } = useSession()
+  const [queue, setQueue] = useState<QueueEntry[]>([])
+  const [audit, setAudit] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<{ status?: number; message: string } | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<ItemDetail | null>(null)
+  const [detailError, setDetailError] = useState<string | null>(null)
+  const [note, setNote] = useState("")
+  const [acting, setActing] = useState<AdminAction | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    if (!connected) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        await ensureServerSession()
+        const [queueBody, auditBody] = await Promise.all([
+          fetchJson("/api/admin/queue"),
+          fetchJson("/api/admin/audit"),
+        ])
+        if (cancelled) return
+        setQueue(queueBody.queue)
+        setAudit(auditBody.entries)
+        setError(null)
+      } catch (err) {
+        console.error("Error loading moderation queue:", err)
+        if (!cancelled) {
+          setError({
+            status: (err as { status?: number }).status,
+            message: err instanceof Error ? err.message : "Failed to load moderation queue",
+          })
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [connected, ensureServerSession, refreshKey])
+
+  useEffect(() => {
+    if (!selectedId) return
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const body = await fetchJson(`/api/admin/items/${selectedId}`)
+        if (cancelled) return
+        setDetail({ item: body.item, moderation: body.moderation })
+        setDetailError(null)
+      } catch (err) {
+        if (!cancelled) setDetailError(err instanceof Error ? err.message : "Failed to load item")
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId, refreshKey])
+
+  const act = async (action: AdminAction) => {
+    if (!detail) return
+    if (action === "ban" && !window.confirm(`Ban ${detail.item.fields.seller}? All of their listings will be hidden.`)) {
+      return
+    }
+
+    setActing(action)
+    try {
+      await fetchJson("/api/admin/actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, itemId: detail.item.objectId, note }),
+      })
+      toast.success(`${ACTION_LABELS[action]}: ${detail.item.fields.title}`)
+      setNote("")
+      setRefreshKey(key => key + 1)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Action failed")
+    } finally {
+      setActing(null)
+    }
+  }
+
+  if (!connected) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="retro-card retro-shadow p-8 text-center">
+          <div className="text-4xl mb-3">🛡️</div>
+          <p className="text-lg font-bold">Sign in with an admin address to moderate listings</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error && (error.status === 401 || error.status === 403)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="retro-card retro-shadow p-8 bg-red-50 border-2 border-red-500 text-center">
+          <div className="text-4xl mb-3">⛔</div>
+          <h2 className="text-2xl font-bold mb-2">Admins only</h2>
+          <p className="opacity-80">This address isn&apos;t on the moderation allowlist.</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Stale detail from the previously selected listing isn't shown
+  const current = detail && detail.item.objectId === selectedId ? detail : null
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-black">🛡️ Moderation</h1>
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            className="retro-btn retro-shadow px-4 py-2 bg-white"
+          >
+            ↻ Refresh
+          </button>
+        </div>
+
+        {error && (
+          <div className="retro-card p-4 mb-6 bg-red-50 border-2 border-red-500 text-sm">{error.message}</div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <div className="retro-card retro-shadow p-4 space-y-2 h-fit">
+            <h2 className="text-xl font-black mb-2">Queue ({queue.length})</h2>
+            {loading ? (
+              <p className="text-sm opacity-60">Loading...</p>
+            ) : queue.length === 0 ? (
+              <p className="text-sm opacity-60">Nothing waiting for review 🎉</p>
+            ) : (
+              queue.map(entry => (
+                <button
+                  key={entry.itemId}
+                  onClick={() => setSelectedId(entry.itemId)}
+                  className={`w-full text-left p-3 border-2 transition-all ${
+                    selectedId === entry.itemId ? "border-black bg-yellow-50" : "border-gray-300 hover:border-black"
+                  }`}
+                >
+                  <div className="font-bold truncate">{entry.title ?? shortenAddress(entry.itemId)}</div>
+                  <div className="flex flex-wrap gap-1 mt-1 text-xs">
+                    {entry.reports > 0 && (
+                      <span className="px-2 py-0.5 bg-red-200 border border-black">
+                        🚩 {entry.reports} · {entry.reasons.map(reason => REPORT_REASON_LABELS[reason]).join(", ")}
+                      </span>
+                    )}
+                    {entry.flags > 0 && (
+                      <span className="px-2 py-0.5 bg-orange-200 border border-black">📷 {entry.flags} photo match</span>
+                    )}
+                    {entry.verdict && (
+                      <span className="px-2 py-0.5 bg-gray-200 border border-black">
+                        🤖 {entry.verdict === "blocked" ? "auto-blocked" : "held for review"}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs opacity-60 mt-1">{formatDate(entry.latestAt)}</div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Detail */}
+          <div className="lg:col-span-2 space-y-4">
+            {!selectedId ? (
+              <div className="retro-card retro-shadow p-8 text-center opacity-60">Select a listing from the queue</div>
+            ) : detailError && !current ? (
+              <div className="retro-card p-4 bg-red-50 border-2 border-red-500 text-sm">{detailError}</div>
+            ) : !current ? (
+              <div className="retro-card retro-shadow p-8 text-center">Loading listing...</div>
+            ) : (
+              <>
+                <div className="retro-card retro-shadow p-6">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <h2 className="text-2xl font-black">{current.item.fields.title}</h2>
+                    <Link href={`/items/${current.item.objectId}`} className="text-sm underline whitespace-nowrap">
+                      Open listing ↗
+                    </Link>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm mb-4">
+                    <div><span className="font-semibold">Price:</span> {mistToSui(current.item.fields.price).toFixed(2)} SUI</div>
+                    <div><span className="font-semibold">Status:</span> {itemStatusToString(current.item.fields.status)}</div>
+                    <div><span className="font-semibold">Category:</span> {current.item.fields.category}</div>
+                    <div><span className="font-semibold">Brand:</span> {current.item.fields.brand || "Unknown"}</div>
+                    <div className="sm:col-span-2 font-mono text-xs break-all">
+                      <span className="font-semibold font-sans text-sm">Object:</span> {current.item.objectId}
+                    </div>
+                    <div className="sm:col-span-2 font-mono text-xs break-all">
+                      <span className="font-semibold font-sans text-sm">Seller:</span> {current.item.fields.seller}
+                      {current.moderation.sellerBan && (
+                        <span className="ml-2 px-2 py-0.5 bg-red-600 text-white font-sans font-bold">BANNED</span>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm opacity-80 whitespace-pre-line mb-4">{current.item.fields.description}</p>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {((current.item.fields.walrus_image_ids || []) as string[]).map((imageId, index) => {
+                      const url = imageUrl(imageId)
+                      return (
+                        <a
+                          key={`${imageId}-${index}`}
+                          href={url ?? undefined}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="relative aspect-square border-2 border-black bg-gray-100 overflow-hidden"
+                        >
+                          {url ? (
+                            <Image src={url} alt={`Photo ${index + 1}`} fill sizes="160px" className="object-cover" unoptimized />
+                          ) : (
+                            <span className="absolute inset-0 flex items-center justify-center text-2xl">📦</span>
+                          )}
+                        </a>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {/* Automatic verdict */}
+                <div className="retro-card retro-shadow p-6">
+                  <h3 className="text-lg font-black mb-2">Verdict</h3>
+                  {!current.moderation.verdict ? (
+                    <p className="text-sm opacity-60">No verdict: hidden unless listed before moderation started</p>
+                  ) : (
+                    <div className="text-sm space-y-2">
+                      <p>
+                        <span className="font-bold uppercase">{current.moderation.verdict.status.replace("_", " ")}</span>
+                        {current.moderation.verdict.reviewedBy && (
+                          <span className="opacity-60">
+                            {" "}· reviewed by {shortenAddress(current.moderation.verdict.reviewedBy)}
+                          </span>
+                        )}
+                      </p>
+                      {current.moderation.verdict.findings.map((finding, index) => (
+                        <div key={index} className="border-l-4 border-black pl-3">
+                          <span className="font-semibold">{finding.code}</span>
+                          <span className="opacity-60"> ({finding.source}, {finding.severity})</span>
+                          <div className="opacity-80">{finding.reason}</div>
+                          {finding.excerpt && <div className="font-mono text-xs">“{finding.excerpt}”</div>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Reports and flags */}
+                <div className="retro-card retro-shadow p-6">
+                  <h3 className="text-lg font-black mb-2">Reports ({current.moderation.reports.length})</h3>
+                  {current.moderation.reports.length === 0 ? (
+                    <p className="text-sm opacity-60">No reports</p>
+                  ) : (
+                    <ul className="text-sm space-y-2 mb-4">
+                      {current.moderation.reports.map(report => (
+                        <li key={report.id} className={report.status === "open" ? "" : "opacity-50"}>
+                          <span className="font-semibold">{REPORT_REASON_LABELS[report.reason]}</span>
+                          <span className="opacity-60"> · {shortenAddress(report.reporter)} · {formatDate(report.createdAt)} · {report.status}</span>
+                          {report.details && <div className="opacity-80">{report.details}</div>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {current.moderation.flags.length > 0 && (
+                    <>
+                      <h3 className="text-lg font-black mb-2">Flags</h3>
+                      <ul className="text-sm space-y-2">
+                        {current.moderation.flags.map(flag => (
+                          <li key={flag.id} className={flag.status === "open" ? "" : "opacity-50"}>
+                            <span className="font-semibold">{flag.kind.replace("_", " ")}</span>
+                            {flag.score !== null && <span> · {(flag.score * 100).toFixed(0)}% similar</span>}
+                            {flag.matchedItemId && (
+                              <>
+                                {" "}· matches{" "}
+                                <Link href={`/items/${flag.matchedItemId}`} className="underline">
+                                  {String(flag.details.matched_title ?? shortenAddress(flag.matchedItemId))}
+                                </Link>
+                              </>
+                            )}
+                            <span className="opacity-60"> · {flag.status}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+
+                {/* Actions */}
+                <div className="retro-card retro-shadow p-6 space-y-3">
+                  <h3 className="text-lg font-black">Action</h3>
+                  <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={2}
+                    placeholder="Note for the audit log (a hide note is shown to the seller)"
+                    className="w-full border-2 border-black px-2 py-2 text-sm"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => act("hide")}
+                      disabled={acting !== null}
+                      className="retro-btn px-4 py-2 border-2 border-black bg-orange-200 disabled:opacity-50"
+                    >
+                      {acting === "hide" ? "Hiding..." : "🙈 Hide from search"}
+                    </button>
+                    <button
+                      onClick={() => act("ban")}
+                      disabled={acting !== null || current.moderation.sellerBan !== null}
+                      className="retro-btn px-4 py-2 border-2 border-black bg-red-300 disabled:opacity-50"
+                    >
+                      {acting === "ban" ? "Banning..." : "⛔ Ban seller"}
+                    </button>
+                    <button
+                      onClick={() => act("dismiss")}
+                      disabled={acting !== null}
+                      className="retro-btn px-4 py-2 border-2 border-black bg-green-200 disabled:opacity-50"
+                    >
+                      {acting === "dismiss" ? "Dismissing..." : "✓ Dismiss"}
+                    </button>
+                  </div>
+                  {current.moderation.audit.length > 0 && (
+                    <ul className="text-xs space-y-1 pt-3 border-t-2 border-black border-dashed">
+                      {current.moderation.audit.map(entry => (
+                        <li key={entry.id}>
+                          <span className="font-semibold">{ACTION_LABELS[entry.action]}</span> by {shortenAddress(entry.admin)} ·{" "}
+                          {formatDate(entry.createdAt)}
+                          {entry.note && <span className="opacity-70"> · {entry.note}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Audit log */}
+        <div className="retro-card retro-shadow p-6 mt-6">
+          <h2 className="text-xl font-black mb-3">Recent actions</h2>
+          {audit.length === 0 ? (
+            <p className="text-sm opacity-60">No actions yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b-2 border-black">
+                  <th className="py-1">When</th>
+                  <th>Admin</th>
+                  <th>Action</th>
+                  <th>Listing</th>
+                  <th>Note</th>
+                </tr>
+              </thead>
+              <tbody>
+                {audit.map(entry => (
+                  <tr key={entry.id} className="border-b border-gray-200">
+                    <td className="py-1 whitespace-nowrap">{formatDate(entry.createdAt)}</td>
+                    <td className="font-mono">{shortenAddress(entry.admin)}</td>
+                    <td>{ACTION_LABELS[entry.action]}</td>
+                    <td>
+                      {entry.itemId && (
+                        <button onClick={() => setSelectedId(entry.itemId)} className="font-mono underline">
+                          {shortenAddress(entry.itemId)}
+                        </button>
+                      )}
+                    </td>
+                    <td className="opacity-80">{entry.note}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+/**
+ * API Route: Moderation actions
+ *
+ * POST /api/admin/actions
+ *   { action: 'hide' | 'ban' | 'dismiss', itemId: string, note?: string }
+ * → { success, entry: AuditEntry }
+ *
+ * hide takes the listing out of search and browsing, ban does that for
+ * every listing of its seller, dismiss approves it. Either way the
+ * listing's open reports and flags are resolved and the action is written
+ * to the audit log under the admin's address. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { applyAdminAction, isAdmin, ModerationAdminError } from '@/lib/moderation/admin'
+import { getServerSession } from '@/lib/session/server'
+import { getItemById } from '@/lib/sui/queries'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function POST(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (!isAdmin(session.address)) {
+    return NextResponse.json({ error: 'Admins only' }, { status: 403 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  if (typeof body.itemId !== 'string') {
+    return NextResponse.json({ error: 'itemId is required' }, { status: 400 })
+  }
+
+  try {
+    // The seller comes from chain, so a ban lands on whoever listed it
+    const item = await getItemById(body.itemId)
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found on chain' }, { status: 404 })
+    }
+
+    const entry = await applyAdminAction(getSupabaseAdminClient(), session.address, {
+      action: body.action,
+      itemId: item.objectId,
+      seller: item.fields.seller,
+      note: body.note,
+    })
+    console.log(`[api/admin/actions] ${session.address} ${entry.action} ${item.objectId}`)
+    return NextResponse.json({ success: true, entry })
+  } catch (error) {
+    if (error instanceof ModerationAdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[api/admin/actions] Failed to apply action:', error)
+    return NextResponse.json({ error: 'Failed to apply moderation action' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * API Route: Moderation audit log
+ *
+ * GET /api/admin/audit → { success, entries: AuditEntry[] }
+ *
+ * The 50 most recent admin actions, newest first. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdmin, listAuditLog } from '@/lib/moderation/admin'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (!isAdmin(session.address)) {
+    return NextResponse.json({ error: 'Admins only' }, { status: 403 })
+  }
+
+  try {
+    const entries = await listAuditLog(getSupabaseAdminClient())
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    console.error('[api/admin/audit] Failed to load audit log:', error)
+    return NextResponse.json({ error: 'Failed to load audit log' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Route: One listing under review
+ *
+ * GET /api/admin/items/:id → { success, item: ThriftItemObject, moderation: ItemCase }
+ *
+ * The listing as it is on chain (its Walrus image IDs included) with its
+ * verdict, reports, flags, audit history and whether its seller is
+ * banned. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdmin, loadItemCase, ModerationAdminError } from '@/lib/moderation/admin'
+import { getServerSession } from '@/lib/session/server'
+import { getItemById } from '@/lib/sui/queries'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, { params }: Context) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (!isAdmin(session.address)) {
+    return NextResponse.json({ error: 'Admins only' }, { status: 403 })
+  }
+
+  const { id } = await params
+
+  try {
+    const item = await getItemById(id)
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found on chain' }, { status: 404 })
+    }
+
+    const moderation = await loadItemCase(getSupabaseAdminClient(), item.objectId, item.fields.seller)
+    return NextResponse.json({ success: true, item, moderation })
+  } catch (error) {
+    if (error instanceof ModerationAdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[api/admin/items] Failed to load item:', error)
+    return NextResponse.json({ error: 'Failed to load item' }, { status: 500 })
+  }
+}
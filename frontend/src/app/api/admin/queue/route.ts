@@ -0,0 +1,32 @@
+/**
+ * API Route: Moderation queue
+ *
+ * GET /api/admin/queue → { success, queue: QueueEntry[] }
+ *
+ * Listings with open reports, open moderation flags or an unreviewed
+ * blocked / held verdict, newest activity first. Admins only
+ * (ADMIN_ADDRESSES): 401 when signed out, 403 for everyone else.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdmin, loadModerationQueue } from '@/lib/moderation/admin'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  if (!isAdmin(session.address)) {
+    return NextResponse.json({ error: 'Admins only' }, { status: 403 })
+  }
+
+  try {
+    const queue = await loadModerationQueue(getSupabaseAdminClient())
+    return NextResponse.json({ success: true, queue })
+  } catch (error) {
+    console.error('[api/admin/queue] Failed to load queue:', error)
+    return NextResponse.json({ error: 'Failed to load moderation queue' }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Listing Assistant API Route
+ *
+ * POST /api/ai/describe-item
+ *
+ * PURPOSE:
+ * "Auto-fill from photos" in the listing form. A vision model looks at the
+ * seller's photos and suggests every field of the listing (lib/ai/listing-assistant).
+ * Nothing is saved; the seller reviews each suggestion in ItemForm.
+ *
+ * Request: { images: ["data:image/jpeg;base64,...", ...] }   (1-5 photos)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   suggestions: {
+ *     title: { value: "Vintage Levi's Denim Jacket", confidence: 0.8 },
+ *     price: { value: 12.5, confidence: 0.4 },            // SUI
+ *     category: { value: "Clothing", confidence: 0.95 },  // always one of CATEGORIES
+ *     size: null,                                         // nothing to go on
+ *     ...
+ *   }
+ * }
+ *
+ * Requires a signed-in session, and each address gets
+ * DESCRIBE_ITEM_RATE_LIMIT calls per hour: every call is a paid vision
+ * request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { describeListing, ListingAssistantError } from '@/lib/ai/listing-assistant';
+import { getServerSession } from '@/lib/session/server';
+import { SlidingWindowRateLimiter } from '@/lib/sponsor/rate-limit';
+
+const DESCRIBE_LIMIT = Number(process.env.DESCRIBE_ITEM_RATE_LIMIT ?? 20);
+const DESCRIBE_WINDOW_MS = 60 * 60 * 1000;
+
+const limiter = new SlidingWindowRateLimiter(DESCRIBE_LIMIT, DESCRIBE_WINDOW_MS);
+
+export async function POST(request: NextRequest) {
+  const session = getServerSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in to use auto-fill' }, { status: 401 });
+  }
+
+  const limit = limiter.take(session.address);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Auto-fill limit reached, try again later' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  try {
+    const suggestions = await describeListing(body.images);
+    return NextResponse.json({ success: true, suggestions });
+  } catch (error) {
+    if (error instanceof ListingAssistantError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[describe-item] Failed:', error);
+    return NextResponse.json(
+      { error: 'Could not draft a listing from these photos', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    );
+  }
+}
@@ -22,12 +22,23 @@
  *      "sui_object_id": "0xabc123...",
  *      "title": "Vintage Leather Jacket",
  *      "description": "Brown leather, size M...",
- *      "images": [<base64>, <base64>, ...] // Original images (not downloaded from Walrus!)
+ *      "images": [<base64>, <base64>, ...], // Original images (not downloaded from Walrus!)
+ *      "auth": { "message": "...", "signature": "..." } // Seller's signature over this payload
  *    }
  *
  * 4. THIS API DOES:
- *    a. Generate 4 embeddings (title, description, image, combined)
- *    b. Store in Supabase with sui_object_id as primary key
+ *    a. Fetch the ThriftItem from chain and check `auth` was signed by its seller
+ *       for exactly this payload (lib/session/actions)
+ *    b. Reject unless title, description and images match the chain
+ *       (lib/ai/listing-match), and refuse sellers an admin banned
+ *    c. Moderate the listing and store the verdict (lib/moderation); blocked
+ *       and held listings are indexed but hidden from search and browsing
+ *    d. Generate 4 embeddings (title, description, image, combined)
+ *    e. Store in Supabase with sui_object_id as primary key
+ *    f. Alert owners of saved searches the item matches (lib/ai/saved-searches),
+ *       if moderation approved it
+ *    g. Flag photos matching another seller's active listing for review
+ *       (lib/ai/duplicates)
  *
  * 5. RESULT:
  *    ✅ Item is now searchable via semantic search!
@@ -52,10 +63,27 @@
  * - Frontend already has all the data in memory
  * - No need to download from Walrus (images already available)
  * - Faster and more efficient!
+ * The chain is still the authority: submitted data is only compared
+ * against it, so nobody can index text or images the seller didn't list.
+ *
+ * DUPLICATE CHECK (before minting):
+ *    POST /api/ai/index-item
+ *    { "check": true, "title": "...", "description": "...", "images": [<base64>, ...] }
+ *    → { success: true, duplicates: [{ itemId, seller, title, imageSimilarity, combinedSimilarity }, ...] }
+ * The signed-in seller's active listings this one would duplicate; nothing
+ * is stored. DUPLICATE_CHECK_RATE_LIMIT checks per address per hour.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateItemEmbeddings } from '@/lib/ai/embeddings';
+import { findDuplicateListings, flagPhotoMatches } from '@/lib/ai/duplicates';
+import { generateItemEmbeddings, type ItemEmbeddings } from '@/lib/ai/embeddings';
+import { ListingMismatchError, verifyListingMatchesChain } from '@/lib/ai/listing-match';
+import { notifySavedSearches } from '@/lib/ai/saved-searches';
+import { getAddressBan } from '@/lib/moderation/admin';
+import { moderateListing, saveVerdict } from '@/lib/moderation/pipeline';
+import { getServerSession, SessionError, verifySignedAction } from '@/lib/session/server';
+import { SlidingWindowRateLimiter } from '@/lib/sponsor/rate-limit';
+import { getItemById } from '@/lib/sui/queries';
 import { createClient } from '@supabase/supabase-js';
 
 // ============================================================================
@@ -81,15 +109,23 @@ const supabaseAdmin = createClient(
   }
 );
 
+const CHECK_LIMIT = Number(process.env.DUPLICATE_CHECK_RATE_LIMIT ?? 30);
+const CHECK_WINDOW_MS = 60 * 60 * 1000;
+
+// Each check generates embeddings (vision calls included)
+const checkLimiter = new SlidingWindowRateLimiter(CHECK_LIMIT, CHECK_WINDOW_MS);
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
 interface IndexItemRequest {
+  check?: boolean;  // Duplicate check before minting (no sui_object_id)
   sui_object_id: string;
   title: string;
   description: string;
   images: string[]; // Array of base64-encoded images
+  auth?: unknown;   // ActionSignature from the seller (see lib/session/actions)
 }
 
 // ============================================================================
@@ -109,7 +145,11 @@ export async function POST(request: NextRequest) {
   try {
     // 1. Parse request body
     const body: IndexItemRequest = await request.json();
-    const { sui_object_id, title, description, images } = body;
+    const { sui_object_id, title, description, images, auth } = body;
+
+    if (body.check === true) {
+      return await checkDuplicatesBeforeMint(request, body);
+    }
 
     console.log('📥 Request received:');
     console.log('  - sui_object_id:', sui_object_id);
@@ -139,18 +179,65 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!Array.isArray(images)) {
+    if (!Array.isArray(images) || !images.every(image => typeof image === 'string')) {
       return NextResponse.json(
         { error: 'images must be an array of base64 strings' },
         { status: 400 }
       );
     }
 
+    // 3. Only the seller may index, and only what is on chain
+    const item = await getItemById(sui_object_id);
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Item not found on chain' },
+        { status: 404 }
+      );
+    }
+
+    try {
+      await verifySignedAction(auth, {
+        action: 'index-item',
+        address: item.fields.seller,
+        payload: { sui_object_id, title, description, images },
+      });
+      await verifyListingMatchesChain(item, { title, description, images });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+      }
+      if (error instanceof ListingMismatchError) {
+        return NextResponse.json({ error: error.message, field: error.field }, { status: 422 });
+      }
+      throw error;
+    }
+
+    // Banned sellers' listings stay out of search (lib/moderation/admin)
+    if (await getAddressBan(supabaseAdmin, item.fields.seller)) {
+      return NextResponse.json(
+        { error: 'This account can no longer list items' },
+        { status: 403 }
+      );
+    }
+
     console.log(`[index-item] Indexing item: ${sui_object_id}`);
     console.log(`[index-item] Title: ${title}`);
     console.log(`[index-item] Images: ${images.length}`);
 
-    // 3. Generate embeddings using base64 strings directly (server-safe!)
+    // 4. Moderate before the item can show up in search. The verdict is
+    //    stored first so a held listing is never searchable, even briefly.
+    const { fields } = item;
+    const verdict = await moderateListing({
+      title: fields.title,
+      description: fields.description,
+      otherText: [fields.brand, fields.size, fields.color, fields.material],
+      images,
+    });
+    // A moderator's earlier decision on this listing stands
+    const moderationStatus = await saveVerdict(supabaseAdmin, sui_object_id, fields.seller, verdict);
+    console.log(`[index-item] Moderation: ${moderationStatus} (${verdict.findings.length} findings)`);
+
+    // 5. Generate embeddings using base64 strings directly (server-safe!)
     console.log('[index-item] Generating embeddings...');
     const embeddings = await generateItemEmbeddings({
       title,
@@ -159,23 +246,52 @@ export async function POST(request: NextRequest) {
     });
 
     console.log('[index-item] Embeddings generated:', {
+      model: embeddings.model,
       titleDim: embeddings.titleEmbedding.length,
       descDim: embeddings.descriptionEmbedding.length,
       imageDim: embeddings.imageEmbedding.length,
       combinedDim: embeddings.combinedEmbedding.length,
     });
 
-    // 5. Store in Supabase
+    // 6. Store in Supabase
     console.log('[index-item] Storing embeddings in Supabase...');
     await storeEmbeddingsInSupabase(sui_object_id, embeddings);
 
+    // 7. Alert shoppers whose saved searches this item matches. The item is
+    //    already searchable, so a failure here is only logged.
+    if (moderationStatus === 'approved') {
+      try {
+        const alerted = await notifySavedSearches(supabaseAdmin, item, embeddings.combinedEmbedding, embeddings.model);
+        console.log(`[index-item] Saved searches alerted: ${alerted}`);
+      } catch (error) {
+        console.warn('[index-item] Saved search alerts failed:', error);
+      }
+    }
+
+    // 8. Queue photos lifted from other sellers' listings for review (the
+    //    seller's own duplicates were shown before minting)
+    try {
+      const { photoMatches } = await findDuplicateListings(supabaseAdmin, {
+        seller: item.fields.seller,
+        embeddings,
+        hasPhotos: images.length > 0,
+        excludeItem: sui_object_id,
+      });
+      const flagged = await flagPhotoMatches(supabaseAdmin, sui_object_id, photoMatches);
+      console.log(`[index-item] Photo matches flagged: ${flagged}`);
+    } catch (error) {
+      console.warn('[index-item] Duplicate check failed:', error);
+    }
+
     console.log('[index-item] ✅ Indexing complete!');
 
-    // 6. Return success
+    // 9. Return success, with what moderation decided so the seller knows
+    //    why a listing isn't showing up
     return NextResponse.json({
       success: true,
       sui_object_id,
       message: 'Item indexed successfully for AI search',
+      moderation: { status: moderationStatus, findings: verdict.findings },
       embeddings_generated: {
         title: embeddings.titleEmbedding.length,
         description: embeddings.descriptionEmbedding.length,
@@ -206,59 +322,46 @@ export async function POST(request: NextRequest) {
 // ============================================================================
 
 /**
- * Convert base64 images to File objects
- *
- * WHY?
- * - Frontend sends images as base64 strings (easy to serialize in JSON)
- * - Our embeddings.ts expects File objects
- * - This converts between the two formats
+ * Duplicate check before minting
  *
- * @param base64Images - Array of base64-encoded image strings
- * @returns Array of File objects
+ * Embeds the draft the same way indexing will, and returns the signed-in
+ * seller's active listings it would duplicate. Other sellers' photo matches
+ * aren't revealed; they are flagged once the item is indexed.
  */
-async function convertBase64ToFiles(base64Images: string[]): Promise<File[]> {
-  const files: File[] = [];
-
-  for (let i = 0; i < base64Images.length; i++) {
-    try {
-      const base64 = base64Images[i];
-
-      // Extract mime type and data from base64 string
-      // Format: "data:image/jpeg;base64,/9j/4AAQSkZJRg..."
-      const matches = base64.match(/^data:(.+);base64,(.+)$/);
-
-      if (!matches) {
-        console.warn(`[convertBase64ToFiles] Invalid base64 format for image ${i}`);
-        continue;
-      }
-
-      const mimeType = matches[1]; // "image/jpeg"
-      const base64Data = matches[2]; // "/9j/4AAQSkZJRg..."
-
-      // Convert base64 to Blob
-      const byteString = atob(base64Data);
-      const arrayBuffer = new ArrayBuffer(byteString.length);
-      const uint8Array = new Uint8Array(arrayBuffer);
-
-      for (let j = 0; j < byteString.length; j++) {
-        uint8Array[j] = byteString.charCodeAt(j);
-      }
-
-      const blob = new Blob([uint8Array], { type: mimeType });
+async function checkDuplicatesBeforeMint(request: NextRequest, body: IndexItemRequest) {
+  const session = getServerSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in to check for duplicates' }, { status: 401 });
+  }
 
-      // Convert Blob to File
-      const file = new File([blob], `image-${i}.${mimeType.split('/')[1]}`, {
-        type: mimeType,
-      });
+  const limit = checkLimiter.take(session.address);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Duplicate check limit reached, try again later' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+    );
+  }
 
-      files.push(file);
-    } catch (error) {
-      console.error(`[convertBase64ToFiles] Error converting image ${i}:`, error);
-      // Continue with other images even if one fails
-    }
+  const { title, description, images } = body;
+  if (!title || typeof title !== 'string' || !description || typeof description !== 'string') {
+    return NextResponse.json({ error: 'title and description are required' }, { status: 400 });
+  }
+  if (!Array.isArray(images) || !images.every(image => typeof image === 'string')) {
+    return NextResponse.json({ error: 'images must be an array of base64 strings' }, { status: 400 });
   }
 
-  return files;
+  const embeddings = await generateItemEmbeddings({
+    title,
+    description,
+    base64Images: images.length > 0 ? images : undefined,
+  });
+  const { sameSeller } = await findDuplicateListings(supabaseAdmin, {
+    seller: session.address,
+    embeddings,
+    hasPhotos: images.length > 0,
+  });
+
+  return NextResponse.json({ success: true, duplicates: sameSeller });
 }
 
 /**
@@ -269,7 +372,7 @@ async function convertBase64ToFiles(base64Images: string[]): Promise<File[]> {
  * HOW IT WORKS:
  * 1. Upsert row into item_search_index table
  * 2. Primary key = sui_object_id (links to blockchain NFT)
- * 3. Store all 4 embedding vectors (768 dimensions each)
+ * 3. Store all 4 embedding vectors (768 dimensions each) and the model that made them
  * 4. pgvector extension enables fast cosine similarity search
  *
  * UPSERT:
@@ -283,6 +386,8 @@ async function convertBase64ToFiles(base64Images: string[]): Promise<File[]> {
  *   description_embedding VECTOR(768),
  *   image_embedding VECTOR(768),
  *   combined_embedding VECTOR(768),
+ *   embedding_model TEXT,
+ *   embedding_dimensions INT,
  *   indexed_at TIMESTAMP
  * )
  *
@@ -291,12 +396,7 @@ async function convertBase64ToFiles(base64Images: string[]): Promise<File[]> {
  */
 async function storeEmbeddingsInSupabase(
   suiObjectId: string,
-  embeddings: {
-    titleEmbedding: number[];
-    descriptionEmbedding: number[];
-    imageEmbedding: number[];
-    combinedEmbedding: number[];
-  }
+  embeddings: ItemEmbeddings
 ) {
   try {
     const { error } = await supabaseAdmin.from('item_search_index').upsert(
@@ -306,6 +406,8 @@ async function storeEmbeddingsInSupabase(
         description_embedding: embeddings.descriptionEmbedding,
         image_embedding: embeddings.imageEmbedding,
         combined_embedding: embeddings.combinedEmbedding,
+        embedding_model: embeddings.model,
+        embedding_dimensions: embeddings.dimensions,
         indexed_at: new Date().toISOString(),
       },
       {
@@ -346,17 +448,22 @@ async function storeEmbeddingsInSupabase(
  *   imageFiles.map(file => fileToBase64(file))
  * );
  *
+ * // Step 4: Sign the payload as the seller (useSession().signAction)
+ * // title/description must be the trimmed values stored on chain
+ * const payload = { sui_object_id, title, description, images: base64Images };
+ *
  * const response = await fetch('/api/ai/index-item', {
  *   method: 'POST',
  *   headers: { 'Content-Type': 'application/json' },
  *   body: JSON.stringify({
- *     sui_object_id,
- *     title,
- *     description,
- *     images: base64Images
+ *     ...payload,
+ *     auth: await signAction('index-item', payload)
  *   })
  * });
  *
  * const result = await response.json();
- * // { success: true, sui_object_id: '0xabc123...', message: 'Item indexed successfully' }
+ * // { success: true, sui_object_id: '0xabc123...', message: 'Item indexed successfully for AI search',
+ * //   moderation: { status: 'approved', findings: [] }, ... }
+ * // 401/403 when `auth` is missing or not the item's seller's signature,
+ * // 422 when the listing differs from what is on chain
  */
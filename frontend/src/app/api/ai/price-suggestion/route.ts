@@ -0,0 +1,71 @@
+/**
+ * Price Suggestion API Route
+ *
+ * POST /api/ai/price-suggestion
+ *
+ * PURPOSE:
+ * "Similar items sold for ..." next to the price input in ItemForm and in
+ * the counter-offer modal. Finds sold items like the one being priced and
+ * turns what they sold for into a range (lib/ai/pricing).
+ *
+ * Request, one of:
+ * - { itemId: "0xabc..." }                        a listed item (counter-offers)
+ * - { title, description?, condition?, brand? }   a draft (the listing form)
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   suggestion: {
+ *     low: 8.5, suggested: 10, high: 12,          // SUI
+ *     basedOn: 11,
+ *     comparables: [{ itemId, title, condition, brand, soldPrice, soldAtMs, similarity, weight }, ...]
+ *   }
+ * }
+ * suggestion is null when too few similar items have sold.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { PricingError, suggestPrice, type PriceTarget } from '@/lib/ai/pricing';
+import { isValidSuiAddress } from '@/lib/types/sui-objects';
+
+// Public read, like /api/ai/similar
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  let target: PriceTarget;
+  if (body.itemId !== undefined) {
+    if (typeof body.itemId !== 'string' || !isValidSuiAddress(body.itemId)) {
+      return NextResponse.json({ error: 'itemId must be a Sui object ID' }, { status: 400 });
+    }
+    target = { itemId: body.itemId };
+  } else {
+    target = {
+      title: optionalString(body.title) ?? '',
+      description: optionalString(body.description),
+      condition: optionalString(body.condition),
+      brand: optionalString(body.brand),
+    };
+  }
+
+  try {
+    const suggestion = await suggestPrice(supabase, target);
+    return NextResponse.json({ success: true, suggestion });
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[price-suggestion] Failed:', error);
+    return NextResponse.json(
+      { error: 'Could not suggest a price', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Re-embedding Job API
+ *
+ * GET  /api/ai/reembed → { success, job } (latest job's progress, or null)
+ * POST /api/ai/reembed → { success, job, ... }
+ *
+ * Rebuilds the search index after an embedding model or template change
+ * (see lib/ai/reembed). Operator-only: Bearer INDEXER_SECRET, the same
+ * guard as the indexer routes.
+ *
+ * POST body:
+ *   { action: 'start', dryRun?: boolean }
+ *   { action: 'run', batchSize?, maxItems?, minIntervalMs? }   (default action)
+ *   { action: 'swap', force?: boolean }
+ *   { action: 'cancel' }
+ *
+ * Typical use: start (optionally a dry run first), then call run on a
+ * cron every minute until the job reports status "ready", then swap and
+ * point EMBEDDING_* at the new model.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ReembedError,
+  cancelReembedJob,
+  getReembedProgress,
+  runReembedJob,
+  startReembedJob,
+  swapReembedJob,
+} from '@/lib/ai/reembed';
+import { isAuthorizedIndexerRequest } from '@/lib/indexer/authorize';
+import { getSupabaseAdminClient } from '@/lib/supabase/server';
+
+const optionalNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedIndexerRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const job = await getReembedProgress(getSupabaseAdminClient());
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('[reembed] Progress failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to load re-embedding progress', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedIndexerRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const action = body.action ?? 'run';
+  const client = getSupabaseAdminClient();
+
+  try {
+    switch (action) {
+      case 'start': {
+        const job = await startReembedJob(client, { dryRun: body.dryRun === true });
+        return NextResponse.json({ success: true, job });
+      }
+      case 'run': {
+        const job = await runReembedJob(client, {
+          batchSize: optionalNumber(body.batchSize),
+          maxItems: optionalNumber(body.maxItems),
+          minIntervalMs: optionalNumber(body.minIntervalMs),
+        });
+        return NextResponse.json({ success: true, job });
+      }
+      case 'swap': {
+        const { progress, dropped, savedSearches } = await swapReembedJob(client, { force: body.force === true });
+        return NextResponse.json({ success: true, job: progress, dropped, savedSearches });
+      }
+      case 'cancel': {
+        const job = await cancelReembedJob(client);
+        return NextResponse.json({ success: true, job });
+      }
+      default:
+        return NextResponse.json(
+          { error: 'action must be one of start, run, swap, cancel' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    if (error instanceof ReembedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[reembed] ${action} failed:`, error);
+    return NextResponse.json(
+      { error: `Re-embedding ${action} failed`, details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
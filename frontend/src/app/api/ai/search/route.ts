@@ -4,18 +4,30 @@
  * POST /api/ai/search
  *
  * PURPOSE:
- * Enable semantic search for marketplace items using AI-powered vector similarity.
+ * Enable search for marketplace items that understands meaning (vector
+ * similarity) and still finds exact words (keyword match) - see
+ * lib/ai/hybrid-search for how the two rankings are fused.
  *
  * COMPLETE USER FLOW:
  *
  * 1. USER SEARCHES (Frontend):
  *    - User types query: "vintage leather jacket"
  *    - Frontend calls: POST /api/ai/search { query: "vintage leather jacket" }
+ *      (optionally with filters: { category, condition, brand, size, color,
+ *      minPrice, maxPrice })
+ *    - Or searches by photo: { image: "data:image/jpeg;base64,...", query?: "..." }
  *
  * 2. THIS API DOES:
- *    a. Convert query text to embedding vector [0.023, -0.145, ..., 0.892]
- *    b. Query Supabase with vector similarity search
- *    c. Return matching Sui object IDs sorted by relevance (highest first)
+ *    a. Split the query into structured filters and descriptive text
+ *       (lib/ai/query-parser): "levis jeans under 5 SUI" → { text: "levis jeans",
+ *       brand: "Levi's", maxPrice: 5 }. Explicit request filters win.
+ *    b. Convert the text to an embedding vector [0.023, -0.145, ..., 0.892]
+ *       (and the photo, if any, via embedImage)
+ *    c. Query Supabase with keyword and vector search, same filters on both
+ *    d. Fuse the two rankings (reciprocal rank fusion)
+ *    e. Return matching Sui object IDs sorted by relevance (highest first),
+ *       how each matched (visually and/or by text), facet counts over those
+ *       results, and the interpretation used so the UI can show and edit it
  *
  * 3. FRONTEND DOES:
  *    a. Receives: ["0xabc...", "0xdef...", ...] (sorted by relevance)
@@ -34,15 +46,14 @@
  *        │
  *        ▼
  * ┌──────────────┐
- * │  Supabase    │ Vector similarity search (pgvector)
- * │              │ Calculates cosine similarity for each item
- * │              │ WHERE similarity > 0.7
- * │              │ ORDER BY similarity DESC
+ * │  Supabase    │ search_items_by_keyword() ─┐
+ * │              │ search_items_by_embedding()├─ RRF → ranked IDs
+ * │              │ (filters applied in both)  ┘
  * └──────┬───────┘
  *        │
  *        ▼
  * ┌──────────────┐
- * │  Returns     │ ["0xabc...", "0xdef...", ...] (sorted by relevance)
+ * │  Returns     │ ["0xabc...", ...] (sorted by relevance) + facets
  * └──────┬───────┘
  *        │
  *        ▼
@@ -71,14 +82,35 @@
  * - Query: "jacket" → Only finds items with word "jacket"
  * - Query: "coat" → Misses jackets entirely
  *
- * Semantic Search (This API):
+ * Semantic Search:
  * - Query: "vintage jacket" → Finds "retro coat", "classic leather jacket"
  * - Query: "brown leather jacket" → Understands: brown=color, leather=material
  * - Query: "warm winter coat" → Finds jackets, parkas, sweaters
+ * - Query: "levis 32x30" → Misses: the exact size and brand tokens blur away
+ *
+ * Hybrid Search (This API):
+ * - Gets both: keyword matches on "levis" and "32x30" rank next to the
+ *   semantic matches, and items matching both ways rank highest
+ *
+ * RATE LIMIT:
+ * Searching needs no sign-in, but each search can cost a query-parser and
+ * a vision call, so callers get SEARCH_RATE_LIMIT searches per minute:
+ * per address when signed in, per IP otherwise (429 with Retry-After).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { embedText } from '@/lib/ai/embeddings';
+import { embedImage, embedText } from '@/lib/ai/embeddings';
+import { getEmbeddingProvider } from '@/lib/ai/embedding-providers';
+import {
+  hybridSearch,
+  parseSearchFilters,
+  type MatchSource,
+  type SearchFacets,
+  type SearchFiltersJson,
+} from '@/lib/ai/hybrid-search';
+import { applyExplicitFilters, interpretQuery, type QueryInterpretation } from '@/lib/ai/query-parser';
+import { getServerSession } from '@/lib/session/server';
+import { clientIp, SlidingWindowRateLimiter } from '@/lib/sponsor/rate-limit';
 import { createClient } from '@supabase/supabase-js';
 
 // ============================================================================
@@ -98,22 +130,36 @@ const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
+// Photos arrive as data URLs; ~7MB of base64 is a ~5MB image
+const MAX_IMAGE_LENGTH = 7_000_000;
+
+const SEARCH_LIMIT = Number(process.env.SEARCH_RATE_LIMIT ?? 30);
+const SEARCH_WINDOW_MS = 60 * 1000;
+
+const limiter = new SlidingWindowRateLimiter(SEARCH_LIMIT, SEARCH_WINDOW_MS);
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
 interface SearchRequest {
-  query: string; // User's search query (e.g., "vintage leather jacket")
+  query?: string; // User's search query (e.g., "vintage leather jacket"), optional with `image`
+  image?: string; // Photo to find look-alikes of, as a data URL
   similarityThreshold?: number; // Minimum similarity score (0-1), default 0.5
   maxResults?: number; // Maximum results to return, default 20
   useCombined?: boolean; // Use combined embedding (true) or title only (false)
+  interpret?: boolean; // Pull filters out of the query text, default true
+  filters?: SearchFiltersJson; // category, condition, brand, size, color, minPrice/maxPrice (MIST)
 }
 
 interface SearchResponse {
   success: boolean;
   query: string;
   results: string[]; // Array of sui_object_ids, sorted by relevance (highest first)
+  matchedBy: Record<string, MatchSource[]>; // Per result: "visual" (photo looks alike) and/or "text"
   count: number;
+  facets: SearchFacets; // Counts over `results`, for filter chips
+  interpretation: QueryInterpretation | null; // Text and filters actually searched with
 }
 
 // ============================================================================
@@ -126,25 +172,51 @@ interface SearchResponse {
  * Semantic search for marketplace items
  */
 export async function POST(request: NextRequest) {
+  const session = getServerSession(request);
+  const limit = limiter.take(session ? `address:${session.address}` : `ip:${clientIp(request.headers)}`);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Search limit reached, try again shortly' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+    );
+  }
+
   try {
     // 1. Parse request body
     const body: SearchRequest = await request.json();
     const {
-      query,
+      query = '',
+      image,
       similarityThreshold = 0.3, // Default: 30% similarity (optimized for text-only embeddings)
       maxResults = 20, // Default: top 20 results
       useCombined = true, // Default: use multimodal embeddings
+      interpret = true, // Default: understand "under 5 SUI", "size M", ...
     } = body;
+    const filters = parseSearchFilters(body.filters);
 
     // 2. Validate input
-    if (!query || typeof query !== 'string') {
+    if (typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'query must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (image !== undefined && (typeof image !== 'string' || !/^data:image\/[\w.+-]+;base64,/.test(image))) {
       return NextResponse.json(
-        { error: 'query is required and must be a string' },
+        { error: 'image must be an image data URL' },
         { status: 400 }
       );
     }
 
-    if (query.trim().length === 0) {
+    if (image && image.length > MAX_IMAGE_LENGTH) {
+      return NextResponse.json(
+        { error: 'image is too large (max ~5MB)' },
+        { status: 413 }
+      );
+    }
+
+    if (query.trim().length === 0 && !image) {
       return NextResponse.json(
         { error: 'query cannot be empty' },
         { status: 400 }
@@ -165,31 +237,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`[search] Query: "${query}"`);
+    if ('error' in filters) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+
+    console.log(`[search] Query: "${query}"${image ? ' + photo' : ''}`);
     console.log(`[search] Config: threshold=${similarityThreshold}, max=${maxResults}, type=${useCombined ? 'combined' : 'title'}`);
 
-    // 3. Generate embedding for search query
-    console.log('[search] Generating query embedding...');
-    const queryEmbedding = await embedText(query);
+    // 3. Understand the query (explicit filters override parsed ones)
+    const parsed = !query.trim() ? null : interpret ? await interpretQuery(query) : { text: query.trim() };
+    const { interpretation, searchFilters } = applyExplicitFilters(parsed ?? { text: '' }, filters.filters);
+    console.log('[search] Interpretation:', interpretation);
 
-    console.log(`[search] Query embedding generated: ${queryEmbedding.length} dimensions`);
+    // 4. Generate embeddings for the descriptive text and the photo
+    console.log('[search] Generating query embeddings...');
+    const provider = getEmbeddingProvider();
+    const [textEmbedding, imageEmbedding] = await Promise.all([
+      interpretation.text ? embedText(interpretation.text, provider) : undefined,
+      image ? embedImage(image) : undefined,
+    ]);
 
-    // 4. Search Supabase using vector similarity
-    console.log('[search] Searching Supabase for similar items...');
-    const resultIds = await searchSupabase(queryEmbedding, {
+    // 5. Keyword + vector (+ photo) search, fused
+    console.log('[search] Searching Supabase...');
+    const { results, facets } = await hybridSearch(supabase, {
+      text: interpretation.text,
+      textEmbedding,
+      imageEmbedding,
+      model: provider.model,
+    }, {
+      filters: searchFilters,
       similarityThreshold,
       maxResults,
       useCombined,
     });
+    const resultIds = results.map(result => result.id);
 
     console.log(`[search] ✅ Found ${resultIds.length} matching items`);
 
-    // 5. Return results (already sorted by relevance)
+    // 6. Return results (already sorted by fused relevance)
     const response: SearchResponse = {
       success: true,
       query,
-      results: resultIds, // Array of sui_object_ids, sorted by similarity (highest first)
+      results: resultIds, // Array of sui_object_ids, sorted by relevance (highest first)
+      matchedBy: Object.fromEntries(results.map(result => [result.id, result.matchedBy])),
       count: resultIds.length,
+      facets,
+      interpretation: parsed ? interpretation : null,
     };
 
     return NextResponse.json(response);
@@ -206,83 +299,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Search Supabase for similar items using vector similarity
- *
- * INTEGRATION: Supabase PostgreSQL with pgvector extension
- *
- * HOW IT WORKS:
- * 1. Calls Supabase function `search_items_by_embedding()` (defined in supabase-schema.sql)
- * 2. Function uses pgvector's cosine distance operator (<=>)
- * 3. For each item in database:
- *    - Calculates: similarity = 1 - (item_embedding <=> query_embedding)
- *    - Filters: Only keep items where similarity > threshold
- * 4. Sorts by similarity (highest first) using ORDER BY
- * 5. Limits to max_results
- *
- * COSINE SIMILARITY CALCULATION:
- * - pgvector's <=> operator calculates cosine distance (0 = identical, 2 = opposite)
- * - We convert to similarity: 1 - distance = similarity (0 = different, 1 = identical)
- * - Example:
- *   Query: "vintage jacket" [0.023, -0.145, 0.892, ...]
- *   Item A: "retro coat"    [0.019, -0.152, 0.887, ...] → distance=0.08 → similarity=0.92 ✅
- *   Item B: "red dress"     [0.654, 0.234, -0.123, ...] → distance=0.78 → similarity=0.22 ❌
- *
- * PERFORMANCE (IVFFlat Index):
- * - Without index: Compares against ALL items (slow for 10,000+ items)
- * - With IVFFlat: Clusters similar vectors, only searches relevant clusters (50-100x faster)
- * - Index created in supabase-schema.sql lines 49-50
- *
- * SORTING:
- * - Results are ALREADY SORTED by similarity (highest first)
- * - Supabase function orders by: `ORDER BY embedding <=> query_embedding`
- * - This means: results[0] = most relevant, results[N] = least relevant (but still > threshold)
- *
- * @param queryEmbedding - 768-dimensional embedding vector
- * @param options - Search options
- * @returns Array of sui_object_ids, sorted by relevance (highest first)
- */
-async function searchSupabase(
-  queryEmbedding: number[],
-  options: {
-    similarityThreshold: number;
-    maxResults: number;
-    useCombined: boolean;
-  }
-): Promise<string[]> {
-  try {
-    // Call Supabase function (defined in supabase-schema.sql lines 124-155)
-    const { data, error } = await supabase.rpc('search_items_by_embedding', {
-      query_embedding: queryEmbedding,
-      similarity_threshold: options.similarityThreshold,
-      max_results: options.maxResults,
-      use_combined: options.useCombined,
-    });
-
-    if (error) {
-      throw error;
-    }
-
-    // Extract only sui_object_ids (results are already sorted by similarity DESC)
-    const resultIds: string[] = (data || []).map((row: any) => row.sui_object_id);
-
-    console.log('[searchSupabase] ✅ Found results:', {
-      count: resultIds.length,
-    });
-
-    return resultIds;
-  } catch (error) {
-    console.error('[searchSupabase] Error:', error);
-    throw new Error(
-      `Failed to search Supabase: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
-  }
-}
-
 // ============================================================================
 // USAGE EXAMPLE (from frontend)
 // ============================================================================
@@ -301,7 +317,8 @@ async function searchSupabase(
  *     query,
  *     similarityThreshold: 0.7,  // Optional: minimum similarity
  *     maxResults: 20,             // Optional: max results
- *     useCombined: true           // Optional: use multimodal embeddings
+ *     useCombined: true,          // Optional: use multimodal embeddings
+ *     filters: { size: 'M' }      // Optional: category, condition, brand, size, color, minPrice, maxPrice
  *   })
  * });
  *
@@ -310,7 +327,9 @@ async function searchSupabase(
  * //   success: true,
  * //   query: "vintage leather jacket",
  * //   results: ["0xabc123...", "0xdef456...", "0xghi789..."], // Sorted by relevance
- * //   count: 3
+ * //   count: 3,
+ * //   facets: { category: [{ value: "Outerwear", count: 2 }, ...], condition: [...], size: [...], price: [...] },
+ * //   interpretation: { text: "vintage leather jacket" }
  * // }
  *
  * // Step 3: Fetch full item data from Sui blockchain
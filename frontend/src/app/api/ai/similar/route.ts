@@ -0,0 +1,112 @@
+/**
+ * Similar Items API Route
+ *
+ * GET /api/ai/similar?id=0xabc...
+ *
+ * PURPOSE:
+ * "More like this" on the item page: the nearest neighbours of an item in
+ * the search index. Uses the item's stored combined_embedding, so unlike
+ * /api/ai/search no Gemini call is made.
+ *
+ * Query parameters:
+ * - id: sui_object_id of the item (required)
+ * - limit: max results, 1-24 (default 8)
+ * - excludeSeller: "true" to leave out the item's seller's other listings
+ *
+ * Sold and cancelled items are left out via the marketplace projection
+ * (similar_items() in supabase-schema.sql). The projection can lag the
+ * chain, so the frontend still checks status when it fetches the items.
+ *
+ * Response: { success, itemId, results: ["0x...", ...], count }
+ * (results sorted by similarity, highest first; empty if the item isn't
+ * indexed yet)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getItemById } from '@/lib/sui/queries';
+import { isValidSuiAddress, ItemStatus } from '@/lib/types/sui-objects';
+import { createClient } from '@supabase/supabase-js';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Public read, like /api/ai/search
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 24;
+
+// Below this, neighbours stop looking related
+const SIMILARITY_THRESHOLD = 0.3;
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const itemId = params.get('id');
+
+  if (!itemId || !isValidSuiAddress(itemId)) {
+    return NextResponse.json(
+      { error: 'id must be a Sui object ID' },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // The seller comes from the chain rather than the projection, which
+    // may not have seen the item yet
+    let excludeSeller: string | null = null;
+    if (params.get('excludeSeller') === 'true') {
+      const item = await getItemById(itemId);
+      if (!item) {
+        return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+      }
+      excludeSeller = item.fields.seller;
+    }
+
+    const { data, error } = await supabase.rpc('similar_items', {
+      p_item_id: itemId,
+      max_results: limit,
+      similarity_threshold: SIMILARITY_THRESHOLD,
+      p_exclude_seller: excludeSeller,
+      p_status: ItemStatus.Active,
+    });
+
+    if (error) {
+      throw new Error(`Similar items query failed: ${error.message}`);
+    }
+
+    const results = ((data ?? []) as { sui_object_id: string }[]).map(row => row.sui_object_id);
+
+    return NextResponse.json({
+      success: true,
+      itemId,
+      results,
+      count: results.length,
+    });
+  } catch (error) {
+    console.error('[similar] Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load similar items',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
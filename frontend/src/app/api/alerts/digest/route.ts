@@ -0,0 +1,33 @@
+/**
+ * API Route: Send saved-search digests
+ *
+ * POST /api/alerts/digest → { success, sent, failed }
+ *
+ * Run on a schedule (e.g. hourly cron with Bearer INDEXER_SECRET, the
+ * same guard as the indexer routes). Each saved search with an email or
+ * webhook target gets one message listing the alerts it hasn't been sent
+ * yet. Item links use NEXT_PUBLIC_APP_URL, or this request's origin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getDigestChannels, sendAlertDigests } from '@/lib/ai/saved-searches'
+import { isAuthorizedIndexerRequest } from '@/lib/indexer/authorize'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedIndexerRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const result = await sendAlertDigests(getSupabaseAdminClient(), getDigestChannels(), appUrl)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('[api/alerts/digest] Failed:', error)
+    return NextResponse.json(
+      { error: 'Failed to send digests', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API Route: Saved-search alerts (in-app notifications)
+ *
+ * GET  /api/alerts → { success, alerts: SearchAlert[], unread: number }
+ *      (newest first, up to 50)
+ * POST /api/alerts   { ids?: number[] } marks those alerts (or all) read
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { listAlerts, markAlertsRead } from '@/lib/ai/saved-searches'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  try {
+    const { alerts, unread } = await listAlerts(getSupabaseAdminClient(), session.address)
+    return NextResponse.json({ success: true, alerts, unread })
+  } catch (error) {
+    console.error('[api/alerts] Failed to list alerts:', error)
+    return NextResponse.json({ error: 'Failed to load alerts' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { ids } = body as { ids?: unknown }
+  if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id)))) {
+    return NextResponse.json({ error: 'ids must be an array of alert ids' }, { status: 400 })
+  }
+
+  try {
+    await markAlertsRead(getSupabaseAdminClient(), session.address, ids as number[] | undefined)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[api/alerts] Failed to mark alerts read:', error)
+    return NextResponse.json({ error: 'Failed to update alerts' }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * API Route: Home feed
+ *
+ * GET /api/feed
+ *
+ * Query parameters (all optional):
+ * - limit: items, 1-50 (default 20)
+ * - freshness: 0-1, how much recency counts against taste similarity (default 0.2)
+ * - diversity: 0-1, penalty for repeating a category or seller (default 0.3)
+ *
+ * Signed-in callers (session cookie, see lib/session/server) get a feed
+ * ranked by their taste profile; others get trending items (lib/ai/feed).
+ * freshness and diversity only apply to the personalized feed.
+ *
+ * Response: { success, kind: 'for-you' | 'trending', items: ["0x...", ...] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getHomeFeed } from '@/lib/ai/feed'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    )
+  }
+
+  const controls: { freshness?: number; diversity?: number } = {}
+  for (const key of ['freshness', 'diversity'] as const) {
+    const raw = params.get(key)
+    if (raw === null) continue
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      return NextResponse.json({ error: `${key} must be between 0 and 1` }, { status: 400 })
+    }
+    controls[key] = value
+  }
+
+  const session = getServerSession(request)
+
+  try {
+    const feed = await getHomeFeed(getSupabaseAdminClient(), session?.address ?? null, { limit, ...controls })
+    return NextResponse.json({ success: true, ...feed })
+  } catch (error) {
+    console.error('[api/feed] Failed to build feed:', error)
+    return NextResponse.json(
+      { error: 'Failed to load feed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: Record an item view
+ *
+ * POST /api/feed/view
+ *   { itemId: string }
+ *
+ * Called by the item page. Views by signed-in callers feed their taste
+ * profile and the trending feed; without a session nothing is stored
+ * (204 either way, so the page doesn't need to know).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { recordItemView } from '@/lib/ai/feed'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+import { isValidSuiAddress } from '@/lib/types/sui-objects'
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const { itemId } = body as { itemId?: unknown }
+
+  if (typeof itemId !== 'string' || !isValidSuiAddress(itemId)) {
+    return NextResponse.json({ error: 'itemId must be a Sui object ID' }, { status: 400 })
+  }
+
+  const session = getServerSession(request)
+  if (!session) {
+    return new NextResponse(null, { status: 204 })
+  }
+
+  try {
+    await recordItemView(getSupabaseAdminClient(), session.address, itemId)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('[api/feed/view] Failed to record view:', error)
+    return NextResponse.json({ error: 'Failed to record view' }, { status: 500 })
+  }
+}
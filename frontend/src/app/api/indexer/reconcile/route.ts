@@ -0,0 +1,38 @@
+/**
+ * API Route: Reconcile marketplace projection with chain
+ *
+ * POST /api/indexer/reconcile
+ *
+ * Walks the on-chain Marketplace Tables, compares them with the Supabase
+ * projection and repairs any drift (missing, stale or orphaned rows).
+ * This is the slow path - run it occasionally, not on every sync.
+ *
+ * Optional JSON body: { dryRun?: boolean } - report drift without writing
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { reconcileProjection } from '@/lib/indexer/indexer'
+import { SupabaseProjectionStore } from '@/lib/indexer/supabase-store'
+import { isAuthorizedIndexerRequest } from '@/lib/indexer/authorize'
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedIndexerRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+
+    const report = await reconcileProjection(new SupabaseProjectionStore(), {
+      dryRun: body.dryRun === true,
+    })
+
+    return NextResponse.json({ success: true, ...report })
+  } catch (error) {
+    console.error('[indexer/reconcile] Reconcile failed:', error)
+    return NextResponse.json(
+      { error: 'Indexer reconcile failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * API Route: Sync marketplace event projection
+ *
+ * POST /api/indexer/sync
+ *
+ * Applies contract events emitted since the last checkpoint to the Supabase
+ * projection tables and pushes them to the realtime channels. Call it on a
+ * schedule (e.g. every minute from a cron); repeated calls are cheap once
+ * the projection is caught up.
+ *
+ * Authorized callers (Bearer INDEXER_SECRET) may send:
+ *   { batchSize?: number, maxBatches?: number }
+ *
+ * Browsers may nudge a short sync right after their own transaction with:
+ *   { txDigest: string }
+ * The digest must belong to a marketplace transaction, which keeps the
+ * unauthenticated path from being used as a free trigger, and each IP gets
+ * INDEXER_NUDGE_RATE_LIMIT nudges per minute, so replaying old digests
+ * can't keep sync batches running. Offers changed by
+ * entry functions that emit no event (accept_offer_by_id and friends) are
+ * re-read from chain and pushed as OfferSynced.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  inspectMarketplaceTransaction,
+  refreshOffers,
+  syncMarketplaceEvents,
+  type MarketplaceTransactionInfo,
+} from '@/lib/indexer/indexer'
+import { SupabaseProjectionStore } from '@/lib/indexer/supabase-store'
+import { isAuthorizedIndexerRequest } from '@/lib/indexer/authorize'
+import { SupabaseEventBroadcaster } from '@/lib/realtime/broadcaster'
+import { clientIp, SlidingWindowRateLimiter } from '@/lib/sponsor/rate-limit'
+
+const NUDGE_MAX_BATCHES = 2
+const NUDGE_LIMIT = Number(process.env.INDEXER_NUDGE_RATE_LIMIT ?? 10)
+const NUDGE_WINDOW_MS = 60 * 1000
+
+const nudgeLimiter = new SlidingWindowRateLimiter(NUDGE_LIMIT, NUDGE_WINDOW_MS)
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const authorized = isAuthorizedIndexerRequest(request)
+
+  const txDigest = typeof body.txDigest === 'string' && body.txDigest ? body.txDigest : null
+
+  if (!authorized && !txDigest) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!authorized) {
+    const limit = nudgeLimiter.take(clientIp(request.headers))
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sync requests, try again later' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+      )
+    }
+  }
+
+  let tx: MarketplaceTransactionInfo | null = null
+  if (txDigest) {
+    try {
+      tx = await inspectMarketplaceTransaction(txDigest)
+    } catch (error) {
+      console.warn(`[indexer/sync] Could not inspect transaction ${txDigest}:`, error)
+    }
+
+    if (!authorized && (!tx || (!tx.emitsEvents && tx.eventlessOfferIds.length === 0))) {
+      return NextResponse.json(
+        { error: 'Transaction is not a marketplace transaction' },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    const store = new SupabaseProjectionStore()
+    const broadcaster = new SupabaseEventBroadcaster()
+
+    const result = await syncMarketplaceEvents(store, {
+      batchSize: authorized && typeof body.batchSize === 'number' ? body.batchSize : undefined,
+      maxBatches: authorized
+        ? (typeof body.maxBatches === 'number' ? body.maxBatches : undefined)
+        : NUDGE_MAX_BATCHES,
+      broadcaster,
+    })
+
+    let refreshed = 0
+    if (txDigest && tx && tx.eventlessOfferIds.length > 0) {
+      const offers = await refreshOffers(store, tx.eventlessOfferIds)
+      await broadcaster.publishOfferSync(txDigest, offers)
+      refreshed = offers.length
+    }
+
+    return NextResponse.json({ success: true, ...result, refreshed })
+  } catch (error) {
+    console.error('[indexer/sync] Sync failed:', error)
+    return NextResponse.json(
+      { error: 'Indexer sync failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * API Route: Browse marketplace items
+ *
+ * GET /api/items
+ *
+ * Query parameters (all optional):
+ * - category, condition, brand, size, color: facet filters (case-insensitive)
+ * - seller: seller address
+ * - q: free-text match on title, description and brand
+ * - minPrice, maxPrice: price bounds in MIST
+ * - status: 0=active (default), 1=sold, 2=cancelled, "all" for any
+ * - sort: newest (default) | price_asc | price_desc | ending_soon
+ * - limit: page size, 1-100 (default 24)
+ * - cursor: opaque cursor from a previous response's nextCursor
+ *
+ * Filtering, sorting and pagination happen server-side, so every page is
+ * full until the results run out. Cursors are only valid for the same
+ * filters and sort they were issued for.
+ *
+ * Response: { success, items, nextCursor, hasNextPage }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAllItems } from '@/lib/sui/queries'
+import { ITEM_SORT_ORDERS, ItemStatus } from '@/lib/types/sui-objects'
+import type { ItemQueryFilters, ItemSortOrder } from '@/lib/types/sui-objects'
+
+const DEFAULT_LIMIT = 24
+const MAX_LIMIT = 100
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+
+  const parsed = parseFilters(params)
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const page = await getAllItems(parsed.filters, {
+      cursor: params.get('cursor') || undefined,
+      limit,
+    })
+
+    return NextResponse.json({
+      success: true,
+      items: page.data,
+      nextCursor: page.nextCursor,
+      hasNextPage: page.hasNextPage,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    // Bad or stale cursors are the caller's problem, not ours
+    if (message.toLowerCase().includes('cursor')) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    console.error('[api/items] Failed to browse items:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch items', details: message },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Turn query parameters into ItemQueryFilters, rejecting malformed values
+ */
+function parseFilters(params: URLSearchParams): { filters: ItemQueryFilters } | { error: string } {
+  const filters: ItemQueryFilters = {}
+
+  for (const key of ['seller', 'category', 'condition', 'brand', 'size', 'color'] as const) {
+    const value = params.get(key)?.trim()
+    if (value) filters[key] = value
+  }
+
+  const text = params.get('q')?.trim()
+  if (text) filters.text = text
+
+  for (const key of ['minPrice', 'maxPrice'] as const) {
+    const value = params.get(key)
+    if (value === null || value === '') continue
+    if (!/^\d+$/.test(value)) {
+      return { error: `${key} must be a non-negative integer amount in MIST` }
+    }
+    filters[key] = BigInt(value)
+  }
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    return { error: 'minPrice cannot be greater than maxPrice' }
+  }
+
+  const status = params.get('status')
+  if (status === null || status === '') {
+    filters.status = ItemStatus.Active
+  } else if (status !== 'all') {
+    const value = Number(status)
+    if (![ItemStatus.Active, ItemStatus.Sold, ItemStatus.Cancelled].includes(value)) {
+      return { error: 'status must be 0 (active), 1 (sold), 2 (cancelled) or "all"' }
+    }
+    filters.status = value
+  }
+
+  const sort = params.get('sort')
+  if (sort) {
+    if (!ITEM_SORT_ORDERS.includes(sort as ItemSortOrder)) {
+      return { error: `sort must be one of: ${ITEM_SORT_ORDERS.join(', ')}` }
+    }
+    filters.sort = sort as ItemSortOrder
+  }
+
+  return { filters }
+}
@@ -0,0 +1,30 @@
+/**
+ * API Route: Moderation status of the seller's listings
+ *
+ * GET /api/moderation → { success, listings: StoredVerdict[] }
+ *
+ * The signed-in seller's listings that moderation blocked or is holding
+ * for review, each with its findings (what was matched, and why it isn't
+ * allowed). Approved listings aren't returned. The stash page shows these
+ * next to the seller's items.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { listHiddenListings } from '@/lib/moderation/pipeline'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  try {
+    const listings = await listHiddenListings(getSupabaseAdminClient(), session.address)
+    return NextResponse.json({ success: true, listings })
+  } catch (error) {
+    console.error('[api/moderation] Failed to list verdicts:', error)
+    return NextResponse.json({ error: 'Failed to load moderation status' }, { status: 500 })
+  }
+}
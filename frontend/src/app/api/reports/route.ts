@@ -0,0 +1,66 @@
+/**
+ * API Route: Report a listing
+ *
+ * POST /api/reports
+ *   { itemId: string, reason: ReportReason, details?: string }
+ * → { success, report }
+ *
+ * Shoppers flag a listing for the admin moderation queue (/admin). Signed
+ * in only, not for your own listing, once per listing while the report is
+ * open (409), and REPORT_RATE_LIMIT reports per address per hour.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createReport, ModerationAdminError } from '@/lib/moderation/admin'
+import { getServerSession } from '@/lib/session/server'
+import { SlidingWindowRateLimiter } from '@/lib/sponsor/rate-limit'
+import { getItemById } from '@/lib/sui/queries'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+const REPORT_LIMIT = Number(process.env.REPORT_RATE_LIMIT ?? 10)
+const REPORT_WINDOW_MS = 60 * 60 * 1000
+
+const limiter = new SlidingWindowRateLimiter(REPORT_LIMIT, REPORT_WINDOW_MS)
+
+export async function POST(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in to report listings' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  if (typeof body.itemId !== 'string') {
+    return NextResponse.json({ error: 'itemId is required' }, { status: 400 })
+  }
+
+  const limit = limiter.take(session.address)
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many reports, try again later' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+    )
+  }
+
+  try {
+    const item = await getItemById(body.itemId)
+    if (!item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 })
+    }
+    if (item.fields.seller === session.address) {
+      return NextResponse.json({ error: 'You can\'t report your own listing' }, { status: 400 })
+    }
+
+    const report = await createReport(getSupabaseAdminClient(), session.address, {
+      itemId: item.objectId,
+      reason: body.reason,
+      details: body.details,
+    })
+    return NextResponse.json({ success: true, report }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ModerationAdminError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[api/reports] Failed to report:', error)
+    return NextResponse.json({ error: 'Failed to send report' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * API Route: One saved search
+ *
+ * PATCH  /api/saved-searches/:id
+ *   { name?, similarityThreshold?, notifyEmail?: string | null, webhookUrl?: string | null }
+ *   → { success, savedSearch, confirmationSent }
+ * DELETE /api/saved-searches/:id → { success } (its alerts go with it)
+ *
+ * Only the signed-in owner may change or delete a search; anyone else
+ * gets 404. Saving an unconfirmed notifyEmail mails a new confirmation link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  deleteSavedSearch,
+  SavedSearchError,
+  sendEmailConfirmation,
+  updateSavedSearch,
+} from '@/lib/ai/saved-searches'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+type Context = { params: Promise<{ id: string }> }
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof SavedSearchError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  console.error(`[api/saved-searches] Failed to ${action}:`, error)
+  return NextResponse.json({ error: `Failed to ${action} saved search` }, { status: 500 })
+}
+
+export async function PATCH(request: NextRequest, { params }: Context) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const body = await request.json().catch(() => ({}))
+
+  try {
+    const client = getSupabaseAdminClient()
+    const savedSearch = await updateSavedSearch(client, session.address, id, {
+      name: body.name,
+      similarityThreshold: body.similarityThreshold,
+      notifyEmail: body.notifyEmail,
+      webhookUrl: body.webhookUrl,
+    })
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const confirmationSent = body.notifyEmail !== undefined &&
+      await sendEmailConfirmation(client, savedSearch, appUrl)
+    return NextResponse.json({ success: true, savedSearch, confirmationSent })
+  } catch (error) {
+    return errorResponse(error, 'update')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Context) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  try {
+    await deleteSavedSearch(getSupabaseAdminClient(), session.address, id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'delete')
+  }
+}
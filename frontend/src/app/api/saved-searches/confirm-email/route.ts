@@ -0,0 +1,28 @@
+/**
+ * API Route: Confirm a saved search's digest email
+ *
+ * GET /api/saved-searches/confirm-email?token=... → redirect to
+ * /stash?tab=saved-searches&emailConfirmed=1 (or 0 for a used or unknown link)
+ *
+ * The link is mailed by sendEmailConfirmation; opening it proves the
+ * address belongs to whoever saved the search, so digests may go to it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmNotifyEmail } from '@/lib/ai/saved-searches'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') ?? ''
+
+  let confirmed = false
+  try {
+    confirmed = await confirmNotifyEmail(getSupabaseAdminClient(), token)
+  } catch (error) {
+    console.error('[api/saved-searches/confirm-email] Failed:', error)
+  }
+
+  return NextResponse.redirect(
+    new URL(`/stash?tab=saved-searches&emailConfirmed=${confirmed ? 1 : 0}`, request.nextUrl.origin)
+  )
+}
@@ -0,0 +1,74 @@
+/**
+ * API Route: Saved searches
+ *
+ * GET  /api/saved-searches → { success, savedSearches: SavedSearch[] }
+ * POST /api/saved-searches
+ *   { query: string, name?: string, filters?: SearchFiltersJson,
+ *     similarityThreshold?: number, notifyEmail?: string, webhookUrl?: string }
+ * → { success, savedSearch, confirmationSent }
+ *
+ * Both act for the signed-in address (session cookie). New items that
+ * match a saved search create alerts (see lib/ai/saved-searches). A
+ * notifyEmail gets a confirmation link; digests are emailed only after it
+ * is opened.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { parseSearchFilters } from '@/lib/ai/hybrid-search'
+import {
+  createSavedSearch,
+  listSavedSearches,
+  SavedSearchError,
+  sendEmailConfirmation,
+} from '@/lib/ai/saved-searches'
+import { getServerSession } from '@/lib/session/server'
+import { getSupabaseAdminClient } from '@/lib/supabase/server'
+
+export async function GET(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in to see saved searches' }, { status: 401 })
+  }
+
+  try {
+    const savedSearches = await listSavedSearches(getSupabaseAdminClient(), session.address)
+    return NextResponse.json({ success: true, savedSearches })
+  } catch (error) {
+    console.error('[api/saved-searches] Failed to list:', error)
+    return NextResponse.json({ error: 'Failed to load saved searches' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in to save searches' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const parsed = parseSearchFilters(body.filters)
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    const client = getSupabaseAdminClient()
+    const savedSearch = await createSavedSearch(client, session.address, {
+      query: body.query,
+      name: typeof body.name === 'string' ? body.name : undefined,
+      filters: parsed.filters,
+      similarityThreshold: body.similarityThreshold,
+      notifyEmail: body.notifyEmail,
+      webhookUrl: body.webhookUrl,
+    })
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const confirmationSent = await sendEmailConfirmation(client, savedSearch, appUrl)
+    return NextResponse.json({ success: true, savedSearch, confirmationSent }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SavedSearchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[api/saved-searches] Failed to save:', error)
+    return NextResponse.json({ error: 'Failed to save search' }, { status: 500 })
+  }
+}
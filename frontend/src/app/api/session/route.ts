@@ -0,0 +1,56 @@
+/**
+ * API Route: Server session
+ *
+ * GET    /api/session → { address, method, expiresAt } (401 when signed out)
+ * POST   /api/session   { message: string, signature: string }
+ *        → { address, method, expiresAt } and sets the session cookie
+ * DELETE /api/session  clears the cookie
+ *
+ * `message` is a sign-in message (lib/session/identity) signed as a
+ * personal message by the address it names.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  clearSessionCookie,
+  getServerSession,
+  SessionError,
+  setSessionCookie,
+  verifySignIn,
+} from '@/lib/session/server'
+
+export async function GET(request: NextRequest) {
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  return NextResponse.json(session)
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const { message, signature } = body as { message?: unknown; signature?: unknown }
+
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return NextResponse.json({ error: 'Missing message or signature' }, { status: 400 })
+  }
+
+  try {
+    const session = await verifySignIn(message, signature, { domain: request.nextUrl.host })
+    const response = NextResponse.json(session)
+    setSessionCookie(response, session)
+    return response
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[session] Sign-in failed:', error)
+    return NextResponse.json({ error: 'Sign-in failed' }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,37 @@
+/**
+ * API Route: Execute a sponsored transaction
+ *
+ * POST /api/sponsor/execute
+ *   { digest: string, signature: string }
+ * → { digest: string }
+ *
+ * Submits bytes previously returned by POST /api/sponsor together with the
+ * user's signature over them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSponsorBackend, SponsorError } from '@/lib/sponsor/backend'
+
+export async function POST(request: NextRequest) {
+  const backend = getSponsorBackend()
+  if (!backend) {
+    return NextResponse.json({ error: 'Sponsorship is not configured' }, { status: 503 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { digest, signature } = body as { digest?: unknown; signature?: unknown }
+
+  if (typeof digest !== 'string' || !digest || typeof signature !== 'string' || !signature) {
+    return NextResponse.json({ error: 'Missing digest or signature' }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await backend.execute(digest, signature))
+  } catch (error) {
+    console.error(`[sponsor/execute] Execution of ${digest} failed:`, error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Execution failed' },
+      { status: error instanceof SponsorError ? error.status : 502 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * API Route: Sponsor a transaction's gas
+ *
+ * POST /api/sponsor
+ *   { sender: string, transactionKindBytes: string (base64) }
+ * → { bytes: string, digest: string }
+ *
+ * Lets users with no SUI (e.g. fresh zkLogin accounts) list items and make
+ * offers. The kind must only call allowlisted ThriftChain entry functions,
+ * must not touch the gas coin and may only take shared objects and the
+ * sender's own (see lib/sponsor/policy). The sender must
+ * be the signed-in address (session cookie), which is rate limited, and all
+ * sponsorships together share an hourly budget, so fresh keypairs can't
+ * drain the sponsor. The user signs the returned bytes and submits the
+ * signature to POST /api/sponsor/execute.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import { getServerSession } from '@/lib/session/server'
+import { entryFunctionTarget } from '@/lib/sui/contract'
+import { suiClient } from '@/lib/sui/client'
+import { checkSponsorInputs, checkSponsorshipPolicy } from '@/lib/sponsor/policy'
+import { SlidingWindowRateLimiter } from '@/lib/sponsor/rate-limit'
+import { getSponsorBackend, SponsorError } from '@/lib/sponsor/backend'
+
+const SPONSOR_LIMIT = Number(process.env.SPONSOR_RATE_LIMIT ?? 10)
+const SPONSOR_BUDGET = Number(process.env.SPONSOR_GLOBAL_RATE_LIMIT ?? 200)
+const SPONSOR_WINDOW_MS = 60 * 60 * 1000
+
+const limiter = new SlidingWindowRateLimiter(SPONSOR_LIMIT, SPONSOR_WINDOW_MS)
+const budget = new SlidingWindowRateLimiter(SPONSOR_BUDGET, SPONSOR_WINDOW_MS)
+
+export async function POST(request: NextRequest) {
+  const backend = getSponsorBackend()
+  if (!backend) {
+    return NextResponse.json({ error: 'Sponsorship is not configured' }, { status: 503 })
+  }
+
+  const session = getServerSession(request)
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in to use sponsored gas' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { sender, transactionKindBytes } = body as { sender?: unknown; transactionKindBytes?: unknown }
+
+  if (typeof sender !== 'string' || !isValidSuiAddress(sender)) {
+    return NextResponse.json({ error: 'Invalid sender address' }, { status: 400 })
+  }
+  if (typeof transactionKindBytes !== 'string' || !transactionKindBytes) {
+    return NextResponse.json({ error: 'Missing transactionKindBytes' }, { status: 400 })
+  }
+
+  const decision = checkSponsorshipPolicy(transactionKindBytes)
+  if (!decision.allowed) {
+    return NextResponse.json({ error: decision.reason }, { status: 403 })
+  }
+
+  const address = normalizeSuiAddress(sender)
+  if (address !== session.address) {
+    return NextResponse.json({ error: 'Sender is not the signed-in address' }, { status: 403 })
+  }
+
+  // Per address first, so one address over its limit doesn't spend the budget
+  for (const [window, key] of [[limiter, address], [budget, 'all']] as const) {
+    const limit = window.take(key)
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Sponsorship limit reached, try again later' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+      )
+    }
+  }
+
+  try {
+    const refusal = await checkSponsorInputs(transactionKindBytes, address, suiClient)
+    if (refusal) {
+      return NextResponse.json({ error: refusal }, { status: 403 })
+    }
+
+    const sponsored = await backend.sponsor({
+      sender: address,
+      transactionKindBytes,
+      allowedMoveCallTargets: decision.functions.map(entryFunctionTarget),
+    })
+
+    console.log(`[sponsor] ${backend.name} sponsored ${decision.functions.join(', ')} for ${address} (${sponsored.digest})`)
+    return NextResponse.json(sponsored)
+  } catch (error) {
+    console.error('[sponsor] Sponsorship failed:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sponsorship failed' },
+      { status: error instanceof SponsorError ? error.status : 502 }
+    )
+  }
+}
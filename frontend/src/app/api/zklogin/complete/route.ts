@@ -1,8 +1,44 @@
-import { NextResponse } from 'next/server'
+/**
+ * API Route: Complete a zkLogin sign-in
+ *
+ * POST /api/zklogin/complete
+ *   { jwt: string, ephemeralPublicKey: string, maxEpoch: number, randomness: string }
+ * → { address, addressSeed, proof, maxEpoch, iss, displayName }
+ *
+ * Validates the id_token (signature, issuer, audience, expiry, and a nonce
+ * that must match the ephemeral key), then returns the address and proof.
+ */
 
-export async function POST() {
-  return NextResponse.json(
-    { message: 'zkLogin complete not implemented. Configure provider and ZK proof service.' },
-    { status: 501 }
-  )
+import { NextRequest, NextResponse } from 'next/server'
+import { getZkLoginService, issueZkLoginCredentials, ZkLoginError } from '@/lib/zklogin/server'
+
+export async function POST(request: NextRequest) {
+  const zkLogin = getZkLoginService()
+  if (!zkLogin) {
+    return NextResponse.json({ error: 'zkLogin is not configured' }, { status: 503 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const { jwt, ephemeralPublicKey, maxEpoch, randomness } = body as Record<string, unknown>
+
+  if (
+    typeof jwt !== 'string' ||
+    typeof ephemeralPublicKey !== 'string' ||
+    typeof maxEpoch !== 'number' ||
+    typeof randomness !== 'string'
+  ) {
+    return NextResponse.json({ error: 'Missing jwt, ephemeralPublicKey, maxEpoch or randomness' }, { status: 400 })
+  }
+
+  try {
+    const credentials = await issueZkLoginCredentials(zkLogin, { jwt, ephemeralPublicKey, maxEpoch, randomness })
+    console.log(`[zklogin] Signed in ${credentials.address} (prover: ${zkLogin.prover.name})`)
+    return NextResponse.json(credentials)
+  } catch (error) {
+    if (error instanceof ZkLoginError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('[zklogin] Completion failed:', error)
+    return NextResponse.json({ error: 'Could not complete zkLogin' }, { status: 502 })
+  }
 }
@@ -1,35 +1,37 @@
-import { cookies } from 'next/headers'
-import { NextResponse } from 'next/server'
-import { randomBytes } from 'crypto'
+/**
+ * API Route: Start a zkLogin sign-in
+ *
+ * POST /api/zklogin/start-flow
+ *   { nonce: string, state: string }
+ * → { loginUrl: string }
+ *
+ * The nonce is derived in the browser from its ephemeral public key and
+ * max epoch (see lib/zklogin/session); this route only adds the provider
+ * settings, which stay server-side.
+ */
 
-// Scaffolding-only: generates an ephemeral key & nonce and returns a placeholder OAuth URL
-export async function GET() {
-  // Placeholder ephemeral key; replace with real Ed25519 public key from a generated keypair
-  const publicKeyBase64 = randomBytes(32).toString('base64')
-  const nonce = randomBytes(32).toString('base64url')
+import { NextRequest, NextResponse } from 'next/server'
+import { buildAuthorizationUrl, getZkLoginService } from '@/lib/zklogin/server'
 
-  // Persist ephemeral pubkey + nonce for short time (10 mins)
-  const store = await cookies()
-  store.set('zk_ephemeral_pubkey', publicKeyBase64, { httpOnly: true, secure: true, maxAge: 600, sameSite: 'lax', path: '/' })
-  store.set('zk_nonce', nonce, { httpOnly: true, secure: true, maxAge: 600, sameSite: 'lax', path: '/' })
+export async function POST(request: NextRequest) {
+  const zkLogin = getZkLoginService()
+  if (!zkLogin) {
+    return NextResponse.json({ error: 'zkLogin is not configured' }, { status: 503 })
+  }
 
-  // Build a placeholder OAuth URL; you must replace with your IdP settings
-  const redirectUri = process.env.NEXT_PUBLIC_ZKLOGIN_REDIRECT_URL ?? 'http://localhost:3000/auth/callback'
-  const clientId = process.env.ZKLOGIN_OAUTH_CLIENT_ID ?? 'YOUR_CLIENT_ID'
-  const providerAuthUrl = process.env.ZKLOGIN_OAUTH_URL ?? 'https://accounts.google.com/o/oauth2/v2/auth'
+  const body = await request.json().catch(() => ({}))
+  const { nonce, state } = body as { nonce?: unknown; state?: unknown }
+
+  if (typeof nonce !== 'string' || !/^[A-Za-z0-9_-]{27}$/.test(nonce)) {
+    return NextResponse.json({ error: 'Invalid nonce' }, { status: 400 })
+  }
+  if (typeof state !== 'string' || !state) {
+    return NextResponse.json({ error: 'Missing state' }, { status: 400 })
+  }
 
-  const loginUrl = new URL(providerAuthUrl)
-  loginUrl.searchParams.set('client_id', clientId)
-  loginUrl.searchParams.set('redirect_uri', redirectUri)
-  loginUrl.searchParams.set('response_type', 'id_token')
-  loginUrl.searchParams.set('scope', 'openid email profile')
-  loginUrl.searchParams.set('nonce', nonce)
-  loginUrl.searchParams.set('state', 'zklogin')
+  const redirectUri = process.env.NEXT_PUBLIC_ZKLOGIN_REDIRECT_URL ?? 'http://localhost:3000/auth/callback'
 
   return NextResponse.json({
-    loginUrl: loginUrl.toString(),
-    nonce,
-    ephemeralPublicKey: publicKeyBase64,
-    note: 'Configure env vars to use a real OAuth provider and complete zkLogin.'
+    loginUrl: buildAuthorizationUrl(zkLogin.provider, { nonce, state, redirectUri }),
   })
 }
@@ -2,10 +2,12 @@
 
 import { useEffect, useState, useTransition } from "react"
 import Link from "next/link"
-import { useSearchParams } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
+import { finishZkLogin, isPendingZkLogin } from "@/lib/zklogin/session"
 
 export function CallbackClient() {
   const params = useSearchParams()
+  const router = useRouter()
   const [status, setStatus] = useState<string>("Processing...")
   const [idToken, setIdToken] = useState<string | null>(null)
   const [, startTransition] = useTransition()
@@ -19,6 +21,31 @@ export function CallbackClient() {
 
     const completeAuth = async () => {
       const hash = window.location.hash
+      const state = new URLSearchParams(hash.replace(/^#/, '')).get('state')
+
+      if (isPendingZkLogin(state)) {
+        startTransition(() => {
+          if (!isCancelled) {
+            setStatus('Completing zkLogin…')
+          }
+        })
+
+        try {
+          const { returnTo } = await finishZkLogin(hash)
+          if (!isCancelled) {
+            router.replace(returnTo)
+          }
+        } catch (error) {
+          console.error(error)
+          startTransition(() => {
+            if (!isCancelled) {
+              setStatus(error instanceof Error ? error.message : 'Failed to complete zkLogin')
+            }
+          })
+        }
+
+        return
+      }
 
       if (hash) {
         startTransition(() => {
@@ -73,7 +100,7 @@ export function CallbackClient() {
     return () => {
       isCancelled = true
     }
-  }, [params, startTransition])
+  }, [params, router, startTransition])
 
   return (
     <div className="mx-auto max-w-xl p-8">
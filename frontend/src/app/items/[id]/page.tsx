@@ -3,13 +3,17 @@
 import Image from "next/image"
 import { useState, useEffect, useCallback, use } from "react"
 import { useRouter } from "next/navigation"
-import { useWallet } from "@suiet/wallet-kit"
+import { useSession } from "@/lib/session/provider"
 import { Button } from "@/components/ui/button"
 import { getItemById } from "@/lib/sui/queries"
 import type { ThriftItemObject } from "@/lib/types/sui-objects"
-import { mistToSui } from "@/lib/types/sui-objects"
+import { ItemStatus, itemStatusToString, mistToSui } from "@/lib/types/sui-objects"
 import { MakeOfferModal } from "@/components/MakeOfferModal"
+import { SimilarItems } from "@/components/SimilarItems"
+import { ReportListingButton } from "@/components/ReportListingButton"
 import { getWalrusBlobUrl } from "@/lib/walrus/upload"
+import { useMarketplaceEvents } from "@/lib/realtime/hooks"
+import { itemTopic } from "@/lib/realtime/topics"
 
 /**
  * Item Detail Page - View full item details
@@ -19,11 +23,13 @@ import { getWalrusBlobUrl } from "@/lib/walrus/upload"
  * - Complete item details (title, description, price, category, tags)
  * - Seller information
  * - Action buttons (Make Offer if not owner, Cancel Listing if owner)
+ * - "Report listing" for signed-in shoppers who aren't the seller
+ * - "More like this" carousel of similar items
  * - Retro-themed styling
  */
 export default function ItemDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const router = useRouter()
-  const { connected, account } = useWallet()
+  const { connected, address } = useSession()
 
   // Unwrap params Promise (Next.js 15+)
   const { id } = use(params)
@@ -63,6 +69,30 @@ export default function ItemDetailPage({ params }: { params: Promise<{ id: strin
     void loadItem()
   }, [loadItem])
 
+  // Feeds the viewer's "For you" profile (ignored when not signed in)
+  useEffect(() => {
+    fetch("/api/feed/view", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ itemId: id }),
+    }).catch(() => {})
+  }, [id])
+
+  // Keep price and status current while the page is open. The event only
+  // says the item changed; what changed is re-read, not taken from it.
+  const refreshItem = useCallback(async () => {
+    try {
+      const fetchedItem = await getItemById(id)
+      if (fetchedItem) {
+        setItem(fetchedItem)
+      }
+    } catch (err) {
+      console.warn('Failed to refresh item:', err)
+    }
+  }, [id])
+
+  useMarketplaceEvents([itemTopic(id)], refreshItem)
+
   // Format price from MIST to SUI
   const formatPrice = (price: string | bigint) => {
     return mistToSui(price).toFixed(2)
@@ -86,7 +116,8 @@ export default function ItemDetailPage({ params }: { params: Promise<{ id: strin
   }
 
   // Check if current user is the owner
-  const isOwner = account?.address && item?.fields.seller === account.address
+  const isOwner = address && item?.fields.seller === address
+  const isActive = item?.fields.status === ItemStatus.Active
 
   // Handle Make Offer click
   const handleMakeOffer = () => {
@@ -225,8 +256,17 @@ export default function ItemDetailPage({ params }: { params: Promise<{ id: strin
                 <h1 className="text-3xl font-black leading-tight flex-1">
                   {fields.title}
                 </h1>
-                <div className="bg-black text-white px-3 py-1 text-xs font-bold uppercase ml-4">
-                  {fields.category}
+                <div className="flex flex-col items-end gap-2 ml-4">
+                  <div className="bg-black text-white px-3 py-1 text-xs font-bold uppercase">
+                    {fields.category}
+                  </div>
+                  <div
+                    className={`px-3 py-1 text-xs font-bold uppercase border-2 border-black ${
+                      isActive ? "bg-green-200" : "bg-gray-200"
+                    }`}
+                  >
+                    {itemStatusToString(fields.status)}
+                  </div>
                 </div>
               </div>
 
@@ -300,6 +340,15 @@ export default function ItemDetailPage({ params }: { params: Promise<{ id: strin
                     Buyers can make offers on this item
                   </p>
                 </div>
+              ) : !isActive ? (
+                <div className="text-center p-4">
+                  <p className="text-lg font-bold mb-2">
+                    {fields.status === ItemStatus.Sold ? "This item has been sold" : "This listing is no longer available"}
+                  </p>
+                  <p className="text-sm opacity-80">
+                    Offers can no longer be made on this item
+                  </p>
+                </div>
               ) : (
                 <div className="space-y-3">
                   <Button
@@ -313,6 +362,11 @@ export default function ItemDetailPage({ params }: { params: Promise<{ id: strin
                   </p>
                 </div>
               )}
+              {connected && !isOwner && (
+                <div className="mt-4 pt-4 border-t-2 border-black border-dashed">
+                  <ReportListingButton key={item.objectId} itemId={item.objectId} />
+                </div>
+              )}
             </div>
 
             {/* Blockchain Info */}
@@ -335,6 +389,9 @@ export default function ItemDetailPage({ params }: { params: Promise<{ id: strin
             </div>
           </div>
         </div>
+
+        {/* Recommendations (keyed so moving to another item starts empty) */}
+        <SimilarItems key={item.objectId} itemId={item.objectId} />
       </div>
 
       {/* Make Offer Modal */}
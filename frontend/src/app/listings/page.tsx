@@ -1,18 +1,137 @@
 "use client"
 
-import { Suspense, useState, useEffect } from "react"
+import Image from "next/image"
+import { Suspense, useState, useEffect, useRef } from "react"
 import { useSearchParams, useRouter } from "next/navigation"
 import { ItemCard, ItemCardSkeleton } from "@/components/ItemCard"
-import { getAllItems, getItemsByIds } from "@/lib/sui/queries"
-import { ItemStatus } from "@/lib/types/sui-objects"
+import { getItemsByIds } from "@/lib/sui/queries"
+import { ItemStatus, mistToSui, suiToMist } from "@/lib/types/sui-objects"
 import type { ItemCardProps } from "@/components/ItemCard"
+import type { ItemSortOrder, ThriftItemObject } from "@/lib/types/sui-objects"
+import type { MatchSource, SearchFacets } from "@/lib/ai/hybrid-search"
+import type { QueryInterpretation } from "@/lib/ai/query-parser"
+import { SearchInterpretation, type InterpretationDraft } from "@/components/SearchInterpretation"
+import { SaveSearchButton } from "@/components/SaveSearchButton"
+import { CATEGORIES, CONDITIONS } from "@/lib/constants"
+
+const PAGE_SIZE = 24
+
+const SORT_LABELS: Record<ItemSortOrder, string> = {
+  newest: "Newest",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  ending_soon: "Offers ending soon",
+}
+
+// Browse filters kept in the URL so filtered views can be shared/bookmarked
+const FILTER_PARAMS = ["category", "condition", "brand", "size", "color", "keyword", "minPrice", "maxPrice", "sort"] as const
+type FilterParam = (typeof FILTER_PARAMS)[number]
+type BrowseFilters = Partial<Record<FilterParam, string>>
+
+// Filters AI search applies (and returns facet counts for)
+const SEARCH_FILTER_LABELS = {
+  category: "Category",
+  condition: "Condition",
+  brand: "Brand",
+  size: "Size",
+  color: "Color",
+  minPrice: "Min SUI",
+  maxPrice: "Max SUI",
+} as const
+type SearchFilterParam = keyof typeof SEARCH_FILTER_LABELS
+
+// Search-by-photo: the photo is too big for the URL, so it lives in
+// sessionStorage and ?photo=<id> marks a search that uses it
+const PHOTO_STORAGE_KEY = "thriftchain:search-photo"
+const PHOTO_MAX_SIDE = 1024
+
+function matchLabel(sources: MatchSource[] = []): string | undefined {
+  if (sources.includes("visual") && sources.includes("text")) return "Looks similar + text match"
+  if (sources.includes("visual")) return "Looks similar"
+  if (sources.includes("text")) return "Text match"
+  return undefined
+}
+
+/**
+ * Shrink a photo to a JPEG data URL (longest side PHOTO_MAX_SIDE) so it
+ * fits in sessionStorage and uploads quickly
+ */
+async function downscalePhoto(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, PHOTO_MAX_SIDE / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return canvas.toDataURL("image/jpeg", 0.85)
+}
+
+function toItemCard(item: ThriftItemObject): ItemCardProps {
+  return {
+    objectId: item.objectId,
+    title: item.fields.title,
+    priceMist: BigInt(item.fields.price),
+    category: item.fields.category,
+    walrusImageIds: item.fields.walrus_image_ids || [],
+    seller: item.fields.seller,
+  }
+}
+
+/**
+ * Build the /api/items query string from browse filters (prices entered in SUI)
+ */
+function buildItemsQuery(filters: BrowseFilters, cursor?: string): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+
+  for (const key of ["category", "condition", "brand", "size", "color", "sort"] as const) {
+    if (filters[key]) params.set(key, filters[key]!)
+  }
+  if (filters.keyword) params.set("q", filters.keyword)
+  if (filters.minPrice) params.set("minPrice", suiToMist(Number(filters.minPrice)).toString())
+  if (filters.maxPrice) params.set("maxPrice", suiToMist(Number(filters.maxPrice)).toString())
+  if (cursor) params.set("cursor", cursor)
+
+  return params.toString()
+}
+
+/**
+ * /api/ai/search filters from browse filters (prices entered in SUI)
+ */
+function buildSearchFilters(filters: BrowseFilters) {
+  return {
+    category: filters.category,
+    condition: filters.condition,
+    brand: filters.brand,
+    size: filters.size,
+    color: filters.color,
+    minPrice: filters.minPrice ? suiToMist(Number(filters.minPrice)).toString() : undefined,
+    maxPrice: filters.maxPrice ? suiToMist(Number(filters.maxPrice)).toString() : undefined,
+  }
+}
+
+/**
+ * Fetch one page of browse results from /api/items
+ */
+async function fetchItemsPage(filters: BrowseFilters, cursor?: string) {
+  const response = await fetch(`/api/items?${buildItemsQuery(filters, cursor)}`)
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load listings')
+  }
+
+  return result as { items: ThriftItemObject[]; nextCursor: string | null; hasNextPage: boolean }
+}
 
 /**
  * Listings Page - Browse all marketplace items with AI-powered search
  *
  * Features:
- * - Browse all items (no query)
- * - AI semantic search (with ?q= query parameter)
+ * - Browse items with facet filters, sort and "Load More" paging (via /api/items)
+ * - AI hybrid search (with ?q= query parameter) with facet filter chips
+ * - Search by photo (upload, camera or paste), optionally with text
+ * - Save a text search to get alerts for new matches
  * - Responsive grid layout
  * - Loading states with skeleton loaders
  * - Empty state handling
@@ -24,23 +143,43 @@ function ListingsContent() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '')
+  const [filters, setFilters] = useState<BrowseFilters>({})
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
+  const [interpretation, setInterpretation] = useState<QueryInterpretation | null>(null)
+  const [photo, setPhoto] = useState<string | null>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+
+  const searching = Boolean(searchParams.get('q') || searchParams.get('photo'))
 
   useEffect(() => {
     const query = searchParams.get('q')
+    const urlFilters: BrowseFilters = {}
+    for (const key of FILTER_PARAMS) {
+      const value = searchParams.get(key)
+      if (value) urlFilters[key] = value
+    }
+    // A shared ?photo= link without the photo in this tab searches text only
+    const urlPhoto = searchParams.get('photo') ? sessionStorage.getItem(PHOTO_STORAGE_KEY) : null
+
     setSearchQuery(query || '')
-    loadItems(query || '')
+    setFilters(urlFilters)
+    setPhoto(urlPhoto)
+    loadItems(query || '', urlFilters, urlPhoto)
   }, [searchParams])
 
-  const loadItems = async (query: string) => {
+  const loadItems = async (query: string, browseFilters: BrowseFilters, searchPhoto: string | null = null) => {
     setLoading(true)
     setError(null)
+    setNextCursor(null)
+    setFacets(null)
+    setInterpretation(null)
 
     try {
-      let activeItems
-
-      if (query.trim()) {
+      if (query.trim() || searchPhoto) {
         // AI Search mode
-        console.log(`🔍 AI Search: "${query}"`)
+        console.log(`🔍 AI Search: "${query}"${searchPhoto ? ' + photo' : ''}`)
 
         // Call AI search API
         const searchResponse = await fetch('/api/ai/search', {
@@ -48,18 +187,26 @@ function ListingsContent() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             query,
+            image: searchPhoto ?? undefined,
             similarityThreshold: 0.3,  // Lower threshold for better recall
             maxResults: 50,
             useCombined: true,
+            filters: buildSearchFilters(browseFilters),
           }),
         })
 
+        if (searchResponse.status === 429) {
+          setError('Too many searches, please wait a moment and try again.')
+          return
+        }
         if (!searchResponse.ok) {
           throw new Error('Search failed')
         }
 
         const searchResult = await searchResponse.json()
         console.log(`✓ Found ${searchResult.count} matching items`)
+        setFacets(searchResult.facets ?? null)
+        setInterpretation(searchResult.interpretation ?? null)
 
         if (searchResult.results.length === 0) {
           setItems([])
@@ -69,24 +216,21 @@ function ListingsContent() {
 
         // Fetch items from blockchain using search results
         const itemsResponse = await getItemsByIds(searchResult.results)
-        activeItems = itemsResponse.filter(item => item && item.fields.status === ItemStatus.Active)
+        const matchedBy: Record<string, MatchSource[]> = searchResult.matchedBy ?? {}
+        setItems(itemsResponse
+          .filter(item => item && item.fields.status === ItemStatus.Active)
+          .map(item => ({
+            ...toItemCard(item),
+            // Only worth saying when a photo could have matched
+            matchLabel: searchPhoto ? matchLabel(matchedBy[item.objectId]) : undefined,
+          })))
       } else {
-        // Browse all mode
-        console.log('📋 Browsing all items')
-        const response = await getAllItems(undefined, { limit: 100 })
-        activeItems = response.data.filter(item => item.fields.status === ItemStatus.Active)
+        // Browse mode - filters, sort and paging are applied server-side
+        console.log('📋 Browsing items', browseFilters)
+        const page = await fetchItemsPage(browseFilters)
+        setItems(page.items.map(toItemCard))
+        setNextCursor(page.hasNextPage ? page.nextCursor : null)
       }
-
-      const mapped: ItemCardProps[] = activeItems.map(item => ({
-        objectId: item.objectId,
-        title: item.fields.title,
-        priceMist: BigInt(item.fields.price),
-        category: item.fields.category,
-        walrusImageIds: item.fields.walrus_image_ids || [],
-        seller: item.fields.seller,
-      }))
-
-      setItems(mapped)
     } catch (err) {
       console.error('Error loading items:', err)
       setError('Failed to load listings. Please try again.')
@@ -95,13 +239,94 @@ function ListingsContent() {
     }
   }
 
+  const loadMore = async () => {
+    if (!nextCursor) return
+    setLoadingMore(true)
+
+    try {
+      const page = await fetchItemsPage(filters, nextCursor)
+      setItems(prev => [...prev, ...page.items.map(toItemCard)])
+      setNextCursor(page.hasNextPage ? page.nextCursor : null)
+    } catch (err) {
+      console.error('Error loading more items:', err)
+      setError('Failed to load more listings. Please try again.')
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const applyFilters = (
+    next: BrowseFilters,
+    query = searchParams.get('q'),
+    photoId = searchParams.get('photo')
+  ) => {
+    const params = new URLSearchParams()
+    // Filter chips refine the current search rather than leaving it
+    if (query) params.set('q', query)
+    if (photoId) params.set('photo', photoId)
+    for (const key of FILTER_PARAMS) {
+      const value = next[key]?.trim()
+      if (value) params.set(key, value)
+    }
+    const queryString = params.toString()
+    router.push(queryString ? `/listings?${queryString}` : '/listings')
+  }
+
+  const updateFilter = (key: FilterParam, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const activeFilterCount = FILTER_PARAMS.filter(key => key !== 'sort' && searchParams.get(key)).length
+  const activeSearchFilters = (Object.keys(SEARCH_FILTER_LABELS) as SearchFilterParam[]).filter(key => filters[key])
+
+  // An edited interpretation becomes explicit filters plus the remaining text
+  const applyInterpretation = (draft: InterpretationDraft) => {
+    const { text, ...fields } = draft
+    const query = text?.trim() || searchParams.get('q')
+    setSearchQuery(query || '')
+    applyFilters({ sort: filters.sort, ...fields }, query)
+  }
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
+    const params = new URLSearchParams()
     const query = searchQuery.trim()
-    if (query) {
-      router.push(`/listings?q=${encodeURIComponent(query)}`)
-    } else {
-      router.push('/listings')
+    if (query) params.set('q', query)
+    // Typing with a photo active refines the photo search
+    const photoId = searchParams.get('photo')
+    if (photoId && photo) params.set('photo', photoId)
+    const queryString = params.toString()
+    router.push(queryString ? `/listings?${queryString}` : '/listings')
+  }
+
+  const searchByPhoto = async (file: File | null | undefined) => {
+    if (!file) return
+    if (!file.type.startsWith('image/')) {
+      setError('That file is not an image.')
+      return
+    }
+
+    try {
+      sessionStorage.setItem(PHOTO_STORAGE_KEY, await downscalePhoto(file))
+    } catch (err) {
+      console.error('Error reading photo:', err)
+      setError('Could not read that photo. Please try another one.')
+      return
+    }
+    // A new id so the same URL with a different photo still reloads
+    applyFilters(filters, searchQuery.trim() || null, String(Date.now()))
+  }
+
+  const clearPhoto = () => {
+    sessionStorage.removeItem(PHOTO_STORAGE_KEY)
+    applyFilters(filters, searchParams.get('q'), null)
+  }
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const file = Array.from(e.clipboardData.files).find(f => f.type.startsWith('image/'))
+    if (file) {
+      e.preventDefault()
+      searchByPhoto(file)
     }
   }
 
@@ -111,11 +336,13 @@ function ListingsContent() {
         {/* Header */}
         <div className="retro-card retro-shadow p-6 mb-8">
           <h1 className="text-4xl font-black mb-2">
-            {searchParams.get('q') ? 'Search Results' : 'Browse Listings'}
+            {searching ? 'Search Results' : 'Browse Listings'}
           </h1>
           <p className="text-lg opacity-80">
             {searchParams.get('q')
-              ? `AI-powered semantic search for: "${searchParams.get('q')}"`
+              ? `AI-powered search for: "${searchParams.get('q')}"${photo ? ' + your photo' : ''}`
+              : photo
+              ? 'Items that look like your photo'
               : 'Discover unique thrifted items on the blockchain'}
           </p>
 
@@ -125,7 +352,7 @@ function ListingsContent() {
               <div className="flex gap-6 text-sm">
                 <div>
                   <span className="font-bold">{items.length}</span>
-                  <span className="opacity-60 ml-1">{searchParams.get('q') ? 'results found' : 'items listed'}</span>
+                  <span className="opacity-60 ml-1">{searching ? 'results found' : 'items listed'}</span>
                 </div>
               </div>
             </div>
@@ -135,24 +362,59 @@ function ListingsContent() {
         {/* Search Bar */}
         <div className="retro-card retro-shadow p-4 mb-8">
           <form onSubmit={handleSearch} className="flex gap-3">
+            {photo && (
+              <div className="relative w-10 h-10 shrink-0 border-2 border-black">
+                <Image src={photo} alt="Search photo" fill className="object-cover" unoptimized />
+                <button
+                  type="button"
+                  onClick={clearPhoto}
+                  aria-label="Remove photo"
+                  className="absolute -top-2 -right-2 w-5 h-5 bg-black text-white text-xs leading-none"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
             <input
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search by meaning: 'vintage leather jacket', 'warm winter coat'..."
+              onPaste={handlePaste}
+              placeholder={photo
+                ? "Add words to narrow it down: 'in red', 'leather'..."
+                : "Search by meaning: 'vintage leather jacket', 'warm winter coat'... or paste a photo"}
               className="flex-1 px-4 py-2 border-2 border-black retro-card outline-none focus:shadow-[2px_2px_0px_rgba(0,0,0,1)]"
             />
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                searchByPhoto(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => photoInputRef.current?.click()}
+              title="Find items that look like this"
+              className="px-4 py-2 border-2 border-black retro-btn"
+            >
+              📷
+            </button>
             <button
               type="submit"
               className="px-6 py-2 bg-black text-white retro-btn"
             >
               Search
             </button>
-            {searchParams.get('q') && (
+            {searching && (
               <button
                 type="button"
                 onClick={() => {
                   setSearchQuery('')
+                  sessionStorage.removeItem(PHOTO_STORAGE_KEY)
                   router.push('/listings')
                 }}
                 className="px-4 py-2 border-2 border-black retro-btn"
@@ -161,8 +423,185 @@ function ListingsContent() {
               </button>
             )}
           </form>
+          {searchParams.get('q') && (
+            <div className="mt-3 flex justify-end">
+              <SaveSearchButton
+                key={searchParams.toString()}
+                query={searchParams.get('q')!}
+                filters={buildSearchFilters(filters)}
+              />
+            </div>
+          )}
         </div>
 
+        {/* Filter Chips (search mode) */}
+        {searching && (activeSearchFilters.length > 0 || facets || interpretation) && (
+          <div className="retro-card retro-shadow p-4 mb-8 space-y-3 text-sm">
+            {interpretation && (
+              <SearchInterpretation
+                key={JSON.stringify(interpretation)}
+                interpretation={interpretation}
+                explicit={filters}
+                onApply={applyInterpretation}
+              />
+            )}
+            {activeSearchFilters.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                {activeSearchFilters.map(key => (
+                  <button
+                    key={key}
+                    type="button"
+                    onClick={() => applyFilters({ ...filters, [key]: undefined })}
+                    className="px-3 py-1 bg-black text-white retro-btn"
+                  >
+                    {SEARCH_FILTER_LABELS[key]}: {filters[key]} ✕
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => applyFilters({ sort: filters.sort })}
+                  className="px-3 py-1 underline opacity-70"
+                >
+                  Clear filters
+                </button>
+              </div>
+            )}
+            {facets && (["category", "condition", "size"] as const).map(key => (
+              !filters[key] && facets[key].length > 0 && (
+                <div key={key} className="flex flex-wrap items-center gap-2">
+                  <span className="font-bold w-20">{SEARCH_FILTER_LABELS[key]}</span>
+                  {facets[key].map(facet => (
+                    <button
+                      key={facet.value}
+                      type="button"
+                      onClick={() => applyFilters({ ...filters, [key]: facet.value })}
+                      className="px-3 py-1 border-2 border-black retro-btn"
+                    >
+                      {facet.value} <span className="opacity-60">({facet.count})</span>
+                    </button>
+                  ))}
+                </div>
+              )
+            ))}
+            {facets && !filters.minPrice && !filters.maxPrice && facets.price.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-bold w-20">Price</span>
+                {facets.price.map(bucket => (
+                  <button
+                    key={bucket.label}
+                    type="button"
+                    onClick={() => applyFilters({
+                      ...filters,
+                      minPrice: bucket.minPrice !== '0' ? String(mistToSui(bucket.minPrice)) : undefined,
+                      maxPrice: bucket.maxPrice ? String(mistToSui(bucket.maxPrice)) : undefined,
+                    })}
+                    className="px-3 py-1 border-2 border-black retro-btn"
+                  >
+                    {bucket.label} <span className="opacity-60">({bucket.count})</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Facet Filters (browse mode) */}
+        {!searching && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              applyFilters(filters)
+            }}
+            className="retro-card retro-shadow p-4 mb-8 grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3 text-sm"
+          >
+            <select
+              value={filters.category || ''}
+              onChange={(e) => updateFilter('category', e.target.value)}
+              className="px-3 py-2 border-2 border-black retro-card"
+            >
+              <option value="">All categories</option>
+              {CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+            </select>
+            <select
+              value={filters.condition || ''}
+              onChange={(e) => updateFilter('condition', e.target.value)}
+              className="px-3 py-2 border-2 border-black retro-card"
+            >
+              <option value="">Any condition</option>
+              {CONDITIONS.map(cond => <option key={cond} value={cond}>{cond}</option>)}
+            </select>
+            <input
+              type="text"
+              value={filters.brand || ''}
+              onChange={(e) => updateFilter('brand', e.target.value)}
+              placeholder="Brand"
+              className="px-3 py-2 border-2 border-black retro-card outline-none"
+            />
+            <input
+              type="text"
+              value={filters.size || ''}
+              onChange={(e) => updateFilter('size', e.target.value)}
+              placeholder="Size"
+              className="px-3 py-2 border-2 border-black retro-card outline-none"
+            />
+            <input
+              type="text"
+              value={filters.color || ''}
+              onChange={(e) => updateFilter('color', e.target.value)}
+              placeholder="Color"
+              className="px-3 py-2 border-2 border-black retro-card outline-none"
+            />
+            <input
+              type="text"
+              value={filters.keyword || ''}
+              onChange={(e) => updateFilter('keyword', e.target.value)}
+              placeholder="Keyword"
+              className="px-3 py-2 border-2 border-black retro-card outline-none"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={filters.minPrice || ''}
+              onChange={(e) => updateFilter('minPrice', e.target.value)}
+              placeholder="Min SUI"
+              className="px-3 py-2 border-2 border-black retro-card outline-none"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={filters.maxPrice || ''}
+              onChange={(e) => updateFilter('maxPrice', e.target.value)}
+              placeholder="Max SUI"
+              className="px-3 py-2 border-2 border-black retro-card outline-none"
+            />
+            <select
+              value={filters.sort || 'newest'}
+              onChange={(e) => applyFilters({ ...filters, sort: e.target.value })}
+              className="px-3 py-2 border-2 border-black retro-card"
+            >
+              {(Object.keys(SORT_LABELS) as ItemSortOrder[]).map(sort => (
+                <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 px-4 py-2 bg-black text-white retro-btn">
+                Apply
+              </button>
+              {activeFilterCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => applyFilters({ sort: filters.sort })}
+                  className="px-3 py-2 border-2 border-black retro-btn"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -179,7 +618,7 @@ function ListingsContent() {
             <h2 className="text-xl font-bold mb-2">Oops!</h2>
             <p className="opacity-80 mb-4">{error}</p>
             <button
-              onClick={() => loadItems(searchQuery)}
+              onClick={() => loadItems(searchParams.get('q') || '', filters, photo)}
               className="retro-btn retro-shadow px-6 py-2 bg-white hover:translate-x-1 hover:translate-y-1 hover:shadow-none transition-all"
             >
               Try Again
@@ -190,7 +629,7 @@ function ListingsContent() {
         {/* Empty State */}
         {!loading && !error && items.length === 0 && (
           <div className="retro-card retro-shadow p-12 text-center">
-            {searchParams.get('q') ? (
+            {searching ? (
               <>
                 <div className="text-6xl mb-4">🔍</div>
                 <h2 className="text-2xl font-bold mb-2">No Results Found</h2>
@@ -207,6 +646,20 @@ function ListingsContent() {
                   Browse All Items
                 </button>
               </>
+            ) : activeFilterCount > 0 ? (
+              <>
+                <div className="text-6xl mb-4">🧺</div>
+                <h2 className="text-2xl font-bold mb-2">No Matching Items</h2>
+                <p className="text-lg opacity-80 mb-6">
+                  Nothing matches these filters right now
+                </p>
+                <button
+                  onClick={() => applyFilters({ sort: filters.sort })}
+                  className="inline-block retro-btn retro-shadow px-8 py-3 hover:translate-x-1 hover:translate-y-1 hover:shadow-none transition-all"
+                >
+                  Clear Filters
+                </button>
+              </>
             ) : (
               <>
                 <div className="text-6xl mb-4">📦</div>
@@ -234,13 +687,22 @@ function ListingsContent() {
           </div>
         )}
 
-        {/* Load More - Placeholder for pagination */}
-        {/* TODO: Add pagination (Task 5.3) */}
+        {/* Load More */}
         {!loading && items.length > 0 && (
           <div className="mt-8 text-center">
-            <p className="text-sm opacity-60">
-              Showing all {items.length} items
-            </p>
+            {nextCursor ? (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="retro-btn retro-shadow px-8 py-3 bg-white hover:translate-x-1 hover:translate-y-1 hover:shadow-none transition-all disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </button>
+            ) : (
+              <p className="text-sm opacity-60">
+                Showing all {items.length} items
+              </p>
+            )}
           </div>
         )}
       </div>
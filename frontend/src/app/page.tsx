@@ -3,31 +3,70 @@ import { useRouter } from "next/navigation"
 import { useState, useEffect } from "react"
 import { CompactItemCard } from "@/components/CompactItemCard"
 import type { ItemCardProps } from "@/components/ItemCard"
-import { getAllItems } from "@/lib/sui/queries"
+import { getAllItems, getItemsByIds } from "@/lib/sui/queries"
 import { ItemStatus } from "@/lib/types/sui-objects"
+import type { ThriftItemObject } from "@/lib/types/sui-objects"
+import type { FeedKind } from "@/lib/ai/feed"
+
+const FEED_TITLES: Record<FeedKind, string> = {
+  "for-you": "For you",
+  trending: "Trending now",
+}
+
+function toCard(item: ThriftItemObject): ItemCardProps {
+  return {
+    objectId: item.objectId,
+    title: item.fields.title,
+    priceMist: BigInt(item.fields.price),
+    category: item.fields.category,
+    walrusImageIds: item.fields.walrus_image_ids || [],
+    seller: item.fields.seller,
+  }
+}
+
+/**
+ * Personalized (signed in) or trending feed from /api/feed, loaded from
+ * chain so sold items the projection hasn't caught up on drop out
+ */
+async function loadFeed(): Promise<{ kind: FeedKind; items: ItemCardProps[] }> {
+  const response = await fetch("/api/feed?limit=20")
+  if (!response.ok) {
+    throw new Error(`Feed request failed (${response.status})`)
+  }
+
+  const feed = await response.json() as { kind: FeedKind; items: string[] }
+  const items = await getItemsByIds(feed.items)
+  return {
+    kind: feed.kind,
+    items: items.filter(item => item.fields.status === ItemStatus.Active).map(toCard),
+  }
+}
 
 export default function Home() {
   const router = useRouter()
   const [q, setQ] = useState("")
   const [items, setItems] = useState<ItemCardProps[]>([])
+  const [feedKind, setFeedKind] = useState<FeedKind | null>(null)
 
   useEffect(() => {
     // Load items for the carousel
     const loadItems = async () => {
+      try {
+        const feed = await loadFeed()
+        if (feed.items.length > 0) {
+          setFeedKind(feed.kind)
+          setItems(feed.items)
+          return
+        }
+      } catch (error) {
+        console.error('Failed to load feed, showing random items:', error)
+      }
+
       try {
         const allItems = await getAllItems(undefined, { limit: 50 })
         const activeItems = allItems.data.filter(item => item.fields.status === ItemStatus.Active)
 
-        const mapped: ItemCardProps[] = activeItems.map(item => ({
-          objectId: item.objectId,
-          title: item.fields.title,
-          priceMist: BigInt(item.fields.price),
-          category: item.fields.category,
-          walrusImageIds: item.fields.walrus_image_ids || [],
-          seller: item.fields.seller,
-        }))
-
-        const shuffled = [...mapped].sort(() => Math.random() - 0.5)
+        const shuffled = [...activeItems.map(toCard)].sort(() => Math.random() - 0.5)
         setItems(shuffled.slice(0, 20))
       } catch (error) {
         console.error('Failed to load marketplace items:', error)
@@ -87,6 +126,7 @@ export default function Home() {
       {items.length > 0 && (
         <section className="overflow-hidden">
           <div className="mb-6 text-center mt-20">
+            {feedKind && <h2 className="text-2xl font-black">{FEED_TITLES[feedKind]}</h2>}
           </div>
           
           {/* Scrolling Container */}
@@ -3,7 +3,12 @@
 import { WalletProvider } from "@suiet/wallet-kit"
 import "@suiet/wallet-kit/style.css"
 import { ReactNode } from "react"
+import { SessionProvider } from "@/lib/session/provider"
 
 export default function Providers({ children }: { children: ReactNode }) {
-  return <WalletProvider>{children}</WalletProvider>
+  return (
+    <WalletProvider>
+      <SessionProvider>{children}</SessionProvider>
+    </WalletProvider>
+  )
 }
@@ -1,11 +1,12 @@
 'use client';
 
 import Image from 'next/image';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { useWallet } from '@suiet/wallet-kit';
+import { useSession } from '@/lib/session/provider';
 import { toast } from 'sonner';
 import { LoginModal } from '@/components/LoginModal';
+import { PriceSuggestion } from '@/components/PriceSuggestion';
 import { getWalrusBlobUrl } from '@/lib/walrus/upload';
 import {
   AlertDialog,
@@ -24,10 +25,15 @@ import {
   getEscrowsByBuyer,
   getItemsByIds,
 } from '@/lib/sui/queries';
-import { suiClient } from '@/lib/sui/client';
 import type { ThriftItemObject, OfferObject, EscrowObject } from '@/lib/types/sui-objects';
+import type { StoredVerdict } from '@/lib/moderation/pipeline';
 import { mistToSui, suiToMist, OfferStatus, ItemStatus, EscrowStatus } from '@/lib/types/sui-objects';
-import { buildAcceptOfferTransaction, buildRejectOfferTransaction, buildCancelOfferTransaction, buildCounterOfferTransaction, buildAcceptCounterOfferTransaction } from '@/lib/sui/transactions';
+import { buildContractTransaction, thriftchain } from '@/lib/sui/contract';
+import { useMarketplaceEvents } from '@/lib/realtime/hooks';
+import { addressTopic } from '@/lib/realtime/topics';
+import { useTransactionPreview, useTransactionRunner } from '@/lib/transactions/hooks';
+import { TransactionPreviewPanel } from '@/components/TransactionPreviewPanel';
+import { SavedSearchesPanel } from '@/components/SavedSearchesPanel';
 
 // UI-friendly data structures (adapted from blockchain objects)
 interface OfferWithItem extends OfferObject {
@@ -45,13 +51,103 @@ interface ItemWithOffers extends ThriftItemObject {
   offersCount: number;
 }
 
-type Tab = 'my-items' | 'my-offers' | 'transactions';
+type Tab = 'my-items' | 'my-offers' | 'transactions' | 'saved-searches';
+const TABS: Tab[] = ['my-items', 'my-offers', 'transactions', 'saved-searches'];
+
+/**
+ * Tab named by ?tab= (e.g. alert links open saved-searches)
+ */
+function initialTab(): Tab {
+  if (typeof window === 'undefined') return 'my-items';
+  const tab = new URLSearchParams(window.location.search).get('tab') as Tab | null;
+  return tab && TABS.includes(tab) ? tab : 'my-items';
+}
+
+/** What the stash last loaded, to tell what a live update changed */
+interface StashSnapshot {
+  offersMade: Map<string, number>;    // Offer ID → status
+  offersReceived: Set<string>;
+  itemStatuses: Map<string, number>;
+}
+
+interface LiveNotice {
+  kind: 'info' | 'success';
+  message: string;
+}
+
+function takeSnapshot(made: OfferWithItem[], received: OfferWithItem[], items: ThriftItemObject[]): StashSnapshot {
+  return {
+    offersMade: new Map(made.map(offer => [offer.objectId, offer.fields.status])),
+    offersReceived: new Set(received.map(offer => offer.objectId)),
+    itemStatuses: new Map(items.map(item => [item.objectId, item.fields.status])),
+  };
+}
+
+/**
+ * Toasts for what changed between two loads: offers made that were
+ * countered, rejected or accepted, new offers received, and sales
+ */
+function liveNotices(
+  before: StashSnapshot,
+  made: OfferWithItem[],
+  received: OfferWithItem[],
+  items: ThriftItemObject[]
+): LiveNotice[] {
+  const notices: LiveNotice[] = [];
+
+  for (const offer of made) {
+    const { status, amount } = offer.fields;
+    if (before.offersMade.get(offer.objectId) === status) continue;
+    if (status === OfferStatus.Countered) {
+      notices.push({ kind: 'info', message: `Seller countered your offer with ${mistToSui(amount)} SUI` });
+    } else if (status === OfferStatus.Rejected) {
+      notices.push({ kind: 'info', message: 'An offer you made was rejected' });
+    } else if (status === OfferStatus.Accepted) {
+      notices.push({ kind: 'success', message: 'Your offer was accepted!' });
+    }
+  }
+
+  for (const offer of received) {
+    if (!before.offersReceived.has(offer.objectId) && offer.fields.status === OfferStatus.Pending) {
+      notices.push({ kind: 'info', message: `New offer received: ${mistToSui(offer.fields.amount)} SUI` });
+    }
+  }
+
+  for (const item of items) {
+    if (item.fields.status === ItemStatus.Sold && before.itemStatuses.get(item.objectId) === ItemStatus.Active) {
+      notices.push({ kind: 'success', message: `Sale completed: ${item.fields.title}` });
+    }
+  }
+
+  return notices;
+}
+
+/**
+ * The seller's listings moderation is hiding, and why. Not having these
+ * shouldn't stop the stash from loading.
+ */
+async function loadHiddenListings(): Promise<Map<string, StoredVerdict>> {
+  try {
+    const response = await fetch('/api/moderation');
+    if (!response.ok) {
+      throw new Error(`Moderation status request failed (${response.status})`);
+    }
+    const { listings } = await response.json() as { listings: StoredVerdict[] };
+    return new Map(listings.map(listing => [listing.itemId, listing]));
+  } catch (error) {
+    console.warn('Failed to load moderation status:', error);
+    return new Map();
+  }
+}
 
 export default function StashPage() {
   const router = useRouter();
-  const wallet = useWallet();
-  const [activeTab, setActiveTab] = useState<Tab>('my-items');
+  const session = useSession();
+  const { run, isRunning } = useTransactionRunner();
+  const { state: previewState, preview, canSign } = useTransactionPreview();
+  const [activeTab, setActiveTab] = useState<Tab>(initialTab);
   const [myItems, setMyItems] = useState<ItemWithOffers[]>([]);
+  const [hiddenListings, setHiddenListings] = useState<Map<string, StoredVerdict>>(new Map());
   const [offersMade, setOffersMade] = useState<OfferWithItem[]>([]);
   const [offersReceived, setOffersReceived] = useState<OfferWithItem[]>([]);
   const [transactions, setTransactions] = useState<EscrowWithItem[]>([]);
@@ -64,11 +160,13 @@ export default function StashPage() {
     description: string;
     action: () => void;
     actionLabel: string;
+    previewed?: boolean;              // Dry-run cost shown; signing waits for it
   } | null>(null);
   
   // Modal states for counter offer
   const [counterModalOpen, setCounterModalOpen] = useState(false);
   const [counterOfferId, setCounterOfferId] = useState<string | null>(null);
+  const [counterItemId, setCounterItemId] = useState<string | null>(null);
   const [counterAmount, setCounterAmount] = useState('');
   const [counterMessage, setCounterMessage] = useState('');
   
@@ -92,23 +190,29 @@ export default function StashPage() {
   // Login modal state
   const [loginModalOpen, setLoginModalOpen] = useState(false);
 
-  const loadData = useCallback(async () => {
-    if (!wallet.account?.address) {
+  // Last load, for telling what a live update changed
+  const snapshotRef = useRef<StashSnapshot | null>(null);
+
+  // silent: refresh in the background without the full-page loading state
+  // notify: toast what changed since the last load (live updates)
+  const loadData = useCallback(async (options?: { silent?: boolean; notify?: boolean }) => {
+    if (!session.address) {
       console.warn('No wallet address available');
       setLoading(false);
       return;
     }
 
-    setLoading(true);
+    if (!options?.silent) setLoading(true);
     try {
-      const address = wallet.account.address;
+      const address = session.address;
 
       // Fetch all data in parallel for better performance
-      const [items, madeOffers, receivedOffers, escrows] = await Promise.all([
+      const [items, madeOffers, receivedOffers, escrows, hidden] = await Promise.all([
         getItemsBySeller(address),
         getOffersByBuyer(address),
         getOffersBySeller(address),
         getEscrowsByBuyer(address),
+        loadHiddenListings(),
       ]);
 
       // Get unique item IDs from offers and escrows to fetch item details
@@ -177,7 +281,15 @@ export default function StashPage() {
         };
       });
 
+      if (options?.notify && snapshotRef.current) {
+        for (const notice of liveNotices(snapshotRef.current, offersMadeWithItems, offersReceivedWithItems, items)) {
+          toast[notice.kind](notice.message);
+        }
+      }
+      snapshotRef.current = takeSnapshot(offersMadeWithItems, offersReceivedWithItems, items);
+
       setMyItems(itemsWithOffers);
+      setHiddenListings(hidden);
       setOffersMade(offersMadeWithItems);
       setOffersReceived(offersReceivedWithItems);
       setTransactions(escrowsWithItems);
@@ -187,62 +299,58 @@ export default function StashPage() {
     } finally {
       setLoading(false);
     }
-  }, [wallet.account?.address]);
+  }, [session.address]);
 
   useEffect(() => {
-    if (wallet.connected && wallet.account?.address) {
+    if (session.connected && session.address) {
       loadData();
     }
-  }, [wallet.connected, wallet.account?.address, loadData]);
+  }, [session.connected, session.address, loadData]);
+
+  // Live updates for everything involving this wallet. Broadcasts can be
+  // forged, so they only trigger a reload; toasts describe what it found.
+  const handleLiveEvent = useCallback(() => {
+    void loadData({ silent: true, notify: true });
+  }, [loadData]);
+
+  useMarketplaceEvents(
+    [session.address ? addressTopic(session.address) : null],
+    handleLiveEvent
+  );
 
   const handleAcceptOffer = async (offerId: string, itemId: string) => {
-    if (!wallet.account?.address) {
+    if (!session.address) {
       toast.error('Please connect your wallet');
       return;
     }
 
+    const build = () => buildContractTransaction((tx) =>
+      thriftchain.acceptOfferById(tx, { offerId, itemId })
+    );
+
     setAlertConfig({
       title: 'Accept Offer',
       description: "Accept this offer? The buyer's payment is already in escrow. They will need to confirm delivery to release funds to you.",
       actionLabel: 'Accept Offer',
+      previewed: true,
       action: async () => {
-        try {
-          const tx = buildAcceptOfferTransaction({
-            offerId,
-            itemId,
-          });
-
-          const result = await wallet.signAndExecuteTransaction({
-            transaction: tx,
-          });
-
-          console.log('Accept offer result:', result);
-
-          // Wait for transaction to get full effects
-          const txResult = await suiClient.waitForTransaction({
-            digest: result.digest,
-            options: {
-              showEffects: true,
-            },
-          });
-
-          if (txResult.effects?.status?.status === 'success') {
-            toast.success('Offer accepted! Waiting for buyer to confirm delivery.');
-            await loadData();
-          } else {
-            throw new Error('Transaction failed');
-          }
-        } catch (error) {
-          console.error('Error accepting offer:', error);
-          toast.error(error instanceof Error ? error.message : 'Failed to accept offer');
+        const result = await run({
+          label: 'Accept offer',
+          successMessage: 'Offer accepted! Waiting for buyer to confirm delivery.',
+          build,
+        });
+
+        if (result.ok) {
+          await loadData(); // Refresh data
         }
       },
     });
     setAlertOpen(true);
+    void preview(build);
   };
 
   const handleRejectOffer = async (offerId: string) => {
-    if (!wallet.account?.address) {
+    if (!session.address) {
       toast.error('Please connect your wallet');
       return;
     }
@@ -252,42 +360,25 @@ export default function StashPage() {
       description: 'Are you sure you want to reject this offer? This action cannot be undone.',
       actionLabel: 'Reject Offer',
       action: async () => {
-        try {
-          // Build transaction
-          const tx = buildRejectOfferTransaction(offerId);
-
-          // Sign and execute transaction
-          const result = await wallet.signAndExecuteTransaction({
-            transaction: tx,
-          });
-
-          console.log('Reject offer result:', result);
-
-          // Wait for transaction to get full effects
-          const txResult = await suiClient.waitForTransaction({
-            digest: result.digest,
-            options: {
-              showEffects: true,
-            },
-          });
-
-          if (txResult.effects?.status?.status === 'success') {
-            toast.success('Offer rejected');
-            await loadData(); // Refresh data
-          } else {
-            throw new Error('Transaction failed');
-          }
-        } catch (error) {
-          console.error('Error rejecting offer:', error);
-          toast.error(error instanceof Error ? error.message : 'Failed to reject offer');
+        const result = await run({
+          label: 'Reject offer',
+          successMessage: 'Offer rejected',
+          build: () => buildContractTransaction((tx) =>
+            thriftchain.rejectOfferById(tx, { offerId })
+          ),
+        });
+
+        if (result.ok) {
+          await loadData(); // Refresh data
         }
       },
     });
     setAlertOpen(true);
   };
 
-  const handleOpenCounterModal = (offerId: string, currentAmount: number) => {
+  const handleOpenCounterModal = (offerId: string, itemId: string, currentAmount: number) => {
     setCounterOfferId(offerId);
+    setCounterItemId(itemId);
     setCounterAmount(currentAmount.toString());
     setCounterMessage('');
     setCounterModalOpen(true);
@@ -296,106 +387,69 @@ export default function StashPage() {
   const handleSubmitCounter = async () => {
     if (!counterOfferId || !counterAmount) return;
 
-    if (!wallet.account?.address) {
+    if (!session.address) {
       toast.error('Please connect your wallet');
       return;
     }
 
-    try {
-      // Convert SUI to MIST
-      const counterAmountMist = suiToMist(parseFloat(counterAmount));
-
-      // Build transaction
-      const tx = buildCounterOfferTransaction({
-        offerId: counterOfferId,
-        counterAmount: counterAmountMist,
-        counterMessage: counterMessage || '',
-      });
-
-      // Sign and execute transaction
-      const result = await wallet.signAndExecuteTransaction({
-        transaction: tx,
-      });
-
-      console.log('Counter offer result:', result);
-
-      // Wait for transaction to get full effects
-      const txResult = await suiClient.waitForTransaction({
-        digest: result.digest,
-        options: {
-          showEffects: true,
-        },
-      });
-
-      if (txResult.effects?.status?.status === 'success') {
-        toast.success('Counter offer sent successfully');
+    const result = await run({
+      label: 'Counter offer',
+      successMessage: 'Counter offer sent successfully',
+      build: () => buildContractTransaction((tx) =>
+        thriftchain.counterOfferById(tx, {
+          offerId: counterOfferId,
+          counterAmount: suiToMist(parseFloat(counterAmount)),
+          counterMessage: counterMessage || '',
+        })
+      ),
+    });
 
-        // Reset form
-        setCounterModalOpen(false);
-        setCounterOfferId(null);
-        setCounterAmount('');
-        setCounterMessage('');
+    if (result.ok) {
+      // Reset form
+      setCounterModalOpen(false);
+      setCounterOfferId(null);
+      setCounterItemId(null);
+      setCounterAmount('');
+      setCounterMessage('');
 
-        // Refresh data
-        await loadData();
-      } else {
-        throw new Error('Transaction failed');
-      }
-    } catch (error) {
-      console.error('Error sending counter offer:', error);
-      toast.error(error instanceof Error ? error.message : 'Failed to send counter offer');
+      // Refresh data
+      await loadData();
     }
   };
 
   const handleAcceptCounter = async (offerId: string) => {
-    if (!wallet.account?.address) {
+    if (!session.address) {
       toast.error('Please connect your wallet');
       return;
     }
 
+    const build = () => buildContractTransaction((tx) =>
+      thriftchain.acceptCounterOfferById(tx, { offerId })
+    );
+
     setAlertConfig({
       title: 'Accept Counter Offer',
       description: 'Accept this counter offer? The item will be reserved for you.',
       actionLabel: 'Accept Counter',
+      previewed: true,
       action: async () => {
-        try {
-          // Build transaction
-          const tx = buildAcceptCounterOfferTransaction({
-            offerId,
-          });
-
-          // Sign and execute transaction
-          const result = await wallet.signAndExecuteTransaction({
-            transaction: tx,
-          });
-
-          console.log('Accept counter offer result:', result);
-
-          // Wait for transaction to get full effects
-          const txResult = await suiClient.waitForTransaction({
-            digest: result.digest,
-            options: {
-              showEffects: true,
-            },
-          });
-
-          if (txResult.effects?.status?.status === 'success') {
-            toast.success('Counter offer accepted! Waiting for seller to ship.');
-            await loadData(); // Refresh data
-          } else {
-            throw new Error('Transaction failed');
-          }
-        } catch (error) {
-          console.error('Error accepting counter:', error);
-          toast.error(error instanceof Error ? error.message : 'Failed to accept counter offer');
+        const result = await run({
+          label: 'Accept counter offer',
+          successMessage: 'Counter offer accepted! Waiting for seller to ship.',
+          build,
+        });
+
+        if (result.ok) {
+          await loadData(); // Refresh data
         }
       },
     });
     setAlertOpen(true);
+    void preview(build);
   };
 
   const handleCancelOffer = async (offerId: string) => {
-    if (!wallet.account?.address) {
+    if (!session.address) {
       toast.error('Please connect your wallet');
       return;
     }
@@ -405,34 +459,16 @@ export default function StashPage() {
       description: 'Are you sure you want to cancel this offer? Your locked payment will be refunded.',
       actionLabel: 'Cancel Offer',
       action: async () => {
-        try {
-          // Build transaction
-          const tx = buildCancelOfferTransaction(offerId);
-
-          // Sign and execute transaction
-          const result = await wallet.signAndExecuteTransaction({
-            transaction: tx,
-          });
-
-          console.log('Cancel offer result:', result);
-
-          // Wait for transaction to get full effects
-          const txResult = await suiClient.waitForTransaction({
-            digest: result.digest,
-            options: {
-              showEffects: true,
-            },
-          });
-
-          if (txResult.effects?.status?.status === 'success') {
-            toast.success('Offer cancelled and payment refunded');
-            await loadData(); // Refresh data
-          } else {
-            throw new Error('Transaction failed');
-          }
-        } catch (error) {
-          console.error('Error cancelling offer:', error);
-          toast.error(error instanceof Error ? error.message : 'Failed to cancel offer');
+        const result = await run({
+          label: 'Cancel offer',
+          successMessage: 'Offer cancelled and payment refunded',
+          build: () => buildContractTransaction((tx) =>
+            thriftchain.cancelOfferById(tx, { offerId })
+          ),
+        });
+
+        if (result.ok) {
+          await loadData(); // Refresh data
         }
       },
     });
@@ -488,65 +524,34 @@ export default function StashPage() {
   };
 
   const handleConfirmDelivery = async (escrowId: string, itemId: string) => {
-    if (!wallet.account?.address) {
+    if (!session.address) {
       toast.error('Please connect your wallet');
       return;
     }
 
+    const build = () => buildContractTransaction((tx) =>
+      thriftchain.confirmDeliveryById(tx, { escrowId, itemId })
+    );
+
     setAlertConfig({
       title: 'Confirm Delivery',
       description: 'Confirm you received this item? This will release funds to the seller and cannot be reversed!',
       actionLabel: 'Confirm Delivery',
+      previewed: true,
       action: async () => {
-        try {
-          // Build transaction manually to call confirm_delivery_by_id
-          const { Transaction } = await import('@mysten/sui/transactions');
-          const tx = new Transaction();
-
-          const PACKAGE_ID = process.env.NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID!;
-          const MARKETPLACE_ID = process.env.NEXT_PUBLIC_MARKETPLACE_ID!;
-          const CLOCK_ID = '0x6';
-
-          tx.moveCall({
-            target: `${PACKAGE_ID}::thriftchain::confirm_delivery_by_id`,
-            arguments: [
-              tx.object(MARKETPLACE_ID),
-              tx.pure.id(escrowId),
-              tx.pure.id(itemId),
-              tx.object(CLOCK_ID),
-            ],
-          });
-
-          tx.setGasBudget(100_000_000);
-
-          // Sign and execute transaction
-          const result = await wallet.signAndExecuteTransaction({
-            transaction: tx,
-          });
-
-          console.log('Confirm delivery result:', result);
-
-          // Wait for transaction to get full effects
-          const txResult = await suiClient.waitForTransaction({
-            digest: result.digest,
-            options: {
-              showEffects: true,
-            },
-          });
-
-          if (txResult.effects?.status?.status === 'success') {
-            toast.success('Delivery confirmed! Funds released to seller.');
-            await loadData(); // Refresh data
-          } else {
-            throw new Error('Transaction failed');
-          }
-        } catch (error) {
-          console.error('Error confirming delivery:', error);
-          toast.error(error instanceof Error ? error.message : 'Failed to confirm delivery');
+        const result = await run({
+          label: 'Confirm delivery',
+          successMessage: 'Delivery confirmed! Funds released to seller.',
+          build,
+        });
+
+        if (result.ok) {
+          await loadData(); // Refresh data
         }
       },
     });
     setAlertOpen(true);
+    void preview(build);
   };
 
   const formatDate = (timestamp: number) => {
@@ -562,18 +567,18 @@ export default function StashPage() {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
-  if (!wallet.connected) {
+  if (!session.connected) {
     return (
       <div className="min-h-screen">
         <div className="mx-auto max-w-3xl px-6 pt-24 pb-16">
           <div className="retro-card retro-shadow p-6 text-center">
-            <h2 className="text-xl mb-3">Wallet Not Connected</h2>
-            <p className="opacity-80 mb-4">Please connect your wallet to view your stash</p>
+            <h2 className="text-xl mb-3">Not Signed In</h2>
+            <p className="opacity-80 mb-4">Please connect your wallet or sign in to view your stash</p>
             <button
               onClick={() => setLoginModalOpen(true)}
               className="retro-btn px-6 py-3"
             >
-              Connect Wallet
+              Login
             </button>
           </div>
         </div>
@@ -602,7 +607,7 @@ export default function StashPage() {
             <div>
               <h1 className="text-4xl font-black mb-2">My Stash</h1>
               <p className="text-lg opacity-80">
-                Manage your offers and transactions
+                Manage your offers, transactions and saved searches
               </p>
             </div>
             <button
@@ -660,9 +665,19 @@ export default function StashPage() {
           >
             Transactions ({transactions.length})
           </button>
+          <button
+            onClick={() => setActiveTab('saved-searches')}
+            className={`retro-btn px-6 py-3 whitespace-nowrap h-16 ${
+              activeTab === 'saved-searches' ? 'opacity-100' : 'opacity-60'
+            }`}
+          >
+            Saved Searches
+          </button>
         </div>
 
         {/* Content */}
+        {activeTab === 'saved-searches' && <SavedSearchesPanel />}
+
         {activeTab === 'my-items' && (
           <div className="space-y-4">
             {myItems.length === 0 ? (
@@ -678,6 +693,7 @@ export default function StashPage() {
             ) : (
               myItems.map((item) => {
                 const itemOffers = offersReceived.filter(o => o.fields.item_id === item.objectId);
+                const hidden = hiddenListings.get(item.objectId);
                 const itemImageUrl = item.fields.walrus_image_ids && item.fields.walrus_image_ids.length > 0
                   ? getWalrusBlobUrl(item.fields.walrus_image_ids[0])
                   : '/placeholder-image.png';
@@ -732,6 +748,25 @@ export default function StashPage() {
                           Listed: {formatDate(parseInt(item.fields.created_at))}
                         </p>
 
+                        {/* Why moderation is keeping this out of search and listings */}
+                        {hidden && item.fields.status === ItemStatus.Active && (
+                          <div className="mb-4 p-4 bg-yellow-500/20 border-4 border-yellow-500">
+                            <p className="font-bold mb-2">
+                              {hidden.status === 'blocked'
+                                ? '🚫 Hidden from search and listings'
+                                : '⏳ Hidden until a moderator reviews it'}
+                            </p>
+                            <ul className="list-disc pl-5 text-sm opacity-90">
+                              {hidden.findings.map(finding => (
+                                <li key={`${finding.source}-${finding.code}`}>
+                                  {finding.reason}
+                                  {finding.excerpt && <span className="opacity-70"> (&ldquo;{finding.excerpt}&rdquo;)</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
                         {/* Show offers on this item */}
                         {itemOffers.length > 0 && (
                           <div className="mt-4 space-y-3">
@@ -770,7 +805,7 @@ export default function StashPage() {
                                         ✅ Accept
                                       </button>
                                       <button
-                                        onClick={() => handleOpenCounterModal(offer.objectId, parseFloat(offerAmount))}
+                                        onClick={() => handleOpenCounterModal(offer.objectId, offer.fields.item_id, parseFloat(offerAmount))}
                                         className="retro-btn bg-yellow-600 hover:bg-yellow-700 px-4 py-2 text-sm"
                                       >
                                         💬 Counter
@@ -793,7 +828,7 @@ export default function StashPage() {
                                         ✅ Accept Their Counter
                                       </button>
                                       <button
-                                        onClick={() => handleOpenCounterModal(offer.objectId, parseFloat(offerAmount))}
+                                        onClick={() => handleOpenCounterModal(offer.objectId, offer.fields.item_id, parseFloat(offerAmount))}
                                         className="retro-btn bg-yellow-600 hover:bg-yellow-700 px-4 py-2 text-sm"
                                       >
                                         💬 Counter Again
@@ -903,7 +938,7 @@ export default function StashPage() {
                                 Accept Counter
                               </button>
                               <button
-                                onClick={() => handleOpenCounterModal(offer.objectId, parseFloat(offerAmount))}
+                                onClick={() => handleOpenCounterModal(offer.objectId, offer.fields.item_id, parseFloat(offerAmount))}
                                 className="retro-btn bg-yellow-600 hover:bg-yellow-700 px-6 py-3"
                               >
                                 Counter Again
@@ -973,7 +1008,7 @@ export default function StashPage() {
               </div>
             ) : (
               transactions.map((tx) => {
-                const isBuyer = tx.fields.buyer === wallet.address;
+                const isBuyer = tx.fields.buyer === session.address;
                 const escrowAmount = mistToSui(tx.fields.amount).toFixed(2);
                 const isActive = tx.fields.status === EscrowStatus.Active;
                 const isCompleted = tx.fields.status === EscrowStatus.Completed;
@@ -1102,10 +1137,12 @@ export default function StashPage() {
             <AlertDialogTitle>{alertConfig?.title}</AlertDialogTitle>
             <AlertDialogDescription>{alertConfig?.description}</AlertDialogDescription>
           </AlertDialogHeader>
+          {alertConfig?.previewed && <TransactionPreviewPanel state={previewState} />}
           <AlertDialogFooter>
             <AlertDialogCancel className="px-6 py-3">Cancel</AlertDialogCancel>
             <AlertDialogAction
               className="px-6 py-3"
+              disabled={isRunning || (alertConfig?.previewed && !canSign)}
               onClick={() => {
                 alertConfig?.action();
                 setAlertOpen(false);
@@ -1136,6 +1173,12 @@ export default function StashPage() {
                 step="0.01"
                 required
               />
+              {counterItemId && (
+                <PriceSuggestion
+                  itemId={counterItemId}
+                  onUse={(suggested) => setCounterAmount(String(suggested))}
+                />
+              )}
             </div>
 
             <div className="mb-8">
@@ -1156,6 +1199,7 @@ export default function StashPage() {
                 onClick={() => {
                   setCounterModalOpen(false);
                   setCounterOfferId(null);
+                  setCounterItemId(null);
                   setCounterAmount('');
                   setCounterMessage('');
                 }}
@@ -1166,9 +1210,9 @@ export default function StashPage() {
               <button
                 onClick={handleSubmitCounter}
                 className="retro-btn flex-1 bg-yellow-600 hover:bg-yellow-700 px-6 py-3"
-                disabled={!counterAmount}
+                disabled={!counterAmount || isRunning}
               >
-                Send Counter
+                {isRunning ? 'Sending...' : 'Send Counter'}
               </button>
             </div>
           </div>
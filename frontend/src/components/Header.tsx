@@ -1,9 +1,44 @@
 "use client"
 
 import Link from "next/link"
-import { useState } from "react"
-import { useWallet } from "@suiet/wallet-kit"
+import { useEffect, useState } from "react"
+import { useSession } from "@/lib/session/provider"
 import { LoginModal } from "./LoginModal"
+import { TransactionActivity } from "./TransactionActivity"
+
+/**
+ * Unread saved-search alerts, linking to the stash tab that lists them.
+ * Hidden until the browser has a server session (nothing to show before).
+ */
+function AlertsBell({ address }: { address: string }) {
+  const [unread, setUnread] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/alerts")
+      .then(response => (response.ok ? response.json() : null))
+      .then(body => {
+        if (!cancelled && body) setUnread(body.unread)
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
+  if (unread === null) return null
+
+  return (
+    <Link href="/stash?tab=saved-searches" className="relative text-sm opacity-80 hover:opacity-100" title="Saved search alerts">
+      🔔
+      {unread > 0 && (
+        <span className="absolute -top-2 -right-3 bg-black text-white text-[10px] font-bold px-1">
+          {unread}
+        </span>
+      )}
+    </Link>
+  )
+}
 
 function short(addr?: string | null) {
   if (!addr) return ""
@@ -11,7 +46,7 @@ function short(addr?: string | null) {
 }
 
 export function Header() {
-  const { connected, account, disconnect, status } = useWallet()
+  const { connected, identity, signOut, status } = useSession()
   const [loginOpen, setLoginOpen] = useState(false)
 
   return (
@@ -38,14 +73,19 @@ export function Header() {
 
           {connected ? (
             <div className="flex items-center gap-2">
-              <span className="text-sm px-3 py-1 border bg-black/5 dark:bg-white/10">
-                {short(account?.address)}
+              {identity && <AlertsBell key={identity.address} address={identity.address} />}
+              <TransactionActivity />
+              <span
+                className="text-sm px-3 py-1 border bg-black/5 dark:bg-white/10"
+                title={identity?.displayName ?? undefined}
+              >
+                {short(identity?.address)}
               </span>
               <button
                 className="text-sm px-3 py-1 border border-black/10 dark:border-white/20 hover:bg-black/5 dark:hover:bg-white/10"
-                onClick={() => disconnect()}
+                onClick={() => void signOut()}
               >
-                Disconnect
+                {identity?.method === "zklogin" ? "Sign out" : "Disconnect"}
               </button>
             </div>
           ) : (
@@ -12,6 +12,7 @@ export interface ItemCardProps {
   category: string
   walrusImageIds: string[]
   seller: string
+  matchLabel?: string                 // Why a search returned it, e.g. "Looks similar"
 }
 
 /**
@@ -31,6 +32,7 @@ export function ItemCard({
   category,
   walrusImageIds,
   seller,
+  matchLabel,
 }: ItemCardProps) {
   const router = useRouter()
   const [imageError, setImageError] = useState(false)
@@ -102,6 +104,13 @@ export function ItemCard({
           {category}
         </div>
 
+        {/* Search Match Badge */}
+        {matchLabel && (
+          <div className="absolute top-2 right-2 bg-yellow-300 border-2 border-black px-2 py-1 text-xs font-bold">
+            {matchLabel}
+          </div>
+        )}
+
         {/* Multiple Images Indicator */}
         {walrusImageIds.length > 1 && (
           <div className="absolute bottom-2 right-2 bg-black/70 text-white px-2 py-1 text-xs font-bold">
@@ -1,14 +1,22 @@
 "use client"
 
 import Image from "next/image"
+import Link from "next/link"
 import { useState, useRef } from "react"
-import { useWallet } from "@suiet/wallet-kit"
-import { buildCreateItemTransaction, extractItemIdFromEvent } from "@/lib/sui/transactions"
-import { suiClient } from "@/lib/sui/client"
+import { useSession } from "@/lib/session/provider"
+import { buildContractTransaction, findContractEvent, thriftchain } from "@/lib/sui/contract"
+import { needsGasSponsorship, useTransactionPreview, useTransactionRunner } from "@/lib/transactions/hooks"
+import { GAS_SPONSORSHIP_ENABLED } from "@/lib/sponsor/client"
 import { Button } from "./ui/button"
 import { LoginModal } from "./LoginModal"
+import { TransactionPreviewPanel } from "./TransactionPreviewPanel"
 import { uploadMultipleToWalrus } from "@/lib/walrus/upload"
-import type { CreateItemParams } from "@/lib/types/sui-objects"
+import { CATEGORIES, CONDITIONS } from "@/lib/constants"
+import type { DuplicateMatch } from "@/lib/ai/duplicates"
+import type { ListingField, ListingSuggestions as Suggestions } from "@/lib/ai/listing-assistant"
+import type { ModerationVerdict } from "@/lib/moderation/types"
+import { ListingSuggestions } from "./ListingSuggestions"
+import { PriceSuggestion } from "./PriceSuggestion"
 
 interface UploadedImage {
   file: File
@@ -17,29 +25,19 @@ interface UploadedImage {
   uploading: boolean
 }
 
-const CATEGORIES = [
-  "Clothing",
-  "Shoes",
-  "Accessories",
-  "Electronics",
-  "Books",
-  "Home & Garden",
-  "Sports",
-  "Other"
-]
-
-const CONDITIONS = [
-  "New",
-  "Like New",
-  "Excellent",
-  "Good",
-  "Fair",
-  "Needs Repair"
-]
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = reject
+    reader.readAsDataURL(file)
+  })
+}
 
 export function ItemForm() {
-  const wallet = useWallet()
-  const { connected, account } = wallet
+  const { connected, address, signAction } = useSession()
+  const { run } = useTransactionRunner()
+  const { state: previewState, preview, reset: resetPreview, canSign } = useTransactionPreview()
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Form state
@@ -59,6 +57,25 @@ export function ItemForm() {
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
   const [loginModalOpen, setLoginModalOpen] = useState(false)
+  const [pendingListing, setPendingListing] = useState<{ params: thriftchain.CreateItemArgs; formKey: string } | null>(null)
+
+  // Auto-fill from photos
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null)
+  const [describing, setDescribing] = useState(false)
+
+  // The seller's own listings this one looks like, shown once per version of the form
+  const [duplicateWarning, setDuplicateWarning] = useState<{ matches: DuplicateMatch[]; formKey: string } | null>(null)
+
+  // What moderation decided about the listing just made, if it isn't shown yet
+  const [moderation, setModeration] = useState<Pick<ModerationVerdict, "status" | "findings"> | null>(null)
+
+  // Any edit after a preview invalidates it
+  const formKey = JSON.stringify([
+    title, description, price, category, condition, brand, size, color, material,
+    images.map(image => image.preview),
+  ])
+  const previewIsCurrent = pendingListing?.formKey === formKey
+  const duplicateWarningIsCurrent = duplicateWarning?.formKey === formKey
 
   // Handle image selection
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -90,6 +107,77 @@ export function ItemForm() {
       return updated
     })
   }
+  // Ask the listing assistant to draft the form from the photos
+  const handleAutoFill = async () => {
+    setError(null)
+    setDescribing(true)
+
+    try {
+      const response = await fetch("/api/ai/describe-item", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ images: await Promise.all(images.map(image => readAsDataUrl(image.file))) }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Auto-fill failed")
+      }
+      setSuggestions(data.suggestions)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Auto-fill failed")
+    } finally {
+      setDescribing(false)
+    }
+  }
+
+  const dismissSuggestion = (field: ListingField) => {
+    setSuggestions(prev => (prev ? { ...prev, [field]: null } : prev))
+  }
+
+  const acceptSuggestion = (field: ListingField) => {
+    const suggestion = suggestions?.[field]
+    if (!suggestion) return
+
+    const value = String(suggestion.value)
+    const setters: Record<ListingField, (value: string) => void> = {
+      title: setTitle,
+      description: setDescription,
+      price: setPrice,
+      category: setCategory,
+      condition: setCondition,
+      brand: setBrand,
+      size: setSize,
+      color: setColor,
+      material: setMaterial,
+    }
+    setters[field](value)
+    dismissSuggestion(field)
+  }
+
+  // Own active listings this draft duplicates; a failed check doesn't block listing
+  const checkDuplicates = async (): Promise<DuplicateMatch[]> => {
+    try {
+      const response = await fetch("/api/ai/index-item", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          check: true,
+          title: title.trim(),
+          description: description.trim(),
+          images: await Promise.all(images.map(image => readAsDataUrl(image.file))),
+        }),
+      })
+      if (!response.ok) {
+        throw new Error(`Duplicate check failed (${response.status})`)
+      }
+      const { duplicates } = await response.json() as { duplicates: DuplicateMatch[] }
+      return duplicates
+    } catch (err) {
+      console.warn("Duplicate check skipped:", err)
+      return []
+    }
+  }
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -97,8 +185,8 @@ export function ItemForm() {
     setSuccess(false)
 
     // Validation
-    if (!connected || !account) {
-      setError("Please connect your wallet first")
+    if (!connected || !address) {
+      setError("Please connect your wallet or sign in first")
       return
     }
 
@@ -125,35 +213,48 @@ export function ItemForm() {
     setIsSubmitting(true)
 
     try {
-      // Upload images to Walrus decentralized storage
-      console.log(`Uploading ${images.length} images to Walrus...`)
-
-      setImages(prev => prev.map(image => ({ ...image, uploading: true })))
+      // Warn about the seller's own near-duplicates before anything is uploaded.
+      // Submitting the same form again after the warning lists it anyway.
+      if (!duplicateWarningIsCurrent) {
+        const matches = await checkDuplicates()
+        if (matches.length > 0) {
+          setDuplicateWarning({ matches, formKey })
+          return
+        }
+      }
 
+      // Upload images to Walrus decentralized storage
       // Declare blobIds outside try block so it's accessible later
       let blobIds: string[] = []
       
       try {
-        // Upload all images and get blob IDs
-        blobIds = await uploadMultipleToWalrus(
-          images.map(img => img.file),  // Extract File objects from UploadedImage[]
-          (completed, total) => {
-            // Progress callback - logs to console
-            // Later we could show a progress bar to user
-            console.log(`Upload progress: ${completed}/${total}`)
-          }
-        )
-
-        console.log('✓ All images uploaded to Walrus:', blobIds)
-
-        setImages(prev =>
-          prev.map((image, index) => ({
-            ...image,
-            blobId: blobIds[index] ?? image.blobId,
-            uploading: false,
-          }))
-        )
-
+        if (images.every(image => image.blobId)) {
+          // Already uploaded when this listing was last previewed
+          blobIds = images.map(image => image.blobId as string)
+        } else {
+          console.log(`Uploading ${images.length} images to Walrus...`)
+          setImages(prev => prev.map(image => ({ ...image, uploading: true })))
+
+          // Upload all images and get blob IDs
+          blobIds = await uploadMultipleToWalrus(
+            images.map(img => img.file),  // Extract File objects from UploadedImage[]
+            (completed, total) => {
+              // Progress callback - logs to console
+              // Later we could show a progress bar to user
+              console.log(`Upload progress: ${completed}/${total}`)
+            }
+          )
+
+          console.log('✓ All images uploaded to Walrus:', blobIds)
+
+          setImages(prev =>
+            prev.map((image, index) => ({
+              ...image,
+              blobId: blobIds[index] ?? image.blobId,
+              uploading: false,
+            }))
+          )
+        }
       } catch (uploadError) {
         // If upload fails, show error to user and stop
         console.error('Walrus upload failed:', uploadError)
@@ -179,7 +280,7 @@ export function ItemForm() {
       }
 
       // Step 1: Build transaction parameters (WITH Walrus blob IDs)
-      const params: CreateItemParams = {
+      const params: thriftchain.CreateItemArgs = {
         title: title.trim(),
         description: description.trim(),
         price: priceInMist,
@@ -192,47 +293,53 @@ export function ItemForm() {
         walrusImageIds: blobIds, // Pass Walrus blob IDs to be stored on-chain
       }
 
-      // Build transaction with BCS serialization
+      // Arguments are validated and BCS-encoded against the Move signature here
       console.log('Building transaction to create item on-chain...')
       console.log('Transaction params:', { ...params, price: params.price.toString() })
 
-      const transaction = buildCreateItemTransaction(params)
+      // Step 2: Dry-run so the gas cost is shown before the wallet is asked to sign
+      setPendingListing({ params, formKey })
+      await preview(() => buildContractTransaction(tx => thriftchain.createItem(tx, params)))
+    } catch (err) {
+      console.error('Error preparing item listing:', err)
+      setError(err instanceof Error ? err.message : 'Failed to prepare item listing')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
 
-      // Step 3: Execute transaction with wallet (using modern Wallet Standard API)
-      console.log('Signing and executing transaction...')
+  // Sign the previewed listing, then index it for search
+  // New zkLogin accounts have no SUI, so gas can be sponsored instead
+  const canSponsor = GAS_SPONSORSHIP_ENABLED && previewIsCurrent && needsGasSponsorship(previewState)
 
-      // Modern Wallet Standard API returns BCS-encoded effects
-      const result = await wallet.signAndExecuteTransaction({
-        transaction: transaction,
-      })
+  const handleConfirmListing = async (sponsored = false) => {
+    if (!pendingListing || !previewIsCurrent || !(sponsored ? canSponsor : canSign)) return
 
-      console.log('✓ Transaction executed with digest:', result.digest)
-      console.log('Raw result:', result)
-
-      // Wait for transaction to be indexed and fetch full details
-      console.log('Fetching transaction details...')
-      const txResult = await suiClient.waitForTransaction({
-        digest: result.digest,
-        options: {
-          showEffects: true,
-          showObjectChanges: true,
-          showEvents: true, // IMPORTANT: Need this to get ItemCreated event
-        },
-      })
+    const { params } = pendingListing
+    setError(null)
+    setIsSubmitting(true)
 
-      console.log('✓ Transaction details fetched:', txResult)
+    try {
+      // Step 3: Sign, execute and confirm through the transaction runner
+      // (errors surface inline below rather than as toasts)
+      console.log('Signing and executing transaction...')
+      const result = await run({
+        label: 'List item',
+        build: () => buildContractTransaction(tx => thriftchain.createItem(tx, params)),
+        notify: false,
+        sponsored,
+      })
 
-      // Check if transaction was successful
-      if (txResult.effects?.status?.status !== 'success') {
-        console.error('Transaction failed:', txResult);
-        throw new Error(`Transaction failed: ${txResult.effects?.status?.error || 'Unknown error'}`);
+      if (!result.ok) {
+        throw result.error
       }
 
-      console.log('✓ Item created successfully on blockchain')
+      const txResult = result.outcome.response
+      console.log('✓ Item created successfully on blockchain:', result.outcome.digest)
 
       // Step 4: Extract the item ID from the ItemCreated event
       // Items in Tables don't appear in objectChanges, but the event has the ID
-      const suiObjectId = extractItemIdFromEvent(txResult);
+      const suiObjectId = findContractEvent(txResult, 'ItemCreated')?.item_id;
       if (!suiObjectId) {
         console.error('No item ID found in ItemCreated event:', txResult);
         throw new Error('Failed to extract item ID from transaction event');
@@ -248,35 +355,32 @@ export function ItemForm() {
       try {
         // Convert images to base64 for AI processing
         console.log('📸 Converting', images.length, 'images to base64...');
-        const base64Images = await Promise.all(
-          images.map(async (img) => {
-            return new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              reader.onloadend = () => resolve(reader.result as string);
-              reader.onerror = reject;
-              reader.readAsDataURL(img.file);
-            });
-          })
-        );
+        const base64Images = await Promise.all(images.map(img => readAsDataUrl(img.file)));
         console.log('✅ Images converted to base64');
 
         // Call AI indexing API
         console.log('🚀 Calling /api/ai/index-item...');
         console.log('Payload:', {
           sui_object_id: suiObjectId,
-          title: title.substring(0, 30) + '...',
-          description: description.substring(0, 30) + '...',
+          title: params.title.substring(0, 30) + '...',
+          description: params.description.substring(0, 30) + '...',
           images: base64Images.length + ' base64 strings'
         });
 
+        // The route only indexes what the seller signed for and what is on chain,
+        // so send the trimmed values the transaction stored
+        const indexPayload = {
+          sui_object_id: suiObjectId,
+          title: params.title,
+          description: params.description,
+          images: base64Images,
+        };
         const indexResponse = await fetch('/api/ai/index-item', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            sui_object_id: suiObjectId,
-            title,
-            description,
-            images: base64Images,
+            ...indexPayload,
+            auth: await signAction('index-item', indexPayload),
           }),
         });
 
@@ -293,6 +397,9 @@ export function ItemForm() {
           const indexResult = await indexResponse.json();
           console.log('✅ AI embeddings generated and indexed successfully!');
           console.log('Result:', JSON.stringify(indexResult, null, 2));
+          if (indexResult.moderation && indexResult.moderation.status !== 'approved') {
+            setModeration(indexResult.moderation);
+          }
         }
       } catch (indexError) {
         console.error('🔴 Exception during AI indexing:', indexError);
@@ -324,6 +431,10 @@ export function ItemForm() {
       setColor("")
       setMaterial("")
       setImages([])
+      setSuggestions(null)
+      setDuplicateWarning(null)
+      setPendingListing(null)
+      resetPreview()
 
     } catch (err) {
       console.error('Error creating item:', err)
@@ -338,7 +449,7 @@ export function ItemForm() {
       <>
         <div className="retro-card retro-shadow p-6 text-center">
           <h2 className="text-xl mb-3">Wallet Not Connected</h2>
-          <p className="opacity-80 mb-4">Please connect your wallet to list an item</p>
+          <p className="opacity-80 mb-4">Please connect your wallet or sign in to list an item</p>
           <Button onClick={() => setLoginModalOpen(true)}>
             Connect Wallet
           </Button>
@@ -357,7 +468,24 @@ export function ItemForm() {
         <div className="text-4xl mb-3">✓</div>
         <h2 className="text-xl mb-3">Your item has been listed!</h2>
         <p className="opacity-80 mb-4">Item listed successfully. Check item status and offers through your dashboard.</p>
-        <Button onClick={() => setSuccess(false)}>
+        {moderation && (
+          <div className="text-left border-2 border-yellow-500 bg-yellow-50 p-3 mb-4 text-sm">
+            <p className="font-semibold mb-1">
+              {moderation.status === "blocked"
+                ? "It won't appear in search or listings:"
+                : "It won't appear in search or listings until a moderator reviews it:"}
+            </p>
+            <ul className="list-disc pl-5">
+              {moderation.findings.map(finding => (
+                <li key={`${finding.source}-${finding.code}`}>
+                  {finding.reason}
+                  {finding.excerpt && <span className="opacity-60"> (&ldquo;{finding.excerpt}&rdquo;)</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <Button onClick={() => { setSuccess(false); setModeration(null) }}>
           Create Another Listing
         </Button>
       </div>
@@ -415,6 +543,13 @@ export function ItemForm() {
             className="w-full px-3 py-2 border-2 border-black bg-white outline-none focus:border-black/70"
             required
           />
+          <PriceSuggestion
+            title={title}
+            description={description}
+            condition={condition}
+            brand={brand}
+            onUse={(suggested) => setPrice(String(suggested))}
+          />
         </div>
 
         <div className="retro-card retro-shadow p-4">
@@ -575,6 +710,19 @@ export function ItemForm() {
               + Add Images ({images.length}/5)
             </Button>
           )}
+
+          {/* Draft the fields above from the photos */}
+          {images.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleAutoFill}
+              disabled={describing}
+              className="w-full"
+            >
+              {describing ? "Looking at your photos..." : "Auto-fill from photos"}
+            </Button>
+          )}
         </div>
 
         <div className="text-xs opacity-60 mt-2">
@@ -582,6 +730,36 @@ export function ItemForm() {
         </div>
       </div>
 
+      {suggestions && (
+        <ListingSuggestions
+          suggestions={suggestions}
+          onAccept={acceptSuggestion}
+          onReject={dismissSuggestion}
+        />
+      )}
+
+      {/* Near-duplicates of the seller's own listings */}
+      {duplicateWarningIsCurrent && duplicateWarning && (
+        <div className="retro-card p-4 bg-yellow-50 border-2 border-yellow-500 space-y-2">
+          <p className="text-sm font-semibold">This looks like something you already have listed:</p>
+          <ul className="text-sm space-y-1">
+            {duplicateWarning.matches.map(match => (
+              <li key={match.itemId}>
+                <Link href={`/items/${match.itemId}`} target="_blank" className="underline">
+                  {match.title}
+                </Link>
+                <span className="opacity-60">
+                  {" "}· {Math.round(Math.max(match.combinedSimilarity, match.imageSimilarity) * 100)}% similar
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs opacity-80">
+            Edit or cancel the existing listing instead, or review again to list this one anyway.
+          </p>
+        </div>
+      )}
+
       {/* Error message */}
       {error && (
         <div className="retro-card p-4 bg-red-50 border-2 border-red-500">
@@ -589,14 +767,39 @@ export function ItemForm() {
         </div>
       )}
 
-      {/* Submit button */}
-      <Button
-        type="submit"
-        disabled={isSubmitting}
-        className="w-full h-12 text-base"
-      >
-        {isSubmitting ? 'Creating Listing...' : 'List Item on Blockchain'}
-      </Button>
+      {/* Cost preview */}
+      {previewIsCurrent && <TransactionPreviewPanel state={previewState} />}
+
+      {/* Submit button: review first, then sign */}
+      {previewState.status === 'ready' && previewIsCurrent ? (
+        <Button
+          type="button"
+          onClick={() => handleConfirmListing()}
+          disabled={isSubmitting || !canSign}
+          className="w-full h-12 text-base"
+        >
+          {isSubmitting ? 'Creating Listing...' : 'Sign & List Item'}
+        </Button>
+      ) : (
+        <Button
+          type="submit"
+          disabled={isSubmitting || previewState.status === 'loading'}
+          className="w-full h-12 text-base"
+        >
+          {isSubmitting || previewState.status === 'loading' ? 'Preparing Listing...' : 'Review Listing'}
+        </Button>
+      )}
+
+      {canSponsor && (
+        <Button
+          type="button"
+          onClick={() => handleConfirmListing(true)}
+          disabled={isSubmitting}
+          className="w-full h-12 text-base"
+        >
+          {isSubmitting ? 'Creating Listing...' : 'List with Sponsored Gas'}
+        </Button>
+      )}
 
       <p className="text-xs opacity-60 text-center">
         By listing, you confirm the item information is accurate and you own the item.
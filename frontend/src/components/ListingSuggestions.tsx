@@ -0,0 +1,74 @@
+"use client"
+
+import type { ListingField, ListingSuggestions as Suggestions } from "@/lib/ai/listing-assistant"
+import { Button } from "./ui/button"
+
+const FIELD_LABELS: Record<ListingField, string> = {
+  title: "Title",
+  description: "Description",
+  price: "Price (SUI)",
+  category: "Category",
+  condition: "Condition",
+  brand: "Brand",
+  size: "Size",
+  color: "Color",
+  material: "Material",
+}
+
+interface ListingSuggestionsProps {
+  suggestions: Suggestions
+  /** Copy one suggestion into the form */
+  onAccept: (field: ListingField) => void
+  /** Drop one suggestion without using it */
+  onReject: (field: ListingField) => void
+}
+
+function confidenceLabel(confidence: number): string {
+  if (confidence >= 0.75) return "sure"
+  if (confidence >= 0.4) return "likely"
+  return "guess"
+}
+
+/**
+ * Fields the listing assistant drafted from the photos, each accepted or
+ * dismissed on its own. Fields it had nothing for aren't shown.
+ */
+export function ListingSuggestions({ suggestions, onAccept, onReject }: ListingSuggestionsProps) {
+  const fields = (Object.keys(FIELD_LABELS) as ListingField[]).filter(field => suggestions[field])
+  if (fields.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="retro-card retro-shadow p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">Suggested from your photos</h3>
+        <Button type="button" variant="outline" size="sm" onClick={() => fields.forEach(onAccept)}>
+          Use all
+        </Button>
+      </div>
+
+      <ul className="space-y-2">
+        {fields.map(field => {
+          const { value, confidence } = suggestions[field]!
+          return (
+            <li key={field} className="flex items-start gap-3 border-2 border-dashed border-black p-2 text-sm">
+              <div className="flex-1 min-w-0">
+                <div className="text-xs opacity-60">
+                  {FIELD_LABELS[field]} · {confidenceLabel(confidence)} ({Math.round(confidence * 100)}%)
+                </div>
+                <div className={field === "description" ? "whitespace-pre-line" : "truncate"}>{String(value)}</div>
+              </div>
+              <button type="button" onClick={() => onAccept(field)} className="px-2 py-1 border-2 border-black hover:bg-black hover:text-white">
+                Use
+              </button>
+              <button type="button" onClick={() => onReject(field)} className="px-2 py-1 opacity-60 hover:opacity-100" aria-label={`Dismiss ${FIELD_LABELS[field]}`}>
+                ×
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -1,6 +1,9 @@
 "use client"
 
+import { useState } from "react"
 import { useWallet } from "@suiet/wallet-kit"
+import { useSession } from "@/lib/session/provider"
+import { useZkLogin } from "@/lib/zklogin/hooks"
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 
@@ -10,7 +13,12 @@ type Props = {
 }
 
 export function LoginModal({ open, onOpenChange }: Props) {
-  const { connected, account, allAvailableWallets, select, disconnect } = useWallet()
+  const { allAvailableWallets, select } = useWallet()
+  const { identity, signOut } = useSession()
+  const zkLogin = useZkLogin()
+  const [socialError, setSocialError] = useState<string | null>(null)
+  const [socialPending, setSocialPending] = useState(false)
+  const address = identity?.address
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -18,32 +26,52 @@ export function LoginModal({ open, onOpenChange }: Props) {
         <DialogHeader>
           <DialogTitle className="px-5 pt-5 text-2xl">Connect Wallet</DialogTitle>
           <DialogDescription className="px-5">
-            Connect your Sui wallet to start trading on ThriftChain.
+            Connect your Sui wallet or sign in with Google to start trading on ThriftChain.
           </DialogDescription>
         </DialogHeader>
 
         <div className="py-6 px-5">
-          {connected ? (
+          {identity ? (
             <div className="space-y-4">
               <div className="retro-card p-4 text-center">
-                <p className="text-sm opacity-70 mb-2">Connected Address</p>
+                <p className="text-sm opacity-70 mb-2">
+                  {identity.method === "wallet" ? "Connected Address" : `Signed in${identity.displayName ? ` as ${identity.displayName}` : ""}`}
+                </p>
                 <p className="font-mono font-bold text-lg">
-                  {account?.address?.slice(0, 6)}...{account?.address?.slice(-4)}
+                  {address?.slice(0, 6)}...{address?.slice(-4)}
                 </p>
               </div>
               <Button
                 variant="outline"
                 onClick={() => {
-                  disconnect()
+                  void signOut()
                   onOpenChange(false)
                 }}
                 className="w-full"
               >
-                Disconnect
+                {identity.method === "wallet" ? "Disconnect" : "Sign out"}
               </Button>
             </div>
           ) : (
             <div className="space-y-3">
+              <Button
+                className="w-full h-12 text-base"
+                disabled={socialPending}
+                onClick={async () => {
+                  setSocialError(null)
+                  setSocialPending(true)
+                  try {
+                    await zkLogin.signIn()
+                  } catch (e) {
+                    console.error(e)
+                    setSocialError(e instanceof Error ? e.message : "Google sign-in is unavailable")
+                    setSocialPending(false)
+                  }
+                }}
+              >
+                {socialPending ? "Redirecting…" : "Continue with Google"}
+              </Button>
+              {socialError && <p className="text-sm text-red-600">{socialError}</p>}
               {allAvailableWallets.map((w) => (
                 <Button
                   key={w.name}
@@ -1,15 +1,14 @@
 'use client';
 
 import { useState } from 'react';
-import { useWallet } from '@suiet/wallet-kit';
-import { Transaction } from '@mysten/sui/transactions';
+import { useSession } from '@/lib/session/provider';
+import { coinWithBalance } from '@mysten/sui/transactions';
 import { toast } from 'sonner';
 import { suiToMist } from '@/lib/types/sui-objects';
-import { suiClient } from '@/lib/sui/client';
-
-const THRIFTCHAIN_PACKAGE_ID = process.env.NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID || '';
-const MARKETPLACE_ID = process.env.NEXT_PUBLIC_MARKETPLACE_ID || '';
-const CLOCK_ID = '0x6'; // Sui Clock object (standard on all Sui networks)
+import { buildContractTransaction, thriftchain } from '@/lib/sui/contract';
+import { needsGasSponsorship, useTransactionPreview, useTransactionRunner } from '@/lib/transactions/hooks';
+import { GAS_SPONSORSHIP_ENABLED } from '@/lib/sponsor/client';
+import { TransactionPreviewPanel } from './TransactionPreviewPanel';
 
 interface MakeOfferModalProps {
   isOpen: boolean;
@@ -30,7 +29,9 @@ export function MakeOfferModal({
   sellerAddress,
   onSuccess,
 }: MakeOfferModalProps) {
-  const wallet = useWallet();
+  const { address } = useSession();
+  const { run } = useTransactionRunner();
+  const { state: previewState, preview, reset: resetPreview, canSign } = useTransactionPreview();
   const [offerAmount, setOfferAmount] = useState('');
   const [message, setMessage] = useState('');
   const [expiration, setExpiration] = useState('168'); // Default 7 days (168 hours)
@@ -39,102 +40,69 @@ export function MakeOfferModal({
   // Calculate item price in SUI for display
   const itemPriceSui = (parseFloat(itemPrice) / 1_000_000_000).toFixed(2);
 
-  const handleSubmit = async () => {
-    if (!wallet.account?.address) {
-      toast.error('Please connect your wallet first');
+  const amountMist = offerAmount && parseFloat(offerAmount) > 0 ? suiToMist(parseFloat(offerAmount)) : BigInt(0);
+
+  // Arguments are validated against the Move signature while building
+  // With sponsored gas, tx.gas is the sponsor's coin, so pay from the buyer's own coins
+  const buildOfferTransaction = (sponsored = false) => buildContractTransaction((tx) => {
+    // Split coins to get exact payment amount
+    const paymentCoin = sponsored
+      ? tx.add(coinWithBalance({ balance: amountMist, useGasCoin: false }))
+      : tx.splitCoins(tx.gas, [tx.pure.u64(amountMist)])[0];
+
+    thriftchain.createOfferById(tx, {
+      itemId,
+      amount: amountMist,
+      message,
+      expiresInHours: parseInt(expiration),
+      payment: paymentCoin,
+    });
+  });
+
+  // Step 1: dry-run the offer so the user sees the full cost before signing
+  const handleReview = async () => {
+    if (!address) {
+      toast.error('Please connect your wallet or sign in first');
       return;
     }
 
-    if (!offerAmount || parseFloat(offerAmount) <= 0) {
+    if (amountMist <= BigInt(0)) {
       toast.error('Please enter a valid offer amount');
       return;
     }
 
     // Validate user isn't offering on their own item
-    if (wallet.account.address === sellerAddress) {
+    if (address === sellerAddress) {
       toast.error('You cannot make an offer on your own item');
       return;
     }
 
-    setSubmitting(true);
-
-    try {
-      // Convert SUI to MIST
-      const amountMist = suiToMist(parseFloat(offerAmount));
-      const expirationHours = parseInt(expiration);
-
-      // Check wallet balance
-      const balance = await suiClient.getBalance({
-        owner: wallet.account.address,
-      });
-
-      const balanceBigInt = BigInt(balance.totalBalance);
-      const requiredAmount = amountMist + BigInt(100_000_000); // Add ~0.1 SUI for gas
-
-      if (balanceBigInt < requiredAmount) {
-        toast.error(`Insufficient balance. You need ${(Number(requiredAmount) / 1_000_000_000).toFixed(4)} SUI (including gas)`);
-        setSubmitting(false);
-        return;
-      }
-
-      // Build transaction
-      const tx = new Transaction();
-
-      console.log('[MakeOffer] Building transaction with:', {
-        packageId: THRIFTCHAIN_PACKAGE_ID,
-        marketplaceId: MARKETPLACE_ID,
-        itemId,
-        amountMist: amountMist.toString(),
-        message,
-        expirationHours,
-      });
-
-      // Split coins to get exact payment amount
-      const [paymentCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(amountMist)]);
-
-      // Call create_offer_by_id with payment
-      tx.moveCall({
-        target: `${THRIFTCHAIN_PACKAGE_ID}::thriftchain::create_offer_by_id`,
-        arguments: [
-          tx.object(MARKETPLACE_ID),
-          tx.pure.id(itemId),
-          tx.pure.u64(amountMist),
-          tx.pure.string(message),
-          tx.pure.u64(expirationHours),
-          paymentCoin,
-          tx.object(CLOCK_ID),
-        ],
-      });
-
-      tx.setGasBudget(100_000_000); // 0.1 SUI gas budget
+    await preview(() => buildOfferTransaction());
+  };
 
-      console.log('[MakeOffer] Transaction built, signing...');
+  // A buyer without SUI for gas can still pay the offer itself with sponsored gas
+  const canSponsor = GAS_SPONSORSHIP_ENABLED && needsGasSponsorship(previewState);
 
-      // Sign and execute transaction
-      const result = await wallet.signAndExecuteTransaction({
-        transaction: tx,
-      });
+  // Step 2: sign once the preview shows the wallet can cover it
+  const handleSubmit = async (sponsored = false) => {
+    if (!(sponsored ? canSponsor : canSign)) return;
 
-      console.log('Offer creation result:', result);
+    setSubmitting(true);
 
-      // Wait for transaction to be indexed and get full result
-      const txResult = await suiClient.waitForTransaction({
-        digest: result.digest,
-        options: {
-          showEffects: true,
-          showEvents: true,
-        },
+    try {
+      const result = await run({
+        label: 'Make offer',
+        successMessage: 'Offer created successfully! Payment locked in escrow.',
+        build: () => buildOfferTransaction(sponsored),
+        sponsored,
       });
 
-      console.log('Transaction indexed:', txResult);
-
-      if (txResult.effects?.status?.status === 'success') {
-        toast.success('Offer created successfully! Payment locked in escrow.');
-
+      if (result.ok) {
         // Reset form
         setOfferAmount('');
         setMessage('');
         setExpiration('168');
+        resetPreview();
 
         // Close modal
         onClose();
@@ -143,30 +111,7 @@ export function MakeOfferModal({
         if (onSuccess) {
           onSuccess();
         }
-      } else {
-        throw new Error('Transaction failed');
-      }
-    } catch (error) {
-      console.error('Error creating offer:', error);
-
-      // Extract detailed error message
-      let errorMessage = 'Failed to create offer';
-
-      if (error instanceof Error) {
-        errorMessage = error.message;
-
-        // Check for specific Sui errors
-        if (error.message.includes('InsufficientCoinBalance')) {
-          errorMessage = 'Insufficient balance to create offer (including gas fees)';
-        } else if (error.message.includes('InvalidSharedObjectKind')) {
-          errorMessage = 'Cannot access marketplace - please contact support';
-        } else if (error.message.includes('InvalidObjectID')) {
-          errorMessage = 'Invalid item ID - item may have been removed';
-        }
       }
-
-      toast.error(errorMessage);
-      console.error('Full error object:', JSON.stringify(error, null, 2));
     } finally {
       setSubmitting(false);
     }
@@ -196,7 +141,10 @@ export function MakeOfferModal({
           <input
             type="number"
             value={offerAmount}
-            onChange={(e) => setOfferAmount(e.target.value)}
+            onChange={(e) => {
+              setOfferAmount(e.target.value);
+              resetPreview();
+            }}
             className="w-full px-4 py-3 bg-neutral-200 border-4 border-white font-mono text-lg focus:outline-none focus:border-black"
             placeholder="0.00"
             step="0.01"
@@ -216,7 +164,10 @@ export function MakeOfferModal({
           </label>
           <textarea
             value={message}
-            onChange={(e) => setMessage(e.target.value)}
+            onChange={(e) => {
+              setMessage(e.target.value);
+              resetPreview();
+            }}
             className="w-full px-4 py-3 bg-neutral-200 border-4 border-white resize-none focus:outline-none focus:border-black"
             rows={3}
             placeholder="Hi! I'm interested in this item..."
@@ -231,7 +182,10 @@ export function MakeOfferModal({
           </label>
           <select
             value={expiration}
-            onChange={(e) => setExpiration(e.target.value)}
+            onChange={(e) => {
+              setExpiration(e.target.value);
+              resetPreview();
+            }}
             className="w-full px-4 py-3 bg-neutral-200 border-4 border-white focus:outline-none focus:border-black"
             disabled={submitting}
           >
@@ -242,23 +196,56 @@ export function MakeOfferModal({
           </select>
         </div>
 
+        {/* Cost preview */}
+        {previewState.status !== 'idle' && (
+          <div className="mb-6">
+            <TransactionPreviewPanel
+              state={previewState}
+              payment={{ label: 'Offer amount', amount: amountMist }}
+            />
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex gap-3">
           <button
-            onClick={onClose}
+            onClick={() => {
+              resetPreview();
+              onClose();
+            }}
             className="retro-btn flex-1 bg-black hover:bg-neutral-900 px-6 py-3 text-white"
             disabled={submitting}
           >
             Cancel
           </button>
+          {previewState.status === 'ready' ? (
+            <button
+              onClick={() => handleSubmit()}
+              className="retro-btn flex-1 bg-green-600 hover:bg-green-700 px-6 py-3"
+              disabled={submitting || !canSign}
+            >
+              {submitting ? 'Submitting...' : 'Sign & Submit'}
+            </button>
+          ) : (
+            <button
+              onClick={handleReview}
+              className="retro-btn flex-1 bg-green-600 hover:bg-green-700 px-6 py-3"
+              disabled={previewState.status === 'loading' || amountMist <= BigInt(0)}
+            >
+              {previewState.status === 'loading' ? 'Estimating...' : 'Review Offer'}
+            </button>
+          )}
+        </div>
+
+        {canSponsor && (
           <button
-            onClick={handleSubmit}
-            className="retro-btn flex-1 bg-green-600 hover:bg-green-700 px-6 py-3"
-            disabled={submitting || !offerAmount || parseFloat(offerAmount) <= 0}
+            onClick={() => handleSubmit(true)}
+            className="retro-btn w-full mt-3 bg-yellow-600 hover:bg-yellow-700 px-6 py-3"
+            disabled={submitting}
           >
-            {submitting ? 'Submitting...' : 'Submit Offer'}
+            {submitting ? 'Submitting...' : 'Submit with Sponsored Gas'}
           </button>
-        </div>
+        )}
 
         {submitting && (
           <div className="mt-4 p-3 bg-blue-500/20 border-2 border-blue-500 text-center">
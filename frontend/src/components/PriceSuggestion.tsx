@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { PriceSuggestion as Suggestion } from "@/lib/ai/pricing"
+
+/** Wait for the seller to stop typing before asking */
+const DRAFT_DEBOUNCE_MS = 800
+const MIN_TITLE_LENGTH = 3
+
+interface PriceSuggestionProps {
+  /** A listed item (counter-offers) */
+  itemId?: string
+  /** Or a draft's fields (the listing form) */
+  title?: string
+  description?: string
+  condition?: string
+  brand?: string
+  /** Copy a price into the input next to it */
+  onUse?: (price: number) => void
+}
+
+const formatSui = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+/**
+ * "Similar items sold for X-Y SUI" from /api/ai/price-suggestion, with the
+ * sales it is based on behind a toggle. Renders nothing while loading, on
+ * error, or when too few similar items have sold.
+ */
+export function PriceSuggestion({ itemId, title, description, condition, brand, onUse }: PriceSuggestionProps) {
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null)
+  const [showComparables, setShowComparables] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSuggestion = async () => {
+      const draftReady = (title?.trim().length ?? 0) >= MIN_TITLE_LENGTH
+      if (!itemId && !draftReady) {
+        setSuggestion(null)
+        return
+      }
+
+      try {
+        const response = await fetch("/api/ai/price-suggestion", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(itemId ? { itemId } : { title, description, condition, brand }),
+        })
+        if (!response.ok) {
+          throw new Error(`Price suggestion request failed (${response.status})`)
+        }
+
+        const result = await response.json() as { suggestion: Suggestion | null }
+        if (!cancelled) setSuggestion(result.suggestion)
+      } catch (error) {
+        // A hint only; pricing works without it
+        console.error("Failed to load price suggestion:", error)
+        if (!cancelled) setSuggestion(null)
+      }
+    }
+
+    const timer = setTimeout(loadSuggestion, itemId ? 0 : DRAFT_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [itemId, title, description, condition, brand])
+
+  if (!suggestion) {
+    return null
+  }
+
+  const range = suggestion.low === suggestion.high
+    ? `${formatSui(suggestion.suggested)} SUI`
+    : `${formatSui(suggestion.low)}–${formatSui(suggestion.high)} SUI`
+
+  return (
+    <div className="mt-2 text-sm border-2 border-dashed border-black p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>
+          Similar items sold for <strong>{range}</strong>
+        </span>
+        {onUse && (
+          <button
+            type="button"
+            onClick={() => onUse(suggestion.suggested)}
+            className="px-2 py-0.5 border-2 border-black hover:bg-black hover:text-white"
+          >
+            Use {formatSui(suggestion.suggested)}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowComparables(shown => !shown)}
+          className="underline opacity-70 hover:opacity-100"
+        >
+          {showComparables ? "Hide" : `Based on ${suggestion.basedOn} sales`}
+        </button>
+      </div>
+
+      {showComparables && (
+        <ul className="mt-2 space-y-1">
+          {suggestion.comparables.map(comparable => (
+            <li key={comparable.itemId} className="flex justify-between gap-3">
+              <span className="truncate">
+                {comparable.title}
+                <span className="opacity-60">
+                  {" "}· {[comparable.condition, comparable.brand].filter(Boolean).join(" · ")}
+                  {comparable.soldAtMs > 0 && ` · ${new Date(comparable.soldAtMs).toLocaleDateString()}`}
+                </span>
+              </span>
+              <span className="whitespace-nowrap font-semibold">{formatSui(comparable.soldPrice)} SUI</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
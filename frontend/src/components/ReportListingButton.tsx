@@ -0,0 +1,117 @@
+"use client"
+
+import { useState } from "react"
+import { useSession } from "@/lib/session/provider"
+import {
+  MAX_REPORT_DETAILS,
+  REPORT_REASON_LABELS,
+  REPORT_REASONS,
+  type ReportReason,
+} from "@/lib/moderation/admin"
+
+interface ReportListingButtonProps {
+  itemId: string
+}
+
+/**
+ * Report a listing to the moderators. Opens a short form (reason and
+ * optional details); reports land in the admin moderation queue.
+ */
+export function ReportListingButton({ itemId }: ReportListingButtonProps) {
+  const { connected, ensureServerSession } = useSession()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState<ReportReason>("prohibited")
+  const [details, setDetails] = useState("")
+  const [state, setState] = useState<"idle" | "sending" | "sent">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const send = async () => {
+    setState("sending")
+    setError(null)
+
+    try {
+      await ensureServerSession()
+      const response = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId, reason, details }),
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || "Could not send your report")
+      }
+      setState("sent")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send your report")
+      setState("idle")
+    }
+  }
+
+  if (state === "sent") {
+    return (
+      <p className="text-sm text-center opacity-80">
+        ✓ Thanks, a moderator will take a look at this listing.
+      </p>
+    )
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        disabled={!connected}
+        title={connected ? "Tell the moderators about a problem with this listing" : "Sign in to report listings"}
+        className="w-full text-sm underline opacity-70 hover:opacity-100 disabled:opacity-40"
+      >
+        🚩 Report listing
+      </button>
+    )
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <h3 className="font-black">Report this listing</h3>
+      <label className="block">
+        <span className="font-semibold">What&apos;s wrong?</span>
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as ReportReason)}
+          className="mt-1 w-full border-2 border-black px-2 py-2 bg-white"
+        >
+          {REPORT_REASONS.map((value) => (
+            <option key={value} value={value}>{REPORT_REASON_LABELS[value]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className="font-semibold">Details {reason === "other" ? "" : "(optional)"}</span>
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          maxLength={MAX_REPORT_DETAILS}
+          rows={3}
+          className="mt-1 w-full border-2 border-black px-2 py-2"
+        />
+      </label>
+      {error && <p className="text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={send}
+          disabled={state === "sending" || (reason === "other" && !details.trim())}
+          className="flex-1 px-4 py-2 border-2 border-black retro-btn bg-red-100 disabled:opacity-50"
+        >
+          {state === "sending" ? "Sending..." : "Send report"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 border-2 border-black retro-btn bg-white"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import Link from "next/link"
+import { useState } from "react"
+import { useSession } from "@/lib/session/provider"
+import type { SearchFiltersJson } from "@/lib/ai/hybrid-search"
+
+interface SaveSearchButtonProps {
+  query: string
+  filters: SearchFiltersJson
+}
+
+/**
+ * Save the current search so new matching listings raise an alert.
+ * Saved searches are managed from the stash page.
+ */
+export function SaveSearchButton({ query, filters }: SaveSearchButtonProps) {
+  const { connected, ensureServerSession } = useSession()
+  const [state, setState] = useState<"idle" | "saving" | "saved">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async () => {
+    setState("saving")
+    setError(null)
+
+    try {
+      await ensureServerSession()
+      const response = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, filters }),
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || "Could not save this search")
+      }
+      setState("saved")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save this search")
+      setState("idle")
+    }
+  }
+
+  if (state === "saved") {
+    return (
+      <span className="text-sm">
+        ✓ Saved. We&apos;ll let you know about new matches.{" "}
+        <Link href="/stash?tab=saved-searches" className="underline">Manage</Link>
+      </span>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      {error && <span className="text-red-600">{error}</span>}
+      <button
+        type="button"
+        onClick={save}
+        disabled={!connected || state === "saving"}
+        title={connected ? "Get alerts when new items match" : "Sign in to save searches"}
+        className="px-4 py-2 border-2 border-black retro-btn disabled:opacity-50"
+      >
+        {state === "saving" ? "Saving..." : "🔔 Save search"}
+      </button>
+    </div>
+  )
+}
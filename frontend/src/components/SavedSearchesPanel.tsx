@@ -0,0 +1,279 @@
+"use client"
+
+import Link from "next/link"
+import { useEffect, useState } from "react"
+import { useSession } from "@/lib/session/provider"
+import type { SavedSearch, SearchAlert } from "@/lib/ai/saved-searches"
+import type { SearchFiltersJson } from "@/lib/ai/hybrid-search"
+import { mistToSui } from "@/lib/types/sui-objects"
+
+/**
+ * Listings URL that re-runs a saved search (prices back in SUI)
+ */
+function searchUrl(search: SavedSearch): string {
+  const params = new URLSearchParams({ q: search.query })
+  for (const [key, value] of Object.entries(search.filters) as [keyof SearchFiltersJson, string][]) {
+    params.set(key, key === "minPrice" || key === "maxPrice" ? String(mistToSui(value)) : value)
+  }
+  return `/listings?${params}`
+}
+
+function describeFilters(filters: SearchFiltersJson): string {
+  const parts = (["category", "condition", "brand", "size", "color"] as const)
+    .filter(key => filters[key])
+    .map(key => filters[key])
+  if (filters.minPrice) parts.push(`from ${mistToSui(filters.minPrice)} SUI`)
+  if (filters.maxPrice) parts.push(`up to ${mistToSui(filters.maxPrice)} SUI`)
+  return parts.join(" · ")
+}
+
+/**
+ * Result of a confirmation link (?emailConfirmed= from /api/saved-searches/confirm-email)
+ */
+function confirmationNotice(): string | null {
+  if (typeof window === "undefined") return null
+  const confirmed = new URLSearchParams(window.location.search).get("emailConfirmed")
+  if (confirmed === "1") return "Email confirmed. Digests will be sent there from now on."
+  if (confirmed === "0") return "That confirmation link was already used or replaced by a newer one. Save the email again for a new link."
+  return null
+}
+
+/**
+ * SavedSearchesPanel - Stash tab for saved searches and their alerts
+ *
+ * Features:
+ * - New-match alerts, newest first, with mark-all-read
+ * - Each saved search with re-run, delete, and digest settings
+ *   (match strictness, email, webhook); emails are confirmed by link first
+ */
+export function SavedSearchesPanel() {
+  const { ensureServerSession } = useSession()
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [alerts, setAlerts] = useState<SearchAlert[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(confirmationNotice)
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState({ threshold: "", email: "", webhook: "" })
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        await ensureServerSession()
+        const [searchesResponse, alertsResponse] = await Promise.all([
+          fetch("/api/saved-searches"),
+          fetch("/api/alerts"),
+        ])
+        if (!searchesResponse.ok || !alertsResponse.ok) {
+          throw new Error("Failed to load saved searches")
+        }
+        const [searchesBody, alertsBody] = await Promise.all([searchesResponse.json(), alertsResponse.json()])
+        if (cancelled) return
+        setSearches(searchesBody.savedSearches)
+        setAlerts(alertsBody.alerts)
+      } catch (err) {
+        console.error("Error loading saved searches:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load saved searches")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [ensureServerSession])
+
+  const markAllRead = async () => {
+    await fetch("/api/alerts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    })
+    const now = new Date().toISOString()
+    setAlerts(prev => prev.map(alert => ({ ...alert, readAt: alert.readAt ?? now })))
+  }
+
+  const remove = async (id: string) => {
+    const response = await fetch(`/api/saved-searches/${id}`, { method: "DELETE" })
+    if (response.ok) {
+      setSearches(prev => prev.filter(search => search.id !== id))
+      setAlerts(prev => prev.filter(alert => alert.savedSearchId !== id))
+    } else {
+      setError("Failed to delete saved search")
+    }
+  }
+
+  const startEditing = (search: SavedSearch) => {
+    setEditing(search.id)
+    setDraft({
+      threshold: String(search.similarityThreshold),
+      email: search.notifyEmail ?? "",
+      webhook: search.webhookUrl ?? "",
+    })
+  }
+
+  const saveSettings = async (id: string) => {
+    const response = await fetch(`/api/saved-searches/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        similarityThreshold: Number(draft.threshold),
+        notifyEmail: draft.email.trim() || null,
+        webhookUrl: draft.webhook.trim() || null,
+      }),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      setError(body.error || "Failed to update saved search")
+      return
+    }
+    setSearches(prev => prev.map(search => (search.id === id ? body.savedSearch : search)))
+    setEditing(null)
+    setError(null)
+    if (body.confirmationSent) {
+      setNotice(`We sent a confirmation link to ${body.savedSearch.notifyEmail}. Digests start once it's opened.`)
+    }
+  }
+
+  if (loading) {
+    return <div className="retro-card p-8 text-center">Loading saved searches...</div>
+  }
+
+  const unread = alerts.filter(alert => !alert.readAt).length
+  const searchName = (id: string) => searches.find(search => search.id === id)?.name ?? "Saved search"
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="retro-card p-4 bg-red-50 border-2 border-red-500 text-sm">{error}</div>
+      )}
+      {notice && (
+        <div className="retro-card p-4 bg-green-50 border-2 border-green-600 text-sm">{notice}</div>
+      )}
+
+      {/* Alerts */}
+      <div className="retro-card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-black">New matches {unread > 0 && `(${unread})`}</h3>
+          {unread > 0 && (
+            <button type="button" onClick={markAllRead} className="text-sm underline opacity-70">
+              Mark all read
+            </button>
+          )}
+        </div>
+        {alerts.length === 0 ? (
+          <p className="opacity-60 text-sm">No matches yet. We&apos;ll list new items here as they&apos;re listed.</p>
+        ) : (
+          <ul className="space-y-2">
+            {alerts.map(alert => (
+              <li key={alert.id} className={`flex justify-between gap-4 text-sm ${alert.readAt ? "opacity-60" : "font-bold"}`}>
+                <Link href={`/items/${alert.itemId}`} className="underline truncate">
+                  {alert.itemTitle}
+                </Link>
+                <span className="whitespace-nowrap">
+                  {mistToSui(alert.itemPrice)} SUI · {searchName(alert.savedSearchId)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Saved searches */}
+      {searches.length === 0 ? (
+        <div className="retro-card p-8 text-center">
+          <p className="mb-4 text-xl">No saved searches yet</p>
+          <Link href="/listings" className="retro-btn p-4 inline-block">
+            Search and tap &ldquo;Save search&rdquo;
+          </Link>
+        </div>
+      ) : (
+        searches.map(search => (
+          <div key={search.id} className="retro-card p-6">
+            <div className="flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <h3 className="text-xl font-bold truncate">{search.name}</h3>
+                <p className="text-sm opacity-70">
+                  &ldquo;{search.query}&rdquo; {describeFilters(search.filters) && `· ${describeFilters(search.filters)}`}
+                </p>
+                <p className="text-xs opacity-60 mt-1">
+                  Alerts: in app
+                  {search.notifyEmail && `, email to ${search.notifyEmail}`}
+                  {search.notifyEmail && !search.notifyEmailConfirmed && " (waiting for confirmation)"}
+                  {search.webhookUrl && ", webhook"}
+                  {` · strictness ${search.similarityThreshold}`}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Link href={searchUrl(search)} className="retro-btn px-4 py-2 bg-black text-white">
+                  Search
+                </Link>
+                <button type="button" onClick={() => startEditing(search)} className="retro-btn px-4 py-2">
+                  Settings
+                </button>
+                <button type="button" onClick={() => remove(search.id)} className="retro-btn px-4 py-2">
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {editing === search.id && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  void saveSettings(search.id)
+                }}
+                className="mt-4 pt-4 border-t-2 border-black border-dashed grid grid-cols-1 md:grid-cols-4 gap-3 text-sm"
+              >
+                <label className="flex flex-col gap-1">
+                  <span className="font-bold">Strictness (0-1)</span>
+                  <input
+                    type="number"
+                    min="0.05"
+                    max="0.95"
+                    step="0.05"
+                    value={draft.threshold}
+                    onChange={(e) => setDraft(prev => ({ ...prev, threshold: e.target.value }))}
+                    className="px-3 py-2 border-2 border-black retro-card outline-none"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="font-bold">Email digest</span>
+                  <input
+                    type="email"
+                    value={draft.email}
+                    onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+                    placeholder="you@example.com"
+                    className="px-3 py-2 border-2 border-black retro-card outline-none"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="font-bold">Webhook digest</span>
+                  <input
+                    type="url"
+                    value={draft.webhook}
+                    onChange={(e) => setDraft(prev => ({ ...prev, webhook: e.target.value }))}
+                    placeholder="https://..."
+                    className="px-3 py-2 border-2 border-black retro-card outline-none"
+                  />
+                </label>
+                <div className="flex gap-2 items-end">
+                  <button type="submit" className="flex-1 retro-btn px-4 py-2 bg-black text-white">
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setEditing(null)} className="retro-btn px-4 py-2">
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import { useState } from "react"
+import { CATEGORIES, CONDITIONS } from "@/lib/constants"
+import type { QueryInterpretation } from "@/lib/ai/query-parser"
+
+const FIELD_LABELS = {
+  category: "Category",
+  brand: "Brand",
+  size: "Size",
+  color: "Color",
+  condition: "Condition",
+  minPrice: "Min SUI",
+  maxPrice: "Max SUI",
+} as const
+type InterpretationField = keyof typeof FIELD_LABELS
+
+export type InterpretationDraft = Partial<Record<InterpretationField | "text", string>>
+
+interface SearchInterpretationProps {
+  interpretation: QueryInterpretation
+  /** Fields already set as explicit filters (shown as filter chips instead) */
+  explicit: Partial<Record<InterpretationField, string>>
+  /** Search again with the edited text, every field as an explicit filter */
+  onApply: (draft: InterpretationDraft) => void
+}
+
+function toDraft(interpretation: QueryInterpretation): InterpretationDraft {
+  const draft: InterpretationDraft = { text: interpretation.text }
+  for (const field of Object.keys(FIELD_LABELS) as InterpretationField[]) {
+    const value = interpretation[field]
+    if (value !== undefined) draft[field] = String(value)
+  }
+  return draft
+}
+
+/**
+ * How the search understood the query ("levis jeans under 5 SUI" →
+ * brand, max price and "jeans"), with an editor to correct it
+ */
+export function SearchInterpretation({ interpretation, explicit, onApply }: SearchInterpretationProps) {
+  const [draft, setDraft] = useState<InterpretationDraft | null>(null)
+
+  const parsedFields = (Object.keys(FIELD_LABELS) as InterpretationField[])
+    .filter(field => interpretation[field] !== undefined && !explicit[field])
+
+  if (!draft) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="opacity-70">Searching for</span>
+        <span className="font-bold">&ldquo;{interpretation.text}&rdquo;</span>
+        {parsedFields.map(field => (
+          <span key={field} className="px-2 py-1 border-2 border-dashed border-black">
+            {FIELD_LABELS[field]}: {interpretation[field]}
+          </span>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDraft(toDraft(interpretation))}
+          className="px-3 py-1 underline opacity-70"
+        >
+          Edit
+        </button>
+      </div>
+    )
+  }
+
+  const update = (field: keyof InterpretationDraft, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }))
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        onApply(draft)
+        setDraft(null)
+      }}
+      className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm"
+    >
+      <input
+        type="text"
+        value={draft.text || ""}
+        onChange={(e) => update("text", e.target.value)}
+        placeholder="Search text"
+        className="col-span-2 px-3 py-2 border-2 border-black retro-card outline-none"
+      />
+      <select
+        value={draft.category || ""}
+        onChange={(e) => update("category", e.target.value)}
+        className="px-3 py-2 border-2 border-black retro-card"
+      >
+        <option value="">Any category</option>
+        {CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+      </select>
+      <select
+        value={draft.condition || ""}
+        onChange={(e) => update("condition", e.target.value)}
+        className="px-3 py-2 border-2 border-black retro-card"
+      >
+        <option value="">Any condition</option>
+        {CONDITIONS.map(cond => <option key={cond} value={cond}>{cond}</option>)}
+      </select>
+      {(["brand", "size", "color"] as const).map(field => (
+        <input
+          key={field}
+          type="text"
+          value={draft[field] || ""}
+          onChange={(e) => update(field, e.target.value)}
+          placeholder={FIELD_LABELS[field]}
+          className="px-3 py-2 border-2 border-black retro-card outline-none"
+        />
+      ))}
+      {(["minPrice", "maxPrice"] as const).map(field => (
+        <input
+          key={field}
+          type="number"
+          min="0"
+          step="0.01"
+          value={draft[field] || ""}
+          onChange={(e) => update(field, e.target.value)}
+          placeholder={FIELD_LABELS[field]}
+          className="px-3 py-2 border-2 border-black retro-card outline-none"
+        />
+      ))}
+      <div className="flex gap-2">
+        <button type="submit" className="flex-1 px-4 py-2 bg-black text-white retro-btn">
+          Search
+        </button>
+        <button
+          type="button"
+          onClick={() => setDraft(null)}
+          className="px-3 py-2 border-2 border-black retro-btn"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
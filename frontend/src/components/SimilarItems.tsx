@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CompactItemCard, type CompactItemCardProps } from "@/components/CompactItemCard"
+import { getItemsByIds } from "@/lib/sui/queries"
+import { ItemStatus } from "@/lib/types/sui-objects"
+
+interface SimilarItemsProps {
+  itemId: string
+  /** Leave out other listings by this item's seller */
+  excludeSeller?: boolean
+  limit?: number
+}
+
+/**
+ * SimilarItems - "More like this" carousel for the item page
+ *
+ * Asks /api/ai/similar for the item's nearest neighbours, then loads them
+ * from chain and keeps only active ones (the search index can lag a sale).
+ * Renders nothing while loading, on error, or when there are no matches.
+ */
+export function SimilarItems({ itemId, excludeSeller = false, limit = 8 }: SimilarItemsProps) {
+  const [items, setItems] = useState<CompactItemCardProps[]>([])
+  const scrollerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadSimilar = async () => {
+      try {
+        const params = new URLSearchParams({ id: itemId, limit: String(limit) })
+        if (excludeSeller) params.set("excludeSeller", "true")
+
+        const response = await fetch(`/api/ai/similar?${params}`)
+        if (!response.ok) {
+          throw new Error(`Similar items request failed (${response.status})`)
+        }
+
+        const { results } = await response.json() as { results: string[] }
+        if (results.length === 0) return
+
+        const fetched = await getItemsByIds(results)
+        if (cancelled) return
+
+        setItems(fetched
+          .filter(item => item.fields.status === ItemStatus.Active && item.objectId !== itemId)
+          .map(item => ({
+            objectId: item.objectId,
+            title: item.fields.title,
+            priceMist: BigInt(item.fields.price),
+            category: item.fields.category,
+            walrusImageIds: item.fields.walrus_image_ids || [],
+          })))
+      } catch (error) {
+        // Recommendations are extra; the page works without them
+        console.error("Failed to load similar items:", error)
+      }
+    }
+
+    loadSimilar()
+    return () => {
+      cancelled = true
+    }
+  }, [itemId, excludeSeller, limit])
+
+  if (items.length === 0) {
+    return null
+  }
+
+  const scroll = (direction: 1 | -1) => {
+    const scroller = scrollerRef.current
+    scroller?.scrollBy({ left: direction * scroller.clientWidth * 0.8, behavior: "smooth" })
+  }
+
+  return (
+    <section className="mt-12">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-black">More like this</h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => scroll(-1)}
+            aria-label="Previous"
+            className="px-3 py-1 border-2 border-black retro-btn"
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            onClick={() => scroll(1)}
+            aria-label="Next"
+            className="px-3 py-1 border-2 border-black retro-btn"
+          >
+            →
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollerRef} className="flex gap-6 overflow-x-auto snap-x snap-mandatory pb-4">
+        {items.map(item => (
+          <div key={item.objectId} className="flex-shrink-0 snap-start">
+            <CompactItemCard {...item} />
+          </div>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { useState } from "react"
+import { useTransactionHistory } from "@/lib/transactions/hooks"
+import { clearTransactionHistory, type TransactionRecord } from "@/lib/transactions/history"
+
+const STATUS_LABELS: Record<TransactionRecord["status"], string> = {
+  building: "Preparing",
+  signing: "Awaiting wallet",
+  confirming: "Confirming",
+  success: "Confirmed",
+  failed: "Failed",
+}
+
+const MAX_SHOWN = 8
+
+/**
+ * Header button listing this session's transactions, with a count of the
+ * ones still in flight
+ */
+export function TransactionActivity() {
+  const history = useTransactionHistory()
+  const [open, setOpen] = useState(false)
+
+  if (history.length === 0) return null
+
+  const pending = history.filter(record => record.finishedAt === null).length
+
+  return (
+    <div className="relative">
+      <button
+        className="text-sm px-3 py-1 border border-black/10 dark:border-white/20 hover:bg-black/5 dark:hover:bg-white/10"
+        onClick={() => setOpen(value => !value)}
+      >
+        {pending > 0 ? `${pending} pending…` : "Activity"}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 retro-card retro-shadow bg-white dark:bg-black p-3 z-50">
+          <ul className="space-y-2">
+            {history.slice(0, MAX_SHOWN).map(record => (
+              <li key={record.id} className="text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{record.label}</span>
+                  <span className={record.status === "failed" ? "text-red-600" : "opacity-70"}>
+                    {STATUS_LABELS[record.status]}
+                  </span>
+                </div>
+                {record.error && (
+                  <p className="text-xs opacity-70 truncate" title={record.error.message}>
+                    {record.error.message}
+                  </p>
+                )}
+                {record.digest && (
+                  <p className="text-xs opacity-50 font-mono truncate">{record.digest}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            className="mt-3 text-xs opacity-70 hover:opacity-100 underline"
+            onClick={() => clearTransactionHistory()}
+          >
+            Clear finished
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
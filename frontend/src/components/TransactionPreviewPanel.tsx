@@ -0,0 +1,90 @@
+"use client"
+
+import { formatPrice } from "@/lib/types/sui-objects"
+import type { PreviewState } from "@/lib/transactions/hooks"
+import type { PreviewObjectChange } from "@/lib/sui/transactions"
+
+const CHANGE_LABELS: Record<PreviewObjectChange["type"], string> = {
+  created: "Creates",
+  mutated: "Updates",
+  deleted: "Deletes",
+  wrapped: "Wraps",
+  transferred: "Transfers",
+  published: "Publishes",
+}
+
+interface TransactionPreviewPanelProps {
+  state: PreviewState
+  payment?: { label: string; amount: bigint }   // e.g. the offer amount, shown above gas
+}
+
+/**
+ * Dry-run summary shown before signing: gas, total cost, balance after
+ * and the objects the transaction touches
+ */
+export function TransactionPreviewPanel({ state, payment }: TransactionPreviewPanelProps) {
+  if (state.status === "idle") return null
+
+  if (state.status === "loading") {
+    return (
+      <div className="p-3 border-2 border-black/20 text-sm opacity-80">
+        Estimating gas…
+      </div>
+    )
+  }
+
+  if (state.status === "failed") {
+    return (
+      <div className="p-3 bg-red-500/20 border-2 border-red-500 text-sm">
+        <p className="font-bold">This transaction would fail</p>
+        <p>{state.error.message}</p>
+      </div>
+    )
+  }
+
+  const { preview } = state
+  const rows: [string, bigint][] = [
+    ...(payment ? [[payment.label, payment.amount] as [string, bigint]] : []),
+    ["Estimated gas", preview.gasEstimate],
+    ["Total leaving wallet", preview.totalCost > BigInt(0) ? preview.totalCost : BigInt(0)],
+    ["Balance after", preview.balanceAfter],
+  ]
+
+  return (
+    <div className={`p-3 border-2 text-sm ${preview.sufficient ? "border-black/20" : "bg-red-500/20 border-red-500"}`}>
+      <dl className="space-y-1">
+        {rows.map(([label, amount]) => (
+          <div key={label} className="flex justify-between gap-4">
+            <dt className="opacity-80">{label}</dt>
+            <dd className="font-mono">{formatPrice(amount)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {!preview.sufficient && (
+        <p className="mt-2 font-bold">
+          Insufficient balance: you need {formatPrice(preview.required)} including the gas budget,
+          but have {formatPrice(preview.balance)}.
+        </p>
+      )}
+
+      {preview.objectChanges.length > 0 && (
+        <details className="mt-2">
+          <summary className="cursor-pointer opacity-80">
+            {preview.objectChanges.length} object change{preview.objectChanges.length === 1 ? "" : "s"}
+          </summary>
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {preview.objectChanges.map((change, index) => (
+              <li key={`${change.objectId ?? "package"}-${index}`}>
+                {CHANGE_LABELS[change.type]} {change.objectType ?? "package"}
+                {change.objectId && (
+                  <span className="opacity-50 font-mono"> {change.objectId.slice(0, 10)}…</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
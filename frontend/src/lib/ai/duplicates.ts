@@ -0,0 +1,170 @@
+/**
+ * Duplicate & Re-listed Item Detection
+ *
+ * Compares a listing's embeddings with active listings
+ * (listing_duplicates() in supabase-schema.sql) and sorts what is close
+ * into two groups:
+ *
+ * - sameSeller: the seller's own listings within DUPLICATE_LISTING_THRESHOLD
+ *   on the whole listing, or DUPLICATE_PHOTO_THRESHOLD on photos - the same
+ *   jacket listed again. /api/ai/index-item returns these before minting so
+ *   ItemForm can warn; listing anyway is allowed.
+ * - photoMatches: another seller's listing within DUPLICATE_PHOTO_THRESHOLD
+ *   on photos - likely lifted pictures. After minting these are written to
+ *   moderation_flags for review; the seller isn't told.
+ *
+ * A listing without photos is only compared on the whole listing, since
+ * its image_embedding is the title's.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ItemEmbeddings } from './embeddings'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export interface DuplicateThresholds {
+  listing: number                     // combined_embedding, same seller
+  photo: number                       // image_embedding, any seller
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLDS: DuplicateThresholds = {
+  listing: 0.92,
+  photo: 0.95,
+}
+
+const MAX_MATCHES = 10
+
+function threshold(value: string | undefined, fallback: number): number {
+  const number = Number(value)
+  return value && Number.isFinite(number) && number > 0 && number <= 1 ? number : fallback
+}
+
+/**
+ * DUPLICATE_LISTING_THRESHOLD and DUPLICATE_PHOTO_THRESHOLD, falling back
+ * to the defaults when unset or outside (0, 1]
+ */
+export function getDuplicateThresholds(env: Record<string, string | undefined> = process.env): DuplicateThresholds {
+  return {
+    listing: threshold(env.DUPLICATE_LISTING_THRESHOLD, DEFAULT_DUPLICATE_THRESHOLDS.listing),
+    photo: threshold(env.DUPLICATE_PHOTO_THRESHOLD, DEFAULT_DUPLICATE_THRESHOLDS.photo),
+  }
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DuplicateMatch {
+  itemId: string
+  seller: string
+  title: string
+  imageSimilarity: number
+  combinedSimilarity: number
+}
+
+export interface DuplicateReport {
+  sameSeller: DuplicateMatch[]
+  photoMatches: DuplicateMatch[]
+}
+
+export interface DuplicateQuery {
+  seller: string
+  embeddings: Pick<ItemEmbeddings, 'imageEmbedding' | 'combinedEmbedding' | 'model'>
+  hasPhotos: boolean
+  excludeItem?: string              // The listing itself, once minted
+}
+
+interface DuplicateRow {
+  item_id: string
+  seller: string
+  title: string
+  image_similarity: number
+  combined_similarity: number
+}
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Sort candidate rows into the seller's own near-duplicates and other
+ * sellers' photo matches
+ */
+export function classifyDuplicates(
+  matches: DuplicateMatch[],
+  seller: string,
+  hasPhotos: boolean,
+  thresholds: DuplicateThresholds = getDuplicateThresholds()
+): DuplicateReport {
+  const photoMatch = (match: DuplicateMatch) => hasPhotos && match.imageSimilarity > thresholds.photo
+  const own = (match: DuplicateMatch) => match.seller.toLowerCase() === seller.toLowerCase()
+
+  return {
+    sameSeller: matches.filter(match => own(match) && (match.combinedSimilarity > thresholds.listing || photoMatch(match))),
+    photoMatches: matches.filter(match => !own(match) && photoMatch(match)),
+  }
+}
+
+/**
+ * Active listings that duplicate this one
+ */
+export async function findDuplicateListings(
+  client: SupabaseClient,
+  query: DuplicateQuery,
+  thresholds: DuplicateThresholds = getDuplicateThresholds()
+): Promise<DuplicateReport> {
+  const { data, error } = await client.rpc('listing_duplicates', {
+    p_image_embedding: query.embeddings.imageEmbedding,
+    p_combined_embedding: query.embeddings.combinedEmbedding,
+    p_model: query.embeddings.model,
+    image_threshold: query.hasPhotos ? thresholds.photo : null,
+    combined_threshold: thresholds.listing,
+    p_exclude_item: query.excludeItem ?? null,
+    max_results: MAX_MATCHES,
+  })
+  if (error) {
+    throw new Error(`Failed to check for duplicate listings: ${error.message}`)
+  }
+
+  const matches = ((data ?? []) as DuplicateRow[]).map(row => ({
+    itemId: row.item_id,
+    seller: row.seller,
+    title: row.title,
+    imageSimilarity: row.image_similarity,
+    combinedSimilarity: row.combined_similarity,
+  }))
+  return classifyDuplicates(matches, query.seller, query.hasPhotos, thresholds)
+}
+
+/**
+ * Queue other sellers' photo matches for review. A pair already flagged
+ * is left as it is, including its review status.
+ *
+ * @returns Number of matches submitted
+ */
+export async function flagPhotoMatches(
+  client: SupabaseClient,
+  itemId: string,
+  matches: DuplicateMatch[]
+): Promise<number> {
+  if (matches.length === 0) {
+    return 0
+  }
+
+  const { error } = await client.from('moderation_flags').upsert(
+    matches.map(match => ({
+      sui_object_id: itemId,
+      kind: 'duplicate_photo',
+      matched_item_id: match.itemId,
+      score: match.imageSimilarity,
+      details: { matched_seller: match.seller, matched_title: match.title },
+    })),
+    { onConflict: 'sui_object_id,kind,matched_item_id', ignoreDuplicates: true }
+  )
+  if (error) {
+    throw new Error(`Failed to flag photo matches: ${error.message}`)
+  }
+  return matches.length
+}
@@ -0,0 +1,256 @@
+/**
+ * Embedding Providers
+ *
+ * Everything that turns text into a vector for search goes through an
+ * EmbeddingProvider, so the backend can change without touching callers:
+ *
+ * - GeminiEmbeddingProvider: Google's text-embedding-004 (the default when
+ *   GEMINI_API_KEY is set)
+ * - OpenAICompatibleEmbeddingProvider: any server speaking the OpenAI
+ *   /embeddings API (OpenAI, Azure, Ollama, vLLM, LM Studio, ...)
+ * - LocalHashEmbeddingProvider: deterministic feature hashing on the CPU.
+ *   No network or key, so search works in CI and offline; it matches
+ *   shared words and word fragments, not meaning.
+ *
+ * A provider may also embed photos directly (embedImage), into the same
+ * space as its text vectors - CLIP-style models such as jina-clip. Photos
+ * are always captioned as well (see embeddings.ts); pixel vectors add the
+ * visual detail a caption leaves out.
+ *
+ * Vectors from different models live in different spaces, and comparing
+ * them gives meaningless scores. Every provider names its model and
+ * dimension; item_search_index, saved_searches and taste_profiles store
+ * the model next to each vector and every similarity query filters on it.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Width of the vector columns in supabase-schema.sql. Moving to a provider
+ * of another width goes through the re-embedding job (./reembed), which
+ * builds a shadow index of that width and swaps it in.
+ */
+export const EMBEDDING_DIMENSIONS = 768
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EmbeddingImage {
+  data: string      // Raw base64, no data URL prefix
+  mimeType: string
+}
+
+export interface EmbeddingProvider {
+  readonly name: string
+  /** Stored as embedding_model; vectors are only compared within one model */
+  readonly model: string
+  readonly dimensions: number
+  embed(text: string): Promise<number[]>
+  /** Only on multimodal models; the vector must be comparable with embed()'s */
+  embedImage?(image: EmbeddingImage): Promise<number[]>
+}
+
+// ============================================
+// GEMINI
+// ============================================
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini'
+  readonly dimensions = 768
+  private readonly client: GoogleGenerativeAI
+
+  constructor(apiKey: string, readonly model = 'text-embedding-004') {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const model = this.client.getGenerativeModel({ model: `models/${this.model}` })
+    const result = await model.embedContent(text)
+    return result.embedding.values
+  }
+}
+
+// ============================================
+// OPENAI-COMPATIBLE HTTP
+// ============================================
+
+export interface OpenAICompatibleOptions {
+  /** Base URL, e.g. https://api.openai.com/v1 or http://localhost:11434/v1 */
+  baseUrl: string
+  apiKey?: string
+  model: string
+  dimensions?: number
+  /** The model also embeds images, sent as `input: [{ image: <data URL> }]` */
+  imageInput?: boolean
+}
+
+/**
+ * POSTs to `${baseUrl}/embeddings`. The dimension is sent as `dimensions`,
+ * which models that support shortening (OpenAI text-embedding-3-*) honour;
+ * servers that ignore it must already produce that many values.
+ *
+ * With `imageInput`, photos go to the same endpoint in the object form
+ * multimodal servers (Jina, CLIP-as-service) accept.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai'
+  readonly model: string
+  readonly dimensions: number
+  private readonly url: string
+  private readonly apiKey?: string
+  readonly embedImage?: (image: EmbeddingImage) => Promise<number[]>
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`
+    this.apiKey = options.apiKey
+    this.model = options.model
+    this.dimensions = options.dimensions ?? EMBEDDING_DIMENSIONS
+    if (options.imageInput) {
+      this.embedImage = image => this.request([{ image: `data:${image.mimeType};base64,${image.data}` }])
+    }
+  }
+
+  embed(text: string): Promise<number[]> {
+    return this.request(text)
+  }
+
+  private async request(input: unknown): Promise<number[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input, dimensions: this.dimensions }),
+    })
+    if (!response.ok) {
+      throw new Error(`Embedding server responded ${response.status}`)
+    }
+
+    const body = await response.json() as { data?: { embedding?: number[] }[] }
+    const embedding = body.data?.[0]?.embedding
+    if (!Array.isArray(embedding)) {
+      throw new Error('Embedding server returned no embedding')
+    }
+    return embedding
+  }
+}
+
+// ============================================
+// LOCAL (feature hashing)
+// ============================================
+
+// FNV-1a, 32-bit
+function hash(token: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Each lowercase word and each character trigram of it ("#jeans#" gives
+ * "#je", "jea", ...) is hashed to a signed slot; the vector is normalised
+ * to unit length. Words count double, trigrams let "jean" meet "jeans".
+ * The same text always gives the same vector, on any machine.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local'
+  readonly model = 'local-hash-v1'
+
+  constructor(readonly dimensions = EMBEDDING_DIMENSIONS) {}
+
+  async embed(text: string): Promise<number[]> {
+    const vector: number[] = new Array(this.dimensions).fill(0)
+    const add = (token: string, weight: number) => {
+      const h = hash(token)
+      vector[h % this.dimensions] += h & 0x80000000 ? -weight : weight
+    }
+
+    const words = text.toLowerCase().replace(/['’]/g, '').match(/[\p{L}\p{N}]+/gu) ?? [text.trim()]
+    for (const word of words) {
+      add(`w:${word}`, 2)
+      const padded = `#${word}#`
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 1)
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0))
+    return norm === 0 ? vector : vector.map(value => value / norm)
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let provider: EmbeddingProvider | undefined
+
+/**
+ * Build a provider from environment variables starting with `prefix`:
+ *   <prefix>PROVIDER=gemini (default when GEMINI_API_KEY is set; <prefix>MODEL overrides text-embedding-004)
+ *   <prefix>PROVIDER=openai (<prefix>API_URL, <prefix>API_KEY, <prefix>MODEL, <prefix>DIMENSIONS,
+ *                            <prefix>IMAGE_INPUT=true for multimodal models)
+ *   <prefix>PROVIDER=local  (default without a Gemini key)
+ *
+ * @throws If the chosen provider is missing its settings
+ */
+export function createEmbeddingProvider(prefix = 'EMBEDDING_'): EmbeddingProvider {
+  const env = (name: string) => process.env[`${prefix}${name}`] || undefined
+  const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY
+  const choice = env('PROVIDER') ?? (apiKey ? 'gemini' : 'local')
+  const model = env('MODEL')
+  const dimensions = env('DIMENSIONS') ? Number(env('DIMENSIONS')) : undefined
+
+  switch (choice) {
+    case 'gemini':
+      if (!apiKey) {
+        throw new Error(
+          'Gemini API key not configured. Set GEMINI_API_KEY in .env.local\n' +
+          'Get a key at: https://makersuite.google.com/app/apikey'
+        )
+      }
+      return new GeminiEmbeddingProvider(apiKey, model)
+    case 'openai': {
+      const baseUrl = env('API_URL')
+      if (!baseUrl || !model) {
+        throw new Error(`${prefix}PROVIDER=openai needs ${prefix}API_URL and ${prefix}MODEL`)
+      }
+      return new OpenAICompatibleEmbeddingProvider({
+        baseUrl,
+        apiKey: env('API_KEY'),
+        model,
+        dimensions,
+        imageInput: env('IMAGE_INPUT') === 'true',
+      })
+    }
+    case 'local':
+      return new LocalHashEmbeddingProvider(dimensions)
+    default:
+      throw new Error(`Unknown ${prefix}PROVIDER "${choice}" (expected gemini, openai or local)`)
+  }
+}
+
+/**
+ * The provider everything searches and indexes with, from the EMBEDDING_*
+ * variables (see createEmbeddingProvider)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  provider ??= createEmbeddingProvider()
+  return provider
+}
+
+/**
+ * Replace the provider (tests)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | undefined): void {
+  provider = next
+}
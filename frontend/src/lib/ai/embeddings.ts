@@ -22,8 +22,8 @@
  * │ THIS MODULE │ Generate embeddings from raw File objects
  * │ embeddings  │ - embedText(title) → title_embedding
  * │   .ts       │ - embedText(description) → description_embedding
- * │             │ - embedImage(File) → image_embedding
- * │             │ - embedTextAndImage() → combined_embedding
+ * │             │ - embedImage(File) → image_embedding (every photo)
+ * │             │ - text + captions + pixels → combined_embedding
  * └──────┬──────┘
  *        │
  *        ├─────────────────┐
@@ -69,6 +69,9 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getEmbeddingProvider, type EmbeddingImage, type EmbeddingProvider } from './embedding-providers';
+
+export { EMBEDDING_DIMENSIONS } from './embedding-providers';
 
 // ============================================================================
 // CONFIGURATION
@@ -77,25 +80,42 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 /**
  * Gemini API Configuration
  *
+ * Text embeddings come from the configured EmbeddingProvider
+ * (./embedding-providers: Gemini, an OpenAI-compatible server, or the local
+ * hash provider). Gemini is still what looks at photos: analyzeImage
+ * captions a photo and lists its attributes, which the provider then
+ * embeds next to the photo's pixels (multimodal providers only).
+ *
  * WHY GEMINI?
  * - Free tier: 1500 requests/day (good for hackathon/MVP)
  * - Multimodal: Handles text + images in single API call
  * - 768-dim embeddings: Good balance of quality and performance
  * - Fast: ~200-500ms per request
- *
- * ALTERNATIVES:
- * - OpenAI CLIP: Better quality, 1536-dim, costs $$$
- * - Cohere: Good balance, 1024-dim
- * - Local models: Free but slower (CLIP-ViT, Sentence-BERT)
  */
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
 
-// Models
-const TEXT_EMBEDDING_MODEL = 'models/text-embedding-004';      // Latest Gemini text embeddings
-const MULTIMODAL_MODEL = 'gemini-pro-vision';                  // For image understanding
+// Model for image understanding
+const MULTIMODAL_MODEL = process.env.GEMINI_VISION_MODEL || 'gemini-2.0-flash';
+
+/**
+ * How much each signal counts in combined_embedding. Missing signals (no
+ * photos, no vision key, a text-only provider) hand their weight to the
+ * rest, so a text-only listing keeps its plain text vector.
+ *
+ * - text: the seller's title and description
+ * - caption: captions + attributes of every photo - the colors, pattern
+ *   and material sellers often leave out
+ * - image: pixel vectors of every photo
+ *
+ * eval-search-recall.mjs measures recall@k with these weights.
+ */
+export const FUSION_WEIGHTS = { text: 0.5, caption: 0.3, image: 0.2 };
+
+/** Caption vs pixels within one photo's vector (image_embedding, search by photo) */
+export const PHOTO_WEIGHTS = { caption: 0.5, image: 0.5 };
 
-// Embedding dimensions (must match Supabase schema)
-export const EMBEDDING_DIMENSIONS = 768;
+/** Photos past this many are ignored; each one costs a vision call */
+export const MAX_IMAGES = 5;
 
 // Initialize Gemini client
 let genAI: GoogleGenerativeAI | null = null;
@@ -110,12 +130,12 @@ if (GEMINI_API_KEY) {
 /**
  * Convert text to embedding vector
  *
- * INTEGRATION POINT: Gemini API
+ * INTEGRATION POINT: EmbeddingProvider (Gemini by default)
  *
  * HOW IT WORKS:
- * 1. Sends text to Gemini's embedding model
+ * 1. Sends text to the provider's embedding model
  * 2. Model analyzes semantic meaning
- * 3. Returns 768-number array representing the concept
+ * 3. Returns a provider.dimensions-number array (768 for Gemini)
  *
  * EXAMPLE:
  * embedText("vintage leather jacket")
@@ -128,32 +148,27 @@ if (GEMINI_API_KEY) {
  * cosine([vintage leather jacket], [retro leather coat]) ≈ 0.92 (very similar)
  * cosine([vintage leather jacket], [bicycle helmet]) ≈ 0.15 (not similar)
  *
+ * Only compare the result with vectors stored under provider.model.
+ *
  * @param text - Any text string (title, description, search query)
- * @returns 768-dimensional embedding vector
+ * @param provider - Defaults to getEmbeddingProvider()
+ * @returns Embedding vector of provider.dimensions numbers
  */
-export async function embedText(text: string): Promise<number[]> {
+export async function embedText(
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error('Text cannot be empty for embedding generation');
   }
 
-  if (!genAI) {
-    throw new Error(
-      'Gemini API key not configured. Set GEMINI_API_KEY in .env.local\n' +
-      'Get a key at: https://makersuite.google.com/app/apikey'
-    );
-  }
-
   try {
-    const model = genAI.getGenerativeModel({ model: TEXT_EMBEDDING_MODEL });
-
-    // Generate embedding
-    const result = await model.embedContent(text);
-    const embedding = result.embedding.values;
+    const embedding = await provider.embed(text);
 
     // Validate
-    if (!embedding || embedding.length !== EMBEDDING_DIMENSIONS) {
+    if (!embedding || embedding.length !== provider.dimensions) {
       throw new Error(
-        `Expected ${EMBEDDING_DIMENSIONS}-dim embedding, got ${embedding?.length || 0}`
+        `Expected ${provider.dimensions}-dim embedding from ${provider.model}, got ${embedding?.length || 0}`
       );
     }
 
@@ -169,14 +184,25 @@ export async function embedText(text: string): Promise<number[]> {
 /**
  * Convert image to embedding vector (BROWSER VERSION - uses File)
  *
- * INTEGRATION POINT: Browser File API + Gemini Vision API
+ * INTEGRATION POINT: Browser File API + Gemini Vision API (+ the provider's
+ * image model, if it has one)
  *
  * HOW IT WORKS:
  * 1. Takes raw File object from browser (e.g., from <input type="file" />)
  * 2. Converts to base64 format that Gemini can process
- * 3. Sends to Gemini Vision model
- * 4. Model analyzes visual features (colors, shapes, objects, style)
- * 5. Returns 768-number array representing visual content
+ * 3. Gemini Vision captions the photo and pulls out attributes (item type,
+ *    colors, pattern, material, style, brand, visible text) - analyzeImage
+ * 4. Embeds caption + attributes with the text model and, when the
+ *    provider embeds images itself, the pixels too
+ * 5. Fuses the two (PHOTO_WEIGHTS) into one unit-length vector
+ *
+ * WHY CAPTION AND PIXELS?
+ * - The caption lands in the same space as typed queries, so a photo can
+ *   be compared with image_embedding (looks alike) and with
+ *   combined_embedding (is described alike) - see search by photo in
+ *   /api/ai/search
+ * - A caption flattens what it doesn't mention (the exact print, the cut);
+ *   pixel vectors keep it. Text-only providers simply skip that half.
  *
  * WHY PROCESS BEFORE WALRUS UPLOAD?
  * - Image is already in browser memory (no extra download)
@@ -188,15 +214,10 @@ export async function embedText(text: string): Promise<number[]> {
  * const file = fileInput.files[0];
  * const imageEmbedding = await embedImage(file);
  *
- * WHAT IT CAPTURES:
- * - Visual appearance (colors, patterns, textures)
- * - Object types (dress, jacket, shoes, etc.)
- * - Style (vintage, modern, casual, formal)
- *
  * @param imageFile - File object from browser input
- * @returns 768-dimensional embedding vector
+ * @returns Unit-length vector of provider.dimensions numbers
  */
-export async function embedImage(imageFile: File): Promise<number[]>;
+export async function embedImage(imageFile: File, provider?: EmbeddingProvider): Promise<number[]>;
 
 /**
  * Convert image to embedding vector (SERVER VERSION - uses base64)
@@ -204,49 +225,101 @@ export async function embedImage(imageFile: File): Promise<number[]>;
  * SERVER-SAFE version that works with base64 strings (no FileReader needed)
  *
  * @param base64Image - Base64 string with or without data URL prefix
- * @returns 768-dimensional embedding vector
+ * @param provider - Embeds the caption (and pixels); defaults to getEmbeddingProvider()
+ * @returns Unit-length vector of provider.dimensions numbers
  */
-export async function embedImage(base64Image: string): Promise<number[]>;
+export async function embedImage(base64Image: string, provider?: EmbeddingProvider): Promise<number[]>;
 
 // Implementation
-export async function embedImage(input: File | string): Promise<number[]> {
+export async function embedImage(
+  input: File | string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  try {
+    const photo = await embedPhoto(await toEmbeddingImage(input), undefined, provider);
+    return photoVector(photo);
+  } catch (error) {
+    console.error('[embedImage] Error:', error);
+    throw new Error(
+      `Failed to generate image embedding: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Caption a photo and extract its attributes
+ *
+ * The prompt asks for appearance only, the same things whether the image
+ * is a listing photo or a shopper's snapshot, so similar-looking items get
+ * similar captions.
+ *
+ * @throws If no Gemini key is configured or the model returns no caption
+ */
+export async function analyzeImage(image: EmbeddingImage): Promise<ImageAnalysis> {
   if (!genAI) {
     throw new Error('Gemini API key not configured');
   }
 
-  try {
-    let base64Data: string;
-    let mimeType: string;
-
-    if (typeof input === 'string') {
-      // Server-side: base64 string
-      const parsed = parseBase64Image(input);
-      base64Data = parsed.data;
-      mimeType = parsed.mimeType;
-    } else {
-      // Client-side: File object
-      if (!input.type.startsWith('image/')) {
-        throw new Error(`Invalid file type: ${input.type}. Expected an image.`);
-      }
-      base64Data = await fileToBase64(input);
-      mimeType = input.type;
-    }
+  const model = genAI.getGenerativeModel({
+    model: MULTIMODAL_MODEL,
+    generationConfig: { responseMimeType: 'application/json', temperature: 0 },
+  });
+  const result = await model.generateContent([{ inlineData: image }, ANALYZE_PROMPT]);
+  return normalizeImageAnalysis(JSON.parse(result.response.text()));
+}
 
-    // MVP: Skip image understanding for now (Gemini vision models having availability issues)
-    // Fallback: Use a placeholder text that indicates visual content
-    // TODO: Add proper image understanding once Gemini vision model access is confirmed
+const ANALYZE_PROMPT =
+  'You index photos for a second-hand marketplace. Look at the main item and reply with JSON only:\n' +
+  '{"caption": "2-3 plain sentences: item type, colors, pattern, material, style or era, any visible brand or text",\n' +
+  ' "itemType": "", "colors": [], "pattern": "", "material": "", "style": "", "brand": "", "visibleText": ""}\n' +
+  'Describe only what is visible, without mentioning the photo or background. ' +
+  'Leave a field empty rather than guess.';
 
-    console.log('[embedImage] Skipping image processing (MVP), using placeholder');
+/**
+ * Coerce the vision model's JSON into an ImageAnalysis (missing or
+ * non-string fields become empty)
+ *
+ * @throws If there is no caption
+ */
+export function normalizeImageAnalysis(raw: unknown): ImageAnalysis {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof value[key] === 'string' ? (value[key] as string).trim() : '');
 
-    // Return embedding for generic "product image" text
-    // This ensures the embedding vectors exist but won't provide visual search capability
-    return await embedText('product image visual content');
-  } catch (error) {
-    console.error('[embedImage] Error:', error);
-    throw new Error(
-      `Failed to generate image embedding: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
+  const caption = text('caption');
+  if (!caption) {
+    throw new Error('Vision model returned no caption');
   }
+
+  const colors = Array.isArray(value.colors) ? value.colors : [];
+  return {
+    caption,
+    attributes: {
+      itemType: text('itemType'),
+      colors: colors.filter((color): color is string => typeof color === 'string' && color.trim() !== '').map(color => color.trim()),
+      pattern: text('pattern'),
+      material: text('material'),
+      style: text('style'),
+      brand: text('brand'),
+      visibleText: text('visibleText'),
+    },
+  };
+}
+
+/**
+ * The text a photo's caption vector is made from: the caption, then each
+ * attribute the model found ("Colors: red, white. Pattern: floral.")
+ */
+export function imageAnalysisText({ caption, attributes }: ImageAnalysis): string {
+  const facts: Array<[string, string]> = [
+    ['Item', attributes.itemType],
+    ['Colors', attributes.colors.join(', ')],
+    ['Pattern', attributes.pattern],
+    ['Material', attributes.material],
+    ['Style', attributes.style],
+    ['Brand', attributes.brand],
+    ['Text', attributes.visibleText],
+  ];
+  return [caption, ...facts.filter(([, value]) => value).map(([label, value]) => `${label}: ${value}.`)].join(' ');
 }
 
 /**
@@ -257,17 +330,21 @@ export async function embedImage(input: File | string): Promise<number[]> {
  * THIS IS THE MOST POWERFUL EMBEDDING!
  *
  * HOW IT WORKS:
- * 1. Combines text description with image(s)
- * 2. Gemini understands BOTH:
- *    - What the text says ("vintage leather jacket, brown, size M")
- *    - What the image shows (brown jacket with vintage style)
- * 3. Returns single vector that captures both modalities
+ * 1. Embeds the text ("vintage leather jacket, brown, size M")
+ * 2. Captions every photo (up to MAX_IMAGES) and, with a multimodal
+ *    provider, embeds its pixels
+ * 3. Averages the caption vectors and the pixel vectors across photos
+ * 4. Weights text, captions and pixels (FUSION_WEIGHTS) into a single
+ *    unit-length vector
  *
  * WHY BETTER THAN SEPARATE?
  * - Text-only: Might miss visual details ("red dress" could be crimson, scarlet, burgundy)
  * - Image-only: Might miss important context ("size M", "new with tags", "rare brand")
  * - COMBINED: Understands "brown leather jacket that LOOKS vintage" (not just text mention)
  *
+ * A photo that can't be captioned or embedded is left out; with none left
+ * the result is the text embedding.
+ *
  * EXAMPLE:
  * Item: "Vintage Levi's denim jacket, size L" + [image of worn denim jacket]
  * Search: "old jeans jacket" → HIGH MATCH (understands vintage ≈ old, denim ≈ jeans)
@@ -275,9 +352,9 @@ export async function embedImage(input: File | string): Promise<number[]> {
  *
  * @param text - Combined title + description
  * @param imageFiles - Array of File objects (usually 1-5 images per item)
- * @returns 768-dimensional multimodal embedding
+ * @returns Unit-length multimodal embedding
  */
-export async function embedTextAndImage(text: string, imageFiles: File[]): Promise<number[]>;
+export async function embedTextAndImage(text: string, imageFiles: File[], provider?: EmbeddingProvider): Promise<number[]>;
 
 /**
  * Generate multimodal embedding (text + image combined) - SERVER VERSION
@@ -286,14 +363,15 @@ export async function embedTextAndImage(text: string, imageFiles: File[]): Promi
  *
  * @param text - Combined title + description
  * @param base64Images - Array of base64 strings (with or without data URL prefix)
- * @returns 768-dimensional multimodal embedding
+ * @returns Unit-length multimodal embedding
  */
-export async function embedTextAndImage(text: string, base64Images: string[]): Promise<number[]>;
+export async function embedTextAndImage(text: string, base64Images: string[], provider?: EmbeddingProvider): Promise<number[]>;
 
 // Implementation
 export async function embedTextAndImage(
   text: string,
-  images: File[] | string[]
+  images: File[] | string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
 ): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error('Text is required for multimodal embedding');
@@ -301,46 +379,14 @@ export async function embedTextAndImage(
 
   if (!images || images.length === 0) {
     console.warn('[embedTextAndImage] No images provided, falling back to text-only');
-    return embedText(text);
+    return embedText(text, provider);
   }
 
-  if (!genAI) {
-    throw new Error('Gemini API key not configured');
-  }
-
-  try {
-    // Convert to base64 array with mime types
-    const imageData: Array<{ mimeType: string; data: string }> = [];
-
-    for (const img of images) {
-      if (typeof img === 'string') {
-        // Server-side: base64 string
-        const parsed = parseBase64Image(img);
-        imageData.push(parsed);
-      } else {
-        // Client-side: File object
-        const base64 = await fileToBase64(img);
-        imageData.push({
-          mimeType: img.type,
-          data: base64,
-        });
-      }
-    }
-
-    // MVP: Skip image understanding for now (Gemini vision models having availability issues)
-    // Just use the text description - still provides good search capability
-    // TODO: Add proper multimodal understanding once Gemini vision model access is confirmed
-
-    console.log('[embedTextAndImage] Skipping image processing (MVP), using text only');
-
-    // Just embed the text - this still provides semantic search by title + description
-    return await embedText(text);
-  } catch (error) {
-    console.error('[embedTextAndImage] Error:', error);
-    // Fallback to text-only if multimodal fails
-    console.warn('Falling back to text-only embedding due to error');
-    return embedText(text);
-  }
+  const [textEmbedding, photos] = await Promise.all([
+    embedText(text, provider),
+    embedPhotos(images, [], provider),
+  ]);
+  return fuseItemEmbedding(textEmbedding, photos);
 }
 
 /**
@@ -364,8 +410,11 @@ export async function embedTextAndImage(
  * 3. THIS FUNCTION GENERATES:
  *    - titleEmbedding: Quick search by item name
  *    - descriptionEmbedding: Detailed feature search
- *    - imageEmbedding: Visual similarity search
- *    - combinedEmbedding: Multimodal (most powerful)
+ *    - imageEmbedding: Visual similarity search (every photo, averaged)
+ *    - combinedEmbedding: Multimodal fusion (most powerful)
+ *    - imageAnalyses: What the vision model saw in each photo
+ *
+ *    Each photo is analysed once and feeds both image and combined.
  *
  * 4. NEXT STEPS (caller's responsibility):
  *    - Upload images to Walrus → get blob IDs
@@ -380,12 +429,14 @@ export async function embedTextAndImage(
  * - combined: Semantic search ("vintage brown leather outerwear")
  *
  * @param item - Item data with text and image File objects
- * @returns Four embedding vectors for different search strategies
+ * @returns Four embedding vectors for different search strategies, and their model
  */
 export async function generateItemEmbeddings(item: {
   title: string;
   description: string;
   imageFiles?: File[]; // Raw File objects from browser
+  imageAnalyses?: ImageAnalysis[]; // Already analysed photos, in the same order (skips the vision model)
+  provider?: EmbeddingProvider;
 }): Promise<ItemEmbeddings>;
 
 /**
@@ -394,12 +445,14 @@ export async function generateItemEmbeddings(item: {
  * SERVER-SAFE version that works with base64 strings (no FileReader needed)
  *
  * @param item - Item data with text and base64 images
- * @returns Four embedding vectors for different search strategies
+ * @returns Four embedding vectors for different search strategies, and their model
  */
 export async function generateItemEmbeddings(item: {
   title: string;
   description: string;
   base64Images?: string[]; // Base64 strings (with or without data URL prefix)
+  imageAnalyses?: ImageAnalysis[];
+  provider?: EmbeddingProvider; // Defaults to getEmbeddingProvider()
 }): Promise<ItemEmbeddings>;
 
 // Implementation
@@ -408,45 +461,35 @@ export async function generateItemEmbeddings(item: {
   description: string;
   imageFiles?: File[];
   base64Images?: string[];
+  imageAnalyses?: ImageAnalysis[];
+  provider?: EmbeddingProvider;
 }): Promise<ItemEmbeddings> {
   if (!item.title || !item.description) {
     throw new Error('Item must have both title and description');
   }
 
-  try {
-    // Determine if we have File objects or base64 strings
-    const hasFiles = item.imageFiles && item.imageFiles.length > 0;
-    const hasBase64 = item.base64Images && item.base64Images.length > 0;
+  // Every vector below comes from this provider; the caller stores its model with them
+  const provider = item.provider ?? getEmbeddingProvider();
+  const images: Array<File | string> = item.imageFiles?.length ? item.imageFiles : item.base64Images ?? [];
 
+  try {
     // Generate all embeddings in parallel (faster!)
-    const [titleEmbedding, descriptionEmbedding, imageEmbedding, combinedEmbedding] =
-      await Promise.all([
-        // 1. Title-only (text)
-        embedText(item.title),
-
-        // 2. Description-only (text)
-        embedText(item.description),
-
-        // 3. Image-only (visual)
-        hasFiles
-          ? embedImage(item.imageFiles![0]) // Use first image for image-only embedding
-          : hasBase64
-          ? embedImage(item.base64Images![0])
-          : embedText(item.title), // Fallback to title if no images
-
-        // 4. Combined multimodal (text + images) - MOST POWERFUL
-        hasFiles
-          ? embedTextAndImage(`${item.title}. ${item.description}`, item.imageFiles!)
-          : hasBase64
-          ? embedTextAndImage(`${item.title}. ${item.description}`, item.base64Images!)
-          : embedText(`${item.title}. ${item.description}`), // Fallback to text if no images
-      ]);
+    const [titleEmbedding, descriptionEmbedding, textEmbedding, photos] = await Promise.all([
+      embedText(item.title, provider),
+      embedText(item.description, provider),
+      embedText(`${item.title}. ${item.description}`, provider),
+      embedPhotos(images, item.imageAnalyses ?? [], provider),
+    ]);
 
     return {
       titleEmbedding,
       descriptionEmbedding,
-      imageEmbedding,
-      combinedEmbedding,
+      // Falls back to title if there are no photos or none could be embedded
+      imageEmbedding: photos.length > 0 ? meanEmbedding(photos.map(photoVector))! : titleEmbedding,
+      combinedEmbedding: fuseItemEmbedding(textEmbedding, photos),
+      imageAnalyses: photos.flatMap(photo => (photo.analysis ? [photo.analysis] : [])),
+      model: provider.model,
+      dimensions: provider.dimensions,
     };
   } catch (error) {
     console.error('[generateItemEmbeddings] Error:', error);
@@ -456,6 +499,136 @@ export async function generateItemEmbeddings(item: {
   }
 }
 
+// ============================================================================
+// MULTIMODAL FUSION
+// ============================================================================
+
+/**
+ * Vectors from one photo: its caption + attributes, embedded as text, and
+ * its pixels (multimodal providers only)
+ */
+interface PhotoEmbeddings {
+  analysis?: ImageAnalysis;
+  caption?: number[];
+  image?: number[];
+}
+
+/**
+ * Weighted sum of unit-normalised vectors, normalised again
+ *
+ * Parts without a vector are dropped and the remaining weights share the
+ * whole, so an item without photos gets its text vector back unchanged
+ * (up to length).
+ *
+ * @throws If no part has a vector, or their dimensions differ
+ */
+export function fuseEmbeddings(parts: Array<{ vector?: number[]; weight: number }>): number[] {
+  const present = parts.filter((part): part is { vector: number[]; weight: number } => !!part.vector && part.weight > 0);
+  if (present.length === 0) {
+    throw new Error('Nothing to fuse: every part is missing');
+  }
+
+  const fused: number[] = new Array(present[0].vector.length).fill(0);
+  for (const { vector, weight } of present) {
+    if (vector.length !== fused.length) {
+      throw new Error(`Vector dimensions must match: ${vector.length} vs ${fused.length}`);
+    }
+    const unit = normalize(vector);
+    for (let i = 0; i < fused.length; i++) {
+      fused[i] += unit[i] * weight;
+    }
+  }
+  return normalize(fused);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/** Equal-weight fusion; undefined for no vectors */
+function meanEmbedding(vectors: number[][]): number[] | undefined {
+  return vectors.length === 0 ? undefined : fuseEmbeddings(vectors.map(vector => ({ vector, weight: 1 })));
+}
+
+/** One photo as a single vector (image_embedding, search by photo) */
+function photoVector(photo: PhotoEmbeddings): number[] {
+  return fuseEmbeddings([
+    { vector: photo.caption, weight: PHOTO_WEIGHTS.caption },
+    { vector: photo.image, weight: PHOTO_WEIGHTS.image },
+  ]);
+}
+
+function fuseItemEmbedding(textEmbedding: number[], photos: PhotoEmbeddings[]): number[] {
+  return fuseEmbeddings([
+    { vector: textEmbedding, weight: FUSION_WEIGHTS.text },
+    { vector: meanEmbedding(photos.flatMap(photo => (photo.caption ? [photo.caption] : []))), weight: FUSION_WEIGHTS.caption },
+    { vector: meanEmbedding(photos.flatMap(photo => (photo.image ? [photo.image] : []))), weight: FUSION_WEIGHTS.image },
+  ]);
+}
+
+/**
+ * Caption and pixel vectors for one photo. Each half may fail on its own
+ * (no vision key, a text-only provider); the photo fails only if both do.
+ *
+ * @param image - Undefined when only an analysis is known (fixtures)
+ * @param analysis - Skips analyzeImage when given
+ */
+async function embedPhoto(
+  image: EmbeddingImage | undefined,
+  analysis: ImageAnalysis | undefined,
+  provider: EmbeddingProvider
+): Promise<PhotoEmbeddings> {
+  const [captioned, pixels] = await Promise.allSettled([
+    (async () => {
+      const known = analysis ?? (image ? await analyzeImage(image) : undefined);
+      if (!known) throw new Error('No photo to analyse');
+      return { analysis: known, vector: await embedText(imageAnalysisText(known), provider) };
+    })(),
+    (async () => {
+      if (!image || !provider.embedImage) throw new Error(`${provider.model} does not embed images`);
+      const vector = await provider.embedImage(image);
+      if (vector.length !== provider.dimensions) {
+        throw new Error(`Expected ${provider.dimensions}-dim image embedding from ${provider.model}, got ${vector.length}`);
+      }
+      return vector;
+    })(),
+  ]);
+
+  if (captioned.status === 'rejected' && pixels.status === 'rejected') {
+    throw captioned.reason;
+  }
+  return {
+    analysis: captioned.status === 'fulfilled' ? captioned.value.analysis : undefined,
+    caption: captioned.status === 'fulfilled' ? captioned.value.vector : undefined,
+    image: pixels.status === 'fulfilled' ? pixels.value : undefined,
+  };
+}
+
+/**
+ * Embed up to MAX_IMAGES photos in parallel, leaving out (and logging) any
+ * that fail
+ */
+async function embedPhotos(
+  images: Array<File | string>,
+  analyses: ImageAnalysis[],
+  provider: EmbeddingProvider
+): Promise<PhotoEmbeddings[]> {
+  const count = Math.min(MAX_IMAGES, Math.max(images.length, analyses.length));
+  const photos = await Promise.all(
+    Array.from({ length: count }, async (_, i) => {
+      try {
+        const image = images[i] !== undefined ? await toEmbeddingImage(images[i]) : undefined;
+        return await embedPhoto(image, analyses[i], provider);
+      } catch (error) {
+        console.warn(`[embeddings] Photo ${i + 1} left out:`, error);
+        return null;
+      }
+    })
+  );
+  return photos.filter((photo): photo is PhotoEmbeddings => photo !== null);
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -500,7 +673,7 @@ async function fileToBase64(file: File): Promise<string> {
  * @param base64 - Base64 string with or without data URL prefix
  * @returns Object with mimeType and base64 data (without prefix)
  */
-function parseBase64Image(base64: string): { mimeType: string; data: string } {
+export function parseBase64Image(base64: string): { mimeType: string; data: string } {
   // Check if it has data URL prefix
   const matches = base64.match(/^data:(.+);base64,(.+)$/);
 
@@ -519,6 +692,19 @@ function parseBase64Image(base64: string): { mimeType: string; data: string } {
   }
 }
 
+/**
+ * A browser File or a (data URL) base64 string as raw base64 + MIME type
+ */
+async function toEmbeddingImage(input: File | string): Promise<EmbeddingImage> {
+  if (typeof input === 'string') {
+    return parseBase64Image(input);
+  }
+  if (!input.type.startsWith('image/')) {
+    throw new Error(`Invalid file type: ${input.type}. Expected an image.`);
+  }
+  return { data: await fileToBase64(input), mimeType: input.type };
+}
+
 /**
  * Calculate cosine similarity between two vectors
  *
@@ -556,12 +742,18 @@ export function cosineSimilarity(vec1: number[], vec2: number[]): number {
 }
 
 /**
- * Check if Gemini API is configured
+ * Check if a hosted embedding provider is configured
  *
- * @returns true if API key is set
+ * The local hash provider always works, but only matches shared words.
+ *
+ * @returns false if embeddings come from the local provider (or none can be set up)
  */
 export function isEmbeddingConfigured(): boolean {
-  return !!GEMINI_API_KEY;
+  try {
+    return getEmbeddingProvider().name !== 'local';
+  } catch {
+    return false;
+  }
 }
 
 // ============================================================================
@@ -573,6 +765,24 @@ export function isEmbeddingConfigured(): boolean {
  */
 export type EmbeddingVector = number[];
 
+/**
+ * What the vision model read off a photo ('' or [] where it couldn't tell)
+ */
+export interface ImageAttributes {
+  itemType: string;
+  colors: string[];
+  pattern: string;
+  material: string;
+  style: string;
+  brand: string;
+  visibleText: string;
+}
+
+export interface ImageAnalysis {
+  caption: string;
+  attributes: ImageAttributes;
+}
+
 /**
  * Type for complete item embeddings
  */
@@ -581,4 +791,7 @@ export interface ItemEmbeddings {
   descriptionEmbedding: EmbeddingVector;
   imageEmbedding: EmbeddingVector;
   combinedEmbedding: EmbeddingVector;
+  imageAnalyses?: ImageAnalysis[]; // One per photo the vision model described
+  model: string;        // EmbeddingProvider.model that produced all four
+  dimensions: number;
 }
@@ -0,0 +1,304 @@
+/**
+ * Home Feed
+ *
+ * Server side of GET /api/feed. Signed-in shoppers get a "For you" feed
+ * ranked against their taste profile (./taste-profile); everyone else, and
+ * shoppers with no indexed history yet, gets trending items.
+ *
+ * Signals:
+ * - views: item_views, recorded by POST /api/feed/view
+ * - offers: getOffersByBuyer
+ * - purchases: completed escrows from getEscrowsByBuyer
+ *
+ * Profiles are cached in taste_profiles and rebuilt once PROFILE_TTL_MS
+ * has passed or a new view has marked them stale. Offers and purchases
+ * aren't pushed anywhere, so they show up at the next rebuild.
+ *
+ * Profiles are built from, and matched against, vectors of the current
+ * embedding model only; a profile cached under another model is rebuilt.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getEscrowsByBuyer, getOffersByBuyer } from '../sui/queries'
+import { EscrowStatus } from '../types/sui-objects'
+import { getEmbeddingProvider } from './embedding-providers'
+import {
+  buildTasteProfile,
+  rankFeed,
+  type FeedCandidate,
+  type FeedRankingOptions,
+  type TasteProfile,
+  type TasteSignal,
+} from './taste-profile'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const PROFILE_TTL_MS = 30 * 60 * 1000
+
+/** Most recent views that feed a profile */
+const MAX_VIEW_SIGNALS = 100
+
+/** Nearest items fetched for rankFeed to choose from, per feed slot */
+const CANDIDATES_PER_SLOT = 4
+
+/** Activity window for trending */
+const TRENDING_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FeedKind = 'for-you' | 'trending'
+
+export interface Feed {
+  kind: FeedKind
+  items: string[]                     // sui_object_ids, best first
+}
+
+export type FeedOptions = Omit<FeedRankingOptions, 'now'>
+
+interface StoredProfile extends TasteProfile {
+  excludeItems: string[]
+}
+
+// ============================================
+// SIGNALS
+// ============================================
+
+/**
+ * Remember that `address` viewed an item and mark its profile stale
+ */
+export async function recordItemView(
+  client: SupabaseClient,
+  address: string,
+  itemId: string,
+  now = Date.now()
+): Promise<void> {
+  const { error } = await client
+    .from('item_views')
+    .upsert({ address, item_id: itemId, viewed_at_ms: now }, { onConflict: 'address,item_id' })
+  if (error) {
+    throw new Error(`Failed to record view: ${error.message}`)
+  }
+
+  const { error: staleError } = await client
+    .from('taste_profiles')
+    .update({ stale: true })
+    .eq('address', address)
+  if (staleError) {
+    console.warn('[feed] Could not mark profile stale:', staleError.message)
+  }
+}
+
+async function collectSignals(client: SupabaseClient, address: string): Promise<TasteSignal[]> {
+  const [views, offers, escrows] = await Promise.all([
+    client
+      .from('item_views')
+      .select('item_id, viewed_at_ms')
+      .eq('address', address)
+      .order('viewed_at_ms', { ascending: false })
+      .limit(MAX_VIEW_SIGNALS),
+    getOffersByBuyer(address),
+    getEscrowsByBuyer(address),
+  ])
+
+  if (views.error) {
+    throw new Error(`Failed to load views: ${views.error.message}`)
+  }
+
+  return [
+    ...((views.data ?? []) as { item_id: string; viewed_at_ms: string | number }[]).map((row): TasteSignal => ({
+      itemId: row.item_id,
+      kind: 'view',
+      at: Number(row.viewed_at_ms),
+    })),
+    ...offers.map((offer): TasteSignal => ({
+      itemId: offer.fields.item_id,
+      kind: 'offer',
+      at: Number(offer.fields.created_at),
+    })),
+    ...escrows
+      .filter(escrow => escrow.fields.status === EscrowStatus.Completed)
+      .map((escrow): TasteSignal => ({
+        itemId: escrow.fields.item_id,
+        kind: 'purchase',
+        at: Number(escrow.fields.completed_at || escrow.fields.created_at),
+      })),
+  ]
+}
+
+// pgvector columns come back from PostgREST as '[0.1,0.2,...]'
+function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[]
+  if (typeof value === 'string') return JSON.parse(value) as number[]
+  return null
+}
+
+async function loadEmbeddings(
+  client: SupabaseClient,
+  itemIds: string[],
+  model: string
+): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>()
+  if (itemIds.length === 0) {
+    return embeddings
+  }
+
+  const { data, error } = await client
+    .from('item_search_index')
+    .select('sui_object_id, combined_embedding')
+    .in('sui_object_id', itemIds)
+    .eq('embedding_model', model)
+  if (error) {
+    throw new Error(`Failed to load embeddings: ${error.message}`)
+  }
+
+  for (const row of (data ?? []) as { sui_object_id: string; combined_embedding: unknown }[]) {
+    const embedding = parseVector(row.combined_embedding)
+    if (embedding) embeddings.set(row.sui_object_id, embedding)
+  }
+  return embeddings
+}
+
+// ============================================
+// PROFILES
+// ============================================
+
+/**
+ * The address's taste profile, rebuilt from its signals when the cached
+ * one is stale or missing
+ *
+ * @returns null if none of the address's signals are on indexed items
+ */
+async function getTasteProfile(
+  client: SupabaseClient,
+  address: string,
+  model: string,
+  now: number
+): Promise<StoredProfile | null> {
+  const { data: cached, error } = await client
+    .from('taste_profiles')
+    .select('embedding, embedding_model, signal_count, exclude_items, stale, updated_at')
+    .eq('address', address)
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to load taste profile: ${error.message}`)
+  }
+
+  if (cached && !cached.stale && cached.embedding_model === model && now - Date.parse(cached.updated_at) < PROFILE_TTL_MS) {
+    return {
+      embedding: parseVector(cached.embedding) ?? [],
+      signalCount: cached.signal_count,
+      excludeItems: cached.exclude_items ?? [],
+    }
+  }
+
+  const signals = await collectSignals(client, address)
+  const embeddings = await loadEmbeddings(client, [...new Set(signals.map(signal => signal.itemId))], model)
+  const profile = buildTasteProfile(signals, embeddings, now)
+  if (!profile) {
+    return null
+  }
+
+  const excludeItems = [...new Set(signals.filter(signal => signal.kind !== 'view').map(signal => signal.itemId))]
+  const { error: saveError } = await client.from('taste_profiles').upsert({
+    address,
+    embedding: JSON.stringify(profile.embedding),
+    embedding_model: model,
+    signal_count: profile.signalCount,
+    exclude_items: excludeItems,
+    stale: false,
+    updated_at: new Date(now).toISOString(),
+  })
+  if (saveError) {
+    // Still usable for this request; it'll just be rebuilt next time
+    console.warn('[feed] Could not cache taste profile:', saveError.message)
+  }
+
+  return { ...profile, excludeItems }
+}
+
+// ============================================
+// FEEDS
+// ============================================
+
+/**
+ * Most viewed and offered-on active items of the past week
+ *
+ * @param excludeSeller - Leave out this address's own listings
+ */
+export async function getTrendingFeed(
+  client: SupabaseClient,
+  limit: number,
+  excludeSeller: string | null = null,
+  now = Date.now()
+): Promise<Feed> {
+  const { data, error } = await client.rpc('trending_items', {
+    p_since_ms: now - TRENDING_WINDOW_MS,
+    max_results: limit,
+    p_exclude_seller: excludeSeller,
+  })
+  if (error) {
+    throw new Error(`Trending query failed: ${error.message}`)
+  }
+
+  return {
+    kind: 'trending',
+    items: ((data ?? []) as { item_id: string }[]).map(row => row.item_id),
+  }
+}
+
+/**
+ * "For you" feed for a signed-in address, or trending if it has no
+ * profile yet. Its own listings and items it already offered on or bought
+ * are left out.
+ */
+export async function getHomeFeed(
+  client: SupabaseClient,
+  address: string | null,
+  options: FeedOptions,
+  now = Date.now()
+): Promise<Feed> {
+  if (!address) {
+    return getTrendingFeed(client, options.limit, null, now)
+  }
+
+  const model = getEmbeddingProvider().model
+  const profile = await getTasteProfile(client, address, model, now)
+  if (!profile) {
+    return getTrendingFeed(client, options.limit, address, now)
+  }
+
+  const { data, error } = await client.rpc('feed_candidates', {
+    p_embedding: JSON.stringify(profile.embedding),
+    p_model: model,
+    p_exclude_seller: address,
+    p_exclude_items: profile.excludeItems,
+    max_results: options.limit * CANDIDATES_PER_SLOT,
+  })
+  if (error) {
+    throw new Error(`Feed candidate query failed: ${error.message}`)
+  }
+
+  const candidates = ((data ?? []) as {
+    sui_object_id: string
+    similarity: number
+    category: string
+    seller: string
+    created_at_ms: string | number
+  }[]).map((row): FeedCandidate => ({
+    id: row.sui_object_id,
+    similarity: row.similarity,
+    category: row.category,
+    seller: row.seller,
+    createdAtMs: Number(row.created_at_ms),
+  }))
+
+  if (candidates.length === 0) {
+    return getTrendingFeed(client, options.limit, address, now)
+  }
+
+  return { kind: 'for-you', items: rankFeed(candidates, { ...options, now }) }
+}
@@ -0,0 +1,369 @@
+/**
+ * Hybrid Search
+ *
+ * Vector search alone misses exact tokens - brand names, sizes like "M" or
+ * "32x30", rare words - because the embedding smooths them away. This runs
+ * several retrievers over the same structured filters and fuses their
+ * rankings:
+ *
+ * - keyword: full-text + trigram match on the marketplace projection
+ *   (search_items_by_keyword() in supabase-schema.sql)
+ * - vector: cosine similarity on item_search_index
+ *   (search_items_by_embedding())
+ * - photo (search by photo): the photo's embedding against image_embedding
+ *   (search_items_by_image()) and combined_embedding
+ *
+ * Each hit records how it matched: "visual" when the item's photo resembles
+ * the shopper's, "text" when its title/description matches the typed query
+ * or what the photo shows.
+ *
+ * Fusion is reciprocal rank fusion (RRF): each list contributes
+ * 1 / (k + rank) per item, so an item ranked well by either retriever rises
+ * and one ranked well by both rises furthest. Only ranks are used, so the
+ * two score scales never have to be calibrated against each other.
+ *
+ * Facet counts are computed over the fused results from the projection.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ItemStatus, suiToMist } from '../types/sui-objects'
+import type { ItemQueryFilters } from '../types/sui-objects'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** RRF damping constant; 60 is the value from the original paper */
+export const RRF_K = 60
+
+/** Price facet buckets, in SUI (upper bound exclusive, null = open-ended) */
+export const PRICE_BUCKETS: { label: string; min: number; max: number | null }[] = [
+  { label: 'Under 5 SUI', min: 0, max: 5 },
+  { label: '5-20 SUI', min: 5, max: 20 },
+  { label: '20-50 SUI', min: 20, max: 50 },
+  { label: '50+ SUI', min: 50, max: null },
+]
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Structured filters search supports (a subset of ItemQueryFilters) */
+export type SearchFilters = Pick<
+  ItemQueryFilters,
+  'category' | 'condition' | 'brand' | 'size' | 'color' | 'minPrice' | 'maxPrice'
+>
+
+/** SearchFilters as sent over JSON (prices as MIST strings, JSON has no bigint) */
+export type SearchFiltersJson = {
+  [K in keyof SearchFilters]?: string
+}
+
+export interface FusedResult {
+  id: string
+  score: number                       // Sum of 1 / (k + rank) over the lists
+  ranks: (number | null)[]            // 1-based rank per input list, null if absent
+}
+
+export type MatchSource = 'text' | 'visual'
+
+export interface SearchHit extends FusedResult {
+  matchedBy: MatchSource[]
+}
+
+/** What to search with; at least one embedding is required */
+export interface SearchQuery {
+  text?: string                       // Typed query (drives keyword search)
+  textEmbedding?: number[]            // Embedding of `text`
+  imageEmbedding?: number[]           // embedImage() of the shopper's photo
+  model: string                       // EmbeddingProvider.model of both embeddings
+}
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export interface PriceFacetCount {
+  label: string
+  minPrice: string                    // MIST
+  maxPrice: string | null             // MIST, exclusive
+  count: number
+}
+
+export interface SearchFacets {
+  category: FacetCount[]
+  condition: FacetCount[]
+  size: FacetCount[]
+  price: PriceFacetCount[]
+}
+
+/** Projection columns facets are counted from */
+export interface FacetRow {
+  category: string
+  condition: string
+  size: string
+  price: string | number              // MIST (BIGINT)
+}
+
+export interface HybridSearchOptions {
+  filters?: SearchFilters
+  maxResults: number
+  similarityThreshold: number
+  useCombined: boolean
+}
+
+export interface HybridSearchResult {
+  results: SearchHit[]
+  facets: SearchFacets
+}
+
+// ============================================
+// FILTERS
+// ============================================
+
+/**
+ * Validate filters received as JSON (search requests, saved searches)
+ */
+export function parseSearchFilters(input: unknown): { filters: SearchFilters } | { error: string } {
+  const filters: SearchFilters = {}
+  if (input === undefined || input === null) {
+    return { filters }
+  }
+  if (typeof input !== 'object') {
+    return { error: 'filters must be an object' }
+  }
+  const fields = input as Record<string, unknown>
+
+  for (const key of ['category', 'condition', 'brand', 'size', 'color'] as const) {
+    const value = fields[key]
+    if (value === undefined || value === '') continue
+    if (typeof value !== 'string') {
+      return { error: `filters.${key} must be a string` }
+    }
+    filters[key] = value.trim()
+  }
+
+  for (const key of ['minPrice', 'maxPrice'] as const) {
+    const value = fields[key]
+    if (value === undefined || value === '') continue
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+      return { error: `filters.${key} must be a non-negative integer amount in MIST` }
+    }
+    filters[key] = BigInt(value)
+  }
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    return { error: 'filters.minPrice cannot be greater than filters.maxPrice' }
+  }
+
+  return { filters }
+}
+
+/**
+ * Inverse of parseSearchFilters: unset filters are left out
+ */
+export function serializeSearchFilters(filters: SearchFilters): SearchFiltersJson {
+  const json: SearchFiltersJson = {}
+  for (const key of ['category', 'condition', 'brand', 'size', 'color', 'minPrice', 'maxPrice'] as const) {
+    const value = filters[key]
+    if (value !== undefined && value !== '') json[key] = value.toString()
+  }
+  return json
+}
+
+// ============================================
+// FUSION
+// ============================================
+
+/**
+ * Reciprocal rank fusion of ranked ID lists (best first)
+ *
+ * @returns Every ID from any list, best fused score first (ties keep
+ *          first-seen order)
+ */
+export function fuseRankings(lists: string[][], k = RRF_K): FusedResult[] {
+  const fused = new Map<string, FusedResult>()
+
+  lists.forEach((list, listIndex) => {
+    list.forEach((id, index) => {
+      let entry = fused.get(id)
+      if (!entry) {
+        entry = { id, score: 0, ranks: lists.map(() => null) }
+        fused.set(id, entry)
+      }
+      // An ID repeated within one list only counts at its best rank
+      if (entry.ranks[listIndex] === null) {
+        entry.ranks[listIndex] = index + 1
+        entry.score += 1 / (k + index + 1)
+      }
+    })
+  })
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+}
+
+// ============================================
+// FACETS
+// ============================================
+
+/** Count values case-insensitively, labelled by their first spelling */
+function countValues(values: string[]): FacetCount[] {
+  const counts = new Map<string, FacetCount>()
+  for (const raw of values) {
+    const value = raw.trim()
+    if (!value) continue
+    const key = value.toLowerCase()
+    const entry = counts.get(key)
+    if (entry) {
+      entry.count++
+    } else {
+      counts.set(key, { value, count: 1 })
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+export function computeFacets(rows: FacetRow[]): SearchFacets {
+  const prices = rows.map(row => BigInt(row.price))
+
+  return {
+    category: countValues(rows.map(row => row.category)),
+    condition: countValues(rows.map(row => row.condition)),
+    size: countValues(rows.map(row => row.size)),
+    price: PRICE_BUCKETS.map(bucket => {
+      const min = suiToMist(bucket.min)
+      const max = bucket.max === null ? null : suiToMist(bucket.max)
+      return {
+        label: bucket.label,
+        minPrice: min.toString(),
+        maxPrice: max?.toString() ?? null,
+        count: prices.filter(price => price >= min && (max === null || price < max)).length,
+      }
+    }).filter(bucket => bucket.count > 0),
+  }
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+function filterParams(filters: SearchFilters = {}) {
+  return {
+    p_category: filters.category ?? null,
+    p_condition: filters.condition ?? null,
+    p_brand: filters.brand ?? null,
+    p_size: filters.size ?? null,
+    p_color: filters.color ?? null,
+    p_min_price: filters.minPrice?.toString() ?? null,
+    p_max_price: filters.maxPrice?.toString() ?? null,
+    p_status: ItemStatus.Active,
+  }
+}
+
+interface Retriever {
+  source: MatchSource
+  run: () => PromiseLike<{ data: unknown; error: { message: string } | null }>
+  ids: (rows: unknown[]) => string[]
+}
+
+const byItemId = (rows: unknown[]) => (rows as { item_id: string }[]).map(row => row.item_id)
+const bySuiObjectId = (rows: unknown[]) => (rows as { sui_object_id: string }[]).map(row => row.sui_object_id)
+
+/**
+ * Run every retriever the query allows with the same filters and fuse them
+ *
+ * Each retriever fetches up to twice `maxResults` candidates so fusion has
+ * something to reorder; the fused list is then cut to `maxResults`.
+ *
+ * @param client - Supabase client that can read the search index and projection
+ * @param query - Typed text and/or photo embeddings; only items indexed
+ *                with the same model are compared against them
+ * @throws If no embedding is given or any retriever fails
+ */
+export async function hybridSearch(
+  client: SupabaseClient,
+  query: SearchQuery,
+  options: HybridSearchOptions
+): Promise<HybridSearchResult> {
+  const candidates = options.maxResults * 2
+  const filters = filterParams(options.filters)
+  const vector = (embedding: number[], useCombined: boolean) => () => client.rpc('search_items_by_embedding', {
+    query_embedding: embedding,
+    p_model: query.model,
+    similarity_threshold: options.similarityThreshold,
+    max_results: candidates,
+    use_combined: useCombined,
+    ...filters,
+  })
+
+  const retrievers: Retriever[] = []
+  if (query.text?.trim()) {
+    retrievers.push({
+      source: 'text',
+      run: () => client.rpc('search_items_by_keyword', { p_query: query.text, p_limit: candidates, ...filters }),
+      ids: byItemId,
+    })
+  }
+  if (query.textEmbedding) {
+    retrievers.push({ source: 'text', run: vector(query.textEmbedding, options.useCombined), ids: bySuiObjectId })
+  }
+  if (query.imageEmbedding) {
+    const imageEmbedding = query.imageEmbedding
+    retrievers.push({
+      source: 'visual',
+      run: () => client.rpc('search_items_by_image', {
+        query_embedding: imageEmbedding,
+        p_model: query.model,
+        similarity_threshold: options.similarityThreshold,
+        max_results: candidates,
+        ...filters,
+      }),
+      ids: bySuiObjectId,
+    })
+    retrievers.push({ source: 'text', run: vector(imageEmbedding, true), ids: bySuiObjectId })
+  }
+  if (!query.textEmbedding && !query.imageEmbedding) {
+    throw new Error('Search needs a text or photo embedding')
+  }
+
+  const lists = await Promise.all(retrievers.map(async retriever => {
+    const { data, error } = await retriever.run()
+    if (error) {
+      throw new Error(`${retriever.source === 'visual' ? 'Photo' : 'Text'} search failed: ${error.message}`)
+    }
+    return retriever.ids((data ?? []) as unknown[])
+  }))
+
+  const results = fuseRankings(lists).slice(0, options.maxResults).map((result): SearchHit => ({
+    ...result,
+    matchedBy: (['visual', 'text'] as const).filter(source =>
+      result.ranks.some((rank, index) => rank !== null && retrievers[index].source === source)
+    ),
+  }))
+
+  return { results, facets: await loadFacets(client, results.map(result => result.id)) }
+}
+
+/**
+ * Facet counts for a result set. Items the projection hasn't seen yet
+ * aren't counted; an unavailable projection yields empty facets rather than
+ * failing the search.
+ */
+async function loadFacets(client: SupabaseClient, ids: string[]): Promise<SearchFacets> {
+  if (ids.length === 0) {
+    return computeFacets([])
+  }
+
+  const { data, error } = await client
+    .from('marketplace_items')
+    .select('category, condition, size, price')
+    .in('item_id', ids)
+
+  if (error) {
+    console.warn('[hybridSearch] Facet query failed:', error.message)
+    return computeFacets([])
+  }
+
+  return computeFacets((data ?? []) as FacetRow[])
+}
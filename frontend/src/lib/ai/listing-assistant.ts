@@ -0,0 +1,230 @@
+/**
+ * Listing Assistant (auto-fill from photos)
+ *
+ * Drafts the listing form from a seller's photos: a vision model looks at
+ * them and suggests a value for every field of createItem (title,
+ * description, price, category, condition, brand, size, color, material),
+ * each with a confidence between 0 and 1. Nothing is applied on its own;
+ * ItemForm shows the suggestions and the seller accepts them one by one.
+ *
+ * Describers are pluggable like query parsers: GeminiListingDescriber in
+ * production, a canned stub in tests. Their output goes through
+ * normalizeListingSuggestions, so a model can't suggest a category or
+ * condition the form doesn't offer, or text longer than the form accepts.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { CATEGORIES, CONDITIONS } from '../constants'
+import type { EmbeddingImage } from './embedding-providers'
+import { parseBase64Image } from './embeddings'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Same cap as the listing form */
+export const MAX_LISTING_PHOTOS = 5
+
+/** The listing form's maxLength for each text field */
+export const FIELD_MAX_LENGTHS = {
+  title: 100,
+  description: 1000,
+  brand: 60,
+  size: 30,
+  color: 40,
+  material: 80,
+} as const
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface FieldSuggestion<T = string> {
+  value: T
+  confidence: number                  // 0 (a guess) to 1 (clearly visible)
+}
+
+/**
+ * One entry per createItem field (photos aside); null where the model
+ * had nothing to offer
+ */
+export interface ListingSuggestions {
+  title: FieldSuggestion | null
+  description: FieldSuggestion | null
+  price: FieldSuggestion<number> | null  // SUI
+  category: FieldSuggestion | null       // One of CATEGORIES
+  condition: FieldSuggestion | null      // One of CONDITIONS
+  brand: FieldSuggestion | null
+  size: FieldSuggestion | null
+  color: FieldSuggestion | null
+  material: FieldSuggestion | null
+}
+
+export type ListingField = keyof ListingSuggestions
+
+export const LISTING_FIELDS: ListingField[] = [
+  'title', 'description', 'price', 'category', 'condition', 'brand', 'size', 'color', 'material',
+]
+
+export interface ListingDescriber {
+  readonly name: string
+  describe(photos: EmbeddingImage[]): Promise<ListingSuggestions>
+}
+
+export class ListingAssistantError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'ListingAssistantError'
+  }
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+function confidence(value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? Math.min(1, Math.max(0, number)) : 0
+}
+
+function suggestion<T>(value: T | undefined, raw: Record<string, unknown>): FieldSuggestion<T> | null {
+  return value === undefined ? null : { value, confidence: confidence(raw.confidence) }
+}
+
+function text(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined
+}
+
+function canonical(value: unknown, allowed: string[]): string | undefined {
+  if (typeof value !== 'string') return undefined
+  return allowed.find(option => option.toLowerCase() === value.trim().toLowerCase())
+}
+
+function price(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value.replace(/\s*sui$/i, '')) : value
+  // Two decimals, like the form's price input
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? Math.round(number * 100) / 100 : undefined
+}
+
+/**
+ * Coerce a describer's raw output ({ field: { value, confidence } }) into
+ * ListingSuggestions: categories and conditions outside the form's lists,
+ * empty text and non-positive prices become null, text is trimmed to the
+ * form's limits and confidences are clamped to 0..1.
+ */
+export function normalizeListingSuggestions(raw: unknown): ListingSuggestions {
+  const fields = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const entry = (field: ListingField) => {
+    const value = fields[field]
+    return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  }
+  const textField = (field: keyof typeof FIELD_MAX_LENGTHS) =>
+    suggestion(text(entry(field).value, FIELD_MAX_LENGTHS[field]), entry(field))
+
+  return {
+    title: textField('title'),
+    description: textField('description'),
+    price: suggestion(price(entry('price').value), entry('price')),
+    category: suggestion(canonical(entry('category').value, CATEGORIES), entry('category')),
+    condition: suggestion(canonical(entry('condition').value, CONDITIONS), entry('condition')),
+    brand: textField('brand'),
+    size: textField('size'),
+    color: textField('color'),
+    material: textField('material'),
+  }
+}
+
+// ============================================
+// GEMINI
+// ============================================
+
+const DESCRIBE_PROMPT = `You help people sell second-hand items. From these photos of one item, draft its listing.
+Reply with one JSON object with exactly these keys, each {"value": ..., "confidence": number from 0 to 1}:
+- "title": short listing title, at most ${FIELD_MAX_LENGTHS.title} characters (e.g. "Vintage Levi's Denim Jacket")
+- "description": 2-4 sentences on what it is, its look, and any visible wear or flaws
+- "price": a fair second-hand asking price as a number in SUI
+- "category": exactly one of ${JSON.stringify(CATEGORIES)}
+- "condition": exactly one of ${JSON.stringify(CONDITIONS)}
+- "brand": brand as usually written, from logos, tags or labels
+- "size": size as printed on a tag (e.g. "M", "32x30", "EU 42")
+- "color": main color(s) in plain words
+- "material": material or fabric (e.g. "100% Cotton"), from a care label if visible
+Confidence is how sure the photos make you: near 1 when it is plainly visible (a readable tag),
+near 0 when guessing. Use {"value": null, "confidence": 0} when the photos give no clue at all.`
+
+export class GeminiListingDescriber implements ListingDescriber {
+  readonly name = 'gemini'
+  private readonly client: GoogleGenerativeAI
+
+  constructor(apiKey: string, private readonly model = 'gemini-2.0-flash') {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async describe(photos: EmbeddingImage[]): Promise<ListingSuggestions> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: { responseMimeType: 'application/json', temperature: 0.2 },
+    })
+    const result = await model.generateContent([
+      ...photos.map(photo => ({ inlineData: photo })),
+      DESCRIBE_PROMPT,
+    ])
+    return normalizeListingSuggestions(JSON.parse(result.response.text()))
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let describer: ListingDescriber | undefined
+
+/**
+ * Gemini with GEMINI_VISION_MODEL. There is no local fallback: without a
+ * vision model there is nothing to suggest.
+ *
+ * @throws ListingAssistantError (503) without a Gemini key
+ */
+export function getListingDescriber(): ListingDescriber {
+  if (describer) {
+    return describer
+  }
+
+  const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY
+  if (!apiKey) {
+    throw new ListingAssistantError('Auto-fill is not available: no vision model is configured', 503)
+  }
+  describer = new GeminiListingDescriber(apiKey, process.env.GEMINI_VISION_MODEL || undefined)
+  return describer
+}
+
+/**
+ * Replace the describer (tests)
+ */
+export function setListingDescriber(next: ListingDescriber | undefined): void {
+  describer = next
+}
+
+/**
+ * Draft a listing from photos (data URLs or raw base64)
+ *
+ * @throws ListingAssistantError if there are no photos or too many
+ */
+export async function describeListing(
+  images: unknown,
+  using?: ListingDescriber
+): Promise<ListingSuggestions> {
+  if (!Array.isArray(images) || images.length === 0 || !images.every(image => typeof image === 'string' && image)) {
+    throw new ListingAssistantError('images must be a non-empty array of base64 strings')
+  }
+  if (images.length > MAX_LISTING_PHOTOS) {
+    throw new ListingAssistantError(`At most ${MAX_LISTING_PHOTOS} photos`)
+  }
+
+  const photos = (images as string[]).map(parseBase64Image)
+  if (!photos.every(photo => photo.mimeType.startsWith('image/'))) {
+    throw new ListingAssistantError('Every photo must be an image')
+  }
+
+  return (using ?? getListingDescriber()).describe(photos)
+}
@@ -0,0 +1,72 @@
+/**
+ * Listing ↔ chain matching for search indexing
+ *
+ * The index-item route receives the listing's text and images from the
+ * browser (so it doesn't have to download them again), but the search index
+ * must only ever describe what is on chain. This checks the submitted
+ * title and description against the ThriftItem, and each image against
+ * the Walrus blob at the same position in walrus_image_ids. Images are
+ * uploaded to Walrus unmodified, so matching bytes mean matching hashes.
+ */
+
+import { createHash } from 'crypto'
+import type { ThriftItemObject } from '../types/sui-objects'
+import { fetchBlobFromWalrus } from '../walrus/upload'
+
+export interface SubmittedListing {
+  title: string
+  description: string
+  images: string[]                    // Data URLs, in walrus_image_ids order
+}
+
+export class ListingMismatchError extends Error {
+  constructor(readonly field: 'title' | 'description' | 'images', message: string) {
+    super(message)
+    this.name = 'ListingMismatchError'
+  }
+}
+
+function sha256(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex')
+}
+
+function decodeDataUrl(image: string): Uint8Array | null {
+  const match = image.match(/^data:[^;]+;base64,(.+)$/)
+  return match ? Buffer.from(match[1], 'base64') : null
+}
+
+/**
+ * @param item - The on-chain item
+ * @param listing - What the browser asked to index
+ * @param fetchBlob - Walrus download (replaceable in tests)
+ * @throws ListingMismatchError naming the first field that differs
+ */
+export async function verifyListingMatchesChain(
+  item: ThriftItemObject,
+  listing: SubmittedListing,
+  fetchBlob: (blobId: string) => Promise<Blob> = fetchBlobFromWalrus
+): Promise<void> {
+  if (listing.title !== item.fields.title) {
+    throw new ListingMismatchError('title', 'Title does not match the on-chain item')
+  }
+  if (listing.description !== item.fields.description) {
+    throw new ListingMismatchError('description', 'Description does not match the on-chain item')
+  }
+
+  const blobIds = item.fields.walrus_image_ids
+  if (listing.images.length > blobIds.length) {
+    throw new ListingMismatchError('images', `Item has ${blobIds.length} image(s) on chain, got ${listing.images.length}`)
+  }
+
+  await Promise.all(listing.images.map(async (image, index) => {
+    const submitted = decodeDataUrl(image)
+    if (!submitted) {
+      throw new ListingMismatchError('images', `Image ${index + 1} is not a base64 data URL`)
+    }
+
+    const stored = new Uint8Array(await (await fetchBlob(blobIds[index])).arrayBuffer())
+    if (sha256(submitted) !== sha256(stored)) {
+      throw new ListingMismatchError('images', `Image ${index + 1} does not match Walrus blob ${blobIds[index]}`)
+    }
+  }))
+}
@@ -0,0 +1,266 @@
+/**
+ * Price Suggestions (sold comparables)
+ *
+ * Suggests an asking price from what similar items actually sold for. The
+ * nearest sold items in item_search_index (sold_comparables() in
+ * supabase-schema.sql, final escrow amounts) are weighted by
+ *
+ * - similarity: how alike the listings are
+ * - condition: a "Good" jacket says less about a "New" one the further
+ *   apart the two are on the CONDITIONS scale
+ * - brand: the same brand counts more, a different named brand less
+ * - recency: a sale counts half as much after SALE_HALF_LIFE_DAYS
+ *
+ * and the weighted 25th/50th/75th percentiles of their prices become the
+ * suggested range. The comparables are returned too, so the UI can show
+ * what the range is based on.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { CONDITIONS } from '../constants'
+import { mistToSui } from '../types/sui-objects'
+import { getEmbeddingProvider, type EmbeddingProvider } from './embedding-providers'
+import { embedText } from './embeddings'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Fewer sold neighbours than this and no range is suggested */
+export const MIN_COMPARABLES = 3
+
+/** A sale counts half as much after this many days */
+export const SALE_HALF_LIFE_DAYS = 90
+
+/** Weight lost per step between conditions ("Good" vs "Excellent" is one step) */
+export const CONDITION_STEP_PENALTY = 0.2
+
+export const BRAND_MATCH_WEIGHT = 1.5
+export const BRAND_MISMATCH_WEIGHT = 0.6
+
+const CANDIDATES = 30
+const SIMILARITY_THRESHOLD = 0.4
+const RETURNED_COMPARABLES = 8
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================
+// TYPES
+// ============================================
+
+/** What is being priced: a draft listing's fields, or a listed item */
+export type PriceTarget =
+  | { itemId: string }
+  | { title: string; description?: string; condition?: string; brand?: string }
+
+export interface SoldComparable {
+  itemId: string
+  title: string
+  category: string
+  condition: string
+  brand: string
+  soldPrice: number                   // SUI
+  soldAtMs: number
+  similarity: number
+}
+
+export interface WeightedComparable extends SoldComparable {
+  weight: number
+}
+
+export interface PriceSuggestion {
+  low: number                         // SUI, weighted 25th percentile
+  suggested: number                   // SUI, weighted median
+  high: number                        // SUI, weighted 75th percentile
+  basedOn: number                     // Comparables found
+  comparables: WeightedComparable[]   // Heaviest first
+}
+
+export class PricingError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'PricingError'
+  }
+}
+
+// ============================================
+// WEIGHTING
+// ============================================
+
+function conditionWeight(target: string | undefined, comparable: string): number {
+  const a = CONDITIONS.indexOf(target ?? '')
+  const b = CONDITIONS.indexOf(comparable)
+  if (a === -1 || b === -1) return 1
+  return Math.max(0.1, 1 - CONDITION_STEP_PENALTY * Math.abs(a - b))
+}
+
+function brandWeight(target: string | undefined, comparable: string): number {
+  const wanted = target?.trim().toLowerCase()
+  const found = comparable.trim().toLowerCase()
+  if (!wanted || !found) return 1
+  return wanted === found ? BRAND_MATCH_WEIGHT : BRAND_MISMATCH_WEIGHT
+}
+
+/**
+ * Weight each comparable by similarity, condition distance, brand match
+ * and age of the sale
+ */
+export function weightComparables(
+  comparables: SoldComparable[],
+  target: { condition?: string; brand?: string },
+  now = Date.now()
+): WeightedComparable[] {
+  return comparables.map(comparable => ({
+    ...comparable,
+    weight: Math.max(0, comparable.similarity)
+      * conditionWeight(target.condition, comparable.condition)
+      * brandWeight(target.brand, comparable.brand)
+      * Math.pow(0.5, Math.max(0, now - comparable.soldAtMs) / (SALE_HALF_LIFE_DAYS * DAY_MS)),
+  }))
+}
+
+/**
+ * Price at which `quantile` (0-1) of the total weight is reached, going
+ * from cheapest to dearest
+ */
+export function weightedQuantile(comparables: WeightedComparable[], quantile: number): number {
+  const sorted = [...comparables].sort((a, b) => a.soldPrice - b.soldPrice)
+  const total = sorted.reduce((sum, comparable) => sum + comparable.weight, 0)
+  let running = 0
+  for (const comparable of sorted) {
+    running += comparable.weight
+    if (running >= quantile * total) {
+      return comparable.soldPrice
+    }
+  }
+  return sorted[sorted.length - 1].soldPrice
+}
+
+const roundSui = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * The suggested range for already-fetched comparables
+ *
+ * @returns null with fewer than MIN_COMPARABLES comparables (or no weight)
+ */
+export function priceRange(
+  comparables: SoldComparable[],
+  target: { condition?: string; brand?: string },
+  now = Date.now()
+): PriceSuggestion | null {
+  const weighted = weightComparables(comparables, target, now).filter(comparable => comparable.weight > 0)
+  if (weighted.length < MIN_COMPARABLES) {
+    return null
+  }
+
+  return {
+    low: roundSui(weightedQuantile(weighted, 0.25)),
+    suggested: roundSui(weightedQuantile(weighted, 0.5)),
+    high: roundSui(weightedQuantile(weighted, 0.75)),
+    basedOn: weighted.length,
+    comparables: weighted.sort((a, b) => b.weight - a.weight).slice(0, RETURNED_COMPARABLES),
+  }
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+interface ComparableRow {
+  item_id: string
+  title: string
+  category: string
+  condition: string
+  brand: string
+  sold_price: number | string         // MIST
+  sold_at_ms: number | string | null
+  similarity: number
+}
+
+/**
+ * Embedding and attributes to price from. A listed item uses its stored
+ * combined_embedding (or its text, if it isn't indexed under `provider`'s
+ * model yet).
+ */
+async function resolveTarget(
+  client: SupabaseClient,
+  target: PriceTarget,
+  provider: EmbeddingProvider
+): Promise<{ embedding: number[] | string; condition?: string; brand?: string; excludeItem?: string }> {
+  if (!('itemId' in target)) {
+    if (!target.title?.trim()) {
+      throw new PricingError('title is required')
+    }
+    const text = [target.title, target.description].filter(Boolean).join('. ')
+    return { embedding: await embedText(text, provider), condition: target.condition, brand: target.brand }
+  }
+
+  const [indexed, listed] = await Promise.all([
+    client
+      .from('item_search_index')
+      .select('combined_embedding')
+      .eq('sui_object_id', target.itemId)
+      .eq('embedding_model', provider.model)
+      .maybeSingle(),
+    client
+      .from('marketplace_items')
+      .select('title, description, condition, brand')
+      .eq('item_id', target.itemId)
+      .maybeSingle(),
+  ])
+  if (indexed.error || listed.error) {
+    throw new Error(`Failed to load item: ${(indexed.error ?? listed.error)!.message}`)
+  }
+
+  const item = listed.data as { title: string; description: string; condition: string; brand: string } | null
+  const stored = (indexed.data as { combined_embedding: number[] | string | null } | null)?.combined_embedding
+  if (!stored && !item) {
+    throw new PricingError('Item not found', 404)
+  }
+
+  return {
+    // pgvector comes back as text, which it also accepts as a parameter
+    embedding: stored ?? await embedText([item!.title, item!.description].filter(Boolean).join('. '), provider),
+    condition: item?.condition,
+    brand: item?.brand,
+    excludeItem: target.itemId,
+  }
+}
+
+/**
+ * Suggest a price range for a draft or listed item from similar sold items
+ *
+ * @returns The range and its comparables, or null if too few similar
+ *          items have sold
+ * @throws PricingError for a draft without a title or an unknown item
+ */
+export async function suggestPrice(
+  client: SupabaseClient,
+  target: PriceTarget,
+  options: { provider?: EmbeddingProvider; now?: number } = {}
+): Promise<PriceSuggestion | null> {
+  const provider = options.provider ?? getEmbeddingProvider()
+  const { embedding, condition, brand, excludeItem } = await resolveTarget(client, target, provider)
+
+  const { data, error } = await client.rpc('sold_comparables', {
+    p_embedding: embedding,
+    p_model: provider.model,
+    max_results: CANDIDATES,
+    similarity_threshold: SIMILARITY_THRESHOLD,
+    p_exclude_item: excludeItem ?? null,
+  })
+  if (error) {
+    throw new Error(`Failed to find sold comparables: ${error.message}`)
+  }
+
+  const comparables: SoldComparable[] = ((data ?? []) as ComparableRow[]).map(row => ({
+    itemId: row.item_id,
+    title: row.title,
+    category: row.category,
+    condition: row.condition,
+    brand: row.brand,
+    soldPrice: mistToSui(String(row.sold_price)),
+    soldAtMs: Number(row.sold_at_ms ?? 0),
+    similarity: row.similarity,
+  }))
+  return priceRange(comparables, { condition, brand }, options.now)
+}
@@ -0,0 +1,294 @@
+/**
+ * Search Query Understanding
+ *
+ * "black Levi's jeans size 32 under 5 SUI in good condition" embedded as a
+ * single blob loses its constraints: the vector for "under 5 SUI" says
+ * nothing about price. Before retrieval, /api/ai/search splits a query
+ * into structured filters that map onto ThriftItem fields (category,
+ * brand, size, color, condition, price) and the descriptive text that is
+ * left to match by meaning and keyword.
+ *
+ * Parsers are pluggable: GeminiQueryParser asks an LLM, RuleQueryParser is
+ * a deterministic local stand-in (tests, no API key, or when Gemini fails).
+ * Whatever a parser returns goes through normalizeInterpretation, so a
+ * model can't invent categories or conditions the listing form never offers.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { CATEGORIES, CONDITIONS } from '../constants'
+import { mistToSui, suiToMist } from '../types/sui-objects'
+import type { SearchFilters } from './hybrid-search'
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What a query was understood to mean. Returned to the UI, which may edit
+ * it and send the fields back as explicit filters.
+ */
+export interface QueryInterpretation {
+  text: string                        // Descriptive words left for retrieval
+  category?: string                   // One of CATEGORIES
+  brand?: string
+  size?: string
+  color?: string
+  condition?: string                  // One of CONDITIONS
+  minPrice?: number                   // SUI
+  maxPrice?: number                   // SUI
+}
+
+export interface QueryParser {
+  readonly name: string
+  parse(query: string): Promise<QueryInterpretation>
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+function canonical(value: unknown, allowed: string[]): string | undefined {
+  if (typeof value !== 'string') return undefined
+  return allowed.find(option => option.toLowerCase() === value.trim().toLowerCase())
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function optionalPrice(value: unknown): number | undefined {
+  const price = typeof value === 'string' ? Number(value) : value
+  return typeof price === 'number' && Number.isFinite(price) && price >= 0 ? price : undefined
+}
+
+/**
+ * Coerce a parser's raw output into a QueryInterpretation: unknown
+ * categories and conditions, non-numeric or negative prices and empty
+ * strings are dropped, and inverted price bounds are swapped.
+ *
+ * @param raw - Parser output (e.g. the LLM's JSON)
+ * @param query - The original query, used when no descriptive text is left
+ */
+export function normalizeInterpretation(raw: unknown, query: string): QueryInterpretation {
+  const fields = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+
+  const interpretation: QueryInterpretation = {
+    text: optionalString(fields.text) ?? query.trim(),
+    category: canonical(fields.category, CATEGORIES),
+    brand: optionalString(fields.brand),
+    size: optionalString(fields.size),
+    color: optionalString(fields.color)?.toLowerCase(),
+    condition: canonical(fields.condition, CONDITIONS),
+    minPrice: optionalPrice(fields.minPrice),
+    maxPrice: optionalPrice(fields.maxPrice),
+  }
+
+  const { minPrice, maxPrice } = interpretation
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    interpretation.minPrice = maxPrice
+    interpretation.maxPrice = minPrice
+  }
+
+  // Drop unset keys so the JSON sent to the UI only lists what was found
+  for (const key of Object.keys(interpretation) as (keyof QueryInterpretation)[]) {
+    if (interpretation[key] === undefined) delete interpretation[key]
+  }
+  return interpretation
+}
+
+/**
+ * Search filters for an interpretation (prices converted to MIST)
+ */
+export function interpretationFilters(interpretation: QueryInterpretation): SearchFilters {
+  return {
+    category: interpretation.category,
+    brand: interpretation.brand,
+    size: interpretation.size,
+    color: interpretation.color,
+    condition: interpretation.condition,
+    minPrice: interpretation.minPrice !== undefined ? suiToMist(interpretation.minPrice) : undefined,
+    maxPrice: interpretation.maxPrice !== undefined ? suiToMist(interpretation.maxPrice) : undefined,
+  }
+}
+
+/**
+ * Combine a parsed interpretation with explicit filters
+ *
+ * Explicit filters come from chips or an edited interpretation and take
+ * precedence. Explicit prices are kept in MIST for the search itself and
+ * only converted to SUI for the returned interpretation.
+ */
+export function applyExplicitFilters(
+  parsed: QueryInterpretation,
+  explicit: SearchFilters
+): { interpretation: QueryInterpretation; searchFilters: SearchFilters } {
+  const interpretation: QueryInterpretation = { ...parsed }
+  const searchFilters: SearchFilters = interpretationFilters(parsed)
+
+  for (const key of ['category', 'condition', 'brand', 'size', 'color'] as const) {
+    if (explicit[key]) {
+      interpretation[key] = explicit[key]
+      searchFilters[key] = explicit[key]
+    }
+  }
+  for (const key of ['minPrice', 'maxPrice'] as const) {
+    const value = explicit[key]
+    if (value !== undefined) {
+      interpretation[key] = mistToSui(value)
+      searchFilters[key] = value
+    }
+  }
+
+  return { interpretation, searchFilters }
+}
+
+// ============================================
+// GEMINI
+// ============================================
+
+const PARSE_PROMPT = `You turn searches on a second-hand marketplace into filters.
+Reply with one JSON object with these keys, omitting any the search doesn't state:
+- "text": the descriptive words to match (item type, style, material, brand, color), without price, size or condition wording
+- "category": exactly one of ${JSON.stringify(CATEGORIES)}
+- "brand": brand name as usually written (e.g. "Levi's")
+- "size": the size as written (e.g. "M", "32", "32x30", "9.5")
+- "color": a single lowercase color word
+- "condition": exactly one of ${JSON.stringify(CONDITIONS)}
+- "minPrice", "maxPrice": numbers in SUI ("under 5 SUI" means maxPrice 5)
+
+Search: `
+
+export class GeminiQueryParser implements QueryParser {
+  readonly name = 'gemini'
+  private readonly client: GoogleGenerativeAI
+
+  constructor(apiKey: string, private readonly model = 'gemini-2.0-flash') {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async parse(query: string): Promise<QueryInterpretation> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: { responseMimeType: 'application/json', temperature: 0 },
+    })
+    const result = await model.generateContent(PARSE_PROMPT + JSON.stringify(query))
+    return normalizeInterpretation(JSON.parse(result.response.text()), query)
+  }
+}
+
+// ============================================
+// RULES (local stand-in)
+// ============================================
+
+const COLORS = [
+  'black', 'white', 'grey', 'gray', 'red', 'blue', 'navy', 'green', 'yellow',
+  'orange', 'pink', 'purple', 'brown', 'beige', 'tan', 'cream', 'gold', 'silver',
+]
+
+const PRICE = '(\\d+(?:\\.\\d+)?)\\s*(?:sui)?'
+
+/**
+ * Pattern-based parser for prices, sizes, conditions, categories and
+ * colors. It can't recognise brands. Price, size and condition wording is
+ * removed from the text; category and color words stay, since they still
+ * help retrieval.
+ */
+export class RuleQueryParser implements QueryParser {
+  readonly name = 'rules'
+
+  async parse(query: string): Promise<QueryInterpretation> {
+    const fields: Record<string, unknown> = {}
+    let text = ` ${query} `
+
+    const take = (pattern: RegExp, apply: (match: RegExpMatchArray) => void) => {
+      const match = text.match(pattern)
+      if (match) {
+        apply(match)
+        text = text.replace(match[0], ' ')
+      }
+    }
+
+    take(new RegExp(`\\bbetween\\s+${PRICE}\\s+and\\s+${PRICE}`, 'i'), match => {
+      fields.minPrice = match[1]
+      fields.maxPrice = match[2]
+    })
+    take(new RegExp(`\\b(?:under|below|less than|max(?:imum)?|up to)\\s+${PRICE}`, 'i'), match => {
+      fields.maxPrice = match[1]
+    })
+    take(new RegExp(`\\b(?:over|above|more than|at least|min(?:imum)?)\\s+${PRICE}`, 'i'), match => {
+      fields.minPrice = match[1]
+    })
+
+    take(/\bsize\s+([\w./-]+)/i, match => {
+      fields.size = match[1]
+    })
+    take(/\b(\d{2}\s*x\s*\d{2})\b/i, match => {
+      fields.size ??= match[1].replace(/\s/g, '')
+    })
+
+    // Longest first, so "Like New" wins over "New"
+    for (const condition of [...CONDITIONS].sort((a, b) => b.length - a.length)) {
+      if (fields.condition) break
+      take(new RegExp(`\\b(?:in\\s+)?${condition}(?:\\s+condition)?\\b`, 'i'), () => {
+        fields.condition = condition
+      })
+    }
+
+    const lower = text.toLowerCase()
+    fields.category = CATEGORIES
+      .filter(category => category !== 'Other')
+      .find(category => new RegExp(`\\b${category.toLowerCase()}\\b`).test(lower))
+    fields.color = COLORS.find(color => new RegExp(`\\b${color}\\b`).test(lower))
+
+    fields.text = text.replace(/\s+/g, ' ').trim()
+    return normalizeInterpretation(fields, query)
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let parser: QueryParser | undefined
+
+/**
+ * Parser chosen from the environment:
+ *   QUERY_PARSER=gemini (default when GEMINI_API_KEY is set; model from QUERY_PARSER_MODEL)
+ *   QUERY_PARSER=rules
+ */
+export function getQueryParser(): QueryParser {
+  if (parser) {
+    return parser
+  }
+
+  const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY
+  const choice = process.env.QUERY_PARSER ?? (apiKey ? 'gemini' : 'rules')
+
+  parser = choice === 'gemini' && apiKey
+    ? new GeminiQueryParser(apiKey, process.env.QUERY_PARSER_MODEL || undefined)
+    : new RuleQueryParser()
+  return parser
+}
+
+/**
+ * Replace the parser (tests)
+ */
+export function setQueryParser(next: QueryParser | undefined): void {
+  parser = next
+}
+
+/**
+ * Interpret a query, falling back to the rule parser if the configured
+ * one fails (an unreachable LLM shouldn't break search)
+ */
+export async function interpretQuery(query: string, using: QueryParser = getQueryParser()): Promise<QueryInterpretation> {
+  try {
+    return await using.parse(query)
+  } catch (error) {
+    if (using instanceof RuleQueryParser) {
+      throw error
+    }
+    console.warn(`[interpretQuery] ${using.name} parser failed, using rules:`, error)
+    return new RuleQueryParser().parse(query)
+  }
+}
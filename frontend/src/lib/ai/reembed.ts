@@ -0,0 +1,525 @@
+/**
+ * Re-embedding Job (search index migration)
+ *
+ * When the embedding model or the text generateItemEmbeddings embeds
+ * changes, every row in item_search_index is stale. This rebuilds the index
+ * without taking search down:
+ *
+ * 1. startReembedJob empties item_search_index_next (sized for the target
+ *    model) and records a reembed_jobs row.
+ * 2. runReembedJob walks the live index in sui_object_id order, a few items
+ *    per call: it re-reads each item from chain (getItemsByIds), pulls its
+ *    photos from Walrus, re-embeds it with the target provider and writes
+ *    the shadow table, at most one item per `minIntervalMs` to stay under
+ *    the provider's rate limits. Progress is saved after every batch, so a
+ *    timed-out or crashed call just resumes. When a pass ends, another
+ *    catches up on items indexed meanwhile and retries failures (up to
+ *    MAX_ATTEMPTS), until nothing is left and the job is `ready`.
+ * 3. swapReembedJob replaces the live table with the shadow in one
+ *    transaction (swap_item_search_index()), then re-embeds saved searches
+ *    so their alerts keep matching.
+ *
+ * A dry run walks the same items and reports what would be re-embedded or
+ * dropped (items gone from chain) without calling the embedding API or
+ * writing anything.
+ *
+ * The target provider is REEMBED_PROVIDER & co. when set (see
+ * createEmbeddingProvider), otherwise the live EMBEDDING_* one. Switch
+ * EMBEDDING_* to the target when swapping: searches only compare vectors of
+ * their own model.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getItemsByIds } from '../sui/queries'
+import type { ThriftItemObject } from '../types/sui-objects'
+import { fetchBlobFromWalrus } from '../walrus/upload'
+import { createEmbeddingProvider, getEmbeddingProvider, type EmbeddingProvider } from './embedding-providers'
+import { MAX_IMAGES, embedText, generateItemEmbeddings, type ItemEmbeddings } from './embeddings'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Failed items are retried in later passes up to this many attempts */
+export const MAX_ATTEMPTS = 3
+
+const DEFAULT_BATCH_SIZE = 10
+const DEFAULT_MAX_ITEMS = 25          // Per call, to stay within API route time limits
+const DEFAULT_MIN_INTERVAL_MS = 1000  // 3 text + 1-2 per photo embedding calls per item
+const SAVED_SEARCH_INTERVAL_MS = 200  // One call per saved search
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReembedStatus = 'running' | 'ready' | 'swapped' | 'cancelled'
+
+export interface ReembedProgress {
+  id: number
+  status: ReembedStatus
+  dryRun: boolean
+  model: string
+  dimensions: number
+  pass: number
+  total: number
+  processed: number                   // Re-embedded (or, dry run, would be)
+  skipped: string[]                   // Gone from chain; left out of the new index
+  retrying: number                    // Failed, will be retried next pass
+  failed: { id: string; error: string }[] // Gave up after MAX_ATTEMPTS
+  percent: number
+  etaSeconds: number | null           // At the throttled rate; null once done
+  startedAt: string
+  updatedAt: string
+  finishedAt: string | null
+}
+
+export interface RunOptions {
+  batchSize?: number
+  maxItems?: number
+  minIntervalMs?: number
+}
+
+/** What a run needs from the outside world (replaceable in tests) */
+export interface ReembedDeps {
+  provider: EmbeddingProvider
+  loadItems: (ids: string[]) => Promise<ThriftItemObject[]>
+  loadImage: (blobId: string) => Promise<string>
+  embed: typeof generateItemEmbeddings
+  sleep: (ms: number) => Promise<void>
+}
+
+export class ReembedError extends Error {
+  constructor(message: string, readonly status = 409) {
+    super(message)
+    this.name = 'ReembedError'
+  }
+}
+
+interface Failure {
+  attempts: number
+  error: string
+}
+
+interface JobRow {
+  id: number
+  embedding_model: string
+  embedding_dimensions: number
+  dry_run: boolean
+  status: ReembedStatus
+  pass: number
+  last_item_id: string
+  total: number
+  processed: number
+  skipped_ids: string[]
+  failures: Record<string, Failure>
+  started_at: string
+  updated_at: string
+  finished_at: string | null
+}
+
+// ============================================
+// DEPENDENCIES
+// ============================================
+
+/**
+ * Provider new vectors are made with: REEMBED_* when REEMBED_PROVIDER is
+ * set, the live EMBEDDING_* provider otherwise
+ */
+export function getReembedProvider(): EmbeddingProvider {
+  return process.env.REEMBED_PROVIDER ? createEmbeddingProvider('REEMBED_') : getEmbeddingProvider()
+}
+
+/** A Walrus photo as a data URL, as /api/ai/index-item receives it */
+async function loadWalrusImage(blobId: string): Promise<string> {
+  const blob = await fetchBlobFromWalrus(blobId)
+  const base64 = Buffer.from(await blob.arrayBuffer()).toString('base64')
+  return `data:${blob.type || 'image/jpeg'};base64,${base64}`
+}
+
+export function defaultReembedDeps(): ReembedDeps {
+  return {
+    provider: getReembedProvider(),
+    loadItems: getItemsByIds,
+    loadImage: loadWalrusImage,
+    embed: generateItemEmbeddings,
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  }
+}
+
+// ============================================
+// JOBS
+// ============================================
+
+const JOB_COLUMNS = 'id, embedding_model, embedding_dimensions, dry_run, status, pass, last_item_id, total, '
+  + 'processed, skipped_ids, failures, started_at, updated_at, finished_at'
+
+async function latestJob(client: SupabaseClient): Promise<JobRow | null> {
+  const { data, error } = await client
+    .from('reembed_jobs')
+    .select(JOB_COLUMNS)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to load re-embedding job: ${error.message}`)
+  }
+  return data as JobRow | null
+}
+
+async function saveJob(client: SupabaseClient, job: JobRow): Promise<void> {
+  const { error } = await client
+    .from('reembed_jobs')
+    .update({
+      status: job.status,
+      pass: job.pass,
+      last_item_id: job.last_item_id,
+      processed: job.processed,
+      skipped_ids: job.skipped_ids,
+      failures: job.failures,
+      updated_at: new Date().toISOString(),
+      finished_at: job.finished_at,
+    })
+    .eq('id', job.id)
+  if (error) {
+    throw new Error(`Failed to save re-embedding progress: ${error.message}`)
+  }
+}
+
+/** Running, or finished and waiting to be swapped (a finished dry run is just done) */
+const isActive = (job: JobRow | null) =>
+  job !== null && (job.status === 'running' || (job.status === 'ready' && !job.dry_run))
+
+const exhausted = (job: JobRow) => Object.entries(job.failures).filter(([, failure]) => failure.attempts >= MAX_ATTEMPTS)
+
+function toProgress(job: JobRow, minIntervalMs = DEFAULT_MIN_INTERVAL_MS): ReembedProgress {
+  const failed = exhausted(job)
+  const remaining = Math.max(0, job.total - job.processed - job.skipped_ids.length - failed.length)
+  const done = job.status !== 'running'
+
+  return {
+    id: job.id,
+    status: job.status,
+    dryRun: job.dry_run,
+    model: job.embedding_model,
+    dimensions: job.embedding_dimensions,
+    pass: job.pass,
+    total: job.total,
+    processed: job.processed,
+    skipped: job.skipped_ids,
+    retrying: Object.keys(job.failures).length - failed.length,
+    failed: failed.map(([id, failure]) => ({ id, error: failure.error })),
+    percent: job.total === 0 || done ? 100 : Math.min(99, Math.floor(((job.total - remaining) / job.total) * 100)),
+    etaSeconds: done ? null : Math.ceil((remaining * (job.dry_run ? 0 : minIntervalMs)) / 1000),
+    startedAt: job.started_at,
+    updatedAt: job.updated_at,
+    finishedAt: job.finished_at,
+  }
+}
+
+/**
+ * Progress of the most recent job, or null if none was ever started
+ */
+export async function getReembedProgress(client: SupabaseClient): Promise<ReembedProgress | null> {
+  const job = await latestJob(client)
+  return job ? toProgress(job) : null
+}
+
+/**
+ * Start a job re-embedding the whole live index with `provider`
+ *
+ * @throws ReembedError if another job is running or waiting to be swapped
+ */
+export async function startReembedJob(
+  client: SupabaseClient,
+  options: { dryRun?: boolean },
+  provider: EmbeddingProvider = getReembedProvider()
+): Promise<ReembedProgress> {
+  const current = await latestJob(client)
+  if (isActive(current)) {
+    throw new ReembedError(`Job ${current!.id} is still ${current!.status}; swap or cancel it first`)
+  }
+
+  const dryRun = options.dryRun ?? false
+  if (!dryRun) {
+    const { error } = await client.rpc('prepare_item_search_index_shadow', { p_dimensions: provider.dimensions })
+    if (error) {
+      throw new Error(`Failed to prepare shadow index: ${error.message}`)
+    }
+  }
+
+  const { count, error: countError } = await client
+    .from('item_search_index')
+    .select('sui_object_id', { count: 'exact', head: true })
+  if (countError) {
+    throw new Error(`Failed to count indexed items: ${countError.message}`)
+  }
+
+  const { data, error } = await client
+    .from('reembed_jobs')
+    .insert({
+      embedding_model: provider.model,
+      embedding_dimensions: provider.dimensions,
+      dry_run: dryRun,
+      total: count ?? 0,
+    })
+    .select(JOB_COLUMNS)
+    .single()
+  if (error) {
+    throw new Error(`Failed to create re-embedding job: ${error.message}`)
+  }
+
+  const job = data as unknown as JobRow
+  console.log(`[reembed] Job ${job.id} started: ${count ?? 0} items → ${provider.model}${dryRun ? ' (dry run)' : ''}`)
+  return toProgress(job)
+}
+
+/**
+ * Advance the active job by up to `maxItems` items
+ *
+ * A `ready` job is reopened for a catch-up pass (new items since it
+ * finished). Item failures are recorded on the job, not thrown.
+ *
+ * @throws ReembedError if there is no active job or the target provider
+ *         no longer matches the one it started with
+ */
+export async function runReembedJob(
+  client: SupabaseClient,
+  options: RunOptions = {},
+  deps: ReembedDeps = defaultReembedDeps()
+): Promise<ReembedProgress> {
+  const {
+    batchSize = DEFAULT_BATCH_SIZE,
+    maxItems = DEFAULT_MAX_ITEMS,
+    minIntervalMs = DEFAULT_MIN_INTERVAL_MS,
+  } = options
+  const { provider } = deps
+
+  const job = await latestJob(client)
+  if (!job || !isActive(job)) {
+    throw new ReembedError('No re-embedding job is running; start one first')
+  }
+  if (provider.model !== job.embedding_model || provider.dimensions !== job.embedding_dimensions) {
+    throw new ReembedError(
+      `Job ${job.id} targets ${job.embedding_model} (${job.embedding_dimensions}), `
+      + `but the provider is ${provider.model} (${provider.dimensions}); cancel it and start again`
+    )
+  }
+  if (job.status === 'ready') {
+    job.status = 'running'
+    job.pass += 1
+    job.last_item_id = ''
+    job.finished_at = null
+  }
+
+  let handled = 0
+  let lastEmbedAt = 0
+
+  while (handled < maxItems && job.status === 'running') {
+    const { data, error } = await client.rpc('reembed_pending', {
+      p_after: job.last_item_id,
+      p_exclude: [...job.skipped_ids, ...exhausted(job).map(([id]) => id)],
+      p_limit: Math.min(batchSize, maxItems - handled),
+      p_include_done: job.dry_run,
+    })
+    if (error) {
+      throw new Error(`Failed to list items to re-embed: ${error.message}`)
+    }
+    const ids = ((data ?? []) as { sui_object_id: string }[]).map(row => row.sui_object_id)
+
+    if (ids.length === 0) {
+      await endPass(client, job)
+      continue
+    }
+
+    const items = new Map((await deps.loadItems(ids)).map(item => [item.objectId, item]))
+    if (items.size === 0 && ids.length > 1) {
+      // getItemsByIds returns [] when the RPC fails; don't read that as "all deleted"
+      throw new Error('Could not load any item in the batch from chain')
+    }
+
+    for (const id of ids) {
+      const item = items.get(id)
+      if (!item) {
+        job.skipped_ids.push(id)
+      } else if (job.dry_run) {
+        job.processed++
+      } else {
+        const wait = lastEmbedAt + minIntervalMs - Date.now()
+        if (wait > 0) await deps.sleep(wait)
+        lastEmbedAt = Date.now()
+
+        try {
+          await reembedItem(client, item, deps)
+          delete job.failures[id]
+          job.processed++
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          const attempts = (job.failures[id]?.attempts ?? 0) + 1
+          job.failures[id] = { attempts, error: message }
+          console.warn(`[reembed] ${id} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${message}`)
+        }
+      }
+      job.last_item_id = id
+      handled++
+    }
+
+    await saveJob(client, job)
+  }
+
+  const progress = toProgress(job, minIntervalMs)
+  console.log(`[reembed] Job ${job.id}: ${progress.processed}/${progress.total} (${progress.percent}%), pass ${job.pass}, ${job.status}`)
+  return progress
+}
+
+/**
+ * End of a pass: done if nothing is left to (re)try, otherwise start the
+ * next pass from the top. Dry runs make one pass.
+ */
+async function endPass(client: SupabaseClient, job: JobRow): Promise<void> {
+  let done = job.dry_run
+  if (!done) {
+    const { data, error } = await client.rpc('reembed_pending', {
+      p_after: '',
+      p_exclude: [...job.skipped_ids, ...exhausted(job).map(([id]) => id)],
+      p_limit: 1,
+    })
+    if (error) {
+      throw new Error(`Failed to list items to re-embed: ${error.message}`)
+    }
+    done = (data ?? []).length === 0
+  }
+
+  if (done) {
+    job.status = 'ready'
+    job.finished_at = new Date().toISOString()
+  } else {
+    job.pass += 1
+    job.last_item_id = ''
+  }
+  await saveJob(client, job)
+}
+
+async function reembedItem(client: SupabaseClient, item: ThriftItemObject, deps: ReembedDeps): Promise<void> {
+  // Photos past MAX_IMAGES are ignored by generateItemEmbeddings, so they aren't fetched
+  const blobIds = (item.fields.walrus_image_ids ?? []).slice(0, MAX_IMAGES)
+  const base64Images = blobIds.length > 0 ? await Promise.all(blobIds.map(deps.loadImage)) : undefined
+
+  const embeddings: ItemEmbeddings = await deps.embed({
+    title: item.fields.title,
+    description: item.fields.description,
+    base64Images,
+    provider: deps.provider,
+  })
+
+  const { error } = await client.from('item_search_index_next').upsert(
+    {
+      sui_object_id: item.objectId,
+      title_embedding: embeddings.titleEmbedding,
+      description_embedding: embeddings.descriptionEmbedding,
+      image_embedding: embeddings.imageEmbedding,
+      combined_embedding: embeddings.combinedEmbedding,
+      embedding_model: embeddings.model,
+      embedding_dimensions: embeddings.dimensions,
+      indexed_at: new Date().toISOString(),
+    },
+    { onConflict: 'sui_object_id' }
+  )
+  if (error) {
+    throw new Error(`Failed to write shadow index: ${error.message}`)
+  }
+}
+
+/**
+ * Swap the finished job's shadow table in, then re-embed saved searches
+ * with the new model
+ *
+ * @param force - Swap even though some items failed for good (they drop
+ *                out of search until re-indexed)
+ * @throws ReembedError unless the latest job is a finished, non-dry run
+ */
+export async function swapReembedJob(
+  client: SupabaseClient,
+  options: { force?: boolean } = {},
+  deps: Pick<ReembedDeps, 'provider' | 'sleep'> = defaultReembedDeps()
+): Promise<{ progress: ReembedProgress; dropped: number; savedSearches: { reembedded: number; failed: number } }> {
+  const job = await latestJob(client)
+  if (!job || job.status !== 'ready' || job.dry_run) {
+    throw new ReembedError('Only a finished (non-dry-run) re-embedding job can be swapped in')
+  }
+  if (deps.provider.model !== job.embedding_model) {
+    throw new ReembedError(`Job ${job.id} targets ${job.embedding_model}, but the provider is ${deps.provider.model}`)
+  }
+  const failed = exhausted(job)
+  if (failed.length > 0 && !options.force) {
+    throw new ReembedError(`${failed.length} items could not be re-embedded; fix them and run again, or force the swap`)
+  }
+
+  const { data: dropped, error } = await client.rpc('swap_item_search_index', {
+    p_exclude: job.skipped_ids,
+    p_force: options.force ?? false,
+  })
+  if (error) {
+    // Typically items indexed since the job finished: another run catches up
+    throw new ReembedError(`Swap refused: ${error.message}. Run the job again to catch up.`)
+  }
+
+  job.status = 'swapped'
+  job.finished_at = new Date().toISOString()
+  await saveJob(client, job)
+  console.log(`[reembed] Job ${job.id} swapped in (${dropped ?? 0} items dropped)`)
+
+  const savedSearches = await reembedSavedSearches(client, deps)
+  return { progress: toProgress(job), dropped: (dropped as number | null) ?? 0, savedSearches }
+}
+
+/**
+ * Re-embed every saved search's match_text that isn't on the provider's
+ * model yet. Failures are logged; those searches stay on the old model
+ * (and alert on nothing) until a later swap or re-save.
+ */
+async function reembedSavedSearches(
+  client: SupabaseClient,
+  deps: Pick<ReembedDeps, 'provider' | 'sleep'>
+): Promise<{ reembedded: number; failed: number }> {
+  const { provider } = deps
+  const { data, error } = await client
+    .from('saved_searches')
+    .select('id, match_text')
+    .neq('embedding_model', provider.model)
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`)
+  }
+
+  let reembedded = 0
+  let failed = 0
+  for (const search of (data ?? []) as { id: string; match_text: string }[]) {
+    if (reembedded + failed > 0) await deps.sleep(SAVED_SEARCH_INTERVAL_MS)
+    try {
+      const embedding = await embedText(search.match_text, provider)
+      const { error: updateError } = await client
+        .from('saved_searches')
+        .update({ query_embedding: JSON.stringify(embedding), embedding_model: provider.model })
+        .eq('id', search.id)
+      if (updateError) throw new Error(updateError.message)
+      reembedded++
+    } catch (err) {
+      failed++
+      console.warn(`[reembed] Saved search ${search.id} not re-embedded:`, err)
+    }
+  }
+  return { reembedded, failed }
+}
+
+/**
+ * Stop the active job. The shadow table is left as is until the next start.
+ */
+export async function cancelReembedJob(client: SupabaseClient): Promise<ReembedProgress> {
+  const job = await latestJob(client)
+  if (!job || !isActive(job)) {
+    throw new ReembedError('No re-embedding job to cancel')
+  }
+  job.status = 'cancelled'
+  job.finished_at = new Date().toISOString()
+  await saveJob(client, job)
+  return toProgress(job)
+}
@@ -0,0 +1,854 @@
+/**
+ * Saved Searches & Alerts
+ *
+ * Shoppers save a search (query + filters + match threshold) and are told
+ * when a newly listed item matches it:
+ *
+ * 1. createSavedSearch interprets the query once, the same way
+ *    /api/ai/search does, and stores the descriptive text's embedding (with
+ *    its model) and the combined filters.
+ * 2. /api/ai/index-item calls notifySavedSearches for each new item:
+ *    saved searches whose embedding is within threshold of the item's
+ *    combined_embedding, from the same model (saved_searches_near() in
+ *    supabase-schema.sql), and
+ *    whose filters the on-chain item meets get a search_alerts row. That's
+ *    the in-app notification (/api/alerts).
+ * 3. sendAlertDigests (POST /api/alerts/digest, on a schedule) sends each
+ *    search's undelivered alerts as one email and/or webhook call, for
+ *    searches that asked for them. Email goes only to addresses confirmed
+ *    through the link sendEmailConfirmation mails; webhooks only to hosts
+ *    that resolve to public addresses.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { lookup } from 'dns/promises'
+import { request as httpsRequest } from 'https'
+import { isIP, type LookupFunction } from 'net'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ThriftItemObject } from '../types/sui-objects'
+import { mistToSui } from '../types/sui-objects'
+import { getEmbeddingProvider, type EmbeddingProvider } from './embedding-providers'
+import { embedText } from './embeddings'
+import {
+  parseSearchFilters,
+  serializeSearchFilters,
+  type SearchFilters,
+  type SearchFiltersJson,
+} from './hybrid-search'
+import { applyExplicitFilters, interpretQuery } from './query-parser'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const MAX_SAVED_SEARCHES = 20
+
+/** Stricter than interactive search (0.3): an alert is an interruption */
+export const DEFAULT_ALERT_THRESHOLD = 0.5
+
+/** A digest webhook (or Resend) gets this long to answer */
+export const DIGEST_TIMEOUT_MS = 10_000
+
+/** Searches whose digests are sent at the same time */
+const DIGEST_CONCURRENCY = 5
+
+const SAVED_SEARCH_COLUMNS =
+  'id, name, query, filters, match_text, match_filters, similarity_threshold, notify_email, notify_email_confirmed_at, webhook_url, created_at'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SavedSearch {
+  id: string
+  name: string
+  query: string
+  filters: SearchFiltersJson          // As saved (explicit filters)
+  matchText: string                   // What the query was understood as
+  matchFilters: SearchFiltersJson     // Explicit + parsed filters
+  similarityThreshold: number
+  notifyEmail: string | null
+  notifyEmailConfirmed: boolean       // Email digests wait for this
+  webhookUrl: string | null
+  createdAt: string
+}
+
+export interface SavedSearchInput {
+  name?: string
+  query: string
+  filters?: SearchFilters
+  similarityThreshold?: number
+  notifyEmail?: string | null
+  webhookUrl?: string | null
+}
+
+export interface SearchAlert {
+  id: number
+  savedSearchId: string
+  itemId: string
+  itemTitle: string
+  itemPrice: string                   // MIST
+  similarity: number
+  createdAt: string
+  readAt: string | null
+}
+
+export class SavedSearchError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'SavedSearchError'
+  }
+}
+
+interface SavedSearchRow {
+  id: string
+  name: string
+  query: string
+  filters: SearchFiltersJson
+  match_text: string
+  match_filters: SearchFiltersJson
+  similarity_threshold: number
+  notify_email: string | null
+  notify_email_confirmed_at: string | null
+  webhook_url: string | null
+  created_at: string
+}
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters: row.filters ?? {},
+    matchText: row.match_text,
+    matchFilters: row.match_filters ?? {},
+    similarityThreshold: row.similarity_threshold,
+    notifyEmail: row.notify_email,
+    notifyEmailConfirmed: Boolean(row.notify_email && row.notify_email_confirmed_at),
+    webhookUrl: row.webhook_url,
+    createdAt: row.created_at,
+  }
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/** Resolves a hostname to every address it has (replaceable in tests) */
+export type HostResolver = (hostname: string) => Promise<string[]>
+
+const resolveHost: HostResolver = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address)
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||     // Carrier-grade NAT
+    (a === 169 && b === 254) ||               // Link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) || // IETF assignments, TEST-NET-1
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||  // Benchmarking
+    (a === 198 && b === 51 && c === 100) ||   // TEST-NET-2
+    (a === 203 && b === 0 && c === 113) ||    // TEST-NET-3
+    a >= 224                                  // Multicast, reserved, broadcast
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet. IPv6 must be global unicast (2000::/3) unless it
+ * maps an IPv4 address, which is checked as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+
+  const lower = address.toLowerCase()
+  const mapped = lower.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/)
+  if (mapped) {
+    if (mapped[1]) return isPrivateIPv4(mapped[1])
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)]
+    return isPrivateIPv4(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`)
+  }
+  const first = lower.startsWith('::') ? 0 : parseInt(lower.split(':')[0], 16)
+  return (first & 0xe000) !== 0x2000
+}
+
+/**
+ * Resolve a webhook host, failing unless every address is public
+ *
+ * @throws SavedSearchError
+ */
+async function resolvePublicAddresses(hostname: string, resolve: HostResolver): Promise<string[]> {
+  let addresses: string[]
+  try {
+    addresses = isIP(hostname) ? [hostname] : await resolve(hostname)
+  } catch {
+    throw new SavedSearchError(`webhookUrl host ${hostname} could not be resolved`)
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new SavedSearchError('webhookUrl must point to a public host')
+  }
+  return addresses
+}
+
+/**
+ * Check that a webhook's host resolves only to public addresses, so digests
+ * can't be aimed at the server's own network (localhost, internal services,
+ * 169.254.169.254). Checked when the URL is saved and again when each digest
+ * connects (see WebhookDigestChannel), as DNS can change in between.
+ *
+ * @throws SavedSearchError
+ */
+export async function assertPublicWebhookHost(webhookUrl: string, resolve: HostResolver = resolveHost): Promise<void> {
+  await resolvePublicAddresses(new URL(webhookUrl).hostname.replace(/^\[(.*)\]$/, '$1'), resolve)
+}
+
+/**
+ * dns.lookup stand-in for the webhook socket: the addresses it connects to
+ * are the ones just checked, so a host can't pass the check and then
+ * resolve somewhere private for the connection (DNS rebinding)
+ */
+function publicLookup(resolve: HostResolver): LookupFunction {
+  return (hostname, options, callback) => {
+    resolvePublicAddresses(hostname, resolve).then(
+      addresses => options.all
+        ? callback(null, addresses.map(address => ({ address, family: isIP(address) })))
+        : callback(null, addresses[0], isIP(addresses[0])),
+      error => callback(error, '')
+    )
+  }
+}
+
+/**
+ * Check the optional digest targets. Webhooks must be https so alert
+ * contents aren't sent in the clear, and must resolve to public hosts.
+ *
+ * @throws SavedSearchError
+ */
+export async function validateNotificationTargets(
+  targets: { notifyEmail?: unknown; webhookUrl?: unknown },
+  resolve: HostResolver = resolveHost
+): Promise<void> {
+  const { notifyEmail, webhookUrl } = targets
+
+  if (notifyEmail !== undefined && notifyEmail !== null && notifyEmail !== '') {
+    if (typeof notifyEmail !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(notifyEmail)) {
+      throw new SavedSearchError('notifyEmail must be an email address')
+    }
+  }
+
+  if (webhookUrl !== undefined && webhookUrl !== null && webhookUrl !== '') {
+    let url: URL | null = null
+    try {
+      url = typeof webhookUrl === 'string' ? new URL(webhookUrl) : null
+    } catch {
+      url = null
+    }
+    if (!url || url.protocol !== 'https:') {
+      throw new SavedSearchError('webhookUrl must be an https URL')
+    }
+    await assertPublicWebhookHost(url.href, resolve)
+  }
+}
+
+function validateThreshold(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value >= 1) {
+    throw new SavedSearchError('similarityThreshold must be between 0 and 1')
+  }
+  return value
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+/**
+ * Whether an item meets a saved search's filters (case-insensitive, like
+ * the SQL search functions)
+ */
+export function itemMatchesFilters(fields: ThriftItemObject['fields'], filters: SearchFilters): boolean {
+  for (const key of ['category', 'condition', 'brand', 'size', 'color'] as const) {
+    const wanted = filters[key]
+    if (wanted && !sameText(fields[key] ?? '', wanted)) return false
+  }
+
+  const price = BigInt(fields.price)
+  if (filters.minPrice !== undefined && price < filters.minPrice) return false
+  if (filters.maxPrice !== undefined && price > filters.maxPrice) return false
+  return true
+}
+
+// ============================================
+// SAVED SEARCHES
+// ============================================
+
+export async function listSavedSearches(client: SupabaseClient, address: string): Promise<SavedSearch[]> {
+  const { data, error } = await client
+    .from('saved_searches')
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq('address', address)
+    .order('created_at', { ascending: false })
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`)
+  }
+  return ((data ?? []) as SavedSearchRow[]).map(toSavedSearch)
+}
+
+/**
+ * Save a search for `address`
+ *
+ * @param provider - Embeds the descriptive text (replaceable in tests)
+ * @throws SavedSearchError for invalid input or when the address is at
+ *         MAX_SAVED_SEARCHES
+ */
+export async function createSavedSearch(
+  client: SupabaseClient,
+  address: string,
+  input: SavedSearchInput,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<SavedSearch> {
+  const query = typeof input.query === 'string' ? input.query.trim() : ''
+  if (!query) {
+    throw new SavedSearchError('query cannot be empty')
+  }
+  await validateNotificationTargets(input)
+  const similarityThreshold = validateThreshold(input.similarityThreshold ?? DEFAULT_ALERT_THRESHOLD)
+
+  const { count, error: countError } = await client
+    .from('saved_searches')
+    .select('id', { count: 'exact', head: true })
+    .eq('address', address)
+  if (countError) {
+    throw new Error(`Failed to count saved searches: ${countError.message}`)
+  }
+  if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+    throw new SavedSearchError(`You can save up to ${MAX_SAVED_SEARCHES} searches`, 409)
+  }
+
+  const explicit = input.filters ?? {}
+  const { interpretation, searchFilters } = applyExplicitFilters(await interpretQuery(query), explicit)
+  const matchText = interpretation.text || query
+  const embedding = await embedText(matchText, provider)
+
+  const { data, error } = await client
+    .from('saved_searches')
+    .insert({
+      address,
+      name: input.name?.trim() || query,
+      query,
+      filters: serializeSearchFilters(explicit),
+      match_text: matchText,
+      match_filters: serializeSearchFilters(searchFilters),
+      query_embedding: JSON.stringify(embedding),
+      embedding_model: provider.model,
+      similarity_threshold: similarityThreshold,
+      notify_email: input.notifyEmail || null,
+      webhook_url: input.webhookUrl || null,
+    })
+    .select(SAVED_SEARCH_COLUMNS)
+    .single()
+  if (error) {
+    throw new Error(`Failed to save search: ${error.message}`)
+  }
+  return toSavedSearch(data as SavedSearchRow)
+}
+
+/**
+ * Change a saved search's name, threshold or digest targets. A new email
+ * address needs confirming again.
+ *
+ * @throws SavedSearchError (404 if `address` has no such search)
+ */
+export async function updateSavedSearch(
+  client: SupabaseClient,
+  address: string,
+  id: string,
+  changes: Pick<SavedSearchInput, 'name' | 'similarityThreshold' | 'notifyEmail' | 'webhookUrl'>
+): Promise<SavedSearch> {
+  await validateNotificationTargets(changes)
+
+  const update: Record<string, unknown> = {}
+  if (changes.name !== undefined) {
+    if (typeof changes.name !== 'string' || !changes.name.trim()) {
+      throw new SavedSearchError('name cannot be empty')
+    }
+    update.name = changes.name.trim()
+  }
+  if (changes.similarityThreshold !== undefined) {
+    update.similarity_threshold = validateThreshold(changes.similarityThreshold)
+  }
+  if (changes.notifyEmail !== undefined) {
+    const notifyEmail = changes.notifyEmail || null
+    const { data: current, error: currentError } = await client
+      .from('saved_searches')
+      .select('notify_email')
+      .eq('id', id)
+      .eq('address', address)
+      .maybeSingle()
+    if (currentError) {
+      throw new Error(`Failed to load saved search: ${currentError.message}`)
+    }
+    if (!current) {
+      throw new SavedSearchError('Saved search not found', 404)
+    }
+    if (current.notify_email !== notifyEmail) {
+      update.notify_email = notifyEmail
+      update.notify_email_confirmed_at = null
+      update.notify_email_token_hash = null
+    }
+  }
+  if (changes.webhookUrl !== undefined) update.webhook_url = changes.webhookUrl || null
+
+  const { data, error } = await client
+    .from('saved_searches')
+    .update(update)
+    .eq('id', id)
+    .eq('address', address)
+    .select(SAVED_SEARCH_COLUMNS)
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to update saved search: ${error.message}`)
+  }
+  if (!data) {
+    throw new SavedSearchError('Saved search not found', 404)
+  }
+  return toSavedSearch(data as SavedSearchRow)
+}
+
+/**
+ * Delete a saved search and its alerts
+ *
+ * @throws SavedSearchError (404 if `address` has no such search)
+ */
+export async function deleteSavedSearch(client: SupabaseClient, address: string, id: string): Promise<void> {
+  const { data, error } = await client
+    .from('saved_searches')
+    .delete()
+    .eq('id', id)
+    .eq('address', address)
+    .select('id')
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new SavedSearchError('Saved search not found', 404)
+  }
+}
+
+// ============================================
+// EMAIL CONFIRMATION
+// ============================================
+
+/** Mails a confirmation link to an address (replaceable in tests) */
+export type ConfirmationMailer = (to: string, confirmUrl: string) => Promise<void>
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Mailer for confirmation links, through Resend like the email digests
+ * (null without RESEND_API_KEY and ALERT_EMAIL_FROM)
+ */
+export function getConfirmationMailer(): ConfirmationMailer | null {
+  const { RESEND_API_KEY: apiKey, ALERT_EMAIL_FROM: from } = process.env
+  if (!apiKey || !from) {
+    return null
+  }
+  return (to, confirmUrl) => sendResendEmail(apiKey, from, {
+    to,
+    subject: 'Confirm your ThriftChain alert emails',
+    text: `Someone asked for ThriftChain saved-search digests to be sent to this address.\n\n` +
+      `Confirm here to start receiving them: ${confirmUrl}\n\nIf this wasn't you, ignore this email.\n`,
+  })
+}
+
+/**
+ * Mail a fresh confirmation link if the search's email isn't confirmed.
+ * Each link replaces the last. Failures are logged rather than thrown: the
+ * search is saved either way, and saving it again sends another link.
+ *
+ * @param appUrl - Base URL for the link
+ * @returns Whether a link was sent
+ */
+export async function sendEmailConfirmation(
+  client: SupabaseClient,
+  search: SavedSearch,
+  appUrl: string,
+  mailer: ConfirmationMailer | null = getConfirmationMailer()
+): Promise<boolean> {
+  if (!search.notifyEmail || search.notifyEmailConfirmed || !mailer) {
+    return false
+  }
+
+  const token = randomBytes(32).toString('base64url')
+  try {
+    const { error } = await client
+      .from('saved_searches')
+      .update({ notify_email_token_hash: hashToken(token) })
+      .eq('id', search.id)
+      .eq('notify_email', search.notifyEmail)
+    if (error) {
+      throw new Error(error.message)
+    }
+    await mailer(search.notifyEmail, `${appUrl.replace(/\/$/, '')}/api/saved-searches/confirm-email?token=${token}`)
+    return true
+  } catch (error) {
+    console.warn(`[saved-searches] Confirmation email for ${search.id} failed:`, error)
+    return false
+  }
+}
+
+/**
+ * Confirm the email address a confirmation link was sent for
+ *
+ * @returns Whether the token matched a search (links work once)
+ */
+export async function confirmNotifyEmail(client: SupabaseClient, token: string): Promise<boolean> {
+  if (!token) {
+    return false
+  }
+
+  const { data, error } = await client
+    .from('saved_searches')
+    .update({ notify_email_confirmed_at: new Date().toISOString(), notify_email_token_hash: null })
+    .eq('notify_email_token_hash', hashToken(token))
+    .select('id')
+  if (error) {
+    throw new Error(`Failed to confirm email: ${error.message}`)
+  }
+  return (data ?? []).length > 0
+}
+
+// ============================================
+// ALERTS
+// ============================================
+
+/**
+ * Create alerts for the saved searches a newly indexed item matches
+ *
+ * @param embedding - The item's combined_embedding
+ * @param model - The model that produced it
+ * @returns Number of saved searches alerted
+ */
+export async function notifySavedSearches(
+  client: SupabaseClient,
+  item: ThriftItemObject,
+  embedding: number[],
+  model: string
+): Promise<number> {
+  const { data, error } = await client.rpc('saved_searches_near', {
+    p_embedding: JSON.stringify(embedding),
+    p_model: model,
+    p_exclude_address: item.fields.seller,
+  })
+  if (error) {
+    throw new Error(`Saved search match failed: ${error.message}`)
+  }
+
+  const matches = ((data ?? []) as {
+    id: string
+    address: string
+    match_filters: SearchFiltersJson
+    similarity: number
+  }[]).filter(search => {
+    const parsed = parseSearchFilters(search.match_filters)
+    // Filters were validated on save; a row that no longer parses alerts on everything
+    return 'error' in parsed || itemMatchesFilters(item.fields, parsed.filters)
+  })
+
+  if (matches.length === 0) {
+    return 0
+  }
+
+  const { error: insertError } = await client.from('search_alerts').upsert(
+    matches.map(search => ({
+      saved_search_id: search.id,
+      address: search.address,
+      item_id: item.objectId,
+      item_title: item.fields.title,
+      item_price: item.fields.price,
+      similarity: search.similarity,
+    })),
+    { onConflict: 'saved_search_id,item_id', ignoreDuplicates: true }
+  )
+  if (insertError) {
+    throw new Error(`Failed to store alerts: ${insertError.message}`)
+  }
+  return matches.length
+}
+
+export async function listAlerts(
+  client: SupabaseClient,
+  address: string,
+  limit = 50
+): Promise<{ alerts: SearchAlert[]; unread: number }> {
+  const [alerts, unread] = await Promise.all([
+    client
+      .from('search_alerts')
+      .select('id, saved_search_id, item_id, item_title, item_price, similarity, created_at, read_at')
+      .eq('address', address)
+      .order('created_at', { ascending: false })
+      .limit(limit),
+    client
+      .from('search_alerts')
+      .select('id', { count: 'exact', head: true })
+      .eq('address', address)
+      .is('read_at', null),
+  ])
+  if (alerts.error || unread.error) {
+    throw new Error(`Failed to load alerts: ${(alerts.error ?? unread.error)!.message}`)
+  }
+
+  return {
+    alerts: (alerts.data ?? []).map(row => ({
+      id: row.id,
+      savedSearchId: row.saved_search_id,
+      itemId: row.item_id,
+      itemTitle: row.item_title,
+      itemPrice: String(row.item_price),
+      similarity: row.similarity,
+      createdAt: row.created_at,
+      readAt: row.read_at,
+    })),
+    unread: unread.count ?? 0,
+  }
+}
+
+/**
+ * Mark the given alerts (or all of the address's alerts) read
+ */
+export async function markAlertsRead(client: SupabaseClient, address: string, ids?: number[]): Promise<void> {
+  let query = client
+    .from('search_alerts')
+    .update({ read_at: new Date().toISOString() })
+    .eq('address', address)
+    .is('read_at', null)
+  if (ids) {
+    query = query.in('id', ids)
+  }
+
+  const { error } = await query
+  if (error) {
+    throw new Error(`Failed to mark alerts read: ${error.message}`)
+  }
+}
+
+// ============================================
+// DIGESTS
+// ============================================
+
+export interface AlertDigest {
+  search: Pick<SavedSearch, 'id' | 'name' | 'query' | 'notifyEmail' | 'webhookUrl'>
+  items: { id: string; title: string; priceSui: number; url: string }[]
+}
+
+export interface DigestChannel {
+  readonly name: string
+  /** Whether this search asked for this channel */
+  accepts(digest: AlertDigest): boolean
+  send(digest: AlertDigest): Promise<void>
+}
+
+function digestText(digest: AlertDigest): string {
+  const lines = digest.items.map(item => `- ${item.title} (${item.priceSui} SUI): ${item.url}`)
+  return `New items matching "${digest.search.name}":\n\n${lines.join('\n')}\n`
+}
+
+async function sendResendEmail(
+  apiKey: string,
+  from: string,
+  message: { to: string; subject: string; text: string }
+): Promise<void> {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({ from, ...message }),
+    signal: AbortSignal.timeout(DIGEST_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`Resend responded ${response.status}`)
+  }
+}
+
+/**
+ * POSTs a JSON body, connecting through `lookup`, and resolves with the
+ * response status (replaceable in tests)
+ */
+export type WebhookTransport = (url: URL, body: string, lookup: LookupFunction) => Promise<number>
+
+const postWebhook: WebhookTransport = (url, body, lookup) => new Promise((resolve, reject) => {
+  const request = httpsRequest(url, {
+    method: 'POST',
+    lookup,
+    signal: AbortSignal.timeout(DIGEST_TIMEOUT_MS),
+    headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+  }, response => {
+    response.resume()
+    resolve(response.statusCode ?? 0)
+  })
+  request.on('error', reject)
+  request.end(body)
+})
+
+/**
+ * POSTs the digest as JSON. The host is re-checked before each call and
+ * the connection only goes to the addresses that check saw, redirects are
+ * not followed and slow endpoints are cut off after DIGEST_TIMEOUT_MS.
+ */
+export class WebhookDigestChannel implements DigestChannel {
+  readonly name = 'webhook'
+
+  constructor(
+    private readonly resolve: HostResolver = resolveHost,
+    private readonly transport: WebhookTransport = postWebhook
+  ) {}
+
+  accepts(digest: AlertDigest): boolean {
+    return Boolean(digest.search.webhookUrl)
+  }
+
+  async send(digest: AlertDigest): Promise<void> {
+    await assertPublicWebhookHost(digest.search.webhookUrl!, this.resolve)
+    const status = await this.transport(new URL(digest.search.webhookUrl!), JSON.stringify({
+      type: 'saved_search.digest',
+      savedSearch: { id: digest.search.id, name: digest.search.name, query: digest.search.query },
+      items: digest.items,
+      text: digestText(digest),
+    }), publicLookup(this.resolve))
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded ${status}`)
+    }
+  }
+}
+
+/**
+ * Email through Resend's HTTP API (RESEND_API_KEY, ALERT_EMAIL_FROM), to
+ * confirmed addresses only
+ */
+export class ResendEmailDigestChannel implements DigestChannel {
+  readonly name = 'email'
+
+  constructor(private readonly apiKey: string, private readonly from: string) {}
+
+  accepts(digest: AlertDigest): boolean {
+    return Boolean(digest.search.notifyEmail)
+  }
+
+  async send(digest: AlertDigest): Promise<void> {
+    const count = digest.items.length
+    await sendResendEmail(this.apiKey, this.from, {
+      to: digest.search.notifyEmail!,
+      subject: `${count} new ${count === 1 ? 'item matches' : 'items match'} "${digest.search.name}"`,
+      text: digestText(digest),
+    })
+  }
+}
+
+/**
+ * Channels configured in this environment. Webhooks need no setup; email
+ * needs RESEND_API_KEY and ALERT_EMAIL_FROM.
+ */
+export function getDigestChannels(): DigestChannel[] {
+  const channels: DigestChannel[] = [new WebhookDigestChannel()]
+  if (process.env.RESEND_API_KEY && process.env.ALERT_EMAIL_FROM) {
+    channels.push(new ResendEmailDigestChannel(process.env.RESEND_API_KEY, process.env.ALERT_EMAIL_FROM))
+  }
+  return channels
+}
+
+/**
+ * Send every search's undelivered alerts as one digest per channel
+ *
+ * Alerts are marked digested once each requested channel succeeded; a
+ * failed channel leaves them for the next run (the other channel may then
+ * repeat them). A search whose alerts can't be loaded or marked is logged
+ * and counted as failed without stopping the others. Unconfirmed email
+ * addresses are skipped. Up to
+ * DIGEST_CONCURRENCY searches are sent at once, so a slow endpoint holds up
+ * one slot rather than the whole run.
+ *
+ * @param appUrl - Base URL for item links
+ * @returns Digests sent and searches that failed
+ */
+export async function sendAlertDigests(
+  client: SupabaseClient,
+  channels: DigestChannel[],
+  appUrl: string
+): Promise<{ sent: number; failed: number }> {
+  const { data: searches, error } = await client
+    .from('saved_searches')
+    .select('id, name, query, notify_email, notify_email_confirmed_at, webhook_url')
+    .or('notify_email_confirmed_at.not.is.null,webhook_url.not.is.null')
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`)
+  }
+
+  let sent = 0
+  let failed = 0
+  const deliver = async (search: NonNullable<typeof searches>[number]): Promise<void> => {
+    const { data: alerts, error: alertError } = await client
+      .from('search_alerts')
+      .select('id, item_id, item_title, item_price')
+      .eq('saved_search_id', search.id)
+      .is('digested_at', null)
+      .order('created_at', { ascending: true })
+    if (alertError) {
+      throw new Error(`Failed to load alerts: ${alertError.message}`)
+    }
+    if (!alerts || alerts.length === 0) return
+
+    const digest: AlertDigest = {
+      search: {
+        id: search.id,
+        name: search.name,
+        query: search.query,
+        notifyEmail: search.notify_email_confirmed_at ? search.notify_email : null,
+        webhookUrl: search.webhook_url,
+      },
+      items: alerts.map(alert => ({
+        id: alert.item_id,
+        title: alert.item_title,
+        priceSui: mistToSui(String(alert.item_price)),
+        url: `${appUrl.replace(/\/$/, '')}/items/${alert.item_id}`,
+      })),
+    }
+
+    const targets = channels.filter(channel => channel.accepts(digest))
+    if (targets.length === 0) return
+
+    const results = await Promise.allSettled(targets.map(channel => channel.send(digest)))
+    const failures = results.filter(result => result.status === 'rejected')
+    if (failures.length > 0) {
+      console.warn(`[digest] Saved search ${search.id}:`, failures.map(failure => (failure as PromiseRejectedResult).reason))
+      failed++
+      return
+    }
+
+    const { error: markError } = await client
+      .from('search_alerts')
+      .update({ digested_at: new Date().toISOString() })
+      .in('id', alerts.map(alert => alert.id))
+    if (markError) {
+      throw new Error(`Failed to mark alerts digested: ${markError.message}`)
+    }
+    sent++
+  }
+
+  const queue = [...(searches ?? [])]
+  await Promise.all(Array.from({ length: DIGEST_CONCURRENCY }, async () => {
+    for (let search = queue.shift(); search; search = queue.shift()) {
+      const [outcome] = await Promise.allSettled([deliver(search)])
+      if (outcome.status === 'rejected') {
+        console.error(`[digest] Saved search ${search.id}:`, outcome.reason)
+        failed++
+      }
+    }
+  }))
+
+  return { sent, failed }
+}
@@ -0,0 +1,168 @@
+/**
+ * Taste Profiles
+ *
+ * A shopper's taste is summarised as one embedding: the weighted mean of the
+ * combined_embedding of items they viewed, made offers on and bought. Items
+ * whose embedding is close to it are what the "For you" feed (lib/ai/feed)
+ * starts from.
+ *
+ * Stronger signals weigh more (buying says more than looking) and every
+ * signal decays with age, so a profile follows changing taste instead of
+ * being anchored by last year's purchases.
+ *
+ * rankFeed then orders the nearest items, trading relevance against
+ * freshness (new listings get a boost) and diversity (each further pick
+ * from a category or seller already shown is penalised).
+ */
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export type TasteSignalKind = 'view' | 'offer' | 'purchase'
+
+export const SIGNAL_WEIGHTS: Record<TasteSignalKind, number> = {
+  view: 1,
+  offer: 3,
+  purchase: 5,
+}
+
+/** A signal counts half as much after this many days */
+export const SIGNAL_HALF_LIFE_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TasteSignal {
+  itemId: string
+  kind: TasteSignalKind
+  at: number                          // ms since epoch
+}
+
+export interface TasteProfile {
+  embedding: number[]                 // Unit length
+  signalCount: number                 // Signals that had an embedding
+}
+
+export interface FeedCandidate {
+  id: string
+  similarity: number                  // Cosine similarity to the profile
+  category: string
+  seller: string
+  createdAtMs: number
+}
+
+export interface FeedRankingOptions {
+  limit: number
+  /** 0-1: share of the score that comes from recency instead of similarity */
+  freshness?: number
+  /** Age at which a listing's freshness halves */
+  freshnessHalfLifeDays?: number
+  /** 0-1: score penalty per earlier pick sharing a category or seller (0 = off) */
+  diversity?: number
+  now?: number
+}
+
+// ============================================
+// PROFILE
+// ============================================
+
+function decay(ageMs: number, halfLifeDays: number): number {
+  return Math.pow(0.5, Math.max(0, ageMs) / (halfLifeDays * DAY_MS))
+}
+
+export function signalWeight(signal: TasteSignal, now = Date.now()): number {
+  return SIGNAL_WEIGHTS[signal.kind] * decay(now - signal.at, SIGNAL_HALF_LIFE_DAYS)
+}
+
+/**
+ * Weighted mean of the signals' item embeddings, normalised to unit length
+ *
+ * Signals for items without an embedding (not indexed) are skipped.
+ *
+ * @returns null if no signal has an embedding
+ */
+export function buildTasteProfile(
+  signals: TasteSignal[],
+  embeddings: Map<string, number[]>,
+  now = Date.now()
+): TasteProfile | null {
+  let sum: number[] | null = null
+  let signalCount = 0
+
+  for (const signal of signals) {
+    const embedding = embeddings.get(signal.itemId)
+    if (!embedding) continue
+
+    const weight = signalWeight(signal, now)
+    sum ??= new Array(embedding.length).fill(0)
+    for (let i = 0; i < embedding.length; i++) {
+      sum[i] += weight * embedding[i]
+    }
+    signalCount++
+  }
+
+  if (!sum) {
+    return null
+  }
+
+  const norm = Math.sqrt(sum.reduce((total, value) => total + value * value, 0))
+  if (norm === 0) {
+    return null
+  }
+  return { embedding: sum.map(value => value / norm), signalCount }
+}
+
+// ============================================
+// RANKING
+// ============================================
+
+/**
+ * Order feed candidates by similarity blended with freshness, greedily
+ * penalising repeats of a category or seller
+ *
+ * @returns Up to `limit` candidate IDs, best first
+ */
+export function rankFeed(candidates: FeedCandidate[], options: FeedRankingOptions): string[] {
+  const {
+    limit,
+    freshness = 0.2,
+    freshnessHalfLifeDays = 7,
+    diversity = 0.3,
+    now = Date.now(),
+  } = options
+
+  const remaining = candidates.map(candidate => ({
+    candidate,
+    base: (1 - freshness) * candidate.similarity
+      + freshness * decay(now - candidate.createdAtMs, freshnessHalfLifeDays),
+  }))
+  const categoryCounts = new Map<string, number>()
+  const sellerCounts = new Map<string, number>()
+  const picked: string[] = []
+
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = -Infinity
+    remaining.forEach(({ candidate, base }, index) => {
+      const repeats = (categoryCounts.get(candidate.category.toLowerCase()) ?? 0)
+        + (sellerCounts.get(candidate.seller) ?? 0)
+      const score = base * Math.pow(1 - diversity, repeats)
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = index
+      }
+    })
+
+    const [{ candidate }] = remaining.splice(bestIndex, 1)
+    const category = candidate.category.toLowerCase()
+    categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1)
+    sellerCounts.set(candidate.seller, (sellerCounts.get(candidate.seller) ?? 0) + 1)
+    picked.push(candidate.id)
+  }
+
+  return picked
+}
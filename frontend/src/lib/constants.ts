@@ -0,0 +1,24 @@
+/**
+ * Listing vocabulary shared by the listing form, browse filters and
+ * anything else that needs to agree on the allowed values.
+ */
+
+export const CATEGORIES = [
+  "Clothing",
+  "Shoes",
+  "Accessories",
+  "Electronics",
+  "Books",
+  "Home & Garden",
+  "Sports",
+  "Other"
+]
+
+export const CONDITIONS = [
+  "New",
+  "Like New",
+  "Excellent",
+  "Good",
+  "Fair",
+  "Needs Repair"
+]
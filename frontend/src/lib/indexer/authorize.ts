@@ -0,0 +1,19 @@
+/**
+ * Shared guard for the indexer API routes (and other scheduled jobs, like
+ * the saved-search digest).
+ *
+ * When INDEXER_SECRET is set, callers (cron jobs, ops scripts) must send
+ * `Authorization: Bearer <INDEXER_SECRET>`. Without it the routes are open,
+ * which is only intended for local development.
+ */
+
+import type { NextRequest } from 'next/server'
+
+export function isAuthorizedIndexerRequest(request: NextRequest): boolean {
+  const secret = process.env.INDEXER_SECRET
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production'
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
@@ -0,0 +1,220 @@
+/**
+ * Marketplace Event Decoding
+ *
+ * Typed views of the events emitted by `thriftchain::thriftchain`.
+ * Field names and shapes mirror the Move structs exactly (snake_case,
+ * u64 values as strings) so `parsedJson` can be used without renaming.
+ *
+ * This module is dependency-free on purpose: the projection and the
+ * recorded-fixture replay both import it without touching the network.
+ */
+
+import type { SuiEvent } from '@mysten/sui/client'
+
+// ============================================
+// EVENT NAMES
+// ============================================
+
+export const MARKETPLACE_MODULE = 'thriftchain'
+
+export const MARKETPLACE_EVENT_NAMES = [
+  'ItemCreated',
+  'ItemPriceUpdated',
+  'ItemCancelled',
+  'ItemMarkedAsSold',
+  'OfferCreated',
+  'OfferCountered',
+  'OfferCancelled',
+  'OfferRejected',
+  'OfferAccepted',
+  'ItemSold',
+  'EscrowDisputed',
+  'EscrowRefunded',
+] as const
+
+export type MarketplaceEventName = (typeof MARKETPLACE_EVENT_NAMES)[number]
+
+// ============================================
+// EVENT PAYLOADS (mirror Move structs)
+// ============================================
+
+export interface ItemCreatedData {
+  item_id: string
+  seller: string
+  title: string
+  price: string
+  category: string
+  created_at: string
+}
+
+export interface ItemPriceUpdatedData {
+  item_id: string
+  old_price: string
+  new_price: string
+  updated_at: string
+}
+
+export interface ItemCancelledData {
+  item_id: string
+  seller: string
+  cancelled_at: string
+}
+
+export interface ItemMarkedAsSoldData {
+  item_id: string
+  seller: string
+  sold_at: string
+}
+
+export interface OfferCreatedData {
+  offer_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  amount: string
+  message: string
+  created_at: string
+}
+
+export interface OfferCounteredData {
+  offer_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  counter_amount: string
+  counter_message: string
+  countered_at: string
+}
+
+export interface OfferCancelledData {
+  offer_id: string
+  item_id: string
+  buyer: string
+  cancelled_at: string
+}
+
+export interface OfferRejectedData {
+  offer_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  rejected_at: string
+}
+
+export interface OfferAcceptedData {
+  escrow_id: string
+  offer_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  amount: string
+  accepted_at: string
+}
+
+export interface ItemSoldData {
+  escrow_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  amount: string
+  sold_at: string
+}
+
+export interface EscrowDisputedData {
+  escrow_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  disputed_at: string
+}
+
+export interface EscrowRefundedData {
+  escrow_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  amount: string
+  refunded_at: string
+}
+
+type EventDataMap = {
+  ItemCreated: ItemCreatedData
+  ItemPriceUpdated: ItemPriceUpdatedData
+  ItemCancelled: ItemCancelledData
+  ItemMarkedAsSold: ItemMarkedAsSoldData
+  OfferCreated: OfferCreatedData
+  OfferCountered: OfferCounteredData
+  OfferCancelled: OfferCancelledData
+  OfferRejected: OfferRejectedData
+  OfferAccepted: OfferAcceptedData
+  ItemSold: ItemSoldData
+  EscrowDisputed: EscrowDisputedData
+  EscrowRefunded: EscrowRefundedData
+}
+
+/** Payload of one event type, e.g. MarketplaceEventData<'ItemCreated'> */
+export type MarketplaceEventData<K extends MarketplaceEventName> = EventDataMap[K]
+
+/**
+ * A decoded marketplace event plus its position in the event stream.
+ * `txDigest` + `eventSeq` is the cursor Sui uses for `queryEvents`.
+ */
+export type MarketplaceEvent = {
+  [K in MarketplaceEventName]: {
+    name: K
+    data: EventDataMap[K]
+    txDigest: string
+    eventSeq: string
+    timestampMs: string | null
+  }
+}[MarketplaceEventName]
+
+// ============================================
+// DECODING
+// ============================================
+
+/**
+ * The subset of `SuiEvent` the decoder needs. Recorded fixtures are stored
+ * in exactly this shape so they can be replayed through the same path.
+ */
+export type RawMarketplaceEvent = Pick<SuiEvent, 'id' | 'type' | 'parsedJson'> & {
+  timestampMs?: string | null
+}
+
+/**
+ * Extract the short event name from a fully-qualified Move event type
+ *
+ * @param type - e.g. `0xabc::thriftchain::ItemCreated`
+ * @returns Event name or null if the type is not a marketplace event
+ */
+export function getMarketplaceEventName(type: string): MarketplaceEventName | null {
+  const [, module, name] = type.split('::')
+  if (module !== MARKETPLACE_MODULE) {
+    return null
+  }
+
+  return (MARKETPLACE_EVENT_NAMES as readonly string[]).includes(name)
+    ? (name as MarketplaceEventName)
+    : null
+}
+
+/**
+ * Decode a raw Sui event into a typed marketplace event
+ *
+ * @param event - Event as returned by `suiClient.queryEvents` (or a fixture)
+ * @returns Typed event, or null for unknown/foreign events
+ */
+export function parseMarketplaceEvent(event: RawMarketplaceEvent): MarketplaceEvent | null {
+  const name = getMarketplaceEventName(event.type)
+  if (!name || !event.parsedJson || typeof event.parsedJson !== 'object') {
+    return null
+  }
+
+  return {
+    name,
+    data: event.parsedJson,
+    txDigest: event.id.txDigest,
+    eventSeq: event.id.eventSeq,
+    timestampMs: event.timestampMs ?? null,
+  } as MarketplaceEvent
+}
@@ -0,0 +1,360 @@
+/**
+ * Marketplace Event Indexer
+ *
+ * Reads `thriftchain::thriftchain` events from a checkpoint cursor and folds
+ * them into the Supabase projection so listings, stash and stats can be
+ * served by indexed SQL instead of walking the on-chain Tables.
+ *
+ * Two modes:
+ * - sync: resume from the stored cursor, apply new events, advance the cursor
+ * - reconcile: compare the projection with the on-chain Tables and repair drift
+ */
+
+import { suiClient } from '../sui/client'
+import {
+  THRIFTCHAIN_PACKAGE_ID,
+  getItemById,
+  getOfferById,
+  scanMarketplaceTables,
+} from '../sui/queries'
+import { MARKETPLACE_MODULE, parseMarketplaceEvent, type MarketplaceEvent } from './events'
+import {
+  applyEvents,
+  escrowObjectToRow,
+  itemObjectToRow,
+  offerObjectToRow,
+  type ApplySummary,
+  type ProjectionLoaders,
+} from './projection'
+import type { EventBroadcaster } from '../realtime/broadcaster'
+import { THRIFTCHAIN_ABI, type EntryFunctionAbi } from '../sui/contract'
+import {
+  PRIMARY_KEYS,
+  type IndexerCursor,
+  type OfferRow,
+  type ProjectionStore,
+  type ProjectionTable,
+  type ProjectionTables,
+} from './store'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Checkpoint row name in indexer_checkpoints */
+export const INDEXER_NAME = 'thriftchain-marketplace'
+
+const DEFAULT_BATCH_SIZE = 50
+const DEFAULT_MAX_BATCHES = 20
+
+/**
+ * Loaders that fill the fields events don't carry from current chain state
+ */
+export const chainLoaders: ProjectionLoaders = {
+  loadItem: async (itemId) => {
+    const item = await getItemById(itemId)
+    return item ? itemObjectToRow(item) : null
+  },
+  loadOffer: async (offerId) => {
+    const offer = await getOfferById(offerId)
+    return offer ? offerObjectToRow(offer) : null
+  },
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+export interface SyncOptions {
+  batchSize?: number
+  maxBatches?: number                 // Stop after this many pages (keeps API routes under time limits)
+  loaders?: ProjectionLoaders
+  broadcaster?: EventBroadcaster      // Push applied events to realtime channels
+}
+
+export interface SyncResult extends ApplySummary {
+  fetched: number
+  cursor: IndexerCursor | null
+  hasMore: boolean
+}
+
+/**
+ * Apply all events emitted since the stored checkpoint
+ *
+ * The cursor is saved after every page, so an interrupted run resumes
+ * where it stopped; a page that was applied but not checkpointed is
+ * replayed harmlessly because projection handlers are idempotent.
+ *
+ * @param store - Projection store (Supabase in production)
+ * @param options - Batch size, page limit and enrichment loaders
+ * @returns Counts and the cursor the run finished at
+ */
+export async function syncMarketplaceEvents(
+  store: ProjectionStore,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  if (!THRIFTCHAIN_PACKAGE_ID) {
+    throw new Error('THRIFTCHAIN_PACKAGE_ID is not configured. Set NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID in the environment.')
+  }
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  const maxBatches = options.maxBatches ?? DEFAULT_MAX_BATCHES
+  const loaders = options.loaders ?? chainLoaders
+
+  let cursor = await store.getCursor(INDEXER_NAME)
+  const result: SyncResult = { applied: 0, duplicate: 0, missing: 0, fetched: 0, cursor, hasMore: false }
+
+  console.log(`[syncMarketplaceEvents] Starting from cursor:`, cursor ?? 'genesis')
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventModule: {
+          package: THRIFTCHAIN_PACKAGE_ID,
+          module: MARKETPLACE_MODULE,
+        },
+      },
+      cursor,
+      limit: batchSize,
+      order: 'ascending',
+    })
+
+    if (page.data.length === 0) {
+      result.hasMore = false
+      break
+    }
+
+    const events = page.data
+      .map(event => parseMarketplaceEvent(event))
+      .filter((event): event is MarketplaceEvent => event !== null)
+
+    const summary = await applyEvents(store, events, loaders)
+    if (options.broadcaster && events.length > 0) {
+      await options.broadcaster.publish(store, events)
+    }
+    result.applied += summary.applied
+    result.duplicate += summary.duplicate
+    result.missing += summary.missing
+    result.fetched += page.data.length
+
+    const last = page.data[page.data.length - 1]
+    cursor = page.nextCursor ?? last.id
+    await store.saveCursor(INDEXER_NAME, cursor, last.timestampMs ?? null)
+    result.cursor = cursor
+    result.hasMore = page.hasNextPage
+
+    console.log(`[syncMarketplaceEvents] Batch ${batch + 1}: ${page.data.length} events, ${summary.applied} applied`)
+
+    if (!page.hasNextPage) {
+      break
+    }
+  }
+
+  return result
+}
+
+// ============================================
+// SINGLE TRANSACTION REFRESH
+// ============================================
+
+/**
+ * Entry functions that take an `offer_id` but emit no event (accept_offer_by_id,
+ * accept_counter_offer_by_id), mapped to the position of that argument
+ */
+const EVENTLESS_OFFER_FUNCTIONS: Record<string, number> = Object.fromEntries(
+  Object.values(THRIFTCHAIN_ABI as Record<string, EntryFunctionAbi>)
+    .filter(fn => fn.emits.length === 0)
+    .map(fn => [fn.name, fn.params.findIndex(param => param.name === 'offer_id')])
+    .filter(([, index]) => index !== -1)
+)
+
+export interface MarketplaceTransactionInfo {
+  emitsEvents: boolean                // At least one thriftchain event
+  eventlessOfferIds: string[]         // Offers touched by event-less calls
+}
+
+/**
+ * Inspect a transaction to see what it means for the projection
+ *
+ * @param txDigest - Transaction digest
+ * @returns Whether it emitted marketplace events and which offers it changed silently
+ */
+export async function inspectMarketplaceTransaction(txDigest: string): Promise<MarketplaceTransactionInfo> {
+  const tx = await suiClient.getTransactionBlock({
+    digest: txDigest,
+    options: { showEvents: true, showInput: true, showEffects: true },
+  })
+
+  const emitsEvents = (tx.events ?? []).some(
+    event => event.type.startsWith(`${THRIFTCHAIN_PACKAGE_ID}::`) && parseMarketplaceEvent(event) !== null
+  )
+
+  const offerIds = new Set<string>()
+  const data = tx.transaction?.data.transaction
+
+  if (tx.effects?.status.status === 'success' && data?.kind === 'ProgrammableTransaction') {
+    for (const command of data.transactions) {
+      if (!('MoveCall' in command)) continue
+
+      const call = command.MoveCall
+      const argIndex = EVENTLESS_OFFER_FUNCTIONS[call.function]
+      if (call.package !== THRIFTCHAIN_PACKAGE_ID || call.module !== MARKETPLACE_MODULE || argIndex === undefined) {
+        continue
+      }
+
+      const arg = call.arguments?.[argIndex]
+      if (!arg || typeof arg !== 'object' || !('Input' in arg)) continue
+
+      const input = data.inputs[arg.Input]
+      if (input?.type === 'pure' && typeof input.value === 'string') {
+        offerIds.add(input.value)
+      }
+    }
+  }
+
+  return { emitsEvents, eventlessOfferIds: [...offerIds] }
+}
+
+/**
+ * Re-read offers from chain and write them to the projection
+ *
+ * Covers the gap left by entry functions that emit no event, without
+ * waiting for a full reconcile.
+ *
+ * @param store - Projection store
+ * @param offerIds - Offers to refresh
+ * @returns The refreshed rows
+ */
+export async function refreshOffers(store: ProjectionStore, offerIds: string[]): Promise<OfferRow[]> {
+  const refreshed: OfferRow[] = []
+
+  for (const offerId of offerIds) {
+    const offer = await getOfferById(offerId)
+    if (!offer) continue
+
+    const existing = await store.get('marketplace_offers', offerId)
+    const row = { ...offerObjectToRow(offer, existing), updated_at_ms: String(Date.now()) }
+    await store.upsert('marketplace_offers', row)
+    refreshed.push(row)
+  }
+
+  return refreshed
+}
+
+// ============================================
+// RECONCILE
+// ============================================
+
+export type DriftKind = 'missing' | 'stale' | 'orphaned'
+
+export interface DriftEntry {
+  table: ProjectionTable
+  id: string
+  kind: DriftKind                     // missing: on-chain only, stale: fields differ, orphaned: projection only
+  fields?: string[]
+}
+
+export interface ReconcileReport {
+  checked: { [K in ProjectionTable]: number }
+  drift: DriftEntry[]
+  repaired: boolean
+}
+
+/**
+ * Columns compared during reconciliation. Projection-only columns
+ * (buyer, sold price, offer_id on escrows, timestamps of last change)
+ * are not stored on-chain and are preserved as-is.
+ */
+const COMPARED_COLUMNS: { [K in ProjectionTable]: (keyof ProjectionTables[K])[] } = {
+  marketplace_items: [
+    'seller', 'title', 'description', 'price', 'category', 'condition',
+    'brand', 'size', 'color', 'material', 'walrus_image_ids', 'status',
+  ],
+  marketplace_offers: ['item_id', 'buyer', 'seller', 'amount', 'message', 'status', 'expires_at_ms', 'is_counter'],
+  marketplace_escrows: ['item_id', 'buyer', 'seller', 'amount', 'status', 'completed_at_ms'],
+}
+
+/**
+ * Compare the projection with the on-chain Tables and repair drift
+ *
+ * Catches everything events can't express (e.g. offers accepted through
+ * accept_offer_by_id, which emits no event) as well as rows lost to
+ * failed writes.
+ *
+ * @param store - Projection store to check
+ * @param options.dryRun - Report drift without writing
+ * @returns Drift found and whether it was repaired
+ */
+export async function reconcileProjection(
+  store: ProjectionStore,
+  options: { dryRun?: boolean } = {}
+): Promise<ReconcileReport> {
+  const onChain = await scanMarketplaceTables()
+
+  const report: ReconcileReport = {
+    checked: {
+      marketplace_items: onChain.items.length,
+      marketplace_offers: onChain.offers.length,
+      marketplace_escrows: onChain.escrows.length,
+    },
+    drift: [],
+    repaired: !options.dryRun,
+  }
+
+  await reconcileTable(store, 'marketplace_items', onChain.items, itemObjectToRow, report, options.dryRun)
+  await reconcileTable(store, 'marketplace_offers', onChain.offers, offerObjectToRow, report, options.dryRun)
+  await reconcileTable(store, 'marketplace_escrows', onChain.escrows, escrowObjectToRow, report, options.dryRun)
+
+  console.log(`[reconcileProjection] ${report.drift.length} drifted rows${options.dryRun ? ' (dry run)' : ' repaired'}`)
+
+  return report
+}
+
+async function reconcileTable<K extends ProjectionTable, O extends { objectId: string }>(
+  store: ProjectionStore,
+  table: K,
+  chainObjects: O[],
+  toRow: (object: O, existing?: ProjectionTables[K] | null) => ProjectionTables[K],
+  report: ReconcileReport,
+  dryRun?: boolean
+): Promise<void> {
+  const key = PRIMARY_KEYS[table]
+  const projected = new Map(
+    (await store.list(table)).map(row => [(row as unknown as Record<string, string>)[key], row])
+  )
+
+  for (const object of chainObjects) {
+    const existing = projected.get(object.objectId) ?? null
+    projected.delete(object.objectId)
+
+    const expected = toRow(object, existing)
+
+    if (!existing) {
+      report.drift.push({ table, id: object.objectId, kind: 'missing' })
+      if (!dryRun) await store.upsert(table, expected)
+      continue
+    }
+
+    const changed = COMPARED_COLUMNS[table].filter(
+      column => JSON.stringify(normalize(existing[column])) !== JSON.stringify(normalize(expected[column]))
+    )
+
+    if (changed.length > 0) {
+      report.drift.push({ table, id: object.objectId, kind: 'stale', fields: changed as string[] })
+      if (!dryRun) await store.upsert(table, expected)
+    }
+  }
+
+  // Whatever is left exists only in the projection
+  for (const id of projected.keys()) {
+    report.drift.push({ table, id, kind: 'orphaned' })
+    if (!dryRun) await store.remove(table, id)
+  }
+}
+
+/**
+ * Supabase returns BIGINT columns as numbers; chain values are strings
+ */
+function normalize(value: unknown): unknown {
+  return typeof value === 'number' ? String(value) : value
+}
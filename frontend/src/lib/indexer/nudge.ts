@@ -0,0 +1,24 @@
+/**
+ * Ask the indexer to pick up a transaction right away instead of waiting
+ * for the next scheduled sync, so realtime subscribers (including the
+ * sender's other tabs) hear about it within seconds.
+ *
+ * Best-effort: failures are logged and otherwise ignored.
+ *
+ * @param txDigest - Digest of a marketplace transaction
+ */
+export async function requestIndexerSync(txDigest: string): Promise<void> {
+  try {
+    const response = await fetch('/api/indexer/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txDigest }),
+    })
+
+    if (!response.ok) {
+      console.warn(`[requestIndexerSync] Sync nudge rejected (${response.status})`)
+    }
+  } catch (error) {
+    console.warn('[requestIndexerSync] Sync nudge failed:', error)
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Marketplace Projection
+ *
+ * Folds decoded contract events into the item/offer/escrow projection rows.
+ * Every handler is idempotent: re-applying an event that was already
+ * projected (e.g. after a crash between writing rows and saving the cursor)
+ * leaves the rows unchanged.
+ *
+ * Known gaps in the event stream, repaired by reconciliation:
+ * - ItemCreated carries no description/condition/brand/etc. and OfferCreated
+ *   carries no expiry, so those come from optional on-chain loaders.
+ * - accept_offer_by_id and accept_counter_offer_by_id emit no event, so an
+ *   offer accepted through them stays pending here until the next reconcile.
+ */
+
+import type { MarketplaceEvent } from './events'
+import type {
+  EscrowRow,
+  ItemRow,
+  OfferRow,
+  ProjectionStore,
+  ProjectionTable,
+  ProjectionTables,
+} from './store'
+import type { EscrowObject, OfferObject, ThriftItemObject } from '../types/sui-objects'
+import { EscrowStatus, ItemStatus, OfferStatus } from '../types/sui-objects'
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Fetch current on-chain state for fields that events don't carry.
+ * Both loaders are optional; without them the rows are filled with blanks.
+ */
+export interface ProjectionLoaders {
+  loadItem?: (itemId: string) => Promise<ItemRow | null>
+  loadOffer?: (offerId: string) => Promise<OfferRow | null>
+}
+
+export type ApplyOutcome = 'applied' | 'duplicate' | 'missing'
+
+export interface ApplySummary {
+  applied: number
+  duplicate: number
+  missing: number
+}
+
+// ============================================
+// APPLY EVENTS
+// ============================================
+
+/**
+ * Apply a single event to the projection
+ *
+ * @param store - Projection store to write through
+ * @param event - Decoded marketplace event
+ * @param loaders - Optional on-chain loaders for enrichment
+ * @returns 'applied', 'duplicate' (already projected) or 'missing' (row it refers to is absent)
+ */
+export async function applyEvent(
+  store: ProjectionStore,
+  event: MarketplaceEvent,
+  loaders: ProjectionLoaders = {}
+): Promise<ApplyOutcome> {
+  switch (event.name) {
+    case 'ItemCreated': {
+      const { data } = event
+      if (await store.get('marketplace_items', data.item_id)) {
+        return 'duplicate'
+      }
+
+      const onChain = loaders.loadItem ? await loaders.loadItem(data.item_id) : null
+
+      await store.upsert('marketplace_items', {
+        item_id: data.item_id,
+        seller: data.seller,
+        title: data.title,
+        description: onChain?.description ?? '',
+        price: String(data.price),
+        category: data.category,
+        condition: onChain?.condition ?? '',
+        brand: onChain?.brand ?? '',
+        size: onChain?.size ?? '',
+        color: onChain?.color ?? '',
+        material: onChain?.material ?? '',
+        walrus_image_ids: onChain?.walrus_image_ids ?? [],
+        status: ItemStatus.Active,
+        created_at_ms: String(data.created_at),
+        updated_at_ms: String(data.created_at),
+        buyer: null,
+        sold_price: null,
+        sold_at_ms: null,
+      })
+      return 'applied'
+    }
+
+    case 'ItemPriceUpdated': {
+      const { data } = event
+      return updateRow(store, 'marketplace_items', data.item_id, row => ({
+        ...row,
+        price: String(data.new_price),
+        updated_at_ms: String(data.updated_at),
+      }))
+    }
+
+    case 'ItemCancelled': {
+      const { data } = event
+      return updateRow(store, 'marketplace_items', data.item_id, row => ({
+        ...row,
+        status: ItemStatus.Cancelled,
+        updated_at_ms: String(data.cancelled_at),
+      }))
+    }
+
+    case 'ItemMarkedAsSold': {
+      const { data } = event
+      return updateRow(store, 'marketplace_items', data.item_id, row => ({
+        ...row,
+        status: ItemStatus.Sold,
+        sold_at_ms: String(data.sold_at),
+        updated_at_ms: String(data.sold_at),
+      }))
+    }
+
+    case 'OfferCreated': {
+      const { data } = event
+      if (await store.get('marketplace_offers', data.offer_id)) {
+        return 'duplicate'
+      }
+
+      const onChain = loaders.loadOffer ? await loaders.loadOffer(data.offer_id) : null
+
+      await store.upsert('marketplace_offers', {
+        offer_id: data.offer_id,
+        item_id: data.item_id,
+        buyer: data.buyer,
+        seller: data.seller,
+        amount: String(data.amount),
+        message: data.message,
+        status: OfferStatus.Pending,
+        expires_at_ms: onChain?.expires_at_ms ?? null,
+        is_counter: false,
+        created_at_ms: String(data.created_at),
+        updated_at_ms: String(data.created_at),
+        created_tx_digest: event.txDigest,
+      })
+      return 'applied'
+    }
+
+    case 'OfferCountered': {
+      const { data } = event
+      return updateRow(store, 'marketplace_offers', data.offer_id, row => ({
+        ...row,
+        amount: String(data.counter_amount),
+        message: data.counter_message,
+        status: OfferStatus.Countered,
+        is_counter: true,
+        updated_at_ms: String(data.countered_at),
+      }))
+    }
+
+    case 'OfferCancelled': {
+      const { data } = event
+      return updateRow(store, 'marketplace_offers', data.offer_id, row => ({
+        ...row,
+        status: OfferStatus.Cancelled,
+        updated_at_ms: String(data.cancelled_at),
+      }))
+    }
+
+    case 'OfferRejected': {
+      const { data } = event
+      return updateRow(store, 'marketplace_offers', data.offer_id, row => ({
+        ...row,
+        status: OfferStatus.Rejected,
+        updated_at_ms: String(data.rejected_at),
+      }))
+    }
+
+    case 'OfferAccepted': {
+      const { data } = event
+      if (await store.get('marketplace_escrows', data.escrow_id)) {
+        return 'duplicate'
+      }
+
+      await store.upsert('marketplace_escrows', {
+        escrow_id: data.escrow_id,
+        offer_id: data.offer_id,
+        item_id: data.item_id,
+        buyer: data.buyer,
+        seller: data.seller,
+        amount: String(data.amount),
+        status: EscrowStatus.Active,
+        created_at_ms: String(data.accepted_at),
+        completed_at_ms: null,
+        updated_at_ms: String(data.accepted_at),
+      })
+
+      // create_offer_by_id funds the escrow in the same transaction that
+      // creates the offer and emits OfferAccepted too; the offer itself is
+      // still pending in that case. Only a later transaction means acceptance.
+      const offer = await store.get('marketplace_offers', data.offer_id)
+      if (offer && offer.created_tx_digest !== event.txDigest) {
+        await store.upsert('marketplace_offers', {
+          ...offer,
+          status: OfferStatus.Accepted,
+          updated_at_ms: String(data.accepted_at),
+        })
+      }
+      return 'applied'
+    }
+
+    case 'ItemSold': {
+      const { data } = event
+      const escrowOutcome = await updateRow(store, 'marketplace_escrows', data.escrow_id, row => ({
+        ...row,
+        status: EscrowStatus.Completed,
+        completed_at_ms: String(data.sold_at),
+        updated_at_ms: String(data.sold_at),
+      }))
+      const itemOutcome = await updateRow(store, 'marketplace_items', data.item_id, row => ({
+        ...row,
+        status: ItemStatus.Sold,
+        buyer: data.buyer,
+        sold_price: String(data.amount),
+        sold_at_ms: String(data.sold_at),
+        updated_at_ms: String(data.sold_at),
+      }))
+      return escrowOutcome === 'missing' || itemOutcome === 'missing' ? 'missing' : 'applied'
+    }
+
+    case 'EscrowDisputed': {
+      const { data } = event
+      return updateRow(store, 'marketplace_escrows', data.escrow_id, row => ({
+        ...row,
+        status: EscrowStatus.Disputed,
+        updated_at_ms: String(data.disputed_at),
+      }))
+    }
+
+    case 'EscrowRefunded': {
+      const { data } = event
+      return updateRow(store, 'marketplace_escrows', data.escrow_id, row => ({
+        ...row,
+        status: EscrowStatus.Refunded,
+        completed_at_ms: String(data.refunded_at),
+        updated_at_ms: String(data.refunded_at),
+      }))
+    }
+  }
+}
+
+/**
+ * Apply a batch of events in stream order
+ *
+ * @param store - Projection store to write through
+ * @param events - Decoded events, oldest first
+ * @param loaders - Optional on-chain loaders for enrichment
+ * @returns Count of each outcome
+ */
+export async function applyEvents(
+  store: ProjectionStore,
+  events: MarketplaceEvent[],
+  loaders: ProjectionLoaders = {}
+): Promise<ApplySummary> {
+  const summary: ApplySummary = { applied: 0, duplicate: 0, missing: 0 }
+
+  for (const event of events) {
+    const outcome = await applyEvent(store, event, loaders)
+    summary[outcome]++
+
+    if (outcome === 'missing') {
+      console.warn(`[applyEvents] ${event.name} in ${event.txDigest} refers to a row that is not projected yet`)
+    }
+  }
+
+  return summary
+}
+
+async function updateRow<K extends ProjectionTable>(
+  store: ProjectionStore,
+  table: K,
+  id: string,
+  update: (row: ProjectionTables[K]) => ProjectionTables[K]
+): Promise<ApplyOutcome> {
+  const row = await store.get(table, id)
+  if (!row) {
+    return 'missing'
+  }
+
+  await store.upsert(table, update(row))
+  return 'applied'
+}
+
+// ============================================
+// CHAIN OBJECT <-> ROW MAPPING
+// ============================================
+
+/**
+ * Map an on-chain ThriftItem to a projection row
+ *
+ * @param item - Parsed item from queries.ts
+ * @param existing - Current row, used to keep projection-only columns (buyer, sold price)
+ */
+export function itemObjectToRow(item: ThriftItemObject, existing?: ItemRow | null): ItemRow {
+  const { fields } = item
+  return {
+    item_id: item.objectId,
+    seller: fields.seller,
+    title: fields.title,
+    description: fields.description ?? '',
+    price: String(fields.price),
+    category: fields.category ?? '',
+    condition: fields.condition ?? '',
+    brand: fields.brand ?? '',
+    size: fields.size ?? '',
+    color: fields.color ?? '',
+    material: fields.material ?? '',
+    walrus_image_ids: fields.walrus_image_ids ?? [],
+    status: Number(fields.status),
+    created_at_ms: String(fields.created_at),
+    updated_at_ms: existing?.updated_at_ms ?? String(fields.created_at),
+    buyer: existing?.buyer ?? null,
+    sold_price: existing?.sold_price ?? null,
+    sold_at_ms: existing?.sold_at_ms ?? null,
+  }
+}
+
+/**
+ * Map an on-chain Offer to a projection row
+ *
+ * @param offer - Parsed offer (objectId must be the offer's own ID)
+ * @param existing - Current row, used to keep the creating transaction digest
+ */
+export function offerObjectToRow(offer: OfferObject, existing?: OfferRow | null): OfferRow {
+  const { fields } = offer
+  return {
+    offer_id: offer.objectId,
+    item_id: fields.item_id,
+    buyer: fields.buyer,
+    seller: fields.seller,
+    amount: String(fields.amount),
+    message: fields.message ?? '',
+    status: Number(fields.status),
+    expires_at_ms: fields.expires_at !== undefined ? String(fields.expires_at) : null,
+    is_counter: Boolean(fields.is_counter),
+    created_at_ms: String(fields.created_at),
+    updated_at_ms: existing?.updated_at_ms ?? String(fields.created_at),
+    created_tx_digest: existing?.created_tx_digest ?? null,
+  }
+}
+
+/**
+ * Map an on-chain Escrow to a projection row
+ *
+ * @param escrow - Parsed escrow (objectId must be the escrow's own ID)
+ * @param existing - Current row; the escrow struct has no offer_id, so it is kept from here
+ */
+export function escrowObjectToRow(escrow: EscrowObject, existing?: EscrowRow | null): EscrowRow {
+  const { fields } = escrow
+  const completedAt = String(fields.completed_at ?? '0')
+  return {
+    escrow_id: escrow.objectId,
+    offer_id: existing?.offer_id ?? null,
+    item_id: fields.item_id,
+    buyer: fields.buyer,
+    seller: fields.seller,
+    amount: String(fields.amount),
+    status: Number(fields.status),
+    created_at_ms: String(fields.created_at),
+    completed_at_ms: completedAt === '0' ? (existing?.completed_at_ms ?? null) : completedAt,
+    updated_at_ms: existing?.updated_at_ms ?? String(fields.created_at),
+  }
+}
+
+/**
+ * Map a projection row back to the ThriftItemObject shape the UI consumes
+ */
+export function rowToItemObject(row: ItemRow): ThriftItemObject {
+  return {
+    objectId: row.item_id,
+    version: '',
+    digest: '',
+    fields: {
+      id: { id: row.item_id },
+      seller: row.seller,
+      title: row.title,
+      description: row.description,
+      price: String(row.price),
+      category: row.category,
+      status: Number(row.status),
+      created_at: String(row.created_at_ms),
+      condition: row.condition,
+      brand: row.brand,
+      size: row.size,
+      color: row.color,
+      material: row.material,
+      walrus_image_ids: row.walrus_image_ids ?? [],
+    },
+  }
+}
+
+/**
+ * Map a projection row back to the OfferObject shape the UI consumes
+ */
+export function rowToOfferObject(row: OfferRow): OfferObject {
+  return {
+    objectId: row.offer_id,
+    version: '',
+    digest: '',
+    fields: {
+      id: { id: row.offer_id },
+      item_id: row.item_id,
+      buyer: row.buyer,
+      seller: row.seller,
+      amount: String(row.amount),
+      message: row.message,
+      status: Number(row.status),
+      expires_at: row.expires_at_ms !== null ? String(row.expires_at_ms) : '0',
+      is_counter: row.is_counter,
+      created_at: String(row.created_at_ms),
+    },
+  }
+}
+
+/**
+ * Map a projection row back to the EscrowObject shape the UI consumes
+ */
+export function rowToEscrowObject(row: EscrowRow): EscrowObject {
+  return {
+    objectId: row.escrow_id,
+    version: '',
+    digest: '',
+    fields: {
+      id: { id: row.escrow_id },
+      buyer: row.buyer,
+      seller: row.seller,
+      item_id: row.item_id,
+      amount: String(row.amount),
+      status: Number(row.status),
+      created_at: String(row.created_at_ms),
+      completed_at: row.completed_at_ms !== null ? String(row.completed_at_ms) : '0',
+    },
+  }
+}
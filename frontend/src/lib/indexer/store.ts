@@ -0,0 +1,140 @@
+/**
+ * Projection Store
+ *
+ * Row types for the Supabase projection tables (see supabase-schema.sql)
+ * and the storage interface the projection writes through. The Supabase
+ * implementation lives in ./supabase-store; the in-memory one below is used
+ * for fixture replay and dry-run reconciliation.
+ */
+
+// ============================================
+// ROW TYPES
+// ============================================
+
+export interface ItemRow {
+  item_id: string
+  seller: string
+  title: string
+  description: string
+  price: string
+  category: string
+  condition: string
+  brand: string
+  size: string
+  color: string
+  material: string
+  walrus_image_ids: string[]
+  status: number
+  created_at_ms: string
+  updated_at_ms: string
+  buyer: string | null
+  sold_price: string | null
+  sold_at_ms: string | null
+}
+
+export interface OfferRow {
+  offer_id: string
+  item_id: string
+  buyer: string
+  seller: string
+  amount: string
+  message: string
+  status: number
+  expires_at_ms: string | null
+  is_counter: boolean
+  created_at_ms: string
+  updated_at_ms: string
+  created_tx_digest: string | null
+}
+
+export interface EscrowRow {
+  escrow_id: string
+  offer_id: string | null
+  item_id: string
+  buyer: string
+  seller: string
+  amount: string
+  status: number
+  created_at_ms: string
+  completed_at_ms: string | null
+  updated_at_ms: string
+}
+
+export interface ProjectionTables {
+  marketplace_items: ItemRow
+  marketplace_offers: OfferRow
+  marketplace_escrows: EscrowRow
+}
+
+export type ProjectionTable = keyof ProjectionTables
+
+export const PRIMARY_KEYS: Record<ProjectionTable, string> = {
+  marketplace_items: 'item_id',
+  marketplace_offers: 'offer_id',
+  marketplace_escrows: 'escrow_id',
+}
+
+/**
+ * Position in the event stream (matches Sui's EventId)
+ */
+export interface IndexerCursor {
+  txDigest: string
+  eventSeq: string
+}
+
+// ============================================
+// STORE INTERFACE
+// ============================================
+
+export interface ProjectionStore {
+  get<K extends ProjectionTable>(table: K, id: string): Promise<ProjectionTables[K] | null>
+  upsert<K extends ProjectionTable>(table: K, row: ProjectionTables[K]): Promise<void>
+  remove(table: ProjectionTable, id: string): Promise<void>
+  list<K extends ProjectionTable>(table: K): Promise<ProjectionTables[K][]>
+  getCursor(name: string): Promise<IndexerCursor | null>
+  saveCursor(name: string, cursor: IndexerCursor, timestampMs: string | null): Promise<void>
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+/**
+ * Map-backed store. Rows are copied on read and write so callers can't
+ * mutate stored state by accident.
+ */
+export class MemoryProjectionStore implements ProjectionStore {
+  private tables: { [K in ProjectionTable]: Map<string, ProjectionTables[K]> } = {
+    marketplace_items: new Map(),
+    marketplace_offers: new Map(),
+    marketplace_escrows: new Map(),
+  }
+
+  private cursors = new Map<string, IndexerCursor>()
+
+  async get<K extends ProjectionTable>(table: K, id: string): Promise<ProjectionTables[K] | null> {
+    const row = this.tables[table].get(id)
+    return row ? { ...row } : null
+  }
+
+  async upsert<K extends ProjectionTable>(table: K, row: ProjectionTables[K]): Promise<void> {
+    const id = (row as unknown as Record<string, string>)[PRIMARY_KEYS[table]]
+    this.tables[table].set(id, { ...row })
+  }
+
+  async remove(table: ProjectionTable, id: string): Promise<void> {
+    this.tables[table].delete(id)
+  }
+
+  async list<K extends ProjectionTable>(table: K): Promise<ProjectionTables[K][]> {
+    return Array.from(this.tables[table].values()).map(row => ({ ...row }))
+  }
+
+  async getCursor(name: string): Promise<IndexerCursor | null> {
+    return this.cursors.get(name) ?? null
+  }
+
+  async saveCursor(name: string, cursor: IndexerCursor): Promise<void> {
+    this.cursors.set(name, { ...cursor })
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Supabase Projection Store
+ *
+ * Writes projection rows and the indexer checkpoint with the service-role
+ * client. Server-side only (API routes / scripts) - never import from
+ * client components.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient } from '../supabase/server'
+import {
+  PRIMARY_KEYS,
+  type IndexerCursor,
+  type ProjectionStore,
+  type ProjectionTable,
+  type ProjectionTables,
+} from './store'
+
+const PAGE_SIZE = 1000
+
+export class SupabaseProjectionStore implements ProjectionStore {
+  private client: SupabaseClient
+
+  constructor(client?: SupabaseClient) {
+    this.client = client ?? getSupabaseAdminClient()
+  }
+
+  async get<K extends ProjectionTable>(table: K, id: string): Promise<ProjectionTables[K] | null> {
+    const key: string = PRIMARY_KEYS[table]
+    const { data, error } = await this.client
+      .from(table)
+      .select('*')
+      .eq(key, id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to read ${table} ${id}: ${error.message}`)
+    }
+
+    return (data as ProjectionTables[K] | null) ?? null
+  }
+
+  async upsert<K extends ProjectionTable>(table: K, row: ProjectionTables[K]): Promise<void> {
+    const { error } = await this.client
+      .from(table)
+      .upsert(row, { onConflict: PRIMARY_KEYS[table] })
+
+    if (error) {
+      throw new Error(`Failed to write ${table}: ${error.message}`)
+    }
+  }
+
+  async remove(table: ProjectionTable, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(table)
+      .delete()
+      .eq(PRIMARY_KEYS[table], id)
+
+    if (error) {
+      throw new Error(`Failed to delete ${table} ${id}: ${error.message}`)
+    }
+  }
+
+  async list<K extends ProjectionTable>(table: K): Promise<ProjectionTables[K][]> {
+    const rows: ProjectionTables[K][] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.client
+        .from(table)
+        .select('*')
+        .order(PRIMARY_KEYS[table])
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to list ${table}: ${error.message}`)
+      }
+
+      rows.push(...((data ?? []) as ProjectionTables[K][]))
+      if (!data || data.length < PAGE_SIZE) {
+        return rows
+      }
+    }
+  }
+
+  async getCursor(name: string): Promise<IndexerCursor | null> {
+    const { data, error } = await this.client
+      .from('indexer_checkpoints')
+      .select('tx_digest, event_seq')
+      .eq('name', name)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to read checkpoint ${name}: ${error.message}`)
+    }
+
+    if (!data) {
+      return null
+    }
+
+    return { txDigest: data.tx_digest, eventSeq: data.event_seq }
+  }
+
+  async saveCursor(name: string, cursor: IndexerCursor, timestampMs: string | null): Promise<void> {
+    const { error } = await this.client
+      .from('indexer_checkpoints')
+      .upsert({
+        name,
+        tx_digest: cursor.txDigest,
+        event_seq: cursor.eventSeq,
+        event_timestamp_ms: timestampMs,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'name' })
+
+    if (error) {
+      throw new Error(`Failed to save checkpoint ${name}: ${error.message}`)
+    }
+  }
+}
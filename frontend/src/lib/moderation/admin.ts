@@ -0,0 +1,583 @@
+/**
+ * Admin Moderation
+ *
+ * The moderator side of listing moderation, behind /admin and /api/admin:
+ *
+ * 1. shoppers report listings (createReport, POST /api/reports)
+ * 2. the queue (loadModerationQueue) gathers, per listing, open reports,
+ *    open moderation_flags (lifted photos, see lib/ai/duplicates) and
+ *    verdicts the pipeline blocked or held that nobody has reviewed yet
+ * 3. an admin acts on a listing (applyAdminAction):
+ *    - hide: a blocked verdict, so listing_visible() drops it
+ *    - ban: the seller goes into banned_addresses, which hides all of their
+ *      listings and stops /api/ai/index-item taking new ones
+ *    - dismiss: nothing wrong; the listing is approved
+ *    Open reports and flags are resolved with it, and the action is written
+ *    to moderation_audit_log.
+ *
+ * Verdicts set here carry reviewed_by, so re-indexing the listing keeps the
+ * moderator's decision (saveVerdict in ./pipeline). Admins are the
+ * addresses in ADMIN_ADDRESSES; routes check the session against them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import type { ModerationFinding, ModerationStatus } from './types'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const REPORT_REASONS = ['prohibited', 'counterfeit', 'scam', 'offensive', 'misleading', 'other'] as const
+
+export type ReportReason = typeof REPORT_REASONS[number]
+
+/** How each reason is offered to the shopper reporting */
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  prohibited: 'Prohibited item (weapons, drugs...)',
+  counterfeit: 'Counterfeit or replica',
+  scam: 'Scam or off-platform payment',
+  offensive: 'Offensive content',
+  misleading: 'Misleading photos or description',
+  other: 'Something else',
+}
+
+export const MAX_REPORT_DETAILS = 1000
+
+export const ADMIN_ACTIONS = ['hide', 'ban', 'dismiss'] as const
+
+export type AdminAction = typeof ADMIN_ACTIONS[number]
+
+const OBJECT_ID = /^0x[0-9a-fA-F]{1,64}$/
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Reports and flags: open until an admin acts on the listing */
+export type ResolutionStatus = 'open' | 'dismissed' | 'actioned'
+
+export interface ListingReport {
+  id: number
+  itemId: string
+  reporter: string
+  reason: ReportReason
+  details: string
+  status: ResolutionStatus
+  createdAt: string
+  resolvedAt: string | null
+}
+
+export interface ReportInput {
+  itemId: string
+  reason: string
+  details?: string
+}
+
+export interface ModerationFlag {
+  id: number
+  itemId: string
+  kind: string                        // 'duplicate_photo'
+  matchedItemId: string | null
+  score: number | null
+  details: Record<string, unknown>
+  status: ResolutionStatus
+  createdAt: string
+}
+
+export interface ReviewedVerdict {
+  status: ModerationStatus
+  findings: ModerationFinding[]
+  classifier: string | null
+  checkedAt: string
+  reviewedBy: string | null           // Admin who decided, if any
+  reviewedAt: string | null
+}
+
+export interface AddressBan {
+  address: string
+  reason: string
+  bannedBy: string
+  bannedAt: string
+}
+
+export interface AuditEntry {
+  id: number
+  admin: string
+  action: AdminAction
+  itemId: string | null
+  address: string | null
+  note: string
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+export interface QueueEntry {
+  itemId: string
+  title: string | null                // null until the listing is projected
+  seller: string | null
+  reports: number
+  reasons: ReportReason[]             // Distinct, most reported first
+  flags: number
+  verdict: ModerationStatus | null    // Unreviewed blocked / held verdict
+  latestAt: string                    // Newest report, flag or verdict
+}
+
+export interface ItemCase {
+  itemId: string
+  verdict: ReviewedVerdict | null
+  reports: ListingReport[]            // Newest first, resolved ones included
+  flags: ModerationFlag[]
+  audit: AuditEntry[]
+  sellerBan: AddressBan | null
+}
+
+export interface AdminActionInput {
+  action: AdminAction
+  itemId: string
+  seller: string                      // The listing's seller, from chain
+  note?: string
+}
+
+export class ModerationAdminError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'ModerationAdminError'
+  }
+}
+
+interface ReportRow {
+  id: number
+  sui_object_id: string
+  reporter: string
+  reason: ReportReason
+  details: string
+  status: ResolutionStatus
+  created_at: string
+  resolved_at: string | null
+}
+
+interface FlagRow {
+  id: number
+  sui_object_id: string
+  kind: string
+  matched_item_id: string | null
+  score: number | null
+  details: Record<string, unknown> | null
+  status: ResolutionStatus
+  created_at: string
+}
+
+interface AuditRow {
+  id: number
+  admin: string
+  action: AdminAction
+  sui_object_id: string | null
+  address: string | null
+  note: string
+  details: Record<string, unknown> | null
+  created_at: string
+}
+
+// ============================================
+// ACCESS
+// ============================================
+
+/**
+ * The admin allowlist: ADMIN_ADDRESSES, comma-separated, normalized
+ */
+export function getAdminAddresses(value = process.env.ADMIN_ADDRESSES): Set<string> {
+  return new Set(
+    (value ?? '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean)
+      .map(address => normalizeSuiAddress(address))
+  )
+}
+
+/**
+ * @param address - A session's (normalized) address
+ */
+export function isAdmin(address: string | null | undefined, admins = getAdminAddresses()): boolean {
+  return !!address && admins.has(address)
+}
+
+/**
+ * The ban on an address, or null if it isn't banned
+ */
+export async function getAddressBan(client: SupabaseClient, address: string): Promise<AddressBan | null> {
+  const { data, error } = await client
+    .from('banned_addresses')
+    .select('address, reason, banned_by, banned_at')
+    .eq('address', address)
+    .maybeSingle()
+  if (error) {
+    throw new Error(`Failed to check address ban: ${error.message}`)
+  }
+  if (!data) {
+    return null
+  }
+  return { address: data.address, reason: data.reason, bannedBy: data.banned_by, bannedAt: data.banned_at }
+}
+
+// ============================================
+// REPORTS
+// ============================================
+
+/**
+ * Report a listing. One open report per shopper and listing.
+ *
+ * @param reporter - The reporting shopper's address
+ */
+export async function createReport(
+  client: SupabaseClient,
+  reporter: string,
+  input: ReportInput
+): Promise<ListingReport> {
+  if (typeof input.itemId !== 'string' || !OBJECT_ID.test(input.itemId)) {
+    throw new ModerationAdminError('itemId must be a Sui object ID')
+  }
+  if (!REPORT_REASONS.includes(input.reason as ReportReason)) {
+    throw new ModerationAdminError(`reason must be one of: ${REPORT_REASONS.join(', ')}`)
+  }
+  const details = typeof input.details === 'string' ? input.details.trim() : ''
+  if (details.length > MAX_REPORT_DETAILS) {
+    throw new ModerationAdminError(`details can be at most ${MAX_REPORT_DETAILS} characters`)
+  }
+  if (input.reason === 'other' && !details) {
+    throw new ModerationAdminError('Tell us what is wrong with this listing')
+  }
+
+  const { data, error } = await client
+    .from('listing_reports')
+    .insert({ sui_object_id: input.itemId, reporter, reason: input.reason, details })
+    .select('id, sui_object_id, reporter, reason, details, status, created_at, resolved_at')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new ModerationAdminError('You have already reported this listing', 409)
+    }
+    throw new Error(`Failed to save report: ${error.message}`)
+  }
+  return toReport(data as ReportRow)
+}
+
+// ============================================
+// QUEUE
+// ============================================
+
+/**
+ * Listings waiting for a moderator, newest activity first
+ */
+export async function loadModerationQueue(client: SupabaseClient, limit = 50): Promise<QueueEntry[]> {
+  const [reports, flags, verdicts] = await Promise.all([
+    client
+      .from('listing_reports')
+      .select('sui_object_id, reason, created_at')
+      .eq('status', 'open')
+      .order('created_at', { ascending: false })
+      .limit(1000),
+    client
+      .from('moderation_flags')
+      .select('sui_object_id, created_at')
+      .eq('status', 'open')
+      .order('created_at', { ascending: false })
+      .limit(1000),
+    client
+      .from('moderation_verdicts')
+      .select('sui_object_id, seller, status, checked_at')
+      .neq('status', 'approved')
+      .is('reviewed_by', null)
+      .order('checked_at', { ascending: false })
+      .limit(1000),
+  ])
+  const failed = reports.error ?? flags.error ?? verdicts.error
+  if (failed) {
+    throw new Error(`Failed to load moderation queue: ${failed.message}`)
+  }
+
+  const entries = new Map<string, QueueEntry & { reasonCounts: Map<ReportReason, number> }>()
+  const entryFor = (itemId: string, at: string) => {
+    let entry = entries.get(itemId)
+    if (!entry) {
+      entry = {
+        itemId, title: null, seller: null, reports: 0, reasons: [], flags: 0, verdict: null,
+        latestAt: at, reasonCounts: new Map(),
+      }
+      entries.set(itemId, entry)
+    }
+    if (at > entry.latestAt) entry.latestAt = at
+    return entry
+  }
+
+  for (const row of reports.data ?? []) {
+    const entry = entryFor(row.sui_object_id, row.created_at)
+    entry.reports++
+    entry.reasonCounts.set(row.reason, (entry.reasonCounts.get(row.reason) ?? 0) + 1)
+  }
+  for (const row of flags.data ?? []) {
+    entryFor(row.sui_object_id, row.created_at).flags++
+  }
+  for (const row of verdicts.data ?? []) {
+    const entry = entryFor(row.sui_object_id, row.checked_at)
+    entry.verdict = row.status
+    entry.seller = row.seller
+  }
+
+  const queue = [...entries.values()]
+    .sort((a, b) => b.latestAt.localeCompare(a.latestAt))
+    .slice(0, limit)
+
+  if (queue.length > 0) {
+    const { data: items, error } = await client
+      .from('marketplace_items')
+      .select('item_id, title, seller')
+      .in('item_id', queue.map(entry => entry.itemId))
+    if (error) {
+      throw new Error(`Failed to load queued listings: ${error.message}`)
+    }
+    const byId = new Map((items ?? []).map(item => [item.item_id, item]))
+    for (const entry of queue) {
+      const item = byId.get(entry.itemId)
+      entry.title = item?.title ?? null
+      entry.seller = item?.seller ?? entry.seller
+    }
+  }
+
+  return queue.map(({ reasonCounts, ...entry }) => ({
+    ...entry,
+    reasons: [...reasonCounts.entries()].sort((a, b) => b[1] - a[1]).map(([reason]) => reason),
+  }))
+}
+
+/**
+ * Everything moderation knows about a listing
+ *
+ * @param seller - The listing's seller, from chain
+ */
+export async function loadItemCase(client: SupabaseClient, itemId: string, seller: string): Promise<ItemCase> {
+  if (!OBJECT_ID.test(itemId) || !OBJECT_ID.test(seller)) {
+    throw new ModerationAdminError('Not a Sui object ID')
+  }
+  const [verdict, reports, flags, audit, sellerBan] = await Promise.all([
+    client
+      .from('moderation_verdicts')
+      .select('status, findings, classifier, checked_at, reviewed_by, reviewed_at')
+      .eq('sui_object_id', itemId)
+      .maybeSingle(),
+    client
+      .from('listing_reports')
+      .select('id, sui_object_id, reporter, reason, details, status, created_at, resolved_at')
+      .eq('sui_object_id', itemId)
+      .order('created_at', { ascending: false }),
+    client
+      .from('moderation_flags')
+      .select('id, sui_object_id, kind, matched_item_id, score, details, status, created_at')
+      .eq('sui_object_id', itemId)
+      .order('created_at', { ascending: false }),
+    client
+      .from('moderation_audit_log')
+      .select('id, admin, action, sui_object_id, address, note, details, created_at')
+      .or(`sui_object_id.eq.${itemId},address.eq.${seller}`)
+      .order('created_at', { ascending: false })
+      .limit(50),
+    getAddressBan(client, seller),
+  ])
+  const failed = verdict.error ?? reports.error ?? flags.error ?? audit.error
+  if (failed) {
+    throw new Error(`Failed to load moderation case: ${failed.message}`)
+  }
+
+  return {
+    itemId,
+    verdict: verdict.data
+      ? {
+          status: verdict.data.status,
+          findings: verdict.data.findings ?? [],
+          classifier: verdict.data.classifier,
+          checkedAt: verdict.data.checked_at,
+          reviewedBy: verdict.data.reviewed_by,
+          reviewedAt: verdict.data.reviewed_at,
+        }
+      : null,
+    reports: ((reports.data ?? []) as ReportRow[]).map(toReport),
+    flags: ((flags.data ?? []) as FlagRow[]).map(row => ({
+      id: row.id,
+      itemId: row.sui_object_id,
+      kind: row.kind,
+      matchedItemId: row.matched_item_id,
+      score: row.score,
+      details: row.details ?? {},
+      status: row.status,
+      createdAt: row.created_at,
+    })),
+    audit: ((audit.data ?? []) as AuditRow[]).map(toAuditEntry),
+    sellerBan,
+  }
+}
+
+// ============================================
+// ACTIONS
+// ============================================
+
+/**
+ * Hide, ban or dismiss, resolve the listing's open reports and flags, and
+ * record it in the audit log
+ *
+ * @param admin - The acting admin's address
+ * @returns The audit log entry
+ */
+export async function applyAdminAction(
+  client: SupabaseClient,
+  admin: string,
+  input: AdminActionInput
+): Promise<AuditEntry> {
+  if (!ADMIN_ACTIONS.includes(input.action)) {
+    throw new ModerationAdminError(`action must be one of: ${ADMIN_ACTIONS.join(', ')}`)
+  }
+  const note = typeof input.note === 'string' ? input.note.trim() : ''
+  const now = new Date().toISOString()
+  const details: Record<string, unknown> = {}
+
+  if (input.action === 'hide') {
+    const finding: ModerationFinding = {
+      source: 'moderator',
+      code: 'moderator_hidden',
+      severity: 'block',
+      reason: note || 'A moderator removed this listing for breaking the marketplace rules',
+    }
+    await reviewVerdict(client, input, { status: 'blocked', findings: [finding] }, admin, now)
+  } else if (input.action === 'dismiss') {
+    await reviewVerdict(client, input, { status: 'approved', findings: [] }, admin, now)
+  } else {
+    const { error } = await client.from('banned_addresses').upsert(
+      { address: input.seller, reason: note, banned_by: admin, banned_at: now },
+      { onConflict: 'address' }
+    )
+    if (error) {
+      throw new Error(`Failed to ban address: ${error.message}`)
+    }
+  }
+
+  const resolution: ResolutionStatus = input.action === 'dismiss' ? 'dismissed' : 'actioned'
+  details.reports = await resolveOpen(client, 'listing_reports', input.itemId, resolution, now)
+  details.flags = await resolveOpen(client, 'moderation_flags', input.itemId, resolution, now)
+
+  const { data, error } = await client
+    .from('moderation_audit_log')
+    .insert({
+      admin,
+      action: input.action,
+      sui_object_id: input.itemId,
+      address: input.action === 'ban' ? input.seller : null,
+      note,
+      details,
+    })
+    .select('id, admin, action, sui_object_id, address, note, details, created_at')
+    .single()
+  if (error) {
+    throw new Error(`Failed to write audit log: ${error.message}`)
+  }
+  return toAuditEntry(data as AuditRow)
+}
+
+/**
+ * The most recent admin actions, newest first
+ */
+export async function listAuditLog(client: SupabaseClient, limit = 50): Promise<AuditEntry[]> {
+  const { data, error } = await client
+    .from('moderation_audit_log')
+    .select('id, admin, action, sui_object_id, address, note, details, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) {
+    throw new Error(`Failed to load audit log: ${error.message}`)
+  }
+  return ((data ?? []) as AuditRow[]).map(toAuditEntry)
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function reviewVerdict(
+  client: SupabaseClient,
+  input: AdminActionInput,
+  decision: { status: ModerationStatus; findings: ModerationFinding[] },
+  admin: string,
+  now: string
+): Promise<void> {
+  // Dismissing keeps the pipeline's findings on record; hiding adds the moderator's
+  const { data: existing, error: readError } = await client
+    .from('moderation_verdicts')
+    .select('findings, classifier')
+    .eq('sui_object_id', input.itemId)
+    .maybeSingle()
+  if (readError) {
+    throw new Error(`Failed to load moderation verdict: ${readError.message}`)
+  }
+
+  const { error } = await client.from('moderation_verdicts').upsert(
+    {
+      sui_object_id: input.itemId,
+      seller: input.seller,
+      status: decision.status,
+      findings: [...(existing?.findings ?? []), ...decision.findings],
+      classifier: existing?.classifier ?? null,
+      checked_at: now,
+      reviewed_by: admin,
+      reviewed_at: now,
+    },
+    { onConflict: 'sui_object_id' }
+  )
+  if (error) {
+    throw new Error(`Failed to save moderation verdict: ${error.message}`)
+  }
+}
+
+async function resolveOpen(
+  client: SupabaseClient,
+  table: 'listing_reports' | 'moderation_flags',
+  itemId: string,
+  status: ResolutionStatus,
+  now: string
+): Promise<number> {
+  const { data, error } = await client
+    .from(table)
+    .update({ status, resolved_at: now })
+    .eq('sui_object_id', itemId)
+    .eq('status', 'open')
+    .select('id')
+  if (error) {
+    throw new Error(`Failed to resolve ${table}: ${error.message}`)
+  }
+  return data?.length ?? 0
+}
+
+function toReport(row: ReportRow): ListingReport {
+  return {
+    id: row.id,
+    itemId: row.sui_object_id,
+    reporter: row.reporter,
+    reason: row.reason,
+    details: row.details,
+    status: row.status,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+  }
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    admin: row.admin,
+    action: row.action,
+    itemId: row.sui_object_id,
+    address: row.address,
+    note: row.note,
+    details: row.details ?? {},
+    createdAt: row.created_at,
+  }
+}
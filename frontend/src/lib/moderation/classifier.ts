@@ -0,0 +1,139 @@
+/**
+ * Safety Classifiers
+ *
+ * The model half of listing moderation: scores a listing's text and photos
+ * per SAFETY_CATEGORIES, from 0 (clearly fine) to 1 (clearly a violation).
+ * The pipeline turns scores into findings with CLASSIFIER_THRESHOLDS.
+ *
+ * Classifiers are pluggable like query parsers: GeminiSafetyClassifier in
+ * production, a stub in tests, or none (MODERATION_CLASSIFIER=none), in
+ * which case only the text rules run.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { EmbeddingImage } from '../ai/embedding-providers'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const SAFETY_CATEGORIES = [
+  'sexual', 'violence', 'hate', 'weapons', 'drugs', 'counterfeit', 'scam',
+] as const
+
+export type SafetyCategory = typeof SAFETY_CATEGORIES[number]
+
+/** What the seller is told for each category */
+export const SAFETY_REASONS: Record<SafetyCategory, string> = {
+  sexual: 'Sexual or explicit content isn\'t allowed in listings',
+  violence: 'Violent or graphic content isn\'t allowed in listings',
+  hate: 'Hateful symbols or language aren\'t allowed in listings',
+  weapons: 'Weapons, ammunition and weapon parts can\'t be sold on ThriftChain',
+  drugs: 'Drugs and drug paraphernalia can\'t be sold on ThriftChain',
+  counterfeit: 'This looks like a counterfeit of a branded item',
+  scam: 'This listing looks like it is trying to take payment or contact off ThriftChain',
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SafetyScore {
+  category: SafetyCategory
+  score: number                       // 0-1
+}
+
+export interface ListingContent {
+  title: string
+  description: string
+  images: EmbeddingImage[]
+}
+
+export interface SafetyClassifier {
+  readonly name: string
+  classify(listing: ListingContent): Promise<SafetyScore[]>
+}
+
+/**
+ * Coerce a classifier's raw output ({ category: score }) into known
+ * categories with scores clamped to 0..1; anything else is dropped
+ */
+export function normalizeSafetyScores(raw: unknown): SafetyScore[] {
+  const scores = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  return SAFETY_CATEGORIES.flatMap(category => {
+    const value = typeof scores[category] === 'string' ? Number(scores[category]) : scores[category]
+    return typeof value === 'number' && Number.isFinite(value)
+      ? [{ category, score: Math.min(1, Math.max(0, value)) }]
+      : []
+  })
+}
+
+// ============================================
+// GEMINI
+// ============================================
+
+const CLASSIFY_PROMPT = `You review second-hand marketplace listings for safety. Given the listing text and photos,
+rate how clearly the listing violates each policy, from 0 (no sign) to 1 (clear violation):
+- "sexual": sexual or explicit content
+- "violence": violent or graphic content
+- "hate": hateful symbols, slurs or extremist material
+- "weapons": firearms, ammunition, weapon parts or illegal knives
+- "drugs": drugs, prescription medicine or paraphernalia
+- "counterfeit": fake or unauthorized copies of branded goods
+- "scam": asking for payment or contact outside the marketplace, or misleading the buyer
+Ordinary clothing, electronics, furniture and the like score 0 everywhere.
+Reply with one JSON object with exactly these keys and numeric values.`
+
+export class GeminiSafetyClassifier implements SafetyClassifier {
+  readonly name = 'gemini'
+  private readonly client: GoogleGenerativeAI
+
+  constructor(apiKey: string, private readonly model = 'gemini-2.0-flash') {
+    this.client = new GoogleGenerativeAI(apiKey)
+  }
+
+  async classify(listing: ListingContent): Promise<SafetyScore[]> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: { responseMimeType: 'application/json', temperature: 0 },
+    })
+    const result = await model.generateContent([
+      ...listing.images.map(image => ({ inlineData: image })),
+      `Title: ${listing.title}\nDescription: ${listing.description}`,
+      CLASSIFY_PROMPT,
+    ])
+    return normalizeSafetyScores(JSON.parse(result.response.text()))
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let classifier: SafetyClassifier | null | undefined
+
+/**
+ * Classifier chosen from the environment:
+ *   MODERATION_CLASSIFIER=gemini (default when GEMINI_API_KEY is set; model from MODERATION_MODEL)
+ *   MODERATION_CLASSIFIER=none (text rules only)
+ */
+export function getSafetyClassifier(): SafetyClassifier | null {
+  if (classifier !== undefined) {
+    return classifier
+  }
+
+  const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY
+  const choice = process.env.MODERATION_CLASSIFIER ?? (apiKey ? 'gemini' : 'none')
+
+  classifier = choice === 'gemini' && apiKey
+    ? new GeminiSafetyClassifier(apiKey, process.env.MODERATION_MODEL || undefined)
+    : null
+  return classifier
+}
+
+/**
+ * Replace the classifier (tests); undefined goes back to the environment
+ */
+export function setSafetyClassifier(next: SafetyClassifier | null | undefined): void {
+  classifier = next
+}
@@ -0,0 +1,187 @@
+/**
+ * Listing Moderation Pipeline
+ *
+ * Decides whether a new listing may appear in search and browsing:
+ *
+ * 1. text rules (rules.ts) over the listing's text fields
+ * 2. the safety classifier (classifier.ts), if one is configured, over
+ *    title, description and photos
+ * 3. any block finding blocks the listing; otherwise any review finding
+ *    holds it for review; otherwise it is approved
+ *
+ * /api/ai/index-item runs this for every listing and stores the verdict in
+ * moderation_verdicts, which search, browsing, the feed and price
+ * comparables filter on (listing_visible() in supabase-schema.sql): only
+ * approved listings show, so one that was never moderated stays hidden. A
+ * classifier that fails holds the listing for review rather than letting it
+ * through unchecked.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseBase64Image } from '../ai/embeddings'
+import { getSafetyClassifier, SAFETY_REASONS, type SafetyClassifier } from './classifier'
+import { applyTextRules } from './rules'
+import type { ModerationFinding, ModerationStatus, ModerationVerdict } from './types'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** Classifier scores at or above these block / hold a listing */
+export const CLASSIFIER_THRESHOLDS = {
+  block: 0.85,
+  review: 0.5,
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ListingForModeration {
+  title: string
+  description: string
+  otherText?: string[]                // brand, size, color, material...
+  images: string[]                    // Data URLs or raw base64
+}
+
+export interface StoredVerdict extends ModerationVerdict {
+  itemId: string
+  checkedAt: string
+}
+
+interface VerdictRow {
+  sui_object_id: string
+  status: ModerationStatus
+  findings: ModerationFinding[] | null
+  classifier: string | null
+  checked_at: string
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+/**
+ * The verdict's status for a set of findings
+ */
+export function verdictStatus(findings: ModerationFinding[]): ModerationStatus {
+  if (findings.some(finding => finding.severity === 'block')) return 'blocked'
+  if (findings.some(finding => finding.severity === 'review')) return 'pending_review'
+  return 'approved'
+}
+
+async function classifierFindings(classifier: SafetyClassifier, listing: ListingForModeration): Promise<ModerationFinding[]> {
+  try {
+    const scores = await classifier.classify({
+      title: listing.title,
+      description: listing.description,
+      images: listing.images.map(parseBase64Image),
+    })
+    return scores
+      .filter(({ score }) => score >= CLASSIFIER_THRESHOLDS.review)
+      .map(({ category, score }) => ({
+        source: classifier.name,
+        code: category,
+        severity: score >= CLASSIFIER_THRESHOLDS.block ? 'block' : 'review',
+        reason: SAFETY_REASONS[category],
+        score,
+      }))
+  } catch (error) {
+    console.warn(`[moderateListing] ${classifier.name} classifier failed:`, error)
+    return [{
+      source: classifier.name,
+      code: 'classifier_unavailable',
+      severity: 'review',
+      reason: 'The automatic safety check couldn\'t run; a moderator will review this listing',
+    }]
+  }
+}
+
+/**
+ * Moderate a listing
+ *
+ * @param using - Safety classifier; defaults to getSafetyClassifier(), null
+ *                for text rules only
+ */
+export async function moderateListing(
+  listing: ListingForModeration,
+  using: SafetyClassifier | null = getSafetyClassifier()
+): Promise<ModerationVerdict> {
+  const findings = applyTextRules([listing.title, listing.description, ...(listing.otherText ?? [])])
+  if (using) {
+    findings.push(...await classifierFindings(using, listing))
+  }
+
+  return { status: verdictStatus(findings), findings, classifier: using?.name ?? null }
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Store a listing's verdict, unless a moderator already decided on it
+ * (re-indexing the same listing shouldn't undo a takedown or an approval)
+ *
+ * @returns The status in effect: the new verdict's, or the moderator's
+ */
+export async function saveVerdict(
+  client: SupabaseClient,
+  itemId: string,
+  seller: string,
+  verdict: ModerationVerdict
+): Promise<ModerationStatus> {
+  const { data: existing, error: readError } = await client
+    .from('moderation_verdicts')
+    .select('status, reviewed_by')
+    .eq('sui_object_id', itemId)
+    .maybeSingle()
+  if (readError) {
+    throw new Error(`Failed to load moderation verdict: ${readError.message}`)
+  }
+
+  const reviewed = existing as { status: ModerationStatus; reviewed_by: string | null } | null
+  if (reviewed?.reviewed_by) {
+    return reviewed.status
+  }
+
+  const { error } = await client.from('moderation_verdicts').upsert(
+    {
+      sui_object_id: itemId,
+      seller,
+      status: verdict.status,
+      findings: verdict.findings,
+      classifier: verdict.classifier,
+      checked_at: new Date().toISOString(),
+    },
+    { onConflict: 'sui_object_id' }
+  )
+  if (error) {
+    throw new Error(`Failed to save moderation verdict: ${error.message}`)
+  }
+  return verdict.status
+}
+
+/**
+ * A seller's listings that moderation held or blocked, newest first
+ */
+export async function listHiddenListings(client: SupabaseClient, seller: string): Promise<StoredVerdict[]> {
+  const { data, error } = await client
+    .from('moderation_verdicts')
+    .select('sui_object_id, status, findings, classifier, checked_at')
+    .eq('seller', seller)
+    .neq('status', 'approved')
+    .order('checked_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load moderation verdicts: ${error.message}`)
+  }
+
+  return ((data ?? []) as VerdictRow[]).map(row => ({
+    itemId: row.sui_object_id,
+    status: row.status,
+    findings: row.findings ?? [],
+    classifier: row.classifier,
+    checkedAt: row.checked_at,
+  }))
+}
@@ -0,0 +1,107 @@
+/**
+ * Rule-Based Text Filters
+ *
+ * The cheap first pass of listing moderation: regular expressions over a
+ * listing's text for things ThriftChain doesn't allow. Each rule either
+ * blocks the listing outright or holds it for review, and carries the
+ * reason the seller is shown.
+ *
+ * - prohibited items (weapons, drugs, counterfeits): block
+ * - off-platform payment (Venmo, "pay me directly", ...): block, since it
+ *   skips escrow and is how most marketplace scams start
+ * - contact details (email, phone, links, social handles): review, since
+ *   many are harmless ("see sizing at brand.com")
+ */
+
+import type { ModerationFinding, ModerationSeverity } from './types'
+
+// ============================================
+// RULES
+// ============================================
+
+export interface TextRule {
+  code: string
+  severity: ModerationSeverity
+  reason: string                      // Shown to the seller
+  patterns: RegExp[]
+}
+
+export const TEXT_RULES: TextRule[] = [
+  {
+    code: 'prohibited_weapons',
+    severity: 'block',
+    reason: 'Weapons, ammunition and weapon parts can\'t be sold on ThriftChain',
+    patterns: [
+      /\b(fire ?arms?|hand ?guns?|pistols?|revolvers?|rifles?|shotguns?|ammo|ammunition|silencers?|suppressors?|switchblades?|brass knuckles)\b/i,
+    ],
+  },
+  {
+    code: 'prohibited_drugs',
+    severity: 'block',
+    reason: 'Drugs, prescription medicines and drug paraphernalia can\'t be sold on ThriftChain',
+    patterns: [
+      /\b(cocaine|heroin|meth(amphetamine)?|mdma|ecstasy|lsd|fentanyl|oxy(contin|codone)|xanax|adderall|marijuana|cannabis|thc (carts?|vapes?|gumm(y|ies)))\b/i,
+    ],
+  },
+  {
+    code: 'prohibited_counterfeit',
+    severity: 'block',
+    reason: 'Counterfeits and unauthorized copies of branded goods can\'t be sold on ThriftChain',
+    patterns: [
+      /\b(counterfeits?|knock-?offs?|fake (designer|brand|luxury))\b/i,
+      /\b(1:1|aaa\+?|mirror) (quality|copy|replica)\b/i,
+    ],
+  },
+  {
+    code: 'off_platform_payment',
+    severity: 'block',
+    reason: 'Payment has to go through ThriftChain escrow; listings can\'t ask for payment elsewhere',
+    patterns: [
+      /\b(venmo|paypal|cash ?app|zelle|western union|moneygram|wire transfer|bank transfer|gift cards?)\b/i,
+      /\b(pay|payment|send (money|funds))( me)? (directly|outside|off[- ]?(platform|site)|upfront|first)\b/i,
+    ],
+  },
+  {
+    code: 'contact_info',
+    severity: 'review',
+    reason: 'Listings can\'t include contact details or links; buyers reach you through offers',
+    patterns: [
+      /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i,
+      /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/,
+      /\b(https?:\/\/|www\.)\S+/i,
+      /\b(whats ?app|telegram|wechat|signal me|text me|call me|dm me)\b/i,
+      /\b(insta(gram)?|ig|snap(chat)?|tiktok)\s*[:@]\s*@?\w+/i,
+    ],
+  },
+]
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Run every rule over a listing's text fields
+ *
+ * @returns One finding per rule that matched, with the first matching text
+ */
+export function applyTextRules(fields: string[], rules: TextRule[] = TEXT_RULES): ModerationFinding[] {
+  const text = fields.filter(Boolean).join('\n')
+  const findings: ModerationFinding[] = []
+
+  for (const rule of rules) {
+    for (const pattern of rule.patterns) {
+      const match = pattern.exec(text)
+      if (match) {
+        findings.push({
+          source: 'rules',
+          code: rule.code,
+          severity: rule.severity,
+          reason: rule.reason,
+          excerpt: match[0],
+        })
+        break
+      }
+    }
+  }
+  return findings
+}
@@ -0,0 +1,27 @@
+/**
+ * Listing Moderation Types
+ *
+ * Shared by the text rules, safety classifiers and the pipeline that
+ * combines them into a verdict (see pipeline.ts).
+ */
+
+/** block hides the listing; review hides it until a moderator looks */
+export type ModerationSeverity = 'block' | 'review'
+
+/** Stored per sui_object_id in moderation_verdicts */
+export type ModerationStatus = 'approved' | 'pending_review' | 'blocked'
+
+export interface ModerationFinding {
+  source: string                      // 'rules' or the classifier's name
+  code: string                        // e.g. 'contact_info', 'weapons'
+  severity: ModerationSeverity
+  reason: string                      // Shown to the seller
+  excerpt?: string                    // Matching text, for rules
+  score?: number                      // 0-1, for classifiers
+}
+
+export interface ModerationVerdict {
+  status: ModerationStatus
+  findings: ModerationFinding[]
+  classifier: string | null           // null: rules only
+}
@@ -0,0 +1,96 @@
+/**
+ * Realtime Broadcaster
+ *
+ * Publishes indexed marketplace events to the per-address / per-item
+ * broadcast channels (see ./topics). Called by the indexer after a page
+ * of events has been projected, so a client that refetches on receipt
+ * already sees the new state. Server-side only.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSupabaseAdminClient } from '../supabase/server'
+import type { MarketplaceEvent } from '../indexer/events'
+import type { OfferRow, ProjectionStore } from '../indexer/store'
+import {
+  MARKETPLACE_BROADCAST_EVENT,
+  offerTopics,
+  resolveEventTopics,
+  type LiveMarketplaceEvent,
+} from './topics'
+
+export interface EventBroadcaster {
+  publish(store: ProjectionStore, events: MarketplaceEvent[]): Promise<void>
+  publishOfferSync(txDigest: string, offers: OfferRow[]): Promise<void>
+}
+
+/**
+ * Broadcasts over Supabase Realtime's HTTP endpoint (no socket needed)
+ */
+export class SupabaseEventBroadcaster implements EventBroadcaster {
+  private client: SupabaseClient
+
+  constructor(client?: SupabaseClient) {
+    this.client = client ?? getSupabaseAdminClient()
+  }
+
+  async publish(store: ProjectionStore, events: MarketplaceEvent[]): Promise<void> {
+    const deliveries: [string, LiveMarketplaceEvent][] = []
+    for (const event of events) {
+      for (const topic of await resolveEventTopics(store, event)) {
+        deliveries.push([topic, event])
+      }
+    }
+
+    await this.send(deliveries)
+  }
+
+  async publishOfferSync(txDigest: string, offers: OfferRow[]): Promise<void> {
+    const deliveries: [string, LiveMarketplaceEvent][] = []
+    offers.forEach((offer, index) => {
+      const event: LiveMarketplaceEvent = {
+        name: 'OfferSynced',
+        data: {
+          offer_id: offer.offer_id,
+          item_id: offer.item_id,
+          buyer: offer.buyer,
+          seller: offer.seller,
+          amount: offer.amount,
+          status: offer.status,
+        },
+        txDigest,
+        eventSeq: `synced-${index}`,
+        timestampMs: offer.updated_at_ms,
+      }
+      for (const topic of offerTopics(offer)) {
+        deliveries.push([topic, event])
+      }
+    })
+
+    await this.send(deliveries)
+  }
+
+  private async send(deliveries: [string, LiveMarketplaceEvent][]): Promise<void> {
+    // Group by topic so each channel gets its events in stream order
+    const byTopic = new Map<string, LiveMarketplaceEvent[]>()
+    for (const [topic, event] of deliveries) {
+      byTopic.set(topic, [...(byTopic.get(topic) ?? []), event])
+    }
+
+    for (const [topic, topicEvents] of byTopic) {
+      const channel = this.client.channel(topic)
+      try {
+        for (const event of topicEvents) {
+          const result = await channel.httpSend(MARKETPLACE_BROADCAST_EVENT, event)
+          if (!result.success) {
+            console.warn(`[SupabaseEventBroadcaster] Failed to publish to ${topic}: ${result.error}`)
+          }
+        }
+      } catch (error) {
+        // Delivery is best-effort; clients still see the state on next load
+        console.warn(`[SupabaseEventBroadcaster] Failed to publish to ${topic}:`, error)
+      } finally {
+        await this.client.removeChannel(channel)
+      }
+    }
+  }
+}
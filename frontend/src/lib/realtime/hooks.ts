@@ -0,0 +1,73 @@
+"use client"
+
+/**
+ * Realtime React hooks
+ *
+ * Subscribe components to the marketplace broadcast channels (see ./topics).
+ * Events arrive after the indexer has projected them, so refetching through
+ * queries.ts on receipt shows the new state. The payload isn't passed on:
+ * anyone can broadcast on these channels, so it can't be trusted.
+ */
+
+import { useEffect, useRef } from 'react'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { MARKETPLACE_BROADCAST_EVENT } from './topics'
+
+let realtimeClient: SupabaseClient | null = null
+
+/**
+ * Lazily created anon client; null when Supabase isn't configured,
+ * in which case the hooks simply never fire.
+ */
+function getRealtimeClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!url || !anonKey) {
+    return null
+  }
+
+  if (!realtimeClient) {
+    realtimeClient = createClient(url, anonKey)
+  }
+
+  return realtimeClient
+}
+
+/**
+ * Call `onChange` whenever a marketplace event is broadcast on the given topics
+ *
+ * @param topics - Topic names from addressTopic()/itemTopic(); falsy entries are skipped
+ * @param onChange - Refetch handler; may change between renders without resubscribing
+ */
+export function useMarketplaceEvents(
+  topics: (string | null | undefined)[],
+  onChange: () => void
+) {
+  const handlerRef = useRef(onChange)
+
+  useEffect(() => {
+    handlerRef.current = onChange
+  }, [onChange])
+
+  const topicKey = topics.filter(Boolean).sort().join('|')
+
+  useEffect(() => {
+    const client = getRealtimeClient()
+    if (!client || !topicKey) return
+
+    const channels = topicKey.split('|').map(topic =>
+      client
+        .channel(topic)
+        .on('broadcast', { event: MARKETPLACE_BROADCAST_EVENT }, () => {
+          handlerRef.current()
+        })
+        .subscribe()
+    )
+
+    return () => {
+      channels.forEach(channel => {
+        void client.removeChannel(channel)
+      })
+    }
+  }, [topicKey])
+}
@@ -0,0 +1,96 @@
+/**
+ * Realtime Topics
+ *
+ * Marketplace events are pushed to the browser over Supabase Realtime
+ * broadcast channels, one per wallet address and one per item:
+ *
+ * - `marketplace:address:<address>` - everything involving that wallet
+ *   (offers on their items, their offers being countered/accepted, sales)
+ * - `marketplace:item:<itemId>` - everything that happens to one listing
+ *
+ * These are public broadcast channels: anyone with the anon key can
+ * subscribe, and send to them too. A received payload is therefore only a
+ * hint that something changed - clients refetch from chain or the
+ * projection (see ./hooks) and never show what the payload claims.
+ */
+
+import type { MarketplaceEvent } from '../indexer/events'
+import type { OfferRow, ProjectionStore } from '../indexer/store'
+
+/** Broadcast event name used on every marketplace channel */
+export const MARKETPLACE_BROADCAST_EVENT = 'marketplace-event'
+
+/**
+ * Pushed when an offer changed through an entry function that emits no
+ * event (accept_offer_by_id, accept_counter_offer_by_id). Carries the
+ * offer's state as re-read from chain.
+ */
+export interface OfferSyncedEvent {
+  name: 'OfferSynced'
+  data: Pick<OfferRow, 'offer_id' | 'item_id' | 'buyer' | 'seller' | 'amount' | 'status'>
+  txDigest: string
+  eventSeq: string
+  timestampMs: string | null
+}
+
+/** Everything that can arrive on a marketplace channel */
+export type LiveMarketplaceEvent = MarketplaceEvent | OfferSyncedEvent
+
+export function addressTopic(address: string): string {
+  return `marketplace:address:${address.toLowerCase()}`
+}
+
+export function itemTopic(itemId: string): string {
+  return `marketplace:item:${itemId.toLowerCase()}`
+}
+
+/**
+ * Channels for a directly synced offer: the item and both parties
+ */
+export function offerTopics(offer: Pick<OfferRow, 'item_id' | 'buyer' | 'seller'>): string[] {
+  return [itemTopic(offer.item_id), addressTopic(offer.buyer), addressTopic(offer.seller)]
+}
+
+/**
+ * Work out which channels an event should be delivered to
+ *
+ * Some events don't name every party (OfferCancelled has no seller,
+ * ItemPriceUpdated has no seller), so those are looked up in the
+ * projection, which already contains the referenced rows.
+ *
+ * @param store - Projection store, used to fill in missing parties
+ * @param event - Decoded marketplace event
+ * @returns Unique topic names
+ */
+export async function resolveEventTopics(
+  store: ProjectionStore,
+  event: MarketplaceEvent
+): Promise<string[]> {
+  const addresses: string[] = []
+
+  switch (event.name) {
+    case 'ItemCreated':
+    case 'ItemCancelled':
+    case 'ItemMarkedAsSold':
+      addresses.push(event.data.seller)
+      break
+
+    case 'ItemPriceUpdated': {
+      const item = await store.get('marketplace_items', event.data.item_id)
+      if (item) addresses.push(item.seller)
+      break
+    }
+
+    case 'OfferCancelled': {
+      addresses.push(event.data.buyer)
+      const offer = await store.get('marketplace_offers', event.data.offer_id)
+      if (offer) addresses.push(offer.seller)
+      break
+    }
+
+    default:
+      addresses.push(event.data.buyer, event.data.seller)
+  }
+
+  return [...new Set([itemTopic(event.data.item_id), ...addresses.map(addressTopic)])]
+}
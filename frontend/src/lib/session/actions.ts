@@ -0,0 +1,77 @@
+/**
+ * Signed Actions
+ *
+ * Routes that write on a seller's behalf (search indexing, linking records)
+ * take a personal message signed for that one request: it names the
+ * action, the signing address and a hash of the exact request payload, so
+ * it can't be replayed for other data or later on. Verified by
+ * verifySignedAction in ./server.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SignedAction {
+  action: string                      // e.g. "index-item"
+  address: string
+  payloadHash: string                 // Hex SHA-256 of the canonical payload
+  issuedAt: string                    // ISO timestamp
+}
+
+/** Sent alongside the payload as `auth` */
+export interface ActionSignature {
+  message: string
+  signature: string
+}
+
+// ============================================
+// MESSAGE
+// ============================================
+
+export function formatActionMessage(action: SignedAction): string {
+  return [
+    `ThriftChain request: ${action.action}`,
+    `Address: ${action.address}`,
+    `Payload: ${action.payloadHash}`,
+    `Issued At: ${action.issuedAt}`,
+  ].join('\n')
+}
+
+/**
+ * @returns The fields, or null if the text isn't an action message
+ */
+export function parseActionMessage(text: string): SignedAction | null {
+  const match = text.match(
+    /^ThriftChain request: ([a-z-]+)\nAddress: (0x[0-9a-fA-F]+)\nPayload: ([0-9a-f]{64})\nIssued At: ([^\n]+)$/
+  )
+  if (!match) {
+    return null
+  }
+
+  const [, action, address, payloadHash, issuedAt] = match
+  return { action, address, payloadHash, issuedAt }
+}
+
+// ============================================
+// PAYLOAD HASH
+// ============================================
+
+/** JSON with object keys sorted, so both sides hash the same bytes */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export async function hashActionPayload(payload: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(payload)))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
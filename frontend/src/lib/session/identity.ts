@@ -0,0 +1,70 @@
+/**
+ * Session Identity
+ *
+ * One shape for "who is the current user", whether they connected a
+ * wallet or signed in with zkLogin, plus the sign-in message that proves
+ * it to the server (see ./server). Shared by the browser and API routes.
+ */
+
+import type { TransactionBytesSigner } from '../sponsor/client'
+import type { TransactionExecutor } from '../transactions/runner'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AuthMethod = 'wallet' | 'zklogin'
+
+/** Signing operations every auth method supports */
+export interface SessionSigner {
+  execute: TransactionExecutor                   // Sign and submit
+  signTransaction: TransactionBytesSigner        // Sign only (sponsored transactions)
+  signPersonalMessage(message: Uint8Array): Promise<{ signature: string }>
+}
+
+export interface SessionIdentity {
+  address: string
+  method: AuthMethod
+  displayName: string | null          // Wallet account label or the OAuth name/email
+  signer: SessionSigner
+}
+
+// ============================================
+// SIGN-IN MESSAGE
+// ============================================
+
+export interface SignInMessage {
+  domain: string
+  address: string
+  issuedAt: string                    // ISO timestamp
+  nonce: string
+}
+
+/**
+ * Text the user signs to start a server session. Human-readable, and bound
+ * to the site, the address and a point in time.
+ */
+export function formatSignInMessage(message: SignInMessage): string {
+  return [
+    `${message.domain} wants you to sign in to ThriftChain with your Sui account:`,
+    message.address,
+    '',
+    `Issued At: ${message.issuedAt}`,
+    `Nonce: ${message.nonce}`,
+  ].join('\n')
+}
+
+/**
+ * @returns The fields, or null if the text isn't a sign-in message
+ */
+export function parseSignInMessage(text: string): SignInMessage | null {
+  const match = text.match(
+    /^(\S+) wants you to sign in to ThriftChain with your Sui account:\n(0x[0-9a-fA-F]+)\n\nIssued At: ([^\n]+)\nNonce: ([A-Za-z0-9]+)$/
+  )
+  if (!match) {
+    return null
+  }
+
+  const [, domain, address, issuedAt, nonce] = match
+  return { domain, address, issuedAt, nonce }
+}
@@ -0,0 +1,207 @@
+"use client"
+
+/**
+ * Session Provider
+ *
+ * Resolves the current user from whichever auth method is active: a
+ * connected wallet takes precedence, otherwise the tab's zkLogin session.
+ * Components read it through useSession instead of useWallet, so social
+ * login users see and can do the same things as wallet users.
+ */
+
+import { createContext, useCallback, useContext, useMemo, useRef, type ReactNode } from 'react'
+import { useWallet } from '@suiet/wallet-kit'
+import { normalizeSuiAddress, toHex } from '@mysten/sui/utils'
+import { suiClient } from '../sui/client'
+import { keypairExecutor } from '../transactions/runner'
+import { useZkLogin } from '../zklogin/hooks'
+import type { ZkLoginSigner } from '../zklogin/signer'
+import { formatActionMessage, hashActionPayload, type ActionSignature } from './actions'
+import { formatSignInMessage, type SessionIdentity, type SessionSigner } from './identity'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SessionContextValue {
+  identity: SessionIdentity | null
+  address: string | null
+  connected: boolean
+  status: 'connecting' | 'connected' | 'disconnected'
+  signOut: () => Promise<void>
+  /**
+   * Make sure API routes see this identity (see lib/session/server),
+   * asking it to sign a sign-in message if the server has no session for it
+   */
+  ensureServerSession: () => Promise<void>
+  /**
+   * Sign a single write request (see lib/session/actions), to be sent
+   * with `payload` as its `auth` field
+   */
+  signAction: (action: string, payload: unknown) => Promise<ActionSignature>
+}
+
+// ============================================
+// SIGNERS
+// ============================================
+
+type WalletFunctions = Pick<
+  ReturnType<typeof useWallet>,
+  'signAndExecuteTransaction' | 'signTransaction' | 'signPersonalMessage'
+>
+
+function walletSessionSigner(wallet: WalletFunctions): SessionSigner {
+  return {
+    execute: async (tx) => {
+      const { digest } = await wallet.signAndExecuteTransaction({ transaction: tx })
+      return { digest }
+    },
+    signTransaction: transaction => wallet.signTransaction({ transaction }),
+    signPersonalMessage: message => wallet.signPersonalMessage({ message }),
+  }
+}
+
+function zkLoginSessionSigner(signer: ZkLoginSigner): SessionSigner {
+  return {
+    execute: keypairExecutor(signer),
+    signTransaction: async transaction => signer.signTransaction(await transaction.build({ client: suiClient })),
+    signPersonalMessage: message => signer.signPersonalMessage(message),
+  }
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+const SessionContext = createContext<SessionContextValue | null>(null)
+
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const {
+    connected: walletConnected,
+    account,
+    status: walletStatus,
+    disconnect,
+    signAndExecuteTransaction,
+    signTransaction,
+    signPersonalMessage,
+  } = useWallet()
+  const zkLogin = useZkLogin()
+  const serverSessionRef = useRef<string | null>(null)
+
+  const identity = useMemo((): SessionIdentity | null => {
+    if (walletConnected && account) {
+      return {
+        address: account.address,
+        method: 'wallet',
+        displayName: account.label ?? null,
+        signer: walletSessionSigner({ signAndExecuteTransaction, signTransaction, signPersonalMessage }),
+      }
+    }
+
+    if (zkLogin.session && zkLogin.signer) {
+      return {
+        address: zkLogin.session.address,
+        method: 'zklogin',
+        displayName: zkLogin.session.displayName,
+        signer: zkLoginSessionSigner(zkLogin.signer),
+      }
+    }
+
+    return null
+  }, [
+    walletConnected,
+    account,
+    signAndExecuteTransaction,
+    signTransaction,
+    signPersonalMessage,
+    zkLogin.session,
+    zkLogin.signer,
+  ])
+
+  const { signOut: zkLoginSignOut } = zkLogin
+  const method = identity?.method
+
+  const signOut = useCallback(async () => {
+    serverSessionRef.current = null
+    await fetch('/api/session', { method: 'DELETE' }).catch(() => undefined)
+
+    if (method === 'wallet') {
+      await disconnect()
+    } else if (method === 'zklogin') {
+      zkLoginSignOut()
+    }
+  }, [method, disconnect, zkLoginSignOut])
+
+  const ensureServerSession = useCallback(async () => {
+    if (!identity) {
+      throw new Error('Connect your wallet or sign in first')
+    }
+    if (serverSessionRef.current === identity.address) {
+      return
+    }
+
+    const current = await fetch('/api/session')
+      .then(response => (response.ok ? response.json() as Promise<{ address: string }> : null))
+      .catch(() => null)
+
+    if (current?.address !== normalizeSuiAddress(identity.address)) {
+      const message = formatSignInMessage({
+        domain: window.location.host,
+        address: identity.address,
+        issuedAt: new Date().toISOString(),
+        nonce: toHex(crypto.getRandomValues(new Uint8Array(8))),
+      })
+      const { signature } = await identity.signer.signPersonalMessage(new TextEncoder().encode(message))
+
+      const response = await fetch('/api/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || `Sign-in failed (${response.status})`)
+      }
+    }
+
+    serverSessionRef.current = identity.address
+  }, [identity])
+
+  const signAction = useCallback(async (action: string, payload: unknown): Promise<ActionSignature> => {
+    if (!identity) {
+      throw new Error('Connect your wallet or sign in first')
+    }
+
+    const message = formatActionMessage({
+      action,
+      address: identity.address,
+      payloadHash: await hashActionPayload(payload),
+      issuedAt: new Date().toISOString(),
+    })
+    const { signature } = await identity.signer.signPersonalMessage(new TextEncoder().encode(message))
+    return { message, signature }
+  }, [identity])
+
+  const value = useMemo((): SessionContextValue => ({
+    identity,
+    address: identity?.address ?? null,
+    connected: identity !== null,
+    status: identity ? 'connected' : walletStatus === 'connecting' ? 'connecting' : 'disconnected',
+    signOut,
+    ensureServerSession,
+    signAction,
+  }), [identity, walletStatus, signOut, ensureServerSession, signAction])
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
+
+/**
+ * Current user, from any auth method. Must be used under SessionProvider.
+ */
+export function useSession(): SessionContextValue {
+  const value = useContext(SessionContext)
+  if (!value) {
+    throw new Error('useSession must be used inside SessionProvider')
+  }
+  return value
+}
@@ -0,0 +1,240 @@
+/**
+ * Server Sessions
+ *
+ * API routes that act for an address need to know the caller controls it.
+ * The browser signs a sign-in message (./identity) once with its wallet or
+ * zkLogin key; POST /api/session verifies that signature and sets an
+ * HMAC-signed, httpOnly cookie naming the address. Routes then call
+ * getServerSession and compare the address they are about to act for.
+ *
+ * Single writes on a seller's behalf use a per-request signature instead
+ * (./actions, verifySignedAction).
+ *
+ * SESSION_SECRET signs the cookies. Without it, development servers use a
+ * per-process secret (sessions end on restart) and production refuses.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+import { parseSerializedSignature } from '@mysten/sui/cryptography'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify'
+import type { SuiClient } from '@mysten/sui/client'
+import { suiClient } from '../sui/client'
+import { hashActionPayload, parseActionMessage, type ActionSignature } from './actions'
+import { parseSignInMessage, type AuthMethod } from './identity'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const SESSION_COOKIE = 'thriftchain_session'
+const SESSION_TTL_SECONDS = 24 * 60 * 60
+const SIGNED_MESSAGE_MAX_AGE_MS = 5 * 60 * 1000
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ServerSession {
+  address: string                     // Normalized
+  method: AuthMethod
+  expiresAt: number                   // Seconds since epoch
+}
+
+export class SessionError extends Error {
+  constructor(message: string, readonly status = 401) {
+    super(message)
+    this.name = 'SessionError'
+  }
+}
+
+// ============================================
+// TOKENS
+// ============================================
+
+let developmentSecret: string | null = null
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new SessionError('Sessions are not configured (SESSION_SECRET)', 503)
+  }
+  developmentSecret ??= randomBytes(32).toString('hex')
+  return developmentSecret
+}
+
+function mac(payload: string): string {
+  return createHmac('sha256', sessionSecret()).update(payload).digest('base64url')
+}
+
+export function encodeSessionToken(session: ServerSession): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url')
+  return `${payload}.${mac(payload)}`
+}
+
+/**
+ * @returns The session, or null if the token is malformed, forged or expired
+ */
+export function decodeSessionToken(token: string, now = Date.now()): ServerSession | null {
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(mac(payload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as ServerSession
+    return session.expiresAt * 1000 > now ? session : null
+  } catch {
+    return null
+  }
+}
+
+// ============================================
+// SIGNATURES
+// ============================================
+
+function isFresh(issuedAt: string, now: number): boolean {
+  const time = Date.parse(issuedAt)
+  return !Number.isNaN(time) && time <= now + 60_000 && now - time <= SIGNED_MESSAGE_MAX_AGE_MS
+}
+
+async function assertSignedBy(text: string, signature: string, address: string, client?: SuiClient): Promise<void> {
+  try {
+    await verifyPersonalMessageSignature(new TextEncoder().encode(text), signature, {
+      address,
+      client: client ?? suiClient,
+    })
+  } catch {
+    throw new SessionError('Signature does not match the address')
+  }
+}
+
+// ============================================
+// SIGN-IN
+// ============================================
+
+/**
+ * Check a signed sign-in message and create the session it proves
+ *
+ * @param text - The exact message text that was signed
+ * @param signature - Serialized personal-message signature (wallet or zkLogin)
+ * @param options - Expected domain; `client` verifies zkLogin signatures
+ * @throws SessionError (401) when the message is stale, for another site, or not signed by its address
+ */
+export async function verifySignIn(
+  text: string,
+  signature: string,
+  options: { domain: string; now?: number; client?: SuiClient }
+): Promise<ServerSession> {
+  const message = parseSignInMessage(text)
+  if (!message) {
+    throw new SessionError('Not a ThriftChain sign-in message', 400)
+  }
+  if (message.domain !== options.domain) {
+    throw new SessionError('Sign-in message is for a different site')
+  }
+
+  const now = options.now ?? Date.now()
+  if (!isFresh(message.issuedAt, now)) {
+    throw new SessionError('Sign-in message has expired, please sign again')
+  }
+
+  const address = normalizeSuiAddress(message.address)
+  await assertSignedBy(text, signature, address, options.client)
+
+  return {
+    address,
+    method: parseSerializedSignature(signature).signatureScheme === 'ZkLogin' ? 'zklogin' : 'wallet',
+    expiresAt: Math.floor(now / 1000) + SESSION_TTL_SECONDS,
+  }
+}
+
+// ============================================
+// SIGNED ACTIONS
+// ============================================
+
+/**
+ * Check that a request was signed by `expected.address` for exactly this
+ * action and payload
+ *
+ * @param auth - The `auth` field of the request body
+ * @param expected - Action name, required signer and the payload as received
+ * @throws SessionError (401 unsigned or mismatched, 403 signed by someone else)
+ */
+export async function verifySignedAction(
+  auth: unknown,
+  expected: { action: string; address: string; payload: unknown },
+  options: { now?: number; client?: SuiClient } = {}
+): Promise<void> {
+  const { message: text, signature } = (auth ?? {}) as Partial<ActionSignature>
+  if (typeof text !== 'string' || typeof signature !== 'string') {
+    throw new SessionError('Request must be signed by the seller')
+  }
+
+  const message = parseActionMessage(text)
+  if (!message || message.action !== expected.action) {
+    throw new SessionError('Signature is for a different request')
+  }
+  if (normalizeSuiAddress(message.address) !== normalizeSuiAddress(expected.address)) {
+    throw new SessionError('Request must be signed by the seller', 403)
+  }
+  if (!isFresh(message.issuedAt, options.now ?? Date.now())) {
+    throw new SessionError('Request signature has expired, please sign again')
+  }
+  if (message.payloadHash !== await hashActionPayload(expected.payload)) {
+    throw new SessionError('Signature does not cover this request')
+  }
+
+  await assertSignedBy(text, signature, normalizeSuiAddress(expected.address), options.client)
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * Session of the calling browser, if it has signed in
+ */
+export function getServerSession(request: NextRequest): ServerSession | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  if (!token) {
+    return null
+  }
+
+  try {
+    return decodeSessionToken(token)
+  } catch (error) {
+    console.error('[getServerSession] Cannot verify session cookie:', error)
+    return null
+  }
+}
+
+/**
+ * Whether the session may act for `address`
+ */
+export function sessionOwnsAddress(session: ServerSession | null, address: string): boolean {
+  return session !== null && session.address === normalizeSuiAddress(address)
+}
+
+export function setSessionCookie(response: NextResponse, session: ServerSession): void {
+  response.cookies.set(SESSION_COOKIE, encodeSessionToken(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: session.expiresAt - Math.floor(Date.now() / 1000),
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.delete(SESSION_COOKIE)
+}
@@ -0,0 +1,183 @@
+/**
+ * Gas Sponsor Backends
+ *
+ * The sponsorship API only decides *whether* to sponsor (./policy); a
+ * backend does the paying. Enoki is used in deployments; a local keypair
+ * stands in for tests and local development so sponsorship works without
+ * an Enoki app.
+ *
+ * Both follow the same two steps: `sponsor` turns the user's transaction
+ * kind into full transaction bytes with the sponsor as gas owner, the user
+ * signs those bytes, and `execute` submits them with both signatures.
+ */
+
+import type { SuiClient } from '@mysten/sui/client'
+import type { Signer } from '@mysten/sui/cryptography'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import { toBase64 } from '@mysten/sui/utils'
+import { suiClient } from '../sui/client'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SponsorRequest {
+  sender: string
+  transactionKindBytes: string        // Base64
+  allowedMoveCallTargets: string[]    // Already checked by the policy; backends may enforce again
+}
+
+export interface SponsoredTransaction {
+  bytes: string                       // Base64 transaction bytes for the user to sign
+  digest: string
+}
+
+export interface SponsorBackend {
+  readonly name: string
+  sponsor(request: SponsorRequest): Promise<SponsoredTransaction>
+  execute(digest: string, userSignature: string): Promise<{ digest: string }>
+}
+
+export class SponsorError extends Error {
+  constructor(message: string, readonly status = 502) {
+    super(message)
+    this.name = 'SponsorError'
+  }
+}
+
+// ============================================
+// ENOKI
+// ============================================
+
+export class EnokiSponsorBackend implements SponsorBackend {
+  readonly name = 'enoki'
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly network: 'testnet' | 'mainnet' | 'devnet' = 'testnet'
+  ) {}
+
+  private async client() {
+    const { EnokiClient } = await import('@mysten/enoki')
+    return new EnokiClient({ apiKey: this.apiKey })
+  }
+
+  async sponsor(request: SponsorRequest): Promise<SponsoredTransaction> {
+    const client = await this.client()
+    const { bytes, digest } = await client.createSponsoredTransaction({
+      network: this.network,
+      transactionKindBytes: request.transactionKindBytes,
+      sender: request.sender,
+      allowedMoveCallTargets: request.allowedMoveCallTargets,
+    })
+    return { bytes, digest }
+  }
+
+  async execute(digest: string, userSignature: string): Promise<{ digest: string }> {
+    const client = await this.client()
+    return client.executeSponsoredTransaction({ digest, signature: userSignature })
+  }
+}
+
+// ============================================
+// LOCAL KEYPAIR
+// ============================================
+
+const PENDING_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Pays gas from a keypair held by the server. Sponsored bytes and the
+ * sponsor's signature are kept in memory until the user's signature
+ * arrives, so `execute` must reach the same server instance.
+ */
+export class KeypairSponsorBackend implements SponsorBackend {
+  readonly name = 'keypair'
+  private readonly pending = new Map<string, { bytes: string; signature: string; expiresAt: number }>()
+
+  constructor(
+    private readonly signer: Signer,
+    private readonly client: SuiClient = suiClient
+  ) {}
+
+  async sponsor(request: SponsorRequest): Promise<SponsoredTransaction> {
+    const tx = Transaction.fromKind(request.transactionKindBytes)
+    tx.setSender(request.sender)
+    tx.setGasOwner(this.signer.toSuiAddress())
+
+    const built = await tx.build({ client: this.client })
+    const { signature } = await this.signer.signTransaction(built)
+    const digest = await tx.getDigest()
+    const bytes = toBase64(built)
+
+    this.prune()
+    this.pending.set(digest, { bytes, signature, expiresAt: Date.now() + PENDING_TTL_MS })
+
+    return { bytes, digest }
+  }
+
+  async execute(digest: string, userSignature: string): Promise<{ digest: string }> {
+    const entry = this.pending.get(digest)
+    if (!entry || entry.expiresAt < Date.now()) {
+      throw new SponsorError('Unknown or expired sponsored transaction', 404)
+    }
+    this.pending.delete(digest)
+
+    const result = await this.client.executeTransactionBlock({
+      transactionBlock: entry.bytes,
+      signature: [userSignature, entry.signature],
+    })
+    return { digest: result.digest }
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [digest, entry] of this.pending) {
+      if (entry.expiresAt < now) {
+        this.pending.delete(digest)
+      }
+    }
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let backend: SponsorBackend | null | undefined
+
+/**
+ * Backend chosen from the environment:
+ *   SPONSOR_BACKEND=enoki   (default when ENOKI_API_KEY is set)
+ *   SPONSOR_BACKEND=keypair (uses SPONSOR_PRIVATE_KEY, a suiprivkey… string)
+ *
+ * @returns The backend, or null when sponsorship isn't configured
+ */
+export function getSponsorBackend(): SponsorBackend | null {
+  if (backend !== undefined) {
+    return backend
+  }
+
+  const choice = process.env.SPONSOR_BACKEND ?? (process.env.ENOKI_API_KEY ? 'enoki' : 'keypair')
+
+  if (choice === 'enoki' && process.env.ENOKI_API_KEY) {
+    const network = process.env.NEXT_PUBLIC_SUI_NETWORK
+    backend = new EnokiSponsorBackend(
+      process.env.ENOKI_API_KEY,
+      network === 'mainnet' || network === 'devnet' ? network : 'testnet'
+    )
+  } else if (choice === 'keypair' && process.env.SPONSOR_PRIVATE_KEY) {
+    backend = new KeypairSponsorBackend(Ed25519Keypair.fromSecretKey(process.env.SPONSOR_PRIVATE_KEY))
+  } else {
+    backend = null
+  }
+
+  return backend
+}
+
+/**
+ * Replace the backend (tests)
+ */
+export function setSponsorBackend(next: SponsorBackend | null): void {
+  backend = next
+}
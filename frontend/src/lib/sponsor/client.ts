@@ -0,0 +1,61 @@
+/**
+ * Sponsored execution from the browser
+ *
+ * Sends only the transaction kind to POST /api/sponsor, has the wallet
+ * sign the sponsored bytes that come back, and submits the signature via
+ * POST /api/sponsor/execute. Plugs into the transaction runner as an
+ * executor, so retries, history and toasts work as for normal signing.
+ */
+
+import { Transaction } from '@mysten/sui/transactions'
+import { toBase64 } from '@mysten/sui/utils'
+import { suiClient } from '../sui/client'
+import type { TransactionExecutor } from '../transactions/runner'
+
+/** Set NEXT_PUBLIC_GAS_SPONSORSHIP=true when /api/sponsor has a backend configured */
+export const GAS_SPONSORSHIP_ENABLED = process.env.NEXT_PUBLIC_GAS_SPONSORSHIP === 'true'
+
+/** Signs full transaction bytes without executing them (wallet signTransaction) */
+export type TransactionBytesSigner = (tx: Transaction) => Promise<{ signature: string }>
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `Sponsorship request failed (${response.status})`)
+  }
+  return data as T
+}
+
+/**
+ * Executor that has the marketplace pay gas
+ *
+ * Transactions must not use `tx.gas` (it is the sponsor's coin); take
+ * payments from the user's own coins with `coinWithBalance` instead.
+ *
+ * @param sender - Address of the signing user
+ * @param sign - Wallet signTransaction
+ */
+export function sponsoredExecutor(sender: string, sign: TransactionBytesSigner): TransactionExecutor {
+  return async (tx) => {
+    tx.setSenderIfNotSet(sender)
+    const kind = await tx.build({ client: suiClient, onlyTransactionKind: true })
+
+    const sponsored = await postJson<{ bytes: string; digest: string }>('/api/sponsor', {
+      sender,
+      transactionKindBytes: toBase64(kind),
+    })
+
+    const { signature } = await sign(Transaction.from(sponsored.bytes))
+
+    return postJson<{ digest: string }>('/api/sponsor/execute', {
+      digest: sponsored.digest,
+      signature,
+    })
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Sponsorship Policy
+ *
+ * Decides whether a transaction kind may have its gas paid by the
+ * marketplace. Only ThriftChain entry functions on the allowlist are
+ * sponsored, and nothing may touch the gas coin: in a sponsored
+ * transaction that coin belongs to the sponsor, so splitting an offer
+ * payment from it would spend marketplace funds.
+ *
+ * The same goes for every other object the sponsor owns, since the sponsor
+ * signs the whole transaction: a kind listing a second sponsor coin as an
+ * input could split an offer payment from it and cancel the offer to keep
+ * the funds. checkSponsorInputs therefore resolves the object inputs and
+ * only allows shared and immutable objects and the sender's own.
+ */
+
+import type { SuiClient, ObjectOwner } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { entryFunctionOfCall, type ThriftchainEntryFunction } from '../sui/contract'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Entry functions a user may call with sponsored gas
+ */
+export const SPONSORED_FUNCTIONS: readonly ThriftchainEntryFunction[] = [
+  'create_item',
+  'update_item_price_by_id',
+  'cancel_item_by_id',
+  'create_offer_by_id',
+  'counter_offer_by_id',
+  'accept_counter_offer_by_id',
+  'cancel_offer_by_id',
+  'reject_offer_by_id',
+  'accept_offer_by_id',
+  'confirm_delivery_by_id',
+]
+
+/** Commands allowed besides the move calls themselves (coin plumbing for payments) */
+const ALLOWED_COMMANDS = new Set(['MoveCall', 'SplitCoins', 'MergeCoins', 'MakeMoveVec'])
+
+const MAX_COMMANDS = 8
+
+/** multiGetObjects takes at most 50 ids; no marketplace transaction needs more inputs */
+const MAX_OBJECT_INPUTS = 50
+
+// ============================================
+// CHECK
+// ============================================
+
+export type SponsorshipDecision =
+  | { allowed: true; functions: ThriftchainEntryFunction[] }
+  | { allowed: false; reason: string }
+
+function usesGasCoin(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  if ((value as { $kind?: string }).$kind === 'GasCoin') {
+    return true
+  }
+  return Object.values(value).some(usesGasCoin)
+}
+
+/**
+ * Check transaction kind bytes against the sponsorship allowlist
+ *
+ * @param transactionKindBytes - Base64 kind bytes (built with `onlyTransactionKind: true`)
+ * @param allowlist - Sponsorable entry functions
+ * @returns The called functions, or why the transaction can't be sponsored
+ */
+export function checkSponsorshipPolicy(
+  transactionKindBytes: string,
+  allowlist: readonly ThriftchainEntryFunction[] = SPONSORED_FUNCTIONS
+): SponsorshipDecision {
+  let commands: ReturnType<Transaction['getData']>['commands']
+  try {
+    commands = Transaction.fromKind(transactionKindBytes).getData().commands
+  } catch {
+    return { allowed: false, reason: 'Transaction kind bytes could not be decoded' }
+  }
+
+  if (commands.length === 0 || commands.length > MAX_COMMANDS) {
+    return { allowed: false, reason: `Transactions must have between 1 and ${MAX_COMMANDS} commands` }
+  }
+
+  const functions: ThriftchainEntryFunction[] = []
+  for (const command of commands) {
+    if (!ALLOWED_COMMANDS.has(command.$kind)) {
+      return { allowed: false, reason: `${command.$kind} commands are not sponsored` }
+    }
+
+    if (usesGasCoin(command)) {
+      return { allowed: false, reason: 'Sponsored transactions cannot use the gas coin' }
+    }
+
+    if (command.MoveCall) {
+      const name = entryFunctionOfCall(command.MoveCall)
+      if (!name || !allowlist.includes(name as ThriftchainEntryFunction)) {
+        const { package: pkg, module, function: fn } = command.MoveCall
+        return { allowed: false, reason: `${pkg}::${module}::${fn} is not sponsored` }
+      }
+      functions.push(name as ThriftchainEntryFunction)
+    }
+  }
+
+  if (functions.length === 0) {
+    return { allowed: false, reason: 'Transaction does not call the marketplace' }
+  }
+
+  return { allowed: true, functions }
+}
+
+// ============================================
+// INPUT OWNERSHIP
+// ============================================
+
+function ownerAllows(owner: ObjectOwner | null | undefined, sender: string): boolean {
+  if (!owner) {
+    return false
+  }
+  if (owner === 'Immutable' || 'Shared' in owner) {
+    return true
+  }
+  return 'AddressOwner' in owner && normalizeSuiAddress(owner.AddressOwner) === sender
+}
+
+/**
+ * Check that every object input of a transaction kind is shared, immutable
+ * or owned by the sender, so the sponsor's signature can't spend anything
+ * of the sponsor's besides gas
+ *
+ * @param transactionKindBytes - Base64 kind bytes that passed checkSponsorshipPolicy
+ * @param sender - Address the transaction is sponsored for
+ * @param client - Sui client the inputs are resolved with
+ * @returns null when every input may be used, or why the transaction can't be sponsored
+ */
+export async function checkSponsorInputs(
+  transactionKindBytes: string,
+  sender: string,
+  client: SuiClient
+): Promise<string | null> {
+  let inputs: ReturnType<Transaction['getData']>['inputs']
+  try {
+    inputs = Transaction.fromKind(transactionKindBytes).getData().inputs
+  } catch {
+    return 'Transaction kind bytes could not be decoded'
+  }
+
+  const ids: string[] = []
+  for (const input of inputs) {
+    if (input.Pure) {
+      continue
+    }
+    const object = input.Object?.ImmOrOwnedObject ?? input.Object?.SharedObject
+    if (!object) {
+      return 'Sponsored transactions can only take pure values, shared objects and the sender\'s own objects'
+    }
+    ids.push(object.objectId)
+  }
+
+  if (ids.length === 0) {
+    return null
+  }
+  if (ids.length > MAX_OBJECT_INPUTS) {
+    return `Sponsored transactions can take at most ${MAX_OBJECT_INPUTS} objects`
+  }
+
+  const owner = normalizeSuiAddress(sender)
+  const objects = await client.multiGetObjects({ ids, options: { showOwner: true } })
+  for (const [index, id] of ids.entries()) {
+    if (!ownerAllows(objects[index]?.data?.owner, owner)) {
+      return `Object ${id} is not owned by the sender`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,70 @@
+/**
+ * Sliding-window rate limiter
+ *
+ * Kept in process memory, so limits apply per server instance and reset
+ * on restart. Key it on an address the caller has proven (the session's),
+ * never on one taken from the request body, or every fresh keypair gets a
+ * full quota. Public routes with no session key on clientIp instead.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number                // 0 when allowed
+}
+
+const SWEEP_THRESHOLD = 10_000
+
+export class SlidingWindowRateLimiter {
+  private readonly hits = new Map<string, number[]>()
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Record a hit for `key` if it is under the limit
+   *
+   * @param key - e.g. a sender address
+   * @param now - Current time (injectable for tests)
+   */
+  take(key: string, now = Date.now()): RateLimitResult {
+    if (this.hits.size > SWEEP_THRESHOLD) {
+      this.sweep(now)
+    }
+
+    const recent = (this.hits.get(key) ?? []).filter(time => time > now - this.windowMs)
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent)
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + this.windowMs - now }
+    }
+
+    recent.push(now)
+    this.hits.set(key, recent)
+    return { allowed: true, remaining: this.limit - recent.length, retryAfterMs: 0 }
+  }
+
+  /** Forget keys with no hits left in the window */
+  private sweep(now: number): void {
+    for (const [key, times] of this.hits) {
+      if (times[times.length - 1] <= now - this.windowMs) {
+        this.hits.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * The caller's IP, for limiting routes that don't need a session
+ *
+ * Takes the first X-Forwarded-For entry, which the hosting proxy (Vercel,
+ * most load balancers) sets to the connecting client. Without a proxy in
+ * front the header is the caller's to choose, so such limits only slow
+ * down naive clients.
+ */
+export function clientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || headers.get('x-real-ip')?.trim() || 'unknown'
+}
@@ -0,0 +1,125 @@
+/**
+ * ThriftChain Abort Codes
+ *
+ * thriftchain.move asserts with bare numeric codes. This catalogue gives
+ * each one a stable name and a message fit for a toast. The `_by_id`
+ * variants reuse the codes of the functions they mirror, so one entry
+ * covers both.
+ *
+ * Every `assert!` code in the Move source must appear here;
+ * test-abort-codes.mjs fails otherwise.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AbortCodeInfo {
+  code: number
+  name: string                        // e.g. "OFFER_NOT_PENDING"
+  message: string                     // User-facing explanation
+}
+
+// ============================================
+// CATALOGUE
+// ============================================
+
+const entry = (code: number, name: string, message: string): AbortCodeInfo => ({ code, name, message })
+
+export const THRIFTCHAIN_ABORT_CODES: Readonly<Record<number, AbortCodeInfo>> = {
+  // create_item
+  0: entry(0, 'PRICE_NOT_POSITIVE', 'The price must be greater than zero.'),
+  1: entry(1, 'TITLE_EMPTY', 'The title cannot be empty.'),
+  2: entry(2, 'DESCRIPTION_EMPTY', 'The description cannot be empty.'),
+
+  // update_item_price
+  3: entry(3, 'NOT_ITEM_SELLER_UPDATE', 'Only the seller can change the price of this item.'),
+  4: entry(4, 'ITEM_NOT_ACTIVE_UPDATE', 'This item is no longer listed, so its price cannot be changed.'),
+  5: entry(5, 'NEW_PRICE_NOT_POSITIVE', 'The new price must be greater than zero.'),
+
+  // cancel_item
+  6: entry(6, 'NOT_ITEM_SELLER_CANCEL', 'Only the seller can cancel this listing.'),
+  7: entry(7, 'ITEM_NOT_ACTIVE_CANCEL', 'This listing has already been sold or cancelled.'),
+
+  // mark_as_sold
+  8: entry(8, 'ITEM_NOT_ACTIVE_SOLD', 'This item has already been sold or cancelled.'),
+
+  // create_offer
+  9: entry(9, 'OFFER_AMOUNT_NOT_POSITIVE', 'The offer amount must be greater than zero.'),
+  10: entry(10, 'OFFER_ON_OWN_ITEM', 'You cannot make an offer on your own item.'),
+  11: entry(11, 'ITEM_NOT_ACTIVE_OFFER', 'This item is no longer available for offers.'),
+  12: entry(12, 'OFFER_EXPIRY_MISSING', 'The offer needs an expiration time.'),
+  13: entry(13, 'OFFER_EXPIRY_TOO_LONG', 'Offers can last at most 7 days.'),
+
+  // counter_offer
+  14: entry(14, 'NOT_OFFER_SELLER_COUNTER', 'Only the seller can counter this offer.'),
+  15: entry(15, 'OFFER_NOT_PENDING_COUNTER', 'This offer has already been answered, so it cannot be countered.'),
+  16: entry(16, 'COUNTER_AMOUNT_NOT_POSITIVE', 'The counter amount must be greater than zero.'),
+  17: entry(17, 'COUNTER_AMOUNT_UNCHANGED', 'The counter amount must differ from the original offer.'),
+  18: entry(18, 'OFFER_EXPIRED_COUNTER', 'This offer has expired.'),
+
+  // accept_counter_offer
+  19: entry(19, 'NOT_OFFER_BUYER_ACCEPT_COUNTER', 'Only the buyer who made the offer can accept the counter.'),
+  20: entry(20, 'OFFER_NOT_COUNTERED', 'This offer has no pending counter to accept.'),
+  21: entry(21, 'NOT_A_COUNTER_OFFER', 'This offer has no pending counter to accept.'),
+  22: entry(22, 'OFFER_EXPIRED_ACCEPT_COUNTER', 'This counter offer has expired.'),
+
+  // cancel_offer
+  23: entry(23, 'NOT_OFFER_BUYER_CANCEL', 'Only the buyer who made the offer can cancel it.'),
+  24: entry(24, 'OFFER_NOT_OPEN_CANCEL', 'This offer has already been accepted, rejected or cancelled.'),
+  25: entry(25, 'OFFER_EXPIRED_CANCEL', 'This offer has expired.'),
+
+  // reject_offer
+  26: entry(26, 'NOT_OFFER_SELLER_REJECT', 'Only the seller can reject this offer.'),
+  27: entry(27, 'OFFER_NOT_PENDING_REJECT', 'This offer has already been answered.'),
+  28: entry(28, 'OFFER_EXPIRED_REJECT', 'This offer has expired.'),
+
+  // accept_offer
+  29: entry(29, 'NOT_OFFER_SELLER_ACCEPT', 'Only the seller can accept this offer.'),
+  30: entry(30, 'OFFER_NOT_OPEN_ACCEPT', 'This offer has already been accepted, rejected or cancelled.'),
+  31: entry(31, 'ITEM_NOT_ACTIVE_ACCEPT', 'This item has already been sold or cancelled.'),
+  32: entry(32, 'OFFER_EXPIRED_ACCEPT', 'This offer has expired.'),
+
+  // confirm_delivery
+  33: entry(33, 'NOT_ESCROW_BUYER_CONFIRM', 'Only the buyer can confirm delivery.'),
+  34: entry(34, 'ESCROW_NOT_ACTIVE_CONFIRM', 'This purchase has already been completed, disputed or refunded.'),
+  35: entry(35, 'ITEM_NOT_ACTIVE_CONFIRM', 'This item has already been marked as sold.'),
+
+  // dispute_escrow
+  36: entry(36, 'NOT_ESCROW_BUYER_DISPUTE', 'Only the buyer can open a dispute.'),
+  37: entry(37, 'ESCROW_NOT_ACTIVE_DISPUTE', 'This purchase can no longer be disputed.'),
+
+  // refund_escrow
+  38: entry(38, 'NOT_ESCROW_SELLER_REFUND', 'Only the seller can refund this purchase.'),
+  39: entry(39, 'ESCROW_NOT_DISPUTED', 'Only disputed purchases can be refunded.'),
+
+  // create_offer_by_id, accept_offer_by_id_with_payment
+  40: entry(40, 'PAYMENT_AMOUNT_MISMATCH', 'The payment does not match the offer amount.'),
+}
+
+/**
+ * Aborts raised by framework modules the contract calls into, keyed by
+ * `module:code`. Table lookups of unknown IDs end up here.
+ */
+const FRAMEWORK_ABORT_CODES: Readonly<Record<string, AbortCodeInfo>> = {
+  'dynamic_field:1': entry(1, 'NOT_FOUND', 'That item, offer or purchase no longer exists.'),
+  'balance:2': entry(2, 'INSUFFICIENT_BALANCE', 'Not enough SUI to cover this payment.'),
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Look up the meaning of a Move abort
+ *
+ * @param moduleName - Aborting module name (null if the message didn't say)
+ * @param code - Abort code
+ * @returns Catalogue entry, or null for unknown modules and codes
+ */
+export function describeAbortCode(moduleName: string | null, code: number): AbortCodeInfo | null {
+  if (moduleName === null || moduleName === 'thriftchain') {
+    return THRIFTCHAIN_ABORT_CODES[code] ?? null
+  }
+  return FRAMEWORK_ABORT_CODES[`${moduleName}:${code}`] ?? null
+}
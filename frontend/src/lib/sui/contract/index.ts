@@ -0,0 +1,47 @@
+/**
+ * ThriftChain Contract Client
+ *
+ * The one way to call `thriftchain::thriftchain` entry functions:
+ *
+ *   const tx = buildContractTransaction(tx =>
+ *     thriftchain.acceptOfferById(tx, { offerId, itemId })
+ *   )
+ *
+ * Builders are generated from the Move source (see thriftchain.generated.ts),
+ * so their argument types always follow the contract signatures.
+ */
+
+import { Transaction } from '@mysten/sui/transactions'
+
+export * as thriftchain from './thriftchain.generated'
+export { THRIFTCHAIN_ABI, type ThriftchainEntryFunction } from './thriftchain.generated'
+export {
+  ContractArgumentError,
+  decodeContractEvents,
+  entryFunctionOfCall,
+  entryFunctionTarget,
+  findContractEvent,
+  type EntryFunctionAbi,
+  type MoveInteger,
+  type MoveParam,
+} from './runtime'
+export { describeAbortCode, THRIFTCHAIN_ABORT_CODES, type AbortCodeInfo } from './abort-codes'
+
+/**
+ * Gas budget for marketplace transactions (in MIST)
+ */
+export const DEFAULT_GAS_BUDGET = 100_000_000 // 0.1 SUI
+
+/**
+ * Create a transaction, add contract calls to it and set the gas budget
+ *
+ * @param build - Adds one or more calls via the `thriftchain` builders
+ * @returns Transaction ready to be signed
+ * @throws ContractArgumentError if any argument fails validation
+ */
+export function buildContractTransaction(build: (tx: Transaction) => void): Transaction {
+  const tx = new Transaction()
+  build(tx)
+  tx.setGasBudget(DEFAULT_GAS_BUDGET)
+  return tx
+}
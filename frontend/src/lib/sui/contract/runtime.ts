@@ -0,0 +1,299 @@
+/**
+ * Contract Client Runtime
+ *
+ * Turns the ABI rows in thriftchain.generated.ts into `moveCall`s. Every
+ * argument is validated and BCS-encoded against its Move type before
+ * anything is added to the transaction, so a bad value fails while the
+ * transaction is being built instead of after the wallet has signed it.
+ */
+
+import { bcs, type BcsType } from '@mysten/sui/bcs'
+import type { Transaction, TransactionArgument, TransactionResult } from '@mysten/sui/transactions'
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import {
+  MARKETPLACE_MODULE,
+  parseMarketplaceEvent,
+  type MarketplaceEvent,
+  type MarketplaceEventData,
+  type MarketplaceEventName,
+  type RawMarketplaceEvent,
+} from '../../indexer/events'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const PACKAGE_ID = process.env.NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID || ''
+const MARKETPLACE_ID = process.env.NEXT_PUBLIC_MARKETPLACE_ID || ''
+const CLOCK_ID = process.env.NEXT_PUBLIC_CLOCK_ID || '0x6'
+
+// ============================================
+// ABI TYPES
+// ============================================
+
+/** u64/u128/u256 values; strings must be base-10 integers */
+export type MoveInteger = bigint | number | string
+
+/**
+ * How a parameter is supplied:
+ * - marketplace / clock: shared objects filled in from configuration
+ * - context: TxContext, added by the runtime
+ * - object: object ID passed by the caller
+ * - coin: a transaction argument (e.g. a split coin)
+ * - pure: BCS-encoded value
+ */
+export type MoveParamKind = 'marketplace' | 'clock' | 'context' | 'object' | 'coin' | 'pure'
+
+export interface MoveParam {
+  name: string                        // Move parameter name
+  key: string                         // camelCase key in the generated Args interface
+  type: string                        // Move type as written in the signature
+  kind: MoveParamKind
+}
+
+export interface EntryFunctionAbi {
+  name: string
+  params: readonly MoveParam[]
+  emits: readonly MarketplaceEventName[]
+}
+
+/**
+ * Thrown before signing when an argument doesn't fit its Move type
+ */
+export class ContractArgumentError extends Error {
+  constructor(
+    readonly functionName: string,
+    readonly param: string,
+    readonly moveType: string,
+    reason: string
+  ) {
+    super(`${functionName}: invalid ${param} (${moveType}): ${reason}`)
+    this.name = 'ContractArgumentError'
+  }
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+const ID_PATTERN = /^0x[0-9a-fA-F]{1,64}$/
+
+/**
+ * Object IDs and addresses must be 0x-prefixed hex; they are normalized to 32 bytes
+ */
+function toObjectId(value: unknown): string {
+  if (typeof value !== 'string' || !ID_PATTERN.test(value) || !isValidSuiAddress(normalizeSuiAddress(value))) {
+    throw new Error(`expected a 0x-prefixed object ID, got ${JSON.stringify(value)}`)
+  }
+  return normalizeSuiAddress(value)
+}
+
+const bcsId = bcs.Address.transform({ input: (value: string) => toObjectId(value) })
+
+/**
+ * BCS schema for a pure Move type
+ */
+function bcsForType(type: string): BcsType<unknown, unknown> {
+  const vector = /^vector<(.+)>$/.exec(type)
+  if (vector) {
+    return bcs.vector(bcsForType(vector[1].trim())) as BcsType<unknown, unknown>
+  }
+
+  const primitives: Record<string, BcsType<unknown, unknown>> = {
+    u8: bcs.u8() as BcsType<unknown, unknown>,
+    u16: bcs.u16() as BcsType<unknown, unknown>,
+    u32: bcs.u32() as BcsType<unknown, unknown>,
+    u64: bcs.u64() as BcsType<unknown, unknown>,
+    u128: bcs.u128() as BcsType<unknown, unknown>,
+    u256: bcs.u256() as BcsType<unknown, unknown>,
+    bool: bcs.bool() as BcsType<unknown, unknown>,
+    String: bcs.string() as BcsType<unknown, unknown>,
+    address: bcsId as BcsType<unknown, unknown>,
+    ID: bcsId as BcsType<unknown, unknown>,
+  }
+
+  const schema = primitives[type]
+  if (!schema) {
+    throw new Error(`No BCS encoding for Move type ${type}`)
+  }
+  return schema
+}
+
+/**
+ * Reject JS values BCS would silently coerce (e.g. 1.5 or "abc" for u64)
+ */
+function checkJsType(type: string, value: unknown): void {
+  const vector = /^vector<(.+)>$/.exec(type)
+  if (vector) {
+    if (!Array.isArray(value)) throw new Error('expected an array')
+    value.forEach(element => checkJsType(vector[1].trim(), element))
+    return
+  }
+
+  switch (type) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      if (typeof value !== 'number' || !Number.isInteger(value)) throw new Error(`expected an integer, got ${String(value)}`)
+      return
+    case 'u64':
+    case 'u128':
+    case 'u256':
+      if (
+        !(typeof value === 'bigint') &&
+        !(typeof value === 'number' && Number.isSafeInteger(value)) &&
+        !(typeof value === 'string' && /^\d+$/.test(value))
+      ) {
+        throw new Error(`expected a non-negative integer, got ${String(value)}`)
+      }
+      return
+    case 'bool':
+      if (typeof value !== 'boolean') throw new Error('expected a boolean')
+      return
+    case 'String':
+      if (typeof value !== 'string') throw new Error('expected a string')
+      return
+  }
+}
+
+/**
+ * Run a validation step, reporting failures against the Move parameter
+ */
+function checked<T>(abi: EntryFunctionAbi, param: MoveParam, step: () => T): T {
+  try {
+    return step()
+  } catch (error) {
+    throw new ContractArgumentError(
+      abi.name,
+      param.name,
+      param.type,
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * Validate and BCS-encode one pure argument
+ *
+ * @returns Serialized bytes ready for `tx.pure`
+ */
+export function encodePureArgument(abi: EntryFunctionAbi, param: MoveParam, value: unknown): Uint8Array {
+  return checked(abi, param, () => {
+    checkJsType(param.type, value)
+    return bcsForType(param.type).serialize(value).toBytes()
+  })
+}
+
+/**
+ * Add a call to a `thriftchain` entry function
+ *
+ * All arguments are checked first; the transaction is only touched once
+ * every one of them is valid.
+ *
+ * @param tx - Transaction to add the call to
+ * @param abi - Row from THRIFTCHAIN_ABI
+ * @param args - Values keyed by the generated Args interface
+ * @returns The moveCall result
+ * @throws ContractArgumentError if an argument doesn't match its Move type
+ */
+export function callEntryFunction(tx: Transaction, abi: EntryFunctionAbi, args: object): TransactionResult {
+  const target = entryFunctionTarget(abi.name)
+
+  const values = args as Record<string, unknown>
+  const prepared = abi.params
+    .filter(param => param.kind !== 'context')
+    .map(param => {
+      const value = values[param.key]
+
+      switch (param.kind) {
+        case 'marketplace':
+          if (!MARKETPLACE_ID) {
+            throw new Error('NEXT_PUBLIC_MARKETPLACE_ID not configured')
+          }
+          return { kind: 'object' as const, id: MARKETPLACE_ID }
+        case 'clock':
+          return { kind: 'object' as const, id: CLOCK_ID }
+        case 'object':
+          return { kind: 'object' as const, id: checked(abi, param, () => toObjectId(value)) }
+        case 'coin':
+          if (!value || typeof value !== 'object') {
+            throw new ContractArgumentError(abi.name, param.name, param.type, 'expected a transaction argument')
+          }
+          return { kind: 'argument' as const, argument: value as TransactionArgument }
+        default:
+          return { kind: 'pure' as const, bytes: encodePureArgument(abi, param, value) }
+      }
+    })
+
+  return tx.moveCall({
+    target,
+    arguments: prepared.map(arg => {
+      switch (arg.kind) {
+        case 'object': return tx.object(arg.id)
+        case 'argument': return arg.argument
+        default: return tx.pure(arg.bytes)
+      }
+    }),
+  })
+}
+
+// ============================================
+// CALL TARGETS
+// ============================================
+
+/**
+ * Fully qualified target of an entry function, e.g. "0x…::thriftchain::create_item"
+ *
+ * @param name - Move function name
+ */
+export function entryFunctionTarget(name: string): string {
+  if (!PACKAGE_ID) {
+    throw new Error('NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID not configured')
+  }
+
+  return `${PACKAGE_ID}::${MARKETPLACE_MODULE}::${name}`
+}
+
+/**
+ * Which `thriftchain` function a decoded move call targets
+ *
+ * @param call - MoveCall command from transaction data
+ * @returns Function name, or null if the call is to another package or module
+ */
+export function entryFunctionOfCall(call: { package: string; module: string; function: string }): string | null {
+  if (!PACKAGE_ID || call.module !== MARKETPLACE_MODULE) {
+    return null
+  }
+
+  return normalizeSuiAddress(call.package) === normalizeSuiAddress(PACKAGE_ID) ? call.function : null
+}
+
+// ============================================
+// EVENT DECODING
+// ============================================
+
+/**
+ * Decode the marketplace events of an executed transaction
+ *
+ * @param result - Response fetched with `showEvents: true`
+ * @returns Events from this package, in emission order
+ */
+export function decodeContractEvents(result: { events?: RawMarketplaceEvent[] | null }): MarketplaceEvent[] {
+  return (result.events ?? [])
+    .filter(event => !PACKAGE_ID || event.type.startsWith(`${PACKAGE_ID}::`))
+    .map(event => parseMarketplaceEvent(event))
+    .filter((event): event is MarketplaceEvent => event !== null)
+}
+
+/**
+ * Payload of the first event with the given name, if the transaction emitted one
+ *
+ * @example findContractEvent(txResult, 'ItemCreated')?.item_id
+ */
+export function findContractEvent<K extends MarketplaceEventName>(
+  result: { events?: RawMarketplaceEvent[] | null },
+  name: K
+): MarketplaceEventData<K> | null {
+  const event = decodeContractEvents(result).find(candidate => candidate.name === name)
+  return (event?.data ?? null) as MarketplaceEventData<K> | null
+}
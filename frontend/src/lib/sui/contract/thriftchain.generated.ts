@@ -0,0 +1,621 @@
+/**
+ * ThriftChain Contract Client (generated)
+ *
+ * DO NOT EDIT. Generated by scripts/generate-contract-client.mjs from
+ * contracts/marketplace/sources/thriftchain.move. Run `npm run generate:contract`
+ * after changing an entry function; `npm run test:contract` fails until you do.
+ *
+ * Marketplace, Clock and TxContext parameters are filled in automatically.
+ * Entry functions return nothing, so a call's result is the events it
+ * emits (listed per function) - decode them with decodeContractEvents().
+ */
+
+import type { Transaction, TransactionArgument, TransactionResult } from '@mysten/sui/transactions'
+import { callEntryFunction, type EntryFunctionAbi, type MoveInteger } from './runtime'
+
+// ============================================
+// ABI
+// ============================================
+
+export const THRIFTCHAIN_ABI = {
+  create_item: {
+    name: 'create_item',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'title', key: 'title', type: 'String', kind: 'pure' },
+      { name: 'description', key: 'description', type: 'String', kind: 'pure' },
+      { name: 'price', key: 'price', type: 'u64', kind: 'pure' },
+      { name: 'category', key: 'category', type: 'String', kind: 'pure' },
+      { name: 'condition', key: 'condition', type: 'String', kind: 'pure' },
+      { name: 'brand', key: 'brand', type: 'String', kind: 'pure' },
+      { name: 'size', key: 'size', type: 'String', kind: 'pure' },
+      { name: 'color', key: 'color', type: 'String', kind: 'pure' },
+      { name: 'material', key: 'material', type: 'String', kind: 'pure' },
+      { name: 'walrus_image_ids', key: 'walrusImageIds', type: 'vector<String>', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemCreated'],
+  },
+  update_item_price: {
+    name: 'update_item_price',
+    params: [
+      { name: 'item', key: 'item', type: '&mut ThriftItem', kind: 'object' },
+      { name: 'new_price', key: 'newPrice', type: 'u64', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemPriceUpdated'],
+  },
+  update_item_price_by_id: {
+    name: 'update_item_price_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'new_price', key: 'newPrice', type: 'u64', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemPriceUpdated'],
+  },
+  cancel_item: {
+    name: 'cancel_item',
+    params: [
+      { name: 'item', key: 'item', type: '&mut ThriftItem', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemCancelled'],
+  },
+  cancel_item_by_id: {
+    name: 'cancel_item_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemCancelled'],
+  },
+  mark_as_sold: {
+    name: 'mark_as_sold',
+    params: [
+      { name: 'item', key: 'item', type: '&mut ThriftItem', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemMarkedAsSold'],
+  },
+  mark_as_sold_by_id: {
+    name: 'mark_as_sold_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemMarkedAsSold'],
+  },
+  create_offer: {
+    name: 'create_offer',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'item', key: 'item', type: '&ThriftItem', kind: 'object' },
+      { name: 'amount', key: 'amount', type: 'u64', kind: 'pure' },
+      { name: 'message', key: 'message', type: 'String', kind: 'pure' },
+      { name: 'expires_in_hours', key: 'expiresInHours', type: 'u64', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferCreated'],
+  },
+  counter_offer: {
+    name: 'counter_offer',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer', key: 'offer', type: '&mut Offer', kind: 'object' },
+      { name: 'counter_amount', key: 'counterAmount', type: 'u64', kind: 'pure' },
+      { name: 'counter_message', key: 'counterMessage', type: 'String', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferCountered'],
+  },
+  accept_counter_offer: {
+    name: 'accept_counter_offer',
+    params: [
+      { name: 'offer', key: 'offer', type: '&mut Offer', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: [],
+  },
+  cancel_offer: {
+    name: 'cancel_offer',
+    params: [
+      { name: 'offer', key: 'offer', type: '&mut Offer', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferCancelled'],
+  },
+  reject_offer: {
+    name: 'reject_offer',
+    params: [
+      { name: 'offer', key: 'offer', type: '&mut Offer', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferRejected'],
+  },
+  accept_offer: {
+    name: 'accept_offer',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer', key: 'offer', type: '&mut Offer', kind: 'object' },
+      { name: 'item', key: 'item', type: '&mut ThriftItem', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferAccepted'],
+  },
+  confirm_delivery: {
+    name: 'confirm_delivery',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'escrow', key: 'escrow', type: '&mut Escrow', kind: 'object' },
+      { name: 'item', key: 'item', type: '&mut ThriftItem', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemSold'],
+  },
+  dispute_escrow: {
+    name: 'dispute_escrow',
+    params: [
+      { name: 'escrow', key: 'escrow', type: '&mut Escrow', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['EscrowDisputed'],
+  },
+  refund_escrow: {
+    name: 'refund_escrow',
+    params: [
+      { name: 'escrow', key: 'escrow', type: '&mut Escrow', kind: 'object' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['EscrowRefunded'],
+  },
+  create_offer_by_id: {
+    name: 'create_offer_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'amount', key: 'amount', type: 'u64', kind: 'pure' },
+      { name: 'message', key: 'message', type: 'String', kind: 'pure' },
+      { name: 'expires_in_hours', key: 'expiresInHours', type: 'u64', kind: 'pure' },
+      { name: 'payment', key: 'payment', type: 'Coin<SUI>', kind: 'coin' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferCreated', 'OfferAccepted'],
+  },
+  counter_offer_by_id: {
+    name: 'counter_offer_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer_id', key: 'offerId', type: 'ID', kind: 'pure' },
+      { name: 'counter_amount', key: 'counterAmount', type: 'u64', kind: 'pure' },
+      { name: 'counter_message', key: 'counterMessage', type: 'String', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferCountered'],
+  },
+  accept_counter_offer_by_id: {
+    name: 'accept_counter_offer_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer_id', key: 'offerId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: [],
+  },
+  cancel_offer_by_id: {
+    name: 'cancel_offer_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer_id', key: 'offerId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferCancelled'],
+  },
+  reject_offer_by_id: {
+    name: 'reject_offer_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer_id', key: 'offerId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferRejected'],
+  },
+  accept_offer_by_id: {
+    name: 'accept_offer_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer_id', key: 'offerId', type: 'ID', kind: 'pure' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: [],
+  },
+  accept_offer_by_id_with_payment: {
+    name: 'accept_offer_by_id_with_payment',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'offer_id', key: 'offerId', type: 'ID', kind: 'pure' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'payment', key: 'payment', type: 'Coin<SUI>', kind: 'coin' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['OfferAccepted'],
+  },
+  confirm_delivery_by_id: {
+    name: 'confirm_delivery_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'escrow_id', key: 'escrowId', type: 'ID', kind: 'pure' },
+      { name: 'item_id', key: 'itemId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['ItemSold'],
+  },
+  dispute_escrow_by_id: {
+    name: 'dispute_escrow_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'escrow_id', key: 'escrowId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['EscrowDisputed'],
+  },
+  refund_escrow_by_id: {
+    name: 'refund_escrow_by_id',
+    params: [
+      { name: 'marketplace', key: 'marketplace', type: '&mut Marketplace', kind: 'marketplace' },
+      { name: 'escrow_id', key: 'escrowId', type: 'ID', kind: 'pure' },
+      { name: 'clock', key: 'clock', type: '&Clock', kind: 'clock' },
+      { name: 'ctx', key: 'ctx', type: '&mut TxContext', kind: 'context' },
+    ],
+    emits: ['EscrowRefunded'],
+  },
+} as const satisfies Record<string, EntryFunctionAbi>
+
+export type ThriftchainEntryFunction = keyof typeof THRIFTCHAIN_ABI
+
+// ============================================
+// ENTRY FUNCTIONS
+// ============================================
+
+export interface CreateItemArgs {
+  title: string                       // String
+  description: string                 // String
+  price: MoveInteger                  // u64
+  category: string                    // String
+  condition: string                   // String
+  brand: string                       // String
+  size: string                        // String
+  color: string                       // String
+  material: string                    // String
+  walrusImageIds: string[]            // vector<String>
+}
+
+/**
+ * `create_item` - emits ItemCreated
+ */
+export function createItem(tx: Transaction, args: CreateItemArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.create_item, args)
+}
+
+export interface UpdateItemPriceArgs {
+  item: string                        // ThriftItem object ID
+  newPrice: MoveInteger               // u64
+}
+
+/**
+ * `update_item_price` - emits ItemPriceUpdated
+ */
+export function updateItemPrice(tx: Transaction, args: UpdateItemPriceArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.update_item_price, args)
+}
+
+export interface UpdateItemPriceByIdArgs {
+  itemId: string                      // ID
+  newPrice: MoveInteger               // u64
+}
+
+/**
+ * `update_item_price_by_id` - emits ItemPriceUpdated
+ */
+export function updateItemPriceById(tx: Transaction, args: UpdateItemPriceByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.update_item_price_by_id, args)
+}
+
+export interface CancelItemArgs {
+  item: string                        // ThriftItem object ID
+}
+
+/**
+ * `cancel_item` - emits ItemCancelled
+ */
+export function cancelItem(tx: Transaction, args: CancelItemArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.cancel_item, args)
+}
+
+export interface CancelItemByIdArgs {
+  itemId: string                      // ID
+}
+
+/**
+ * `cancel_item_by_id` - emits ItemCancelled
+ */
+export function cancelItemById(tx: Transaction, args: CancelItemByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.cancel_item_by_id, args)
+}
+
+export interface MarkAsSoldArgs {
+  item: string                        // ThriftItem object ID
+}
+
+/**
+ * `mark_as_sold` - emits ItemMarkedAsSold
+ */
+export function markAsSold(tx: Transaction, args: MarkAsSoldArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.mark_as_sold, args)
+}
+
+export interface MarkAsSoldByIdArgs {
+  itemId: string                      // ID
+}
+
+/**
+ * `mark_as_sold_by_id` - emits ItemMarkedAsSold
+ */
+export function markAsSoldById(tx: Transaction, args: MarkAsSoldByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.mark_as_sold_by_id, args)
+}
+
+export interface CreateOfferArgs {
+  item: string                        // ThriftItem object ID
+  amount: MoveInteger                 // u64
+  message: string                     // String
+  expiresInHours: MoveInteger         // u64
+}
+
+/**
+ * `create_offer` - emits OfferCreated
+ */
+export function createOffer(tx: Transaction, args: CreateOfferArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.create_offer, args)
+}
+
+export interface CounterOfferArgs {
+  offer: string                       // Offer object ID
+  counterAmount: MoveInteger          // u64
+  counterMessage: string              // String
+}
+
+/**
+ * `counter_offer` - emits OfferCountered
+ */
+export function counterOffer(tx: Transaction, args: CounterOfferArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.counter_offer, args)
+}
+
+export interface AcceptCounterOfferArgs {
+  offer: string                       // Offer object ID
+}
+
+/**
+ * `accept_counter_offer` - emits nothing
+ */
+export function acceptCounterOffer(tx: Transaction, args: AcceptCounterOfferArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.accept_counter_offer, args)
+}
+
+export interface CancelOfferArgs {
+  offer: string                       // Offer object ID
+}
+
+/**
+ * `cancel_offer` - emits OfferCancelled
+ */
+export function cancelOffer(tx: Transaction, args: CancelOfferArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.cancel_offer, args)
+}
+
+export interface RejectOfferArgs {
+  offer: string                       // Offer object ID
+}
+
+/**
+ * `reject_offer` - emits OfferRejected
+ */
+export function rejectOffer(tx: Transaction, args: RejectOfferArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.reject_offer, args)
+}
+
+export interface AcceptOfferArgs {
+  offer: string                       // Offer object ID
+  item: string                        // ThriftItem object ID
+}
+
+/**
+ * `accept_offer` - emits OfferAccepted
+ */
+export function acceptOffer(tx: Transaction, args: AcceptOfferArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.accept_offer, args)
+}
+
+export interface ConfirmDeliveryArgs {
+  escrow: string                      // Escrow object ID
+  item: string                        // ThriftItem object ID
+}
+
+/**
+ * `confirm_delivery` - emits ItemSold
+ */
+export function confirmDelivery(tx: Transaction, args: ConfirmDeliveryArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.confirm_delivery, args)
+}
+
+export interface DisputeEscrowArgs {
+  escrow: string                      // Escrow object ID
+}
+
+/**
+ * `dispute_escrow` - emits EscrowDisputed
+ */
+export function disputeEscrow(tx: Transaction, args: DisputeEscrowArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.dispute_escrow, args)
+}
+
+export interface RefundEscrowArgs {
+  escrow: string                      // Escrow object ID
+}
+
+/**
+ * `refund_escrow` - emits EscrowRefunded
+ */
+export function refundEscrow(tx: Transaction, args: RefundEscrowArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.refund_escrow, args)
+}
+
+export interface CreateOfferByIdArgs {
+  itemId: string                      // ID
+  amount: MoveInteger                 // u64
+  message: string                     // String
+  expiresInHours: MoveInteger         // u64
+  payment: TransactionArgument        // Coin<SUI>, e.g. from tx.splitCoins
+}
+
+/**
+ * `create_offer_by_id` - emits OfferCreated, OfferAccepted
+ */
+export function createOfferById(tx: Transaction, args: CreateOfferByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.create_offer_by_id, args)
+}
+
+export interface CounterOfferByIdArgs {
+  offerId: string                     // ID
+  counterAmount: MoveInteger          // u64
+  counterMessage: string              // String
+}
+
+/**
+ * `counter_offer_by_id` - emits OfferCountered
+ */
+export function counterOfferById(tx: Transaction, args: CounterOfferByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.counter_offer_by_id, args)
+}
+
+export interface AcceptCounterOfferByIdArgs {
+  offerId: string                     // ID
+}
+
+/**
+ * `accept_counter_offer_by_id` - emits nothing
+ */
+export function acceptCounterOfferById(tx: Transaction, args: AcceptCounterOfferByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.accept_counter_offer_by_id, args)
+}
+
+export interface CancelOfferByIdArgs {
+  offerId: string                     // ID
+}
+
+/**
+ * `cancel_offer_by_id` - emits OfferCancelled
+ */
+export function cancelOfferById(tx: Transaction, args: CancelOfferByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.cancel_offer_by_id, args)
+}
+
+export interface RejectOfferByIdArgs {
+  offerId: string                     // ID
+}
+
+/**
+ * `reject_offer_by_id` - emits OfferRejected
+ */
+export function rejectOfferById(tx: Transaction, args: RejectOfferByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.reject_offer_by_id, args)
+}
+
+export interface AcceptOfferByIdArgs {
+  offerId: string                     // ID
+  itemId: string                      // ID
+}
+
+/**
+ * `accept_offer_by_id` - emits nothing
+ */
+export function acceptOfferById(tx: Transaction, args: AcceptOfferByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.accept_offer_by_id, args)
+}
+
+export interface AcceptOfferByIdWithPaymentArgs {
+  offerId: string                     // ID
+  itemId: string                      // ID
+  payment: TransactionArgument        // Coin<SUI>, e.g. from tx.splitCoins
+}
+
+/**
+ * `accept_offer_by_id_with_payment` - emits OfferAccepted
+ */
+export function acceptOfferByIdWithPayment(tx: Transaction, args: AcceptOfferByIdWithPaymentArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.accept_offer_by_id_with_payment, args)
+}
+
+export interface ConfirmDeliveryByIdArgs {
+  escrowId: string                    // ID
+  itemId: string                      // ID
+}
+
+/**
+ * `confirm_delivery_by_id` - emits ItemSold
+ */
+export function confirmDeliveryById(tx: Transaction, args: ConfirmDeliveryByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.confirm_delivery_by_id, args)
+}
+
+export interface DisputeEscrowByIdArgs {
+  escrowId: string                    // ID
+}
+
+/**
+ * `dispute_escrow_by_id` - emits EscrowDisputed
+ */
+export function disputeEscrowById(tx: Transaction, args: DisputeEscrowByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.dispute_escrow_by_id, args)
+}
+
+export interface RefundEscrowByIdArgs {
+  escrowId: string                    // ID
+}
+
+/**
+ * `refund_escrow_by_id` - emits EscrowRefunded
+ */
+export function refundEscrowById(tx: Transaction, args: RefundEscrowByIdArgs): TransactionResult {
+  return callEntryFunction(tx, THRIFTCHAIN_ABI.refund_escrow_by_id, args)
+}
@@ -7,6 +7,9 @@
  * Architecture:
  * - Source of Truth: Sui blockchain (item metadata, prices, ownership)
  * - Supabase: Walrus blob IDs (images) to avoid BCS serialization issues
+ * - Supabase projection: event-indexed copy of the Marketplace tables
+ *   (lib/indexer). List/stash/stats queries read it first and fall back
+ *   to walking the on-chain Tables when it's unavailable.
  * - This file: Read-only queries that merge blockchain + Supabase data
  * - For search: Use AI search layer which returns object IDs, then fetch here
  */
@@ -19,8 +22,18 @@ import type {
   EscrowObject,
   PaginatedObjectsResponse,
   ItemQueryFilters,
+  ItemSortOrder,
 } from '../types/sui-objects'
-import { ItemStatus } from '../types/sui-objects'
+import { ItemStatus, OfferStatus } from '../types/sui-objects'
+import {
+  decodeOpaqueCursor,
+  encodeOpaqueCursor,
+  queryProjectedItems,
+  queryProjectedOffers,
+  queryProjectedEscrows,
+  queryProjectedStats,
+  queryVisibleItemIds,
+} from '../supabase/marketplace'
 // Blob IDs now fetched from blockchain, not Supabase
 
 // ============================================
@@ -219,11 +232,21 @@ async function fetchAllTableObjects<T>(
 // ITEM QUERIES
 // ============================================
 
+/** Page size when a query wants every matching item (getItemsBySeller, ...) */
+const ALL_ITEMS_PAGE_SIZE = 500
+
 /**
- * Get all active items from blockchain
+ * Get items matching filters, sorted and paginated
  *
- * @param filters - Optional filters for category, price range, etc.
- * @param options - Pagination options
+ * Served from the indexed projection when available (filters, sort and
+ * keyset pagination run in SQL). Otherwise falls back to scanning the
+ * on-chain items Table and doing the same work in memory, so both paths
+ * return full pages in the requested order. The chain path still hides
+ * what moderation hid, and fails rather than show unchecked listings when
+ * verdicts can't be read.
+ *
+ * @param filters - Optional filters (category, price range, facets, text) and sort
+ * @param options - Opaque cursor from a previous page and page size
  * @returns Paginated list of items
  */
 export async function getAllItems(
@@ -233,16 +256,48 @@ export async function getAllItems(
     limit?: number
   }
 ): Promise<PaginatedObjectsResponse<ThriftItemObject>> {
+  const chainCursor = options?.cursor ? decodeOpaqueCursor(options.cursor) : null
+
+  if (chainCursor?.src !== 'chain') {
+    const projected = await queryProjectedItems(filters, options)
+    if (projected) {
+      return projected
+    }
+
+    if (options?.cursor) {
+      throw new Error('Failed to fetch items: cursor is no longer valid, start from the first page')
+    }
+  }
+
   try {
-    const { itemsTableId } = await getMarketplaceTables()
-    const tableResponse = await fetchTableEntries(itemsTableId, parseThriftItemObject, options)
+    const sort = filters?.sort ?? 'newest'
+    const limit = options?.limit ?? 50
+    const offset = chainCursor?.src === 'chain' && chainCursor.s === sort ? Number(chainCursor.o) || 0 : 0
+
+    const { itemsTableId, offersTableId } = await getMarketplaceTables()
+    const items = await fetchAllTableObjects(itemsTableId, parseThriftItemObject)
+    let filtered = items.filter(item => applyItemFilters(item, filters))
+
+    if (!filters?.includeHidden) {
+      const visible = await queryVisibleItemIds(filtered.map(item => item.objectId))
+      if (!visible) {
+        throw new Error('listing moderation status is unavailable')
+      }
+      filtered = filtered.filter(item => visible.has(item.objectId))
+    }
 
-    const filtered = tableResponse.data.filter(item => applyItemFilters(item, filters))
+    const nextExpiry = sort === 'ending_soon'
+      ? await getNextOfferExpiries(offersTableId)
+      : new Map<string, bigint>()
+    filtered.sort((a, b) => compareItems(a, b, sort, nextExpiry))
+
+    const page = filtered.slice(offset, offset + limit)
+    const hasNextPage = offset + limit < filtered.length
 
     return {
-      data: filtered,
-      nextCursor: tableResponse.nextCursor,
-      hasNextPage: tableResponse.hasNextPage,
+      data: page,
+      nextCursor: hasNextPage ? encodeOpaqueCursor({ src: 'chain', s: sort, o: offset + limit }) : null,
+      hasNextPage,
     }
   } catch (error) {
     console.error('Error fetching items from blockchain:', error)
@@ -340,6 +395,9 @@ export async function getItemsByIds(objectIds: string[]): Promise<ThriftItemObje
 /**
  * Get items listed by a specific seller
  *
+ * Includes listings moderation hid from browsing, so sellers can see them
+ * (and why, via /api/moderation) in their stash.
+ *
  * @param sellerAddress - Wallet address of the seller
  * @param filters - Additional filters
  * @returns List of seller's items
@@ -348,12 +406,11 @@ export async function getItemsBySeller(
   sellerAddress: string,
   filters?: Omit<ItemQueryFilters, 'seller'>
 ): Promise<ThriftItemObject[]> {
-  const result = await getAllItems({
+  return getEveryItem({
     ...filters,
     seller: sellerAddress,
+    includeHidden: true,
   })
-
-  return result.data
 }
 
 /**
@@ -367,12 +424,28 @@ export async function getItemsByCategory(
   category: string,
   filters?: Omit<ItemQueryFilters, 'category'>
 ): Promise<ThriftItemObject[]> {
-  const result = await getAllItems({
+  return getEveryItem({
     ...filters,
     category,
   })
+}
+
+/**
+ * Every item matching `filters`, following getAllItems' cursor to the end.
+ * Pages stay under Supabase's default 1000-row response cap, which would
+ * otherwise cut a page short without flagging another one.
+ */
+async function getEveryItem(filters: ItemQueryFilters): Promise<ThriftItemObject[]> {
+  const items: ThriftItemObject[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await getAllItems(filters, { cursor, limit: ALL_ITEMS_PAGE_SIZE })
+    items.push(...page.data)
+    cursor = page.hasNextPage ? page.nextCursor ?? undefined : undefined
+  } while (cursor)
 
-  return result.data
+  return items
 }
 
 // ============================================
@@ -386,6 +459,11 @@ export async function getItemsByCategory(
  * @returns List of offers on the item
  */
 export async function getOffersByItem(itemId: string): Promise<OfferObject[]> {
+  const projected = await queryProjectedOffers({ itemId })
+  if (projected) {
+    return projected
+  }
+
   try {
     const { offersTableId } = await getMarketplaceTables()
     const offers = await fetchAllTableObjects(offersTableId, parseOfferObject)
@@ -403,6 +481,11 @@ export async function getOffersByItem(itemId: string): Promise<OfferObject[]> {
  * @returns List of buyer's offers
  */
 export async function getOffersByBuyer(buyerAddress: string): Promise<OfferObject[]> {
+  const projected = await queryProjectedOffers({ buyer: buyerAddress })
+  if (projected) {
+    return projected
+  }
+
   try {
     const { offersTableId } = await getMarketplaceTables()
     const offers = await fetchAllTableObjects(offersTableId, parseOfferObject)
@@ -420,6 +503,11 @@ export async function getOffersByBuyer(buyerAddress: string): Promise<OfferObjec
  * @returns List of offers on seller's items
  */
 export async function getOffersBySeller(sellerAddress: string): Promise<OfferObject[]> {
+  const projected = await queryProjectedOffers({ seller: sellerAddress })
+  if (projected) {
+    return projected
+  }
+
   try {
     // First get all seller's items
     const items = await getItemsBySeller(sellerAddress)
@@ -444,6 +532,24 @@ export async function getOffersBySeller(sellerAddress: string): Promise<OfferObj
  */
 export async function getOfferById(offerId: string): Promise<OfferObject | null> {
   try {
+    // Offers live in the marketplace offers Table, keyed by their ID
+    try {
+      const { offersTableId } = await getMarketplaceTables()
+      const entry = await suiClient.getDynamicFieldObject({
+        parentId: offersTableId,
+        name: {
+          type: '0x2::object::ID',
+          value: offerId,
+        },
+      })
+
+      if (entry.data) {
+        return parseOfferObject(entry)
+      }
+    } catch (err) {
+      console.warn(`[getOfferById] Table lookup failed for ${offerId}:`, err instanceof Error ? err.message : err)
+    }
+
     const response = await suiClient.getObject({
       id: offerId,
       options: {
@@ -474,6 +580,11 @@ export async function getOfferById(offerId: string): Promise<OfferObject | null>
  * @returns List of buyer's escrows
  */
 export async function getEscrowsByBuyer(buyerAddress: string): Promise<EscrowObject[]> {
+  const projected = await queryProjectedEscrows({ buyer: buyerAddress })
+  if (projected) {
+    return projected
+  }
+
   try {
     const { escrowsTableId } = await getMarketplaceTables()
     const escrows = await fetchAllTableObjects(escrowsTableId, parseEscrowObject)
@@ -511,6 +622,30 @@ export async function getEscrowById(escrowId: string): Promise<EscrowObject | nu
   }
 }
 
+// ============================================
+// FULL TABLE SCANS (indexer reconciliation)
+// ============================================
+
+/**
+ * Walk every entry of the marketplace Tables straight from chain,
+ * bypassing the projection. Used by the indexer to detect drift.
+ *
+ * @returns All items, offers and escrows currently stored on-chain
+ */
+export async function scanMarketplaceTables(): Promise<{
+  items: ThriftItemObject[]
+  offers: OfferObject[]
+  escrows: EscrowObject[]
+}> {
+  const { itemsTableId, offersTableId, escrowsTableId } = await getMarketplaceTables()
+
+  const items = await fetchAllTableObjects(itemsTableId, parseThriftItemObject)
+  const offers = await fetchAllTableObjects(offersTableId, parseOfferObject)
+  const escrows = await fetchAllTableObjects(escrowsTableId, parseEscrowObject)
+
+  return { items, offers, escrows }
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -571,7 +706,8 @@ function parseOfferObject(response: SuiObjectResponse): OfferObject | null {
     const offerFields = fields.value?.fields || fields
 
     return {
-      objectId: data.objectId,
+      // Use the offer's own ID, not the dynamic field wrapper's object ID
+      objectId: offerFields.id?.id || data.objectId,
       version: data.version,
       digest: data.digest,
       fields: offerFields as OfferObject['fields'],
@@ -599,7 +735,8 @@ function parseEscrowObject(response: SuiObjectResponse): EscrowObject | null {
     const escrowFields = fields.value?.fields || fields
 
     return {
-      objectId: data.objectId,
+      // Use the escrow's own ID, not the dynamic field wrapper's object ID
+      objectId: escrowFields.id?.id || data.objectId,
       version: data.version,
       digest: data.digest,
       fields: escrowFields as EscrowObject['fields'],
@@ -647,10 +784,84 @@ function applyItemFilters(item: ThriftItemObject, filters?: ItemQueryFilters): b
     }
   }
 
+  // Facets (case-insensitive exact match, same as browse_marketplace_items)
+  const facets = ['condition', 'brand', 'size', 'color'] as const
+  for (const facet of facets) {
+    const wanted = filters[facet]
+    if (wanted && (item.fields[facet] || '').toLowerCase() !== wanted.toLowerCase()) {
+      return false
+    }
+  }
+
+  // Free text (substring match on title, description and brand)
+  const text = filters.text?.trim().toLowerCase()
+  if (text) {
+    const haystack = [item.fields.title, item.fields.description, item.fields.brand]
+      .join(' ')
+      .toLowerCase()
+    if (!haystack.includes(text)) {
+      return false
+    }
+  }
 
   return true
 }
 
+/**
+ * Order two items for the given sort (ties broken by object ID, like SQL)
+ */
+function compareItems(
+  a: ThriftItemObject,
+  b: ThriftItemObject,
+  sort: ItemSortOrder,
+  nextExpiry: Map<string, bigint>
+): number {
+  const key = (item: ThriftItemObject): bigint => {
+    switch (sort) {
+      case 'price_asc':
+      case 'price_desc':
+        return BigInt(item.fields.price)
+      case 'ending_soon':
+        return nextExpiry.get(item.objectId) ?? BigInt('9223372036854775807')
+      default:
+        return BigInt(item.fields.created_at)
+    }
+  }
+
+  const ka = key(a)
+  const kb = key(b)
+  if (ka !== kb) {
+    const ascending = sort === 'price_asc' || sort === 'ending_soon'
+    return (ka < kb) === ascending ? -1 : 1
+  }
+
+  return a.objectId < b.objectId ? -1 : a.objectId > b.objectId ? 1 : 0
+}
+
+/**
+ * Earliest expiry of offers that can still be accepted, per item
+ */
+async function getNextOfferExpiries(offersTableId: string): Promise<Map<string, bigint>> {
+  const now = BigInt(Date.now())
+  const offers = await fetchAllTableObjects(offersTableId, parseOfferObject)
+  const expiries = new Map<string, bigint>()
+
+  for (const offer of offers) {
+    const status = Number(offer.fields.status)
+    const expiresAt = BigInt(offer.fields.expires_at)
+    if ((status !== OfferStatus.Pending && status !== OfferStatus.Countered) || expiresAt <= now) {
+      continue
+    }
+
+    const current = expiries.get(offer.fields.item_id)
+    if (current === undefined || expiresAt < current) {
+      expiries.set(offer.fields.item_id, expiresAt)
+    }
+  }
+
+  return expiries
+}
+
 // ============================================
 // IMAGE ENRICHMENT HELPERS
 // ============================================
@@ -746,6 +957,11 @@ export async function getItemsByCategoryWithImages(
  * @returns Basic marketplace stats
  */
 export async function getMarketplaceStats() {
+  const projected = await queryProjectedStats()
+  if (projected) {
+    return projected
+  }
+
   try {
     const allItems = await getAllItems()
 
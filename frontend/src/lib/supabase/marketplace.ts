@@ -0,0 +1,306 @@
+/**
+ * Marketplace Projection Reads
+ *
+ * Indexed SQL reads over the tables maintained by the event indexer
+ * (lib/indexer). Results are mapped back into the same ThriftItemObject /
+ * OfferObject / EscrowObject shapes that queries.ts returns from chain,
+ * so callers don't care which path served them.
+ *
+ * Every function returns null when the projection is unavailable (not
+ * configured, disabled, or the query failed); queries.ts then falls back
+ * to scanning the on-chain Tables, and only shows listings that
+ * queryVisibleItemIds clears.
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { rowToEscrowObject, rowToItemObject, rowToOfferObject } from '../indexer/projection'
+import type { EscrowRow, ItemRow, OfferRow } from '../indexer/store'
+import { ITEM_SORT_ORDERS } from '../types/sui-objects'
+import type {
+  EscrowObject,
+  ItemQueryFilters,
+  ItemSortOrder,
+  OfferObject,
+  PaginatedObjectsResponse,
+  ThriftItemObject,
+} from '../types/sui-objects'
+
+// ============================================
+// CLIENT
+// ============================================
+
+let anonClient: SupabaseClient | null = null
+
+/**
+ * Anon client, created lazily so that importing queries.ts never throws
+ * when Supabase isn't configured
+ */
+function getAnonClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!url || !anonKey) {
+    return null
+  }
+
+  if (!anonClient) {
+    anonClient = createClient(url, anonKey)
+  }
+
+  return anonClient
+}
+
+/**
+ * Client for projection reads.
+ * Set NEXT_PUBLIC_USE_INDEXED_QUERIES=false to force chain scans.
+ */
+function getProjectionClient(): SupabaseClient | null {
+  if (process.env.NEXT_PUBLIC_USE_INDEXED_QUERIES === 'false') {
+    return null
+  }
+
+  return getAnonClient()
+}
+
+// ============================================
+// ITEMS
+// ============================================
+
+/**
+ * Encode any JSON value as an opaque, URL-safe cursor
+ */
+export function encodeOpaqueCursor(value: object): string {
+  return btoa(JSON.stringify(value))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Decode a cursor produced by encodeOpaqueCursor
+ *
+ * @returns The decoded object, or null if the cursor is malformed
+ */
+export function decodeOpaqueCursor(cursor: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')))
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keyset position of a projection page. The sort order is part of it so a
+ * cursor can't be replayed against a different ordering.
+ */
+interface ProjectionItemCursor {
+  src: 'projection'
+  s: ItemSortOrder
+  k: string                           // sort_key of the last row (BIGINT as string)
+  id: string                          // item_id of the last row (tie-breaker)
+}
+
+function decodeProjectionItemCursor(cursor: string): ProjectionItemCursor | null {
+  const parsed = decodeOpaqueCursor(cursor)
+  if (
+    parsed?.src !== 'projection' ||
+    !ITEM_SORT_ORDERS.includes(parsed.s as ItemSortOrder) ||
+    typeof parsed.id !== 'string' ||
+    typeof parsed.k !== 'string' ||
+    !/^-?\d+$/.test(parsed.k)
+  ) {
+    return null
+  }
+
+  return parsed as unknown as ProjectionItemCursor
+}
+
+/**
+ * Query projected items with every filter, sort and pagination applied in
+ * SQL (see browse_marketplace_items()), so each page is a real page.
+ *
+ * @param filters - Full ItemQueryFilters set, including sort
+ * @param options - Opaque cursor from a previous page and page size
+ * @returns Paginated items or null if the projection is unavailable
+ * @throws If the cursor is malformed or was issued for another sort order
+ */
+export async function queryProjectedItems(
+  filters?: ItemQueryFilters,
+  options?: { cursor?: string; limit?: number }
+): Promise<PaginatedObjectsResponse<ThriftItemObject> | null> {
+  const sort = filters?.sort ?? 'newest'
+  const limit = options?.limit ?? 50
+
+  let after: ProjectionItemCursor | null = null
+  if (options?.cursor) {
+    after = decodeProjectionItemCursor(options.cursor)
+    if (!after || after.s !== sort) {
+      throw new Error('Invalid cursor for this query')
+    }
+  }
+
+  const client = getProjectionClient()
+  if (!client) return null
+
+  // One extra row is requested to know whether another page exists
+  const { data, error } = await client.rpc('browse_marketplace_items', {
+    p_sort: sort,
+    p_seller: filters?.seller ?? null,
+    p_category: filters?.category ?? null,
+    p_status: filters?.status ?? null,
+    p_min_price: filters?.minPrice?.toString() ?? null,
+    p_max_price: filters?.maxPrice?.toString() ?? null,
+    p_condition: filters?.condition ?? null,
+    p_brand: filters?.brand ?? null,
+    p_size: filters?.size ?? null,
+    p_color: filters?.color ?? null,
+    p_text: filters?.text?.trim() || null,
+    p_after_key: after?.k ?? null,
+    p_after_id: after?.id ?? null,
+    p_limit: limit + 1,
+    p_include_hidden: filters?.includeHidden ?? false,
+  })
+
+  if (error) {
+    console.warn('[queryProjectedItems] Projection query failed:', error.message)
+    return null
+  }
+
+  const rows = (data ?? []) as { item: ItemRow; sort_key: string | number }[]
+  const page = rows.slice(0, limit)
+  const hasNextPage = rows.length > limit
+  const last = page[page.length - 1]
+
+  return {
+    data: page.map(row => rowToItemObject(row.item)),
+    nextCursor: hasNextPage && last
+      ? encodeOpaqueCursor({ src: 'projection', s: sort, k: String(last.sort_key), id: last.item.item_id })
+      : null,
+    hasNextPage,
+  }
+}
+
+/**
+ * Which of `itemIds` moderation lets into browsing (see listing_visible()),
+ * for item lists read straight from chain. Verdicts live in Supabase even
+ * when projection reads are switched off, so this ignores
+ * NEXT_PUBLIC_USE_INDEXED_QUERIES.
+ *
+ * @returns The visible IDs, or null if verdicts can't be read
+ */
+export async function queryVisibleItemIds(itemIds: string[]): Promise<Set<string> | null> {
+  const client = getAnonClient()
+  if (!client) return null
+  if (itemIds.length === 0) return new Set()
+
+  const { data, error } = await client.rpc('visible_listing_ids', { p_item_ids: itemIds })
+  if (error) {
+    console.warn('[queryVisibleItemIds] Visibility query failed:', error.message)
+    return null
+  }
+
+  return new Set((data ?? []) as string[])
+}
+
+// ============================================
+// OFFERS & ESCROWS
+// ============================================
+
+/**
+ * Query projected offers by item, buyer and/or seller
+ *
+ * @returns Offers (newest first) or null if the projection is unavailable
+ */
+export async function queryProjectedOffers(filters: {
+  itemId?: string
+  buyer?: string
+  seller?: string
+}): Promise<OfferObject[] | null> {
+  const client = getProjectionClient()
+  if (!client) return null
+
+  let query = client
+    .from('marketplace_offers')
+    .select('*')
+    .order('created_at_ms', { ascending: false })
+
+  if (filters.itemId) query = query.eq('item_id', filters.itemId)
+  if (filters.buyer) query = query.eq('buyer', filters.buyer)
+  if (filters.seller) query = query.eq('seller', filters.seller)
+
+  const { data, error } = await query
+  if (error) {
+    console.warn('[queryProjectedOffers] Projection query failed:', error.message)
+    return null
+  }
+
+  return ((data ?? []) as OfferRow[]).map(rowToOfferObject)
+}
+
+/**
+ * Query projected escrows by buyer and/or seller
+ *
+ * @returns Escrows (newest first) or null if the projection is unavailable
+ */
+export async function queryProjectedEscrows(filters: {
+  buyer?: string
+  seller?: string
+}): Promise<EscrowObject[] | null> {
+  const client = getProjectionClient()
+  if (!client) return null
+
+  let query = client
+    .from('marketplace_escrows')
+    .select('*')
+    .order('created_at_ms', { ascending: false })
+
+  if (filters.buyer) query = query.eq('buyer', filters.buyer)
+  if (filters.seller) query = query.eq('seller', filters.seller)
+
+  const { data, error } = await query
+  if (error) {
+    console.warn('[queryProjectedEscrows] Projection query failed:', error.message)
+    return null
+  }
+
+  return ((data ?? []) as EscrowRow[]).map(rowToEscrowObject)
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Aggregate marketplace stats computed in SQL (see marketplace_stats())
+ *
+ * @returns Stats in the getMarketplaceStats shape, or null if unavailable
+ */
+export async function queryProjectedStats(): Promise<{
+  totalItems: number
+  activeListings: number
+  soldItems: number
+  totalValueMist: string
+} | null> {
+  const client = getProjectionClient()
+  if (!client) return null
+
+  const { data, error } = await client.rpc('marketplace_stats').single()
+  if (error || !data) {
+    console.warn('[queryProjectedStats] Projection query failed:', error?.message)
+    return null
+  }
+
+  const stats = data as {
+    total_items: number
+    active_listings: number
+    sold_items: number
+    total_value_mist: string | number
+  }
+
+  return {
+    totalItems: Number(stats.total_items),
+    activeListings: Number(stats.active_listings),
+    soldItems: Number(stats.sold_items),
+    totalValueMist: String(stats.total_value_mist),
+  }
+}
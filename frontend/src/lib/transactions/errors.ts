@@ -0,0 +1,164 @@
+/**
+ * Transaction Failure Classification
+ *
+ * Wallets, the fullnode and the Move VM all report failures as free-form
+ * strings. This module sorts them into a few kinds the UI can act on and
+ * pulls the abort code out of Move aborts.
+ */
+
+import { JsonRpcError, SuiHTTPStatusError } from '@mysten/sui/client'
+import { ContractArgumentError, describeAbortCode, type AbortCodeInfo } from '../sui/contract'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TransactionFailureKind =
+  | 'user_rejected'                   // Wallet prompt declined or closed
+  | 'insufficient_gas'                // Not enough SUI for gas (or gas budget too low)
+  | 'move_abort'                      // Contract aborted; see `abort`
+  | 'timeout'                         // No confirmation in time (may still land - check `digest`)
+  | 'rpc'                             // Fullnode/network error
+  | 'invalid_arguments'               // Rejected by the contract client before signing
+  | 'unknown'
+
+export interface MoveAbortInfo {
+  module: string | null               // e.g. "thriftchain"
+  functionName: string | null         // e.g. "create_offer_by_id"
+  code: number
+  reason: AbortCodeInfo | null        // Catalogue entry (see sui/contract/abort-codes)
+}
+
+export class TransactionError extends Error {
+  readonly kind: TransactionFailureKind
+  readonly digest: string | null
+  readonly abort: MoveAbortInfo | null
+  readonly original: unknown          // Underlying wallet/RPC error
+
+  constructor(
+    kind: TransactionFailureKind,
+    message: string,
+    details: { digest?: string | null; abort?: MoveAbortInfo | null; original?: unknown } = {}
+  ) {
+    super(message)
+    this.name = 'TransactionError'
+    this.kind = kind
+    this.digest = details.digest ?? null
+    this.abort = details.abort ?? null
+    this.original = details.original
+  }
+
+  /** Worth retrying automatically (the request never reached a final state) */
+  get transient(): boolean {
+    return this.kind === 'rpc' || this.kind === 'timeout'
+  }
+}
+
+// ============================================
+// PATTERNS
+// ============================================
+
+const USER_REJECTED_PATTERN = /user rejected|rejected by user|rejected from user|user rejects|user denied|request rejected|user cancel|user declined|user closed/i
+
+const INSUFFICIENT_GAS_PATTERN = /InsufficientGas|GasBalanceTooLow|insufficient gas|no valid gas coins|balance of gas object \S+ is lower than|gas budget .* (lower|higher|exceeds)|InsufficientCoinBalance/i
+
+const TIMEOUT_PATTERN = /timed? ?out|TimeoutError|deadline exceeded|not found within the timeout/i
+
+const NETWORK_PATTERN = /failed to fetch|fetch failed|network ?error|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|service unavailable|too many requests/i
+
+/**
+ * Matches the VM's abort description, e.g.
+ * `MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("thriftchain") },
+ *  function: 21, instruction: 36, function_name: Some("create_offer_by_id") }, 6) in command 1`
+ */
+const MOVE_ABORT_PATTERN = /MoveAbort\(([\s\S]*)\},?\s*(\d+)\)/
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+/**
+ * Extract module, function and abort code from a Move abort message,
+ * and look the code up in the abort catalogue
+ *
+ * @param message - Effects error or wallet/dry-run error text
+ * @returns Abort details, or null if the message isn't a Move abort
+ */
+export function parseMoveAbort(message: string): MoveAbortInfo | null {
+  const match = MOVE_ABORT_PATTERN.exec(message)
+  if (!match) {
+    return null
+  }
+
+  const location = match[1]
+  const moduleName = /name: Identifier\("(\w+)"\)/.exec(location)?.[1] ?? null
+  const code = Number(match[2])
+  return {
+    module: moduleName,
+    functionName: /function_name: Some\("(\w+)"\)/.exec(location)?.[1] ?? null,
+    code,
+    reason: describeAbortCode(moduleName, code),
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`
+  if (typeof error === 'string') return error
+  try {
+    return JSON.stringify(error)
+  } catch {
+    return String(error)
+  }
+}
+
+/**
+ * Sort any failure into a TransactionError
+ *
+ * @param error - Whatever was thrown (or an effects error string)
+ * @param digest - Digest, when the transaction got as far as being submitted
+ * @returns Classified error (returned as-is if already a TransactionError)
+ */
+export function classifyTransactionError(error: unknown, digest: string | null = null): TransactionError {
+  if (error instanceof TransactionError) {
+    return error
+  }
+
+  if (error instanceof ContractArgumentError) {
+    return new TransactionError('invalid_arguments', error.message, { digest, original: error })
+  }
+
+  const message = errorMessage(error)
+
+  const abort = parseMoveAbort(message)
+  if (abort) {
+    const where = abort.functionName ? ` in ${abort.functionName}` : ''
+    const explanation = abort.reason?.message ?? `Contract aborted${where} with code ${abort.code}`
+    return new TransactionError('move_abort', explanation, { digest, abort, original: error })
+  }
+
+  if (USER_REJECTED_PATTERN.test(message)) {
+    return new TransactionError('user_rejected', 'Transaction was rejected in the wallet', { digest, original: error })
+  }
+
+  if (INSUFFICIENT_GAS_PATTERN.test(message)) {
+    return new TransactionError('insufficient_gas', 'Not enough SUI to pay for gas', { digest, original: error })
+  }
+
+  if (TIMEOUT_PATTERN.test(message)) {
+    return new TransactionError(
+      'timeout',
+      digest
+        ? 'Timed out waiting for confirmation. The transaction may still complete.'
+        : 'The network took too long to respond',
+      { digest, original: error }
+    )
+  }
+
+  const transientStatus = error instanceof SuiHTTPStatusError && (error.status === 429 || error.status >= 500)
+  const transientRpc = error instanceof JsonRpcError && ['ServerBusy', 'TransientError', 'InternalError'].includes(error.type)
+  if (transientStatus || transientRpc || NETWORK_PATTERN.test(message)) {
+    return new TransactionError('rpc', 'Could not reach the Sui network', { digest, original: error })
+  }
+
+  return new TransactionError('unknown', error instanceof Error ? error.message : message, { digest, original: error })
+}
@@ -0,0 +1,135 @@
+/**
+ * Transaction History
+ *
+ * Per-session record of every transaction started through the runner,
+ * pending and finished. Kept in sessionStorage so a reload mid-confirmation
+ * still shows what happened, and exposed as a subscribable store for
+ * React (see useTransactionHistory).
+ */
+
+import type { TransactionFailureKind } from './errors'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TransactionStatus =
+  | 'building'                        // Building/validating the transaction
+  | 'signing'                         // Waiting for the wallet
+  | 'confirming'                      // Submitted, waiting for effects
+  | 'success'
+  | 'failed'
+
+export interface TransactionRecord {
+  id: string
+  label: string                       // Human description, e.g. "Accept offer"
+  status: TransactionStatus
+  digest: string | null
+  error: { kind: TransactionFailureKind; message: string; abortCode: number | null } | null
+  attempts: number                    // Confirmation attempts so far
+  startedAt: number
+  finishedAt: number | null
+}
+
+// ============================================
+// STORE
+// ============================================
+
+const STORAGE_KEY = 'thriftchain:transactions'
+const MAX_RECORDS = 50
+
+let records: TransactionRecord[] | null = null
+const listeners = new Set<() => void>()
+
+function load(): TransactionRecord[] {
+  if (records) return records
+
+  let stored: TransactionRecord[] = []
+  if (typeof window !== 'undefined') {
+    try {
+      stored = JSON.parse(window.sessionStorage.getItem(STORAGE_KEY) ?? '[]')
+    } catch {
+      stored = []
+    }
+  }
+
+  // A reload before submission loses the wallet request; submitted ones
+  // keep their digest and can be re-checked (see resumePendingTransactions)
+  records = stored.map((record): TransactionRecord =>
+    record.finishedAt === null && !record.digest
+      ? {
+          ...record,
+          status: 'failed',
+          error: { kind: 'unknown', message: 'Interrupted before it was submitted', abortCode: null },
+          finishedAt: Date.now(),
+        }
+      : record
+  )
+
+  return records
+}
+
+function save(next: TransactionRecord[]) {
+  records = next.slice(0, MAX_RECORDS)
+
+  if (typeof window !== 'undefined') {
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+    } catch {
+      // Storage full or unavailable; the in-memory copy is still current
+    }
+  }
+
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Current history, newest first. The array is replaced on every change,
+ * so it can be used directly as a useSyncExternalStore snapshot.
+ */
+export function getTransactionHistory(): TransactionRecord[] {
+  return load()
+}
+
+export function subscribeTransactionHistory(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Add a record for a transaction that is about to start
+ */
+export function startTransactionRecord(label: string): TransactionRecord {
+  const record: TransactionRecord = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    status: 'building',
+    digest: null,
+    error: null,
+    attempts: 0,
+    startedAt: Date.now(),
+    finishedAt: null,
+  }
+
+  save([record, ...load()])
+  return record
+}
+
+/**
+ * Patch a record; finishing statuses also stamp finishedAt
+ */
+export function updateTransactionRecord(id: string, patch: Partial<Omit<TransactionRecord, 'id'>>): void {
+  const finished = patch.status === 'success' || patch.status === 'failed'
+
+  save(load().map(record =>
+    record.id === id
+      ? { ...record, ...patch, finishedAt: finished ? Date.now() : record.finishedAt }
+      : record
+  ))
+}
+
+export function clearTransactionHistory(): void {
+  save(load().filter(record => record.finishedAt === null))
+}
@@ -0,0 +1,214 @@
+"use client"
+
+/**
+ * Transaction React hooks
+ *
+ * useTransactionRunner binds runTransaction to the signed-in user's signer
+ * (wallet or zkLogin, see lib/session) and drives a single toast through
+ * the lifecycle; useTransactionPreview dry-runs a transaction before it is
+ * signed; useTransactionHistory exposes the session history for progress UI.
+ */
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react'
+import type { Transaction } from '@mysten/sui/transactions'
+import { toast } from 'sonner'
+import { requestIndexerSync } from '../indexer/nudge'
+import { sponsoredExecutor } from '../sponsor/client'
+import { previewTransaction, type TransactionPreview } from '../sui/transactions'
+import { useSession } from '../session/provider'
+import { classifyTransactionError, type TransactionError } from './errors'
+import {
+  getTransactionHistory,
+  subscribeTransactionHistory,
+  type TransactionRecord,
+  type TransactionStatus,
+} from './history'
+import { resumePendingTransactions, runTransaction, type TransactionOutcome } from './runner'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RunOptions {
+  label: string                       // Shown in toasts and the history
+  build: () => Transaction | Promise<Transaction>
+  successMessage?: string             // Defaults to "<label> confirmed"
+  notify?: boolean                    // Show toasts (default true)
+  syncIndexer?: boolean               // Nudge the indexer after success (default true)
+  sponsored?: boolean                 // Gas paid by the marketplace (see lib/sponsor)
+}
+
+export type RunResult =
+  | { ok: true; outcome: TransactionOutcome }
+  | { ok: false; error: TransactionError }
+
+export interface ActiveTransaction {
+  label: string
+  status: TransactionStatus
+}
+
+export type PreviewState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'ready'; preview: TransactionPreview }
+  | { status: 'failed'; error: TransactionError }
+
+// ============================================
+// HISTORY
+// ============================================
+
+const EMPTY_HISTORY: TransactionRecord[] = []
+
+/**
+ * Session transaction history, newest first. Also re-checks transactions
+ * left confirming by a previous page load.
+ */
+export function useTransactionHistory(): TransactionRecord[] {
+  useEffect(() => {
+    void resumePendingTransactions()
+  }, [])
+
+  return useSyncExternalStore(
+    subscribeTransactionHistory,
+    getTransactionHistory,
+    () => EMPTY_HISTORY
+  )
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+const STATUS_MESSAGES: Partial<Record<TransactionStatus, string>> = {
+  building: 'Preparing transaction…',
+  signing: 'Approve the transaction in your wallet',
+  confirming: 'Confirming on Sui…',
+}
+
+/**
+ * Run transactions as the signed-in user
+ *
+ * `run` never throws: it resolves to the outcome or the classified error,
+ * after showing the matching toast (unless `notify` is false).
+ */
+export function useTransactionRunner() {
+  const { identity, ensureServerSession } = useSession()
+  const [active, setActive] = useState<ActiveTransaction | null>(null)
+
+  const run = useCallback(async (options: RunOptions): Promise<RunResult> => {
+    const notify = options.notify ?? true
+    const toastId = `tx-${Date.now()}`
+
+    try {
+      const outcome = await runTransaction({
+        label: options.label,
+        build: options.build,
+        execute: async (tx) => {
+          if (!identity) {
+            throw new Error('Connect your wallet or sign in to continue')
+          }
+          if (!options.sponsored) {
+            return identity.signer.execute(tx)
+          }
+          // /api/sponsor rate limits by session address
+          await ensureServerSession()
+          return sponsoredExecutor(identity.address, identity.signer.signTransaction)(tx)
+        },
+        onStatus: (status) => {
+          setActive({ label: options.label, status })
+          const message = STATUS_MESSAGES[status]
+          if (notify && message) {
+            toast.loading(options.label, { id: toastId, description: message })
+          }
+        },
+      })
+
+      if (notify) {
+        toast.success(options.successMessage ?? `${options.label} confirmed`, { id: toastId, description: undefined })
+      }
+      if (options.syncIndexer ?? true) {
+        void requestIndexerSync(outcome.digest)
+      }
+
+      return { ok: true, outcome }
+    } catch (error) {
+      const failure = classifyTransactionError(error)
+
+      if (notify) {
+        if (failure.kind === 'user_rejected') {
+          toast.info(`${options.label} cancelled`, { id: toastId, description: failure.message })
+        } else {
+          toast.error(`${options.label} failed`, { id: toastId, description: failure.message })
+        }
+      }
+
+      return { ok: false, error: failure }
+    } finally {
+      setActive(null)
+    }
+  }, [identity, ensureServerSession])
+
+  return { run, active, isRunning: active !== null }
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+/**
+ * Whether a preview failed only for lack of gas, so sponsored gas would help
+ */
+export function needsGasSponsorship(state: PreviewState): boolean {
+  if (state.status === 'failed') {
+    return state.error.kind === 'insufficient_gas'
+  }
+  return state.status === 'ready' && !state.preview.sufficient
+}
+
+/**
+ * Dry-run transactions for the current account before asking it to sign
+ *
+ * `canSign` is only true once a preview succeeded and the balance covers
+ * it; a newer `preview` call or `reset` discards any result still in flight.
+ */
+export function useTransactionPreview() {
+  const { address: sender } = useSession()
+  const [state, setState] = useState<PreviewState>({ status: 'idle' })
+  const requestRef = useRef(0)
+
+  const preview = useCallback(async (
+    build: () => Transaction | Promise<Transaction>
+  ): Promise<TransactionPreview | null> => {
+    const request = ++requestRef.current
+    setState({ status: 'loading' })
+
+    try {
+      if (!sender) {
+        throw new Error('Connect your wallet or sign in to estimate costs')
+      }
+
+      const result = await previewTransaction(await build(), sender)
+      if (request === requestRef.current) {
+        setState({ status: 'ready', preview: result })
+      }
+      return result
+    } catch (error) {
+      if (request === requestRef.current) {
+        setState({ status: 'failed', error: classifyTransactionError(error) })
+      }
+      return null
+    }
+  }, [sender])
+
+  const reset = useCallback(() => {
+    requestRef.current++
+    setState({ status: 'idle' })
+  }, [])
+
+  return {
+    state,
+    preview,
+    reset,
+    canSign: state.status === 'ready' && state.preview.sufficient,
+  }
+}
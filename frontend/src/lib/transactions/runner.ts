@@ -0,0 +1,219 @@
+/**
+ * Transaction Runner
+ *
+ * One lifecycle for every marketplace transaction:
+ *   build → sign & submit → wait for effects → check status
+ *
+ * Each step is recorded in the session history (./history) and every
+ * failure comes out as a classified TransactionError (./errors).
+ * Confirmation retries transient RPC errors with backoff; signing is never
+ * retried, since that would prompt the user a second time.
+ *
+ * React components should use the hooks in ./hooks, which bind the
+ * connected wallet and add toasts.
+ */
+
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import type { Signer } from '@mysten/sui/cryptography'
+import type { Transaction } from '@mysten/sui/transactions'
+import { suiClient } from '../sui/client'
+import { classifyTransactionError, TransactionError } from './errors'
+import {
+  getTransactionHistory,
+  startTransactionRecord,
+  updateTransactionRecord,
+  type TransactionStatus,
+} from './history'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_CONFIRM_TIMEOUT_MS = 30_000
+const RETRY_BASE_DELAY_MS = 1_000
+
+const RESPONSE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Signs and submits a transaction, returning its digest
+ * (e.g. the wallet's signAndExecuteTransaction, or keypairExecutor)
+ */
+export type TransactionExecutor = (tx: Transaction) => Promise<{ digest: string }>
+
+export interface ConfirmOptions {
+  maxRetries?: number                 // Extra attempts after a transient failure
+  timeoutMs?: number                  // Per attempt
+  onAttempt?: (attempt: number) => void
+}
+
+export interface RunTransactionOptions extends ConfirmOptions {
+  label: string
+  build: () => Transaction | Promise<Transaction>
+  execute: TransactionExecutor
+  onStatus?: (status: TransactionStatus) => void
+}
+
+export interface TransactionOutcome {
+  digest: string
+  response: SuiTransactionBlockResponse   // Effects, events and object changes
+  recordId: string
+}
+
+// ============================================
+// EXECUTORS
+// ============================================
+
+/**
+ * Executor for signing without a wallet: a keypair for server-side or
+ * scripted use, or a ZkLoginSigner for social-login sessions
+ */
+export function keypairExecutor(signer: Signer): TransactionExecutor {
+  return async (tx) => {
+    const { digest } = await suiClient.signAndExecuteTransaction({ transaction: tx, signer })
+    return { digest }
+  }
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+/**
+ * Wait for a submitted transaction's effects, retrying transient RPC errors
+ *
+ * @param digest - Transaction digest
+ * @param options - Retry count and per-attempt timeout
+ * @returns Full response (status is not checked here)
+ * @throws TransactionError ('timeout' or 'rpc' once retries are exhausted)
+ */
+export async function confirmTransaction(
+  digest: string,
+  options: ConfirmOptions = {}
+): Promise<SuiTransactionBlockResponse> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+
+  for (let attempt = 1; ; attempt++) {
+    options.onAttempt?.(attempt)
+
+    try {
+      return await suiClient.waitForTransaction({
+        digest,
+        timeout: options.timeoutMs ?? DEFAULT_CONFIRM_TIMEOUT_MS,
+        options: RESPONSE_OPTIONS,
+      })
+    } catch (error) {
+      const classified = classifyTransactionError(error, digest)
+      if (!classified.transient || attempt > maxRetries) {
+        throw classified
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+      console.warn(`[confirmTransaction] ${classified.kind} on attempt ${attempt}, retrying in ${delay}ms`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
+
+/** Records being confirmed by this page, so resume doesn't double up */
+const inFlight = new Set<string>()
+
+function recordFailure(recordId: string, failure: TransactionError): void {
+  updateTransactionRecord(recordId, {
+    status: 'failed',
+    error: { kind: failure.kind, message: failure.message, abortCode: failure.abort?.code ?? null },
+  })
+}
+
+/**
+ * Fail with a classified error unless the effects report success
+ */
+function assertSucceeded(response: SuiTransactionBlockResponse): void {
+  const status = response.effects?.status
+  if (status?.status !== 'success') {
+    throw classifyTransactionError(status?.error ?? 'Transaction failed without an error message', response.digest)
+  }
+}
+
+/**
+ * Build, sign, submit and confirm a transaction
+ *
+ * @param options - Label for the history, builder, executor and retry settings
+ * @returns Digest and confirmed response
+ * @throws TransactionError for every kind of failure
+ */
+export async function runTransaction(options: RunTransactionOptions): Promise<TransactionOutcome> {
+  const record = startTransactionRecord(options.label)
+  let digest: string | null = null
+  inFlight.add(record.id)
+
+  const setStatus = (status: TransactionStatus, patch: { digest?: string } = {}) => {
+    updateTransactionRecord(record.id, { status, ...patch })
+    options.onStatus?.(status)
+  }
+
+  try {
+    options.onStatus?.('building')
+    const tx = await options.build()
+
+    setStatus('signing')
+    digest = (await options.execute(tx)).digest
+
+    setStatus('confirming', { digest })
+    const response = await confirmTransaction(digest, {
+      ...options,
+      onAttempt: (attempt) => {
+        updateTransactionRecord(record.id, { attempts: attempt })
+        options.onAttempt?.(attempt)
+      },
+    })
+    assertSucceeded(response)
+
+    setStatus('success')
+    return { digest, response, recordId: record.id }
+  } catch (error) {
+    const failure = classifyTransactionError(error, digest)
+    console.error(`[runTransaction] ${options.label} failed (${failure.kind}):`, failure.original ?? failure)
+
+    recordFailure(record.id, failure)
+    options.onStatus?.('failed')
+    throw failure
+  } finally {
+    inFlight.delete(record.id)
+  }
+}
+
+// ============================================
+// RESUME AFTER RELOAD
+// ============================================
+
+/**
+ * Re-check transactions that were still confirming when the page was
+ * reloaded, so the history doesn't show them as pending forever
+ */
+export async function resumePendingTransactions(): Promise<void> {
+  const pending = getTransactionHistory().filter(
+    record => record.status === 'confirming' && record.digest && !inFlight.has(record.id)
+  )
+
+  await Promise.all(pending.map(async (record) => {
+    inFlight.add(record.id)
+    try {
+      const response = await confirmTransaction(record.digest!)
+      assertSucceeded(response)
+      updateTransactionRecord(record.id, { status: 'success' })
+    } catch (error) {
+      recordFailure(record.id, classifyTransactionError(error, record.digest))
+    } finally {
+      inFlight.delete(record.id)
+    }
+  }))
+}
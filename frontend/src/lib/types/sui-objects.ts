@@ -144,6 +144,16 @@ export interface PaginatedObjectsResponse<T> {
   hasNextPage: boolean
 }
 
+/**
+ * Sort orders supported by item queries
+ * - newest: most recently listed first
+ * - price_asc / price_desc: by current price
+ * - ending_soon: items whose earliest live offer expires first (items without live offers last)
+ */
+export type ItemSortOrder = 'newest' | 'price_asc' | 'price_desc' | 'ending_soon'
+
+export const ITEM_SORT_ORDERS: ItemSortOrder[] = ['newest', 'price_asc', 'price_desc', 'ending_soon']
+
 /**
  * Filter options for querying items
  */
@@ -153,6 +163,13 @@ export interface ItemQueryFilters {
   minPrice?: bigint                   // Minimum price in MIST
   maxPrice?: bigint                   // Maximum price in MIST
   status?: ItemStatus                 // Filter by status
+  condition?: string                  // Filter by condition (case-insensitive)
+  brand?: string                      // Filter by brand (case-insensitive)
+  size?: string                       // Filter by size (case-insensitive)
+  color?: string                      // Filter by color (case-insensitive)
+  text?: string                       // Free-text match on title, description and brand
+  sort?: ItemSortOrder                // Default: newest
+  includeHidden?: boolean             // Keep listings moderation hid (a seller's own stash)
 }
 
 /**
@@ -176,68 +193,6 @@ export interface SearchResult {
   similarity: number                  // Similarity score (0-1)
 }
 
-// ============================================
-// TRANSACTION BUILDER TYPES
-// ============================================
-
-/**
- * Parameters for creating a new item listing
- * Walrus blob IDs are stored on-chain for decentralized image storage
- */
-export interface CreateItemParams {
-  title: string
-  description: string
-  price: bigint                       // In MIST (1 SUI = 1_000_000_000 MIST)
-  category: string
-  condition: string
-  brand: string
-  size: string
-  color: string
-  material: string
-  walrusImageIds: string[]            // Walrus blob IDs stored on-chain
-}
-
-/**
- * Parameters for creating an offer
- */
-export interface CreateOfferParams {
-  itemId: string                      // Sui object ID of ThriftItem
-  amount: bigint                      // Offer amount in MIST
-  message?: string                    // Optional message to seller
-  expiresInDays?: number              // Default: 7 days
-}
-
-/**
- * Parameters for accepting an offer
- */
-export interface AcceptOfferParams {
-  offerId: string                     // Sui object ID of Offer
-  itemId: string                      // Sui object ID of ThriftItem
-}
-
-/**
- * Parameters for countering an offer
- */
-export interface CounterOfferParams {
-  offerId: string                     // Sui object ID of Offer
-  counterAmount: bigint               // Counter offer amount in MIST
-  counterMessage: string              // Message to buyer
-}
-
-/**
- * Parameters for accepting a counter offer (buyer side)
- */
-export interface AcceptCounterOfferParams {
-  offerId: string                     // Sui object ID of Offer
-}
-
-/**
- * Parameters for confirming delivery
- */
-export interface ConfirmDeliveryParams {
-  escrowId: string                    // Sui object ID of Escrow
-}
-
 // ============================================
 // EVENT TYPES
 // ============================================
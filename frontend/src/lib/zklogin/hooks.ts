@@ -0,0 +1,57 @@
+"use client"
+
+/**
+ * zkLogin React hook
+ *
+ * useZkLogin exposes the tab's social-login session and a ready Signer,
+ * and drops the session once the network has moved past its max epoch.
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { suiClient } from '../sui/client'
+import {
+  beginZkLogin,
+  clearZkLoginSession,
+  getZkLoginSession,
+  isZkLoginSessionExpired,
+  subscribeZkLoginSession,
+} from './session'
+import { ZkLoginSigner } from './signer'
+
+export function useZkLogin() {
+  const session = useSyncExternalStore(subscribeZkLoginSession, getZkLoginSession, () => null)
+
+  useEffect(() => {
+    if (!session) return
+
+    let cancelled = false
+    suiClient.getLatestSuiSystemState()
+      .then(({ epoch }) => {
+        if (!cancelled && isZkLoginSessionExpired(session, Number(epoch))) {
+          clearZkLoginSession()
+        }
+      })
+      .catch(error => console.warn('[useZkLogin] Could not check session expiry:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [session])
+
+  const signer = useMemo(
+    () => (session ? ZkLoginSigner.fromSecretKey(session.secretKey, session) : null),
+    [session]
+  )
+
+  const signIn = useCallback(async () => {
+    window.location.assign(await beginZkLogin())
+  }, [])
+
+  return {
+    session,
+    address: session?.address ?? null,
+    signer,
+    signIn,
+    signOut: clearZkLoginSession,
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * OpenID id_token validation
+ *
+ * zkLogin binds an address to the (iss, aud, sub) of an id_token, so the
+ * token has to be checked before a salt or proof is handed out for it:
+ * RS256 signature against the provider's published keys, issuer, audience,
+ * expiry, and the nonce that commits to the ephemeral key.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface IdTokenClaims {
+  iss: string
+  aud: string
+  sub: string
+  nonce: string
+  exp: number
+  iat?: number
+  email?: string
+  name?: string
+}
+
+export interface VerifyIdTokenOptions {
+  issuers: string[]                   // Accepted `iss` values
+  audience: string                    // OAuth client id
+  nonce: string                       // Expected nonce (derived from the ephemeral key)
+  resolveKey: JwkResolver
+  now?: number                        // Seconds since epoch (tests)
+  clockSkewSeconds?: number
+}
+
+/** Looks up the provider's signing key for a `kid` */
+export type JwkResolver = (kid: string) => Promise<JsonWebKey | null>
+
+export class JwtValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JwtValidationError'
+  }
+}
+
+// ============================================
+// DECODING
+// ============================================
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T
+  } catch {
+    throw new JwtValidationError('Malformed id_token')
+  }
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+const JWKS_CACHE_MS = 60 * 60 * 1000
+
+/**
+ * Key resolver backed by a JWKS endpoint (e.g. Google's oauth2/v3/certs).
+ * Keys are cached for an hour and refetched when an unknown `kid` shows up,
+ * which is how providers roll their keys.
+ */
+export function remoteJwks(url: string): JwkResolver {
+  let keys: Map<string, JsonWebKey> | null = null
+  let fetchedAt = 0
+
+  const refresh = async () => {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch signing keys from ${url} (${response.status})`)
+    }
+    const { keys: list } = await response.json() as { keys: (JsonWebKey & { kid: string })[] }
+    keys = new Map(list.map(key => [key.kid, key]))
+    fetchedAt = Date.now()
+  }
+
+  return async (kid) => {
+    if (!keys || Date.now() - fetchedAt > JWKS_CACHE_MS || !keys.has(kid)) {
+      await refresh()
+    }
+    return keys!.get(kid) ?? null
+  }
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Verify an id_token and return its claims
+ *
+ * @param token - Compact JWT from the OAuth redirect
+ * @param options - Accepted issuers, audience, expected nonce and key lookup
+ * @returns Validated claims
+ * @throws JwtValidationError describing the first check that failed
+ */
+export async function verifyIdToken(token: string, options: VerifyIdTokenOptions): Promise<IdTokenClaims> {
+  const segments = token.split('.')
+  if (segments.length !== 3) {
+    throw new JwtValidationError('Malformed id_token')
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = segments
+
+  const header = decodeSegment<{ alg?: string; kid?: string }>(headerSegment)
+  if (header.alg !== 'RS256' || !header.kid) {
+    throw new JwtValidationError(`Unsupported id_token algorithm ${header.alg ?? '(none)'}`)
+  }
+
+  const jwk = await options.resolveKey(header.kid)
+  if (!jwk) {
+    throw new JwtValidationError('id_token was signed with an unknown key')
+  }
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  )
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    Buffer.from(signatureSegment, 'base64url'),
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+  )
+  if (!valid) {
+    throw new JwtValidationError('id_token signature is invalid')
+  }
+
+  const claims = decodeSegment<Partial<IdTokenClaims>>(payloadSegment)
+  const now = options.now ?? Math.floor(Date.now() / 1000)
+  const skew = options.clockSkewSeconds ?? 60
+
+  if (!claims.iss || !options.issuers.includes(claims.iss)) {
+    throw new JwtValidationError(`Unexpected id_token issuer ${claims.iss ?? '(none)'}`)
+  }
+  if (claims.aud !== options.audience) {
+    throw new JwtValidationError('id_token was issued for a different client')
+  }
+  if (!claims.sub) {
+    throw new JwtValidationError('id_token has no subject')
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + skew < now) {
+    throw new JwtValidationError('id_token has expired')
+  }
+  if (claims.nonce !== options.nonce) {
+    throw new JwtValidationError('id_token nonce does not match the login request')
+  }
+
+  return claims as IdTokenClaims
+}
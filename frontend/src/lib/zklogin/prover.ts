@@ -0,0 +1,98 @@
+/**
+ * zkLogin Provers
+ *
+ * The prover turns (id_token, ephemeral key, max epoch, randomness, salt)
+ * into the Groth16 proof that goes into every zkLogin signature. Proving is
+ * a service call (Mysten's prover, Enoki, or a self-hosted prover), so it
+ * sits behind an interface; MockProver stands in locally and in tests.
+ */
+
+import type { ZkLoginSignatureInputs } from '@mysten/sui/zklogin'
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Proof as returned by the prover; the address seed is added by the caller */
+export type ZkProof = Omit<ZkLoginSignatureInputs, 'addressSeed'>
+
+export interface ProofRequest {
+  jwt: string
+  extendedEphemeralPublicKey: string  // Base64, flag-prefixed (getExtendedEphemeralPublicKey)
+  maxEpoch: number
+  randomness: string
+  salt: string
+  keyClaimName: 'sub'
+}
+
+export interface ZkProver {
+  readonly name: string
+  prove(request: ProofRequest): Promise<ZkProof>
+}
+
+// ============================================
+// REMOTE
+// ============================================
+
+/**
+ * Prover speaking the Mysten prover API (POST /v1), which self-hosted
+ * provers also implement
+ */
+export class RemoteProver implements ZkProver {
+  readonly name = 'remote'
+
+  constructor(private readonly url: string) {}
+
+  async prove(request: ProofRequest): Promise<ZkProof> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jwt: request.jwt,
+        extendedEphemeralPublicKey: request.extendedEphemeralPublicKey,
+        maxEpoch: String(request.maxEpoch),
+        jwtRandomness: request.randomness,
+        salt: request.salt,
+        keyClaimName: request.keyClaimName,
+      }),
+    })
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      throw new Error(`Prover returned ${response.status}${detail ? `: ${detail}` : ''}`)
+    }
+    return await response.json() as ZkProof
+  }
+}
+
+// ============================================
+// MOCK
+// ============================================
+
+/**
+ * Returns a well-formed proof that the network will not accept. The issuer
+ * and header are encoded exactly as a real prover would, so signatures
+ * parse and resolve to the right address; only the proof points are fake.
+ */
+export class MockProver implements ZkProver {
+  readonly name = 'mock'
+
+  async prove(request: ProofRequest): Promise<ZkProof> {
+    const [headerBase64, payload] = request.jwt.split('.')
+    const { iss } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as { iss: string }
+
+    return {
+      proofPoints: {
+        a: ['1', '2', '1'],
+        b: [['1', '0'], ['1', '0'], ['1', '0']],
+        c: ['1', '2', '1'],
+      },
+      issBase64Details: {
+        // The claim as it appears in the payload, encoded from offset 0
+        value: Buffer.from(`"iss":${JSON.stringify(iss)},`).toString('base64url'),
+        indexMod4: 0,
+      },
+      headerBase64,
+    }
+  }
+}
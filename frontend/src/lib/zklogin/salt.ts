@@ -0,0 +1,67 @@
+/**
+ * zkLogin Salt Service
+ *
+ * The salt keeps a zkLogin address from being linked to the OAuth account
+ * that owns it, and it must be stable: a different salt is a different
+ * address. Salts are derived with an HMAC over the token's (iss, aud, sub)
+ * under a server secret, so nothing needs storing. A remote salt service
+ * (e.g. Mysten's) can be used instead.
+ */
+
+import { createHmac } from 'crypto'
+import type { IdTokenClaims } from './jwt'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SaltService {
+  /**
+   * @param claims - Validated claims of the id_token
+   * @param jwt - The raw id_token (remote services verify it themselves)
+   * @returns Decimal string below 2^128
+   */
+  getSalt(claims: IdTokenClaims, jwt: string): Promise<string>
+}
+
+// ============================================
+// IMPLEMENTATIONS
+// ============================================
+
+export class HmacSaltService implements SaltService {
+  constructor(private readonly secret: string) {
+    if (secret.length < 32) {
+      throw new Error('zkLogin salt secret must be at least 32 characters')
+    }
+  }
+
+  async getSalt(claims: IdTokenClaims): Promise<string> {
+    const digest = createHmac('sha256', this.secret)
+      .update(`${claims.iss}|${claims.aud}|${claims.sub}`)
+      .digest()
+
+    // First 16 bytes keep the salt inside the 128 bits the circuit accepts
+    return BigInt('0x' + digest.subarray(0, 16).toString('hex')).toString()
+  }
+}
+
+export class RemoteSaltService implements SaltService {
+  constructor(private readonly url: string) {}
+
+  async getSalt(_claims: IdTokenClaims, jwt: string): Promise<string> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: jwt }),
+    })
+    if (!response.ok) {
+      throw new Error(`Salt service returned ${response.status}`)
+    }
+
+    const { salt } = await response.json() as { salt?: string }
+    if (!salt) {
+      throw new Error('Salt service returned no salt')
+    }
+    return salt
+  }
+}
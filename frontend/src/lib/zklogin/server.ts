@@ -0,0 +1,214 @@
+/**
+ * zkLogin server side
+ *
+ * The browser keeps the ephemeral keypair; the server only sees its public
+ * half. Completing a login here means:
+ *   1. recompute the nonce from (ephemeral public key, max epoch, randomness)
+ *   2. validate the id_token against the provider, with that nonce
+ *   3. look up the user's salt and derive the address seed and address
+ *   4. fetch the proof from the prover
+ * The browser combines the result with its ephemeral key (./signer).
+ */
+
+import { Ed25519PublicKey } from '@mysten/sui/keypairs/ed25519'
+import {
+  computeZkLoginAddressFromSeed,
+  genAddressSeed,
+  generateNonce,
+  getExtendedEphemeralPublicKey,
+} from '@mysten/sui/zklogin'
+import { suiClient } from '../sui/client'
+import { remoteJwks, verifyIdToken, JwtValidationError, type JwkResolver } from './jwt'
+import { MockProver, RemoteProver, type ZkProof, type ZkProver } from './prover'
+import { HmacSaltService, RemoteSaltService, type SaltService } from './salt'
+import { MAX_EPOCH_OFFSET } from './session'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ZkLoginProvider {
+  name: string
+  authUrl: string
+  issuers: string[]
+  clientId: string
+  resolveKey: JwkResolver
+}
+
+export interface ZkLoginService {
+  provider: ZkLoginProvider
+  salt: SaltService
+  prover: ZkProver
+  currentEpoch: () => Promise<number>
+}
+
+export interface CompleteZkLoginRequest {
+  jwt: string
+  ephemeralPublicKey: string          // Base64 Ed25519 public key
+  maxEpoch: number
+  randomness: string
+}
+
+/** Everything the browser needs, besides its ephemeral key, to sign */
+export interface ZkLoginCredentials {
+  address: string
+  addressSeed: string
+  proof: ZkProof
+  maxEpoch: number
+  iss: string
+  displayName: string | null
+}
+
+export class ZkLoginError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'ZkLoginError'
+  }
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+let service: ZkLoginService | null | undefined
+
+/**
+ * Service configured from the environment:
+ *   ZKLOGIN_OAUTH_CLIENT_ID  Google OAuth client id (falls back to ENOKI_OAUTH_CLIENT_ID)
+ *   ZKLOGIN_SALT_SECRET      HMAC secret for salts, or ZKLOGIN_SALT_URL for a salt service
+ *   ZKLOGIN_PROVER_URL       Prover endpoint, or ZKLOGIN_PROVER=mock for local development
+ *
+ * @returns The service, or null when zkLogin isn't configured
+ */
+export function getZkLoginService(): ZkLoginService | null {
+  if (service !== undefined) {
+    return service
+  }
+
+  const clientId = process.env.ZKLOGIN_OAUTH_CLIENT_ID ?? process.env.ENOKI_OAUTH_CLIENT_ID
+  const salt = process.env.ZKLOGIN_SALT_URL
+    ? new RemoteSaltService(process.env.ZKLOGIN_SALT_URL)
+    : process.env.ZKLOGIN_SALT_SECRET
+      ? new HmacSaltService(process.env.ZKLOGIN_SALT_SECRET)
+      : null
+  const prover = process.env.ZKLOGIN_PROVER === 'mock'
+    ? new MockProver()
+    : process.env.ZKLOGIN_PROVER_URL
+      ? new RemoteProver(process.env.ZKLOGIN_PROVER_URL)
+      : null
+
+  if (!clientId || !salt || !prover) {
+    service = null
+    return service
+  }
+
+  service = {
+    provider: {
+      name: 'google',
+      authUrl: process.env.ZKLOGIN_OAUTH_URL ?? 'https://accounts.google.com/o/oauth2/v2/auth',
+      issuers: process.env.ZKLOGIN_OAUTH_ISSUER
+        ? [process.env.ZKLOGIN_OAUTH_ISSUER]
+        : ['https://accounts.google.com', 'accounts.google.com'],
+      clientId,
+      resolveKey: remoteJwks(process.env.ZKLOGIN_JWKS_URL ?? 'https://www.googleapis.com/oauth2/v3/certs'),
+    },
+    salt,
+    prover,
+    currentEpoch: async () => Number((await suiClient.getLatestSuiSystemState()).epoch),
+  }
+  return service
+}
+
+/**
+ * Replace the service (tests)
+ */
+export function setZkLoginService(next: ZkLoginService | null): void {
+  service = next
+}
+
+// ============================================
+// FLOW
+// ============================================
+
+/**
+ * OAuth URL that returns an id_token committing to `nonce`
+ */
+export function buildAuthorizationUrl(
+  provider: ZkLoginProvider,
+  params: { nonce: string; state: string; redirectUri: string }
+): string {
+  const url = new URL(provider.authUrl)
+  url.searchParams.set('client_id', provider.clientId)
+  url.searchParams.set('redirect_uri', params.redirectUri)
+  url.searchParams.set('response_type', 'id_token')
+  url.searchParams.set('scope', 'openid email profile')
+  url.searchParams.set('nonce', params.nonce)
+  url.searchParams.set('state', params.state)
+  return url.toString()
+}
+
+/**
+ * Validate a completed login and produce signing credentials
+ *
+ * @param zkLogin - Provider, salt service and prover
+ * @param request - id_token plus the ephemeral key parameters behind its nonce
+ * @returns Address, address seed and proof
+ * @throws ZkLoginError (400 for bad input, 401 for a rejected token, 502 for service failures)
+ */
+export async function issueZkLoginCredentials(
+  zkLogin: ZkLoginService,
+  request: CompleteZkLoginRequest
+): Promise<ZkLoginCredentials> {
+  if (!Number.isSafeInteger(request.maxEpoch) || request.maxEpoch < 0) {
+    throw new ZkLoginError('Invalid maxEpoch')
+  }
+
+  let ephemeralPublicKey: Ed25519PublicKey
+  let nonce: string
+  try {
+    ephemeralPublicKey = new Ed25519PublicKey(request.ephemeralPublicKey)
+    nonce = generateNonce(ephemeralPublicKey, request.maxEpoch, request.randomness)
+  } catch {
+    throw new ZkLoginError('Invalid ephemeral public key or randomness')
+  }
+
+  const epoch = await zkLogin.currentEpoch()
+  if (request.maxEpoch < epoch || request.maxEpoch > epoch + MAX_EPOCH_OFFSET) {
+    throw new ZkLoginError(`maxEpoch must be between ${epoch} and ${epoch + MAX_EPOCH_OFFSET}`)
+  }
+
+  const claims = await verifyIdToken(request.jwt, {
+    issuers: zkLogin.provider.issuers,
+    audience: zkLogin.provider.clientId,
+    nonce,
+    resolveKey: zkLogin.provider.resolveKey,
+  }).catch((error) => {
+    throw error instanceof JwtValidationError ? new ZkLoginError(error.message, 401) : error
+  })
+
+  try {
+    const salt = await zkLogin.salt.getSalt(claims, request.jwt)
+    const addressSeed = genAddressSeed(BigInt(salt), 'sub', claims.sub, claims.aud)
+
+    const proof = await zkLogin.prover.prove({
+      jwt: request.jwt,
+      extendedEphemeralPublicKey: getExtendedEphemeralPublicKey(ephemeralPublicKey),
+      maxEpoch: request.maxEpoch,
+      randomness: request.randomness,
+      salt,
+      keyClaimName: 'sub',
+    })
+
+    return {
+      address: computeZkLoginAddressFromSeed(addressSeed, claims.iss),
+      addressSeed: addressSeed.toString(),
+      proof,
+      maxEpoch: request.maxEpoch,
+      iss: claims.iss,
+      displayName: claims.name ?? claims.email ?? null,
+    }
+  } catch (error) {
+    console.error('[zklogin] Salt or proof request failed:', error)
+    throw new ZkLoginError('Could not complete zkLogin, try again later', 502)
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * zkLogin browser session
+ *
+ * Holds the ephemeral keypair for the current tab: created when login
+ * starts (its public key and the max epoch go into the OAuth nonce), then
+ * stored with the proof and address once the callback completes. Kept in
+ * sessionStorage so the key never outlives the tab and never leaves the
+ * browser; the session ends when the network passes its max epoch.
+ */
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { generateNonce, generateRandomness } from '@mysten/sui/zklogin'
+import { toHex } from '@mysten/sui/utils'
+import { suiClient } from '../sui/client'
+import type { ZkLoginCredentials } from './server'
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Epochs (~24h each) an ephemeral key stays valid for */
+export const MAX_EPOCH_OFFSET = 2
+
+export interface ZkLoginSession extends ZkLoginCredentials {
+  secretKey: string                   // Bech32 ephemeral secret key
+}
+
+interface PendingZkLogin {
+  secretKey: string
+  maxEpoch: number
+  randomness: string
+  state: string                       // Echoed back by the provider; ties the callback to this tab
+  returnTo: string
+}
+
+// ============================================
+// STORE
+// ============================================
+
+const PENDING_KEY = 'thriftchain:zklogin:pending'
+const SESSION_KEY = 'thriftchain:zklogin:session'
+
+let session: ZkLoginSession | null | undefined
+const listeners = new Set<() => void>()
+
+function read<T>(key: string): T | null {
+  if (typeof window === 'undefined') return null
+  try {
+    return JSON.parse(window.sessionStorage.getItem(key) ?? 'null') as T | null
+  } catch {
+    return null
+  }
+}
+
+function write(key: string, value: unknown): void {
+  if (value === null) {
+    window.sessionStorage.removeItem(key)
+  } else {
+    window.sessionStorage.setItem(key, JSON.stringify(value))
+  }
+}
+
+function setSession(next: ZkLoginSession | null): void {
+  session = next
+  write(SESSION_KEY, next)
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Current session; the same object until it changes, so it can be used
+ * directly as a useSyncExternalStore snapshot
+ */
+export function getZkLoginSession(): ZkLoginSession | null {
+  if (session === undefined) {
+    session = read<ZkLoginSession>(SESSION_KEY)
+  }
+  return session
+}
+
+export function subscribeZkLoginSession(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function clearZkLoginSession(): void {
+  setSession(null)
+}
+
+export function isZkLoginSessionExpired(current: ZkLoginSession, epoch: number): boolean {
+  return epoch > current.maxEpoch
+}
+
+// ============================================
+// FLOW
+// ============================================
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `zkLogin request failed (${response.status})`)
+  }
+  return data as T
+}
+
+/**
+ * Create an ephemeral key for this tab and get the provider's login URL
+ *
+ * @param returnTo - Path to go back to after the callback
+ * @returns URL to navigate to
+ */
+export async function beginZkLogin(returnTo = window.location.pathname): Promise<string> {
+  const { epoch } = await suiClient.getLatestSuiSystemState()
+  const maxEpoch = Number(epoch) + MAX_EPOCH_OFFSET
+
+  const keypair = new Ed25519Keypair()
+  const randomness = generateRandomness()
+  const nonce = generateNonce(keypair.getPublicKey(), maxEpoch, randomness)
+  const state = toHex(crypto.getRandomValues(new Uint8Array(16)))
+
+  write(PENDING_KEY, {
+    secretKey: keypair.getSecretKey(),
+    maxEpoch,
+    randomness,
+    state,
+    returnTo,
+  } satisfies PendingZkLogin)
+
+  const { loginUrl } = await postJson<{ loginUrl: string }>('/api/zklogin/start-flow', { nonce, state })
+  return loginUrl
+}
+
+/** Completion in progress, so a re-run of the callback effect joins it */
+let completing: { state: string; result: Promise<{ session: ZkLoginSession; returnTo: string }> } | null = null
+
+/**
+ * Whether a callback's `state` belongs to a login started in this tab
+ */
+export function isPendingZkLogin(state: string | null): boolean {
+  return state !== null && (completing?.state === state || read<PendingZkLogin>(PENDING_KEY)?.state === state)
+}
+
+/**
+ * Exchange the provider's redirect for a session
+ *
+ * @param fragment - location.hash of the OAuth callback
+ * @returns The new session and where to send the user
+ * @throws Error when the redirect doesn't match the pending login or the server rejects it
+ */
+export function finishZkLogin(fragment: string): Promise<{ session: ZkLoginSession; returnTo: string }> {
+  const state = new URLSearchParams(fragment.replace(/^#/, '')).get('state')
+  if (!completing || completing.state !== state) {
+    completing = { state: state ?? '', result: exchangeCallback(fragment) }
+  }
+  return completing.result
+}
+
+async function exchangeCallback(fragment: string): Promise<{ session: ZkLoginSession; returnTo: string }> {
+  const params = new URLSearchParams(fragment.replace(/^#/, ''))
+  const providerError = params.get('error')
+  if (providerError) {
+    throw new Error(`Sign-in was not completed (${providerError})`)
+  }
+
+  const pending = read<PendingZkLogin>(PENDING_KEY)
+  const jwt = params.get('id_token')
+  if (!pending || pending.state !== params.get('state')) {
+    throw new Error('This sign-in did not start in this tab, please try again')
+  }
+  if (!jwt) {
+    throw new Error('The provider did not return an id_token')
+  }
+  write(PENDING_KEY, null)
+
+  const keypair = Ed25519Keypair.fromSecretKey(pending.secretKey)
+  const credentials = await postJson<ZkLoginCredentials>('/api/zklogin/complete', {
+    jwt,
+    ephemeralPublicKey: keypair.getPublicKey().toBase64(),
+    maxEpoch: pending.maxEpoch,
+    randomness: pending.randomness,
+  })
+
+  const next: ZkLoginSession = { ...credentials, secretKey: pending.secretKey }
+  setSession(next)
+  return { session: next, returnTo: pending.returnTo }
+}
@@ -0,0 +1,63 @@
+/**
+ * zkLogin Signer
+ *
+ * A Signer for a zkLogin address: the ephemeral Ed25519 key signs, and the
+ * signature is wrapped with the proof and address seed into a zkLogin
+ * signature. Being a regular Signer, it works anywhere a keypair does,
+ * including the transaction runner via keypairExecutor.
+ */
+
+import { Signer, type IntentScope, type PublicKey, type SignatureWithBytes } from '@mysten/sui/cryptography'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { getZkLoginSignature, toZkLoginPublicIdentifier } from '@mysten/sui/zklogin'
+import type { ZkLoginCredentials } from './server'
+
+export class ZkLoginSigner extends Signer {
+  constructor(
+    private readonly ephemeralKeypair: Ed25519Keypair,
+    private readonly credentials: ZkLoginCredentials
+  ) {
+    super()
+  }
+
+  /**
+   * @param secretKey - Bech32 (suiprivkey…) ephemeral secret key
+   * @param credentials - Proof and address from POST /api/zklogin/complete
+   */
+  static fromSecretKey(secretKey: string, credentials: ZkLoginCredentials): ZkLoginSigner {
+    return new ZkLoginSigner(Ed25519Keypair.fromSecretKey(secretKey), credentials)
+  }
+
+  get maxEpoch(): number {
+    return this.credentials.maxEpoch
+  }
+
+  async sign(bytes: Uint8Array): Promise<Uint8Array> {
+    return this.ephemeralKeypair.sign(bytes)
+  }
+
+  async signWithIntent(bytes: Uint8Array, intent: IntentScope): Promise<SignatureWithBytes> {
+    const { bytes: signedBytes, signature: userSignature } = await this.ephemeralKeypair.signWithIntent(bytes, intent)
+
+    return {
+      bytes: signedBytes,
+      signature: getZkLoginSignature({
+        inputs: { ...this.credentials.proof, addressSeed: this.credentials.addressSeed },
+        maxEpoch: this.credentials.maxEpoch,
+        userSignature,
+      }),
+    }
+  }
+
+  getKeyScheme() {
+    return 'ZkLogin' as const
+  }
+
+  getPublicKey(): PublicKey {
+    return toZkLoginPublicIdentifier(BigInt(this.credentials.addressSeed), this.credentials.iss)
+  }
+
+  toSuiAddress(): string {
+    return this.credentials.address
+  }
+}
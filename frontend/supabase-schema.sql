@@ -17,12 +17,13 @@ DROP TABLE IF EXISTS item_search_index CASCADE;
 -- ============================================
 
 CREATE EXTENSION IF NOT EXISTS "vector";  -- For pgvector support
+CREATE EXTENSION IF NOT EXISTS "pg_trgm"; -- For fuzzy keyword search
 
 -- ============================================
--- CREATE TABLE (6 columns only)
+-- CREATE TABLE (8 columns only)
 -- ============================================
 
-CREATE TABLE item_search_index (
+CREATE TABLE IF NOT EXISTS item_search_index (
     -- Primary key: Sui blockchain object ID
     sui_object_id TEXT PRIMARY KEY,
 
@@ -32,10 +33,21 @@ CREATE TABLE item_search_index (
     image_embedding VECTOR(768),
     combined_embedding VECTOR(768),
 
+    -- EmbeddingProvider that produced all four (lib/ai/embedding-providers).
+    -- Vectors are only ever compared with vectors of the same model.
+    embedding_model TEXT NOT NULL,
+    embedding_dimensions INT NOT NULL,
+
     -- Timestamp
     indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Deployments indexed before the model was recorded: all Gemini, 768-d
+ALTER TABLE item_search_index ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-004';
+ALTER TABLE item_search_index ADD COLUMN IF NOT EXISTS embedding_dimensions INT NOT NULL DEFAULT 768;
+ALTER TABLE item_search_index ALTER COLUMN embedding_model DROP DEFAULT;
+ALTER TABLE item_search_index ALTER COLUMN embedding_dimensions DROP DEFAULT;
+
 -- ============================================
 -- TABLE COMMENTS
 -- ============================================
@@ -58,25 +70,31 @@ COMMENT ON COLUMN item_search_index.image_embedding IS
 COMMENT ON COLUMN item_search_index.combined_embedding IS
 'Combined embedding of title + description + image for holistic search';
 
+COMMENT ON COLUMN item_search_index.embedding_model IS
+'Embedding model of the four vectors (e.g. text-embedding-004, local-hash-v1); every similarity search filters on it';
+
+COMMENT ON COLUMN item_search_index.embedding_dimensions IS
+'Length of the four vectors as produced by embedding_model';
+
 -- ============================================
 -- CREATE INDEXES
 -- ============================================
 
 -- Vector similarity search indexes (IVFFlat for fast approximate search)
-CREATE INDEX idx_title_embedding ON item_search_index
+CREATE INDEX IF NOT EXISTS idx_title_embedding ON item_search_index
     USING ivfflat (title_embedding vector_cosine_ops);
 
-CREATE INDEX idx_description_embedding ON item_search_index
+CREATE INDEX IF NOT EXISTS idx_description_embedding ON item_search_index
     USING ivfflat (description_embedding vector_cosine_ops);
 
-CREATE INDEX idx_image_embedding ON item_search_index
+CREATE INDEX IF NOT EXISTS idx_image_embedding ON item_search_index
     USING ivfflat (image_embedding vector_cosine_ops);
 
-CREATE INDEX idx_combined_embedding ON item_search_index
+CREATE INDEX IF NOT EXISTS idx_combined_embedding ON item_search_index
     USING ivfflat (combined_embedding vector_cosine_ops);
 
 -- Time-based index for sorting by recency
-CREATE INDEX idx_time ON item_search_index(indexed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_time ON item_search_index(indexed_at DESC);
 
 -- ============================================
 -- ROW LEVEL SECURITY (RLS)
@@ -84,17 +102,117 @@ CREATE INDEX idx_time ON item_search_index(indexed_at DESC);
 
 ALTER TABLE item_search_index ENABLE ROW LEVEL SECURITY;
 
--- Permissive policy: allow all operations for MVP
--- TODO: Tighten this in production (e.g., only allow updates from item owner)
-CREATE POLICY "Allow all operations"
-    ON item_search_index FOR ALL
-    USING (true)
-    WITH CHECK (true);
+-- Public read, writes only through the service role (which bypasses RLS):
+-- /api/ai/index-item, after checking the seller's signature and the chain
+DROP POLICY IF EXISTS "Allow all operations" ON item_search_index;
+DROP POLICY IF EXISTS "Public read" ON item_search_index;
+CREATE POLICY "Public read"
+    ON item_search_index FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+-- ============================================
+-- MODERATION VERDICTS
+-- ============================================
+-- One verdict per listing from the moderation pipeline (lib/moderation),
+-- written by /api/ai/index-item and overridden by moderators in /admin.
+-- Blocked and pending-review listings, and every listing of a banned
+-- address, are left out of search, browsing and the feed through
+-- listing_visible(), which the functions below call - hence this section
+-- comes first. Only approved listings are shown: a listing without a
+-- verdict stays hidden, unless it was listed before moderation_settings
+-- first recorded verdict_required_since (listings from before moderation
+-- existed). index-item is the only writer of item_search_index and always
+-- moderates first. Sellers read their own verdicts through /api/moderation.
+-- Review data: RLS on, no policies, service role only.
+
+CREATE TABLE IF NOT EXISTS moderation_verdicts (
+    sui_object_id TEXT PRIMARY KEY,
+    seller TEXT NOT NULL,
+    status TEXT NOT NULL,                     -- approved, pending_review, blocked
+    findings JSONB NOT NULL DEFAULT '[]',     -- [{ source, code, severity, reason, excerpt }]
+    classifier TEXT,                          -- Safety classifier used (NULL: rules only)
+    checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mv_seller ON moderation_verdicts(seller);
+CREATE INDEX IF NOT EXISTS idx_mv_hidden ON moderation_verdicts(sui_object_id) WHERE status <> 'approved';
+
+-- Set when a moderator decided; re-indexing then keeps their status
+ALTER TABLE moderation_verdicts ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+ALTER TABLE moderation_verdicts ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS banned_addresses (
+    address TEXT PRIMARY KEY,
+    reason TEXT NOT NULL DEFAULT '',
+    banned_by TEXT NOT NULL,                  -- Admin address
+    banned_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One row, written the first time this section runs and kept on re-runs
+CREATE TABLE IF NOT EXISTS moderation_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    verdict_required_since TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+INSERT INTO moderation_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE moderation_verdicts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE banned_addresses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_settings ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER: search runs with the anon key, which can't read verdicts.
+-- The ban and age checks need the projection (below), so it is plpgsql,
+-- whose body isn't resolved until it runs.
+CREATE OR REPLACE FUNCTION listing_visible(p_item_id TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_status TEXT;
+    v_required_since TIMESTAMPTZ;
+    v_created_at_ms BIGINT;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM marketplace_items m
+        JOIN banned_addresses b ON b.address = m.seller
+        WHERE m.item_id = p_item_id
+    ) THEN
+        RETURN false;
+    END IF;
+
+    SELECT status INTO v_status FROM moderation_verdicts WHERE sui_object_id = p_item_id;
+    IF FOUND THEN
+        RETURN v_status = 'approved';
+    END IF;
+
+    -- No verdict: only listings from before moderation are shown. When and
+    -- where it was listed comes from the projection, or else the index.
+    SELECT verdict_required_since INTO v_required_since FROM moderation_settings;
+    SELECT created_at_ms INTO v_created_at_ms FROM marketplace_items WHERE item_id = p_item_id;
+    IF v_created_at_ms IS NOT NULL THEN
+        RETURN v_created_at_ms < EXTRACT(EPOCH FROM v_required_since) * 1000;
+    END IF;
+    RETURN EXISTS (
+        SELECT 1 FROM item_search_index
+        WHERE sui_object_id = p_item_id AND indexed_at < v_required_since
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The visible ones among p_item_ids: browsing read straight from chain
+-- (projection unavailable) filters with this, and shows nothing without it
+CREATE OR REPLACE FUNCTION visible_listing_ids(p_item_ids TEXT[])
+RETURNS SETOF TEXT AS $$
+    SELECT id FROM unnest(p_item_ids) AS id WHERE listing_visible(id);
+$$ LANGUAGE sql STABLE;
 
 -- ============================================
 -- HELPER FUNCTION: Semantic Search
 -- ============================================
 
+-- Only items embedded by p_model (the query embedding's model) are compared.
+-- Optional filters join the marketplace projection (below). Items the
+-- projection hasn't caught up with yet only match when no facet filter is
+-- set; the status filter lets them through (callers re-check on chain).
+
 -- Drop existing function if it exists (necessary when changing return types)
 DROP FUNCTION IF EXISTS search_items_by_embedding(VECTOR, FLOAT, INT, BOOLEAN);
 DROP FUNCTION IF EXISTS search_items_by_embedding(VECTOR, DOUBLE PRECISION, INT, BOOLEAN);
@@ -102,9 +220,18 @@ DROP FUNCTION IF EXISTS search_items_by_embedding;
 
 CREATE OR REPLACE FUNCTION search_items_by_embedding(
     query_embedding VECTOR(768),
+    p_model TEXT,
     similarity_threshold FLOAT DEFAULT 0.5,
     max_results INT DEFAULT 20,
-    use_combined BOOLEAN DEFAULT true
+    use_combined BOOLEAN DEFAULT true,
+    p_category TEXT DEFAULT NULL,
+    p_condition TEXT DEFAULT NULL,
+    p_brand TEXT DEFAULT NULL,
+    p_size TEXT DEFAULT NULL,
+    p_color TEXT DEFAULT NULL,
+    p_min_price BIGINT DEFAULT NULL,
+    p_max_price BIGINT DEFAULT NULL,
+    p_status SMALLINT DEFAULT NULL
 )
 RETURNS TABLE (
     sui_object_id TEXT,
@@ -118,8 +245,19 @@ BEGIN
             i.sui_object_id,
             1 - (i.combined_embedding <=> query_embedding) AS similarity
         FROM item_search_index i
+        LEFT JOIN marketplace_items m ON m.item_id = i.sui_object_id
         WHERE i.combined_embedding IS NOT NULL
+            AND i.embedding_model = p_model
             AND 1 - (i.combined_embedding <=> query_embedding) > similarity_threshold
+            AND (p_category IS NULL OR lower(m.category) = lower(p_category))
+            AND (p_condition IS NULL OR lower(m.condition) = lower(p_condition))
+            AND (p_brand IS NULL OR lower(m.brand) = lower(p_brand))
+            AND (p_size IS NULL OR lower(m.size) = lower(p_size))
+            AND (p_color IS NULL OR lower(m.color) = lower(p_color))
+            AND (p_min_price IS NULL OR m.price >= p_min_price)
+            AND (p_max_price IS NULL OR m.price <= p_max_price)
+            AND (p_status IS NULL OR m.item_id IS NULL OR m.status = p_status)
+            AND listing_visible(i.sui_object_id)
         ORDER BY i.combined_embedding <=> query_embedding
         LIMIT max_results;
     ELSE
@@ -129,14 +267,896 @@ BEGIN
             i.sui_object_id,
             1 - (i.title_embedding <=> query_embedding) AS similarity
         FROM item_search_index i
+        LEFT JOIN marketplace_items m ON m.item_id = i.sui_object_id
         WHERE i.title_embedding IS NOT NULL
+            AND i.embedding_model = p_model
             AND 1 - (i.title_embedding <=> query_embedding) > similarity_threshold
+            AND (p_category IS NULL OR lower(m.category) = lower(p_category))
+            AND (p_condition IS NULL OR lower(m.condition) = lower(p_condition))
+            AND (p_brand IS NULL OR lower(m.brand) = lower(p_brand))
+            AND (p_size IS NULL OR lower(m.size) = lower(p_size))
+            AND (p_color IS NULL OR lower(m.color) = lower(p_color))
+            AND (p_min_price IS NULL OR m.price >= p_min_price)
+            AND (p_max_price IS NULL OR m.price <= p_max_price)
+            AND (p_status IS NULL OR m.item_id IS NULL OR m.status = p_status)
+            AND listing_visible(i.sui_object_id)
         ORDER BY i.title_embedding <=> query_embedding
         LIMIT max_results;
     END IF;
 END;
 $$ LANGUAGE plpgsql;
 
+-- ============================================
+-- MARKETPLACE PROJECTION (event indexer)
+-- ============================================
+-- Event-sourced copy of the on-chain Marketplace tables, maintained by
+-- lib/indexer (POST /api/indexer/sync, /api/indexer/reconcile).
+-- The chain stays the source of truth: to rebuild from scratch, truncate
+-- these tables and delete the indexer_checkpoints row, then re-run sync.
+-- u64 values are stored as BIGINT (fine for MIST amounts below ~9.2M SUI).
+
+CREATE TABLE IF NOT EXISTS marketplace_items (
+    item_id TEXT PRIMARY KEY,
+    seller TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    price BIGINT NOT NULL,
+    category TEXT NOT NULL DEFAULT '',
+    condition TEXT NOT NULL DEFAULT '',
+    brand TEXT NOT NULL DEFAULT '',
+    size TEXT NOT NULL DEFAULT '',
+    color TEXT NOT NULL DEFAULT '',
+    material TEXT NOT NULL DEFAULT '',
+    walrus_image_ids TEXT[] NOT NULL DEFAULT '{}',
+    status SMALLINT NOT NULL DEFAULT 0,      -- 0=active, 1=sold, 2=cancelled
+    created_at_ms BIGINT NOT NULL,
+    updated_at_ms BIGINT NOT NULL,
+    buyer TEXT,                             -- From ItemSold (not stored on-chain)
+    sold_price BIGINT,                      -- From ItemSold (not stored on-chain)
+    sold_at_ms BIGINT
+);
+
+CREATE TABLE IF NOT EXISTS marketplace_offers (
+    offer_id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    amount BIGINT NOT NULL,
+    message TEXT NOT NULL DEFAULT '',
+    status SMALLINT NOT NULL DEFAULT 0,     -- 0=pending, 1=countered, 2=accepted, 3=rejected, 4=cancelled
+    expires_at_ms BIGINT,
+    is_counter BOOLEAN NOT NULL DEFAULT false,
+    created_at_ms BIGINT NOT NULL,
+    updated_at_ms BIGINT NOT NULL,
+    created_tx_digest TEXT                  -- Distinguishes escrow funding from acceptance
+);
+
+CREATE TABLE IF NOT EXISTS marketplace_escrows (
+    escrow_id TEXT PRIMARY KEY,
+    offer_id TEXT,
+    item_id TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    amount BIGINT NOT NULL,
+    status SMALLINT NOT NULL DEFAULT 0,     -- 0=active, 1=completed, 2=disputed, 3=refunded
+    created_at_ms BIGINT NOT NULL,
+    completed_at_ms BIGINT,
+    updated_at_ms BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+    name TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    event_timestamp_ms BIGINT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mi_status_created ON marketplace_items(status, created_at_ms DESC);
+CREATE INDEX IF NOT EXISTS idx_mi_seller ON marketplace_items(seller);
+CREATE INDEX IF NOT EXISTS idx_mi_category ON marketplace_items(category);
+CREATE INDEX IF NOT EXISTS idx_mi_price ON marketplace_items(price);
+CREATE INDEX IF NOT EXISTS idx_mo_item ON marketplace_offers(item_id);
+CREATE INDEX IF NOT EXISTS idx_mo_buyer ON marketplace_offers(buyer);
+CREATE INDEX IF NOT EXISTS idx_mo_seller ON marketplace_offers(seller);
+CREATE INDEX IF NOT EXISTS idx_me_buyer ON marketplace_escrows(buyer);
+CREATE INDEX IF NOT EXISTS idx_me_seller ON marketplace_escrows(seller);
+
+-- Public read, writes only through the service role (which bypasses RLS)
+ALTER TABLE marketplace_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE marketplace_escrows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE indexer_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read" ON marketplace_items;
+CREATE POLICY "Public read" ON marketplace_items FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public read" ON marketplace_offers;
+CREATE POLICY "Public read" ON marketplace_offers FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public read" ON marketplace_escrows;
+CREATE POLICY "Public read" ON marketplace_escrows FOR SELECT USING (true);
+
+-- ============================================
+-- HELPER FUNCTION: Marketplace Stats
+-- ============================================
+
+CREATE OR REPLACE FUNCTION marketplace_stats()
+RETURNS TABLE (
+    total_items BIGINT,
+    active_listings BIGINT,
+    sold_items BIGINT,
+    total_value_mist NUMERIC
+) AS $$
+    SELECT
+        COUNT(*),
+        COUNT(*) FILTER (WHERE status = 0),
+        COUNT(*) FILTER (WHERE status = 1),
+        COALESCE(SUM(price), 0)
+    FROM marketplace_items;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- HELPER FUNCTION: Browse Items (filters + sort + keyset cursor)
+-- ============================================
+-- Backs GET /api/items. Pagination is keyset-based on (sort_key, item_id)
+-- so pages stay stable while new items are listed. Pass the sort_key and
+-- item_id of the last row of the previous page as after_key / after_id.
+
+DROP FUNCTION IF EXISTS browse_marketplace_items;
+
+CREATE OR REPLACE FUNCTION browse_marketplace_items(
+    p_sort TEXT DEFAULT 'newest',
+    p_seller TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_status SMALLINT DEFAULT NULL,
+    p_min_price BIGINT DEFAULT NULL,
+    p_max_price BIGINT DEFAULT NULL,
+    p_condition TEXT DEFAULT NULL,
+    p_brand TEXT DEFAULT NULL,
+    p_size TEXT DEFAULT NULL,
+    p_color TEXT DEFAULT NULL,
+    p_text TEXT DEFAULT NULL,
+    p_after_key BIGINT DEFAULT NULL,
+    p_after_id TEXT DEFAULT NULL,
+    p_limit INT DEFAULT 24,
+    p_include_hidden BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    item JSONB,
+    sort_key BIGINT
+) AS $$
+    WITH live_offers AS (
+        -- Earliest expiry among offers that can still be accepted
+        SELECT o.item_id, MIN(o.expires_at_ms) AS next_expiry_ms
+        FROM marketplace_offers o
+        WHERE o.status IN (0, 1)
+            AND o.expires_at_ms > (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT
+        GROUP BY o.item_id
+    ),
+    keyed AS (
+        SELECT
+            i.*,
+            CASE p_sort
+                WHEN 'price_asc' THEN i.price
+                WHEN 'price_desc' THEN i.price
+                WHEN 'ending_soon' THEN COALESCE(lo.next_expiry_ms, 9223372036854775807)
+                ELSE i.created_at_ms
+            END AS k
+        FROM marketplace_items i
+        LEFT JOIN live_offers lo ON lo.item_id = i.item_id
+        WHERE (p_seller IS NULL OR i.seller = p_seller)
+            AND (p_category IS NULL OR lower(i.category) = lower(p_category))
+            AND (p_status IS NULL OR i.status = p_status)
+            AND (p_min_price IS NULL OR i.price >= p_min_price)
+            AND (p_max_price IS NULL OR i.price <= p_max_price)
+            AND (p_condition IS NULL OR lower(i.condition) = lower(p_condition))
+            AND (p_brand IS NULL OR lower(i.brand) = lower(p_brand))
+            AND (p_size IS NULL OR lower(i.size) = lower(p_size))
+            AND (p_color IS NULL OR lower(i.color) = lower(p_color))
+            AND (p_text IS NULL OR i.title ILIKE '%' || p_text || '%'
+                OR i.description ILIKE '%' || p_text || '%'
+                OR i.brand ILIKE '%' || p_text || '%')
+            AND (p_include_hidden OR listing_visible(i.item_id))
+    )
+    SELECT to_jsonb(keyed) - 'k' - 'search_document' AS item, keyed.k AS sort_key
+    FROM keyed
+    WHERE p_after_id IS NULL
+        OR (p_sort IN ('price_asc', 'ending_soon')
+            AND (keyed.k > p_after_key OR (keyed.k = p_after_key AND keyed.item_id > p_after_id)))
+        OR (p_sort NOT IN ('price_asc', 'ending_soon')
+            AND (keyed.k < p_after_key OR (keyed.k = p_after_key AND keyed.item_id > p_after_id)))
+    ORDER BY
+        CASE WHEN p_sort IN ('price_asc', 'ending_soon') THEN keyed.k END ASC,
+        CASE WHEN p_sort NOT IN ('price_asc', 'ending_soon') THEN keyed.k END DESC,
+        keyed.item_id ASC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_mo_live_expiry ON marketplace_offers(item_id, expires_at_ms)
+    WHERE status IN (0, 1);
+
+-- ============================================
+-- HELPER FUNCTION: Keyword Search
+-- ============================================
+-- The keyword half of hybrid search (lib/ai/hybrid-search): catches exact
+-- brand names, sizes ("M", "32x30") and rare words that embeddings blur.
+-- Query words are OR-ed so "levis 32x30 jeans" still matches an item
+-- missing one of them (ts_rank_cd favours items matching more); the
+-- trigram match on title + brand tolerates typos. The 'simple' config
+-- keeps short tokens like sizes that stemming configs drop.
+
+ALTER TABLE marketplace_items ADD COLUMN IF NOT EXISTS search_document TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple'::regconfig, title), 'A') ||
+        setweight(to_tsvector('simple'::regconfig,
+            brand || ' ' || size || ' ' || color || ' ' || material || ' ' || category), 'B') ||
+        setweight(to_tsvector('simple'::regconfig, description), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_mi_search_document ON marketplace_items USING gin (search_document);
+CREATE INDEX IF NOT EXISTS idx_mi_title_brand_trgm ON marketplace_items
+    USING gin ((lower(title || ' ' || brand)) gin_trgm_ops);
+
+DROP FUNCTION IF EXISTS search_items_by_keyword;
+
+CREATE OR REPLACE FUNCTION search_items_by_keyword(
+    p_query TEXT,
+    p_category TEXT DEFAULT NULL,
+    p_condition TEXT DEFAULT NULL,
+    p_brand TEXT DEFAULT NULL,
+    p_size TEXT DEFAULT NULL,
+    p_color TEXT DEFAULT NULL,
+    p_min_price BIGINT DEFAULT NULL,
+    p_max_price BIGINT DEFAULT NULL,
+    p_status SMALLINT DEFAULT 0,
+    p_limit INT DEFAULT 50
+)
+RETURNS TABLE (
+    item_id TEXT,
+    rank REAL
+) AS $$
+    WITH q AS (
+        SELECT
+            to_tsquery('simple', array_to_string(tsvector_to_array(to_tsvector('simple', p_query)), ' | ')) AS terms,
+            lower(p_query) AS text
+    )
+    SELECT
+        i.item_id,
+        (ts_rank_cd(i.search_document, q.terms) + word_similarity(q.text, lower(i.title || ' ' || i.brand)))::REAL AS rank
+    FROM marketplace_items i, q
+    WHERE (i.search_document @@ q.terms OR q.text <% lower(i.title || ' ' || i.brand))
+        AND (p_category IS NULL OR lower(i.category) = lower(p_category))
+        AND (p_condition IS NULL OR lower(i.condition) = lower(p_condition))
+        AND (p_brand IS NULL OR lower(i.brand) = lower(p_brand))
+        AND (p_size IS NULL OR lower(i.size) = lower(p_size))
+        AND (p_color IS NULL OR lower(i.color) = lower(p_color))
+        AND (p_min_price IS NULL OR i.price >= p_min_price)
+        AND (p_max_price IS NULL OR i.price <= p_max_price)
+        AND (p_status IS NULL OR i.status = p_status)
+        AND listing_visible(i.item_id)
+    ORDER BY rank DESC, i.item_id ASC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- HELPER FUNCTION: Search by Photo
+-- ============================================
+-- A shopper's photo (embedded like listing photos, see embedImage) against
+-- image_embedding: items that look alike. Same model check and filters as
+-- search_items_by_embedding().
+
+DROP FUNCTION IF EXISTS search_items_by_image;
+
+CREATE OR REPLACE FUNCTION search_items_by_image(
+    query_embedding VECTOR(768),
+    p_model TEXT,
+    similarity_threshold FLOAT DEFAULT 0.5,
+    max_results INT DEFAULT 20,
+    p_category TEXT DEFAULT NULL,
+    p_condition TEXT DEFAULT NULL,
+    p_brand TEXT DEFAULT NULL,
+    p_size TEXT DEFAULT NULL,
+    p_color TEXT DEFAULT NULL,
+    p_min_price BIGINT DEFAULT NULL,
+    p_max_price BIGINT DEFAULT NULL,
+    p_status SMALLINT DEFAULT NULL
+)
+RETURNS TABLE (
+    sui_object_id TEXT,
+    similarity FLOAT
+) AS $$
+    SELECT
+        i.sui_object_id,
+        1 - (i.image_embedding <=> query_embedding) AS similarity
+    FROM item_search_index i
+    LEFT JOIN marketplace_items m ON m.item_id = i.sui_object_id
+    WHERE i.image_embedding IS NOT NULL
+        AND i.embedding_model = p_model
+        AND 1 - (i.image_embedding <=> query_embedding) > similarity_threshold
+        AND (p_category IS NULL OR lower(m.category) = lower(p_category))
+        AND (p_condition IS NULL OR lower(m.condition) = lower(p_condition))
+        AND (p_brand IS NULL OR lower(m.brand) = lower(p_brand))
+        AND (p_size IS NULL OR lower(m.size) = lower(p_size))
+        AND (p_color IS NULL OR lower(m.color) = lower(p_color))
+        AND (p_min_price IS NULL OR m.price >= p_min_price)
+        AND (p_max_price IS NULL OR m.price <= p_max_price)
+        AND (p_status IS NULL OR m.item_id IS NULL OR m.status = p_status)
+        AND listing_visible(i.sui_object_id)
+    ORDER BY i.image_embedding <=> query_embedding
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- HELPER FUNCTION: Similar Items ("More like this")
+-- ============================================
+-- Nearest neighbours of an indexed item by its stored combined_embedding,
+-- so recommendations cost no embedding call. Only items embedded by the
+-- same model are candidates. Excludes the item itself,
+-- anything the projection knows is not p_status, and optionally every
+-- listing by p_exclude_seller. Returns nothing for unindexed items.
+
+DROP FUNCTION IF EXISTS similar_items;
+
+CREATE OR REPLACE FUNCTION similar_items(
+    p_item_id TEXT,
+    max_results INT DEFAULT 12,
+    similarity_threshold FLOAT DEFAULT 0.3,
+    p_exclude_seller TEXT DEFAULT NULL,
+    p_status SMALLINT DEFAULT 0
+)
+RETURNS TABLE (
+    sui_object_id TEXT,
+    similarity FLOAT
+) AS $$
+    WITH source AS (
+        SELECT combined_embedding AS embedding, embedding_model
+        FROM item_search_index
+        WHERE sui_object_id = p_item_id AND combined_embedding IS NOT NULL
+    )
+    SELECT
+        i.sui_object_id,
+        1 - (i.combined_embedding <=> source.embedding) AS similarity
+    FROM source, item_search_index i
+    LEFT JOIN marketplace_items m ON m.item_id = i.sui_object_id
+    WHERE i.sui_object_id <> p_item_id
+        AND i.combined_embedding IS NOT NULL
+        AND i.embedding_model = source.embedding_model
+        AND 1 - (i.combined_embedding <=> source.embedding) > similarity_threshold
+        AND (p_status IS NULL OR m.item_id IS NULL OR m.status = p_status)
+        AND (p_exclude_seller IS NULL OR m.seller IS DISTINCT FROM p_exclude_seller)
+        AND listing_visible(i.sui_object_id)
+    ORDER BY i.combined_embedding <=> source.embedding
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- PERSONALIZED FEED (taste profiles)
+-- ============================================
+-- Backs GET /api/feed (lib/ai/feed). item_views records the last time a
+-- signed-in address viewed an item; offers and purchases come from the
+-- chain. taste_profiles caches each address's aggregate embedding
+-- (lib/ai/taste-profile) until it goes stale. Both tables hold browsing
+-- history, so they have RLS enabled with no policies: only the service
+-- role reads or writes them.
+
+CREATE TABLE IF NOT EXISTS item_views (
+    address TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    viewed_at_ms BIGINT NOT NULL,
+    PRIMARY KEY (address, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_iv_viewed ON item_views(viewed_at_ms DESC);
+
+CREATE TABLE IF NOT EXISTS taste_profiles (
+    address TEXT PRIMARY KEY,
+    embedding VECTOR NOT NULL,              -- Any width, so a model change needs no migration here
+    embedding_model TEXT NOT NULL,          -- Model of the item vectors it averages
+    signal_count INT NOT NULL,
+    exclude_items TEXT[] NOT NULL DEFAULT '{}', -- Offered on or bought: not re-recommended
+    stale BOOLEAN NOT NULL DEFAULT false,   -- Set when a new view arrives
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Profiles cached before the model was recorded were all Gemini
+ALTER TABLE taste_profiles ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-004';
+ALTER TABLE taste_profiles ALTER COLUMN embedding_model DROP DEFAULT;
+ALTER TABLE taste_profiles ALTER COLUMN embedding TYPE VECTOR;
+
+ALTER TABLE item_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE taste_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Active items nearest a taste profile, with what rankFeed needs for
+-- freshness and diversity. Only items the projection knows are active,
+-- embedded by the profile's model.
+DROP FUNCTION IF EXISTS feed_candidates;
+
+CREATE OR REPLACE FUNCTION feed_candidates(
+    p_embedding VECTOR(768),
+    p_model TEXT,
+    p_exclude_seller TEXT DEFAULT NULL,
+    p_exclude_items TEXT[] DEFAULT '{}',
+    max_results INT DEFAULT 100
+)
+RETURNS TABLE (
+    sui_object_id TEXT,
+    similarity FLOAT,
+    category TEXT,
+    seller TEXT,
+    created_at_ms BIGINT
+) AS $$
+    SELECT
+        i.sui_object_id,
+        1 - (i.combined_embedding <=> p_embedding) AS similarity,
+        m.category,
+        m.seller,
+        m.created_at_ms
+    FROM item_search_index i
+    JOIN marketplace_items m ON m.item_id = i.sui_object_id
+    WHERE i.combined_embedding IS NOT NULL
+        AND i.embedding_model = p_model
+        AND m.status = 0
+        AND (p_exclude_seller IS NULL OR m.seller <> p_exclude_seller)
+        AND NOT (i.sui_object_id = ANY(p_exclude_items))
+        AND listing_visible(i.sui_object_id)
+    ORDER BY i.combined_embedding <=> p_embedding
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- Feed for logged-out visitors and new shoppers: active items ranked by
+-- views plus offers (weighted 3x) since p_since_ms, newest first among
+-- ties, so it still fills when nothing is happening.
+DROP FUNCTION IF EXISTS trending_items;
+
+CREATE OR REPLACE FUNCTION trending_items(
+    p_since_ms BIGINT,
+    max_results INT DEFAULT 20,
+    p_exclude_seller TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    item_id TEXT,
+    score BIGINT
+) AS $$
+    SELECT
+        m.item_id,
+        COALESCE(v.views, 0) + 3 * COALESCE(o.offers, 0) AS score
+    FROM marketplace_items m
+    LEFT JOIN (
+        SELECT item_views.item_id, COUNT(*) AS views
+        FROM item_views
+        WHERE viewed_at_ms >= p_since_ms
+        GROUP BY item_views.item_id
+    ) v ON v.item_id = m.item_id
+    LEFT JOIN (
+        SELECT marketplace_offers.item_id, COUNT(*) AS offers
+        FROM marketplace_offers
+        WHERE created_at_ms >= p_since_ms
+        GROUP BY marketplace_offers.item_id
+    ) o ON o.item_id = m.item_id
+    WHERE m.status = 0
+        AND (p_exclude_seller IS NULL OR m.seller <> p_exclude_seller)
+        AND listing_visible(m.item_id)
+    ORDER BY score DESC, m.created_at_ms DESC
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- SAVED SEARCHES & ALERTS
+-- ============================================
+-- Backs /api/saved-searches and /api/alerts (lib/ai/saved-searches).
+-- A saved search keeps what the shopper typed (to re-run it) and what it
+-- was understood as: match_text, embedded as query_embedding, and
+-- match_filters (SearchFiltersJson, prices in MIST). When
+-- /api/ai/index-item indexes an item, every saved search whose embedding
+-- is within its threshold and whose filters the item meets gets an alert.
+-- Digests are emailed only once notify_email is confirmed: the emailed link
+-- (/api/saved-searches/confirm-email) carries a token whose SHA-256 is
+-- notify_email_token_hash. Changing the address clears the confirmation.
+-- Owner-only data: RLS on, no policies, service role only.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    address TEXT NOT NULL,
+    name TEXT NOT NULL,
+    query TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}',       -- Explicit filters, as saved
+    match_text TEXT NOT NULL,
+    match_filters JSONB NOT NULL DEFAULT '{}', -- Explicit + parsed filters
+    query_embedding VECTOR NOT NULL,          -- Any width (unindexed; see taste_profiles)
+    embedding_model TEXT NOT NULL,            -- Model of query_embedding
+    similarity_threshold FLOAT NOT NULL DEFAULT 0.5,
+    notify_email TEXT,                        -- Digest by email (optional)
+    notify_email_confirmed_at TIMESTAMPTZ,    -- Set by the confirmation link
+    notify_email_token_hash TEXT,             -- Pending confirmation link
+    webhook_url TEXT,                         -- Digest by webhook (optional)
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ss_address ON saved_searches(address);
+
+CREATE TABLE IF NOT EXISTS search_alerts (
+    id BIGSERIAL PRIMARY KEY,
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    address TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    item_title TEXT NOT NULL,
+    item_price BIGINT NOT NULL,               -- MIST, when listed
+    similarity FLOAT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    read_at TIMESTAMPTZ,
+    digested_at TIMESTAMPTZ,                  -- Sent by email/webhook
+    UNIQUE (saved_search_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sa_address_created ON search_alerts(address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sa_undigested ON search_alerts(saved_search_id) WHERE digested_at IS NULL;
+
+-- Searches saved before the model was recorded were all embedded by Gemini
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS embedding_model TEXT NOT NULL DEFAULT 'text-embedding-004';
+ALTER TABLE saved_searches ALTER COLUMN embedding_model DROP DEFAULT;
+ALTER TABLE saved_searches ALTER COLUMN query_embedding TYPE VECTOR;
+
+-- Addresses saved before confirmation existed must be confirmed too
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS notify_email_confirmed_at TIMESTAMPTZ;
+ALTER TABLE saved_searches ADD COLUMN IF NOT EXISTS notify_email_token_hash TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ss_email_token ON saved_searches(notify_email_token_hash)
+    WHERE notify_email_token_hash IS NOT NULL;
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Saved searches a newly indexed item is close enough to (in the same
+-- embedding model), skipping the seller's own. Filters are checked by the caller against the on-chain item.
+DROP FUNCTION IF EXISTS saved_searches_near;
+
+CREATE OR REPLACE FUNCTION saved_searches_near(
+    p_embedding VECTOR(768),
+    p_model TEXT,
+    p_exclude_address TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    address TEXT,
+    match_filters JSONB,
+    similarity FLOAT
+) AS $$
+    SELECT
+        s.id,
+        s.address,
+        s.match_filters,
+        1 - (s.query_embedding <=> p_embedding) AS similarity
+    FROM saved_searches s
+    WHERE s.embedding_model = p_model
+        AND 1 - (s.query_embedding <=> p_embedding) > s.similarity_threshold
+        AND (p_exclude_address IS NULL OR s.address <> p_exclude_address);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- RE-EMBEDDING (search index migration)
+-- ============================================
+-- Backs /api/ai/reembed (lib/ai/reembed). When the embedding model or the
+-- text that gets embedded changes, every item is re-embedded into
+-- item_search_index_next while searches keep using item_search_index,
+-- then swap_item_search_index() replaces the live table in one
+-- transaction. The shadow table takes the new model's width; the search
+-- functions' VECTOR(768) parameters don't pin it (Postgres ignores
+-- parameter type modifiers).
+--
+-- reembed_jobs records each run's progress so a job resumes where it
+-- stopped. Service role only: RLS on, no policies, and the two DDL
+-- functions are SECURITY DEFINER with EXECUTE revoked from API roles.
+
+-- LIKE copies columns, defaults and comments but not indexes: the primary key is
+-- added by hand, the vector indexes only at swap time
+DROP TABLE IF EXISTS item_search_index_next;
+CREATE TABLE item_search_index_next (LIKE item_search_index INCLUDING DEFAULTS INCLUDING COMMENTS);
+ALTER TABLE item_search_index_next ADD PRIMARY KEY (sui_object_id);
+ALTER TABLE item_search_index_next ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS reembed_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    embedding_model TEXT NOT NULL,            -- Target model
+    embedding_dimensions INT NOT NULL,
+    dry_run BOOLEAN NOT NULL DEFAULT false,
+    status TEXT NOT NULL DEFAULT 'running',   -- running | ready | swapped | cancelled
+    pass INT NOT NULL DEFAULT 1,              -- Later passes catch up on new items and retries
+    last_item_id TEXT NOT NULL DEFAULT '',    -- Keyset cursor within the current pass
+    total INT NOT NULL DEFAULT 0,             -- Live index size when the job started
+    processed INT NOT NULL DEFAULT 0,
+    skipped_ids TEXT[] NOT NULL DEFAULT '{}', -- Gone from chain: left out of the new index
+    failures JSONB NOT NULL DEFAULT '{}',     -- sui_object_id -> { attempts, error }
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_rj_started ON reembed_jobs(started_at DESC);
+
+ALTER TABLE reembed_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Empty the shadow table and size its vectors for the target model
+CREATE OR REPLACE FUNCTION prepare_item_search_index_shadow(p_dimensions INT)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DROP TABLE IF EXISTS item_search_index_next;
+    CREATE TABLE item_search_index_next (LIKE item_search_index INCLUDING DEFAULTS INCLUDING COMMENTS);
+    ALTER TABLE item_search_index_next ADD PRIMARY KEY (sui_object_id);
+    EXECUTE format(
+        'ALTER TABLE item_search_index_next
+            ALTER COLUMN title_embedding TYPE VECTOR(%1$s),
+            ALTER COLUMN description_embedding TYPE VECTOR(%1$s),
+            ALTER COLUMN image_embedding TYPE VECTOR(%1$s),
+            ALTER COLUMN combined_embedding TYPE VECTOR(%1$s)',
+        p_dimensions
+    );
+    ALTER TABLE item_search_index_next ENABLE ROW LEVEL SECURITY;
+    NOTIFY pgrst, 'reload schema';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Next live items to re-embed after p_after, skipping p_exclude and (unless
+-- p_include_done, for dry runs) items already in the shadow table
+CREATE OR REPLACE FUNCTION reembed_pending(
+    p_after TEXT,
+    p_exclude TEXT[] DEFAULT '{}',
+    p_limit INT DEFAULT 25,
+    p_include_done BOOLEAN DEFAULT false
+)
+RETURNS TABLE (sui_object_id TEXT) AS $$
+    SELECT i.sui_object_id
+    FROM item_search_index i
+    WHERE i.sui_object_id > p_after
+        AND NOT (i.sui_object_id = ANY(p_exclude))
+        AND (p_include_done OR NOT EXISTS (
+            SELECT 1 FROM item_search_index_next n WHERE n.sui_object_id = i.sui_object_id
+        ))
+    ORDER BY i.sui_object_id
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Replace item_search_index with the shadow table. Writes to the live
+-- table wait on the lock, so nothing indexed meanwhile is lost: if any
+-- live item outside p_exclude is missing from the shadow, the swap is
+-- refused (or, with p_force, those items are dropped). Builds the vector
+-- indexes on the filled table, as IVFFlat wants, and leaves an empty
+-- shadow behind. Returns the number of live items dropped.
+CREATE OR REPLACE FUNCTION swap_item_search_index(
+    p_exclude TEXT[] DEFAULT '{}',
+    p_force BOOLEAN DEFAULT false
+)
+RETURNS INT
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    missing INT;
+    dropped INT;
+BEGIN
+    LOCK TABLE item_search_index IN SHARE ROW EXCLUSIVE MODE;
+
+    SELECT COUNT(*) INTO missing
+    FROM item_search_index i
+    WHERE NOT (i.sui_object_id = ANY(p_exclude))
+        AND NOT EXISTS (SELECT 1 FROM item_search_index_next n WHERE n.sui_object_id = i.sui_object_id);
+    IF missing > 0 AND NOT p_force THEN
+        RAISE EXCEPTION '% indexed items are not re-embedded yet', missing;
+    END IF;
+
+    SELECT COUNT(*) INTO dropped
+    FROM item_search_index i
+    WHERE NOT EXISTS (SELECT 1 FROM item_search_index_next n WHERE n.sui_object_id = i.sui_object_id);
+
+    CREATE INDEX idx_next_title_embedding ON item_search_index_next
+        USING ivfflat (title_embedding vector_cosine_ops);
+    CREATE INDEX idx_next_description_embedding ON item_search_index_next
+        USING ivfflat (description_embedding vector_cosine_ops);
+    CREATE INDEX idx_next_image_embedding ON item_search_index_next
+        USING ivfflat (image_embedding vector_cosine_ops);
+    CREATE INDEX idx_next_combined_embedding ON item_search_index_next
+        USING ivfflat (combined_embedding vector_cosine_ops);
+    CREATE INDEX idx_next_time ON item_search_index_next(indexed_at DESC);
+
+    DROP TABLE item_search_index;
+    ALTER TABLE item_search_index_next RENAME TO item_search_index;
+    ALTER INDEX item_search_index_next_pkey RENAME TO item_search_index_pkey;
+    ALTER INDEX idx_next_title_embedding RENAME TO idx_title_embedding;
+    ALTER INDEX idx_next_description_embedding RENAME TO idx_description_embedding;
+    ALTER INDEX idx_next_image_embedding RENAME TO idx_image_embedding;
+    ALTER INDEX idx_next_combined_embedding RENAME TO idx_combined_embedding;
+    ALTER INDEX idx_next_time RENAME TO idx_time;
+    -- Same as the live table's (ROW LEVEL SECURITY above): read-only for anon
+    CREATE POLICY "Public read"
+        ON item_search_index FOR SELECT
+        TO anon, authenticated
+        USING (true);
+
+    CREATE TABLE item_search_index_next (LIKE item_search_index INCLUDING DEFAULTS INCLUDING COMMENTS);
+    ALTER TABLE item_search_index_next ADD PRIMARY KEY (sui_object_id);
+    ALTER TABLE item_search_index_next ENABLE ROW LEVEL SECURITY;
+    NOTIFY pgrst, 'reload schema';
+
+    RETURN dropped;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION prepare_item_search_index_shadow(INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION swap_item_search_index(TEXT[], BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION prepare_item_search_index_shadow(INT) TO service_role;
+GRANT EXECUTE ON FUNCTION swap_item_search_index(TEXT[], BOOLEAN) TO service_role;
+
+-- ============================================
+-- PRICE SUGGESTIONS (sold comparables)
+-- ============================================
+-- Backs POST /api/ai/price-suggestion (lib/ai/pricing): the sold items
+-- nearest to a listing or a draft. sold_price is what the buyer finally
+-- paid (the escrow amount in ItemSold, after any counter-offers), not the
+-- asking price; the completed escrow covers rows synced before sold_price
+-- was projected. Hidden listings (listing_visible()) aren't comparables.
+-- Condition, brand and recency weighting happen in lib/ai/pricing.
+
+DROP FUNCTION IF EXISTS sold_comparables;
+
+CREATE OR REPLACE FUNCTION sold_comparables(
+    p_embedding VECTOR,
+    p_model TEXT,
+    max_results INT DEFAULT 30,
+    similarity_threshold FLOAT DEFAULT 0.4,
+    p_exclude_item TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    item_id TEXT,
+    title TEXT,
+    category TEXT,
+    condition TEXT,
+    brand TEXT,
+    sold_price BIGINT,
+    sold_at_ms BIGINT,
+    similarity FLOAT
+) AS $$
+    SELECT
+        m.item_id,
+        m.title,
+        m.category,
+        m.condition,
+        m.brand,
+        COALESCE(m.sold_price, e.amount) AS sold_price,
+        COALESCE(m.sold_at_ms, e.completed_at_ms) AS sold_at_ms,
+        1 - (i.combined_embedding <=> p_embedding) AS similarity
+    FROM item_search_index i
+    JOIN marketplace_items m ON m.item_id = i.sui_object_id
+    LEFT JOIN LATERAL (
+        SELECT amount, completed_at_ms
+        FROM marketplace_escrows
+        WHERE marketplace_escrows.item_id = m.item_id AND status = 1
+        ORDER BY completed_at_ms DESC NULLS LAST
+        LIMIT 1
+    ) e ON true
+    WHERE m.status = 1
+        AND COALESCE(m.sold_price, e.amount) IS NOT NULL
+        AND i.combined_embedding IS NOT NULL
+        AND i.embedding_model = p_model
+        AND (p_exclude_item IS NULL OR m.item_id <> p_exclude_item)
+        AND listing_visible(m.item_id)
+        AND 1 - (i.combined_embedding <=> p_embedding) > similarity_threshold
+    ORDER BY i.combined_embedding <=> p_embedding
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+CREATE INDEX IF NOT EXISTS idx_me_item ON marketplace_escrows(item_id);
+
+-- ============================================
+-- DUPLICATE LISTINGS & MODERATION FLAGS
+-- ============================================
+-- /api/ai/index-item compares a new listing with active ones
+-- (lib/ai/duplicates): the seller is warned about their own
+-- near-duplicates before minting, and photos matching another seller's
+-- listing are flagged here for review. Thresholds come from
+-- DUPLICATE_LISTING_THRESHOLD / DUPLICATE_PHOTO_THRESHOLD.
+-- Review data: RLS on, no policies, service role only.
+
+CREATE TABLE IF NOT EXISTS moderation_flags (
+    id BIGSERIAL PRIMARY KEY,
+    sui_object_id TEXT NOT NULL,              -- The flagged (newer) listing
+    kind TEXT NOT NULL,                       -- 'duplicate_photo'
+    matched_item_id TEXT,                     -- The listing it matched
+    score FLOAT,                              -- e.g. image similarity
+    details JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'open',      -- open, dismissed, actioned
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    UNIQUE (sui_object_id, kind, matched_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mf_open ON moderation_flags(created_at DESC) WHERE status = 'open';
+
+ALTER TABLE moderation_flags ENABLE ROW LEVEL SECURITY;
+
+-- Active listings whose photos (image_embedding) or whole listing
+-- (combined_embedding) are within threshold of a new one, in the same
+-- model. Pass NULL for image_threshold when the listing has no photos:
+-- its image_embedding is then only a stand-in for the title.
+DROP FUNCTION IF EXISTS listing_duplicates;
+
+CREATE OR REPLACE FUNCTION listing_duplicates(
+    p_image_embedding VECTOR,
+    p_combined_embedding VECTOR,
+    p_model TEXT,
+    image_threshold FLOAT,
+    combined_threshold FLOAT,
+    p_exclude_item TEXT DEFAULT NULL,
+    max_results INT DEFAULT 10
+)
+RETURNS TABLE (
+    item_id TEXT,
+    seller TEXT,
+    title TEXT,
+    image_similarity FLOAT,
+    combined_similarity FLOAT
+) AS $$
+    SELECT * FROM (
+        SELECT
+            m.item_id,
+            m.seller,
+            m.title,
+            1 - (i.image_embedding <=> p_image_embedding) AS image_similarity,
+            1 - (i.combined_embedding <=> p_combined_embedding) AS combined_similarity
+        FROM item_search_index i
+        JOIN marketplace_items m ON m.item_id = i.sui_object_id
+        WHERE m.status = 0
+            AND i.embedding_model = p_model
+            AND i.image_embedding IS NOT NULL
+            AND i.combined_embedding IS NOT NULL
+            AND (p_exclude_item IS NULL OR m.item_id <> p_exclude_item)
+    ) candidates
+    WHERE (image_threshold IS NOT NULL AND image_similarity > image_threshold)
+        OR combined_similarity > combined_threshold
+    ORDER BY GREATEST(image_similarity, combined_similarity) DESC
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- ADMIN MODERATION (reports, takedowns, audit log)
+-- ============================================
+-- Backs /admin and /api/admin (lib/moderation/admin). Shoppers report
+-- listings through POST /api/reports; the admin queue joins open reports
+-- with open moderation_flags and held verdicts. Every admin action is
+-- written to moderation_audit_log. Admins are the addresses in
+-- ADMIN_ADDRESSES. Review data: RLS on, no policies, service role only.
+
+CREATE TABLE IF NOT EXISTS listing_reports (
+    id BIGSERIAL PRIMARY KEY,
+    sui_object_id TEXT NOT NULL,
+    reporter TEXT NOT NULL,
+    reason TEXT NOT NULL,                     -- One of REPORT_REASONS
+    details TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'open',      -- open, dismissed, actioned
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+);
+
+-- One open report per shopper and listing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lr_open_reporter ON listing_reports(sui_object_id, reporter) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_lr_open ON listing_reports(created_at DESC) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS moderation_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    admin TEXT NOT NULL,
+    action TEXT NOT NULL,                     -- hide, ban, dismiss
+    sui_object_id TEXT,
+    address TEXT,                             -- Banned address, for bans
+    note TEXT NOT NULL DEFAULT '',
+    details JSONB NOT NULL DEFAULT '{}',      -- e.g. reports and flags resolved
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mal_item ON moderation_audit_log(sui_object_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mal_created ON moderation_audit_log(created_at DESC);
+
+ALTER TABLE listing_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_audit_log ENABLE ROW LEVEL SECURITY;
+
 -- ============================================
 -- VERIFICATION
 -- ============================================
@@ -149,4 +1169,4 @@ FROM information_schema.columns
 WHERE table_name = 'item_search_index'
 ORDER BY ordinal_position;
 
-SELECT 'Total columns: 6' as info;
+SELECT 'Total columns: 8' as info;
@@ -0,0 +1,93 @@
+/**
+ * Abort Code Catalogue Test
+ *
+ * Fails when thriftchain.move and src/lib/sui/contract/abort-codes.ts
+ * disagree:
+ *
+ * 1. every `assert!` code in the Move source has a catalogue entry
+ * 2. the catalogue has no entries for codes the contract no longer uses
+ * 3. entries are well-formed (matching code, unique name, a message)
+ * 4. raw MoveAbort strings are classified with the catalogue message
+ *
+ *   node test-abort-codes.mjs
+ */
+
+import { readFileSync } from 'fs';
+import { MOVE_SOURCE } from './scripts/generate-contract-client.mjs';
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+console.log('=== Abort code catalogue ===\n');
+
+// Collect assert codes with the line they first appear on
+const moveSource = readFileSync(MOVE_SOURCE, 'utf8');
+const assertCodes = new Map();
+moveSource.split('\n').forEach((line, index) => {
+  const match = /assert!\(.*,\s*(\d+)\s*\)\s*;/.exec(line);
+  if (match && !assertCodes.has(Number(match[1]))) {
+    assertCodes.set(Number(match[1]), index + 1);
+  }
+});
+
+// Transpile the catalogue and classifier into node_modules so @mysten/sui resolves normally
+const SOURCES = [
+  'indexer/events.ts',
+  'sui/contract/abort-codes.ts',
+  'sui/contract/runtime.ts',
+  'sui/contract/thriftchain.generated.ts',
+  'sui/contract/index.ts',
+  'transactions/errors.ts',
+];
+const { load } = transpileLib('abort-test', SOURCES);
+
+const { THRIFTCHAIN_ABORT_CODES, describeAbortCode } = await load('sui/contract/abort-codes.ts');
+const { classifyTransactionError } = await load('transactions/errors.ts');
+
+// 1. Every assert code is catalogued
+const unmapped = [...assertCodes]
+  .filter(([code]) => !THRIFTCHAIN_ABORT_CODES[code])
+  .map(([code, line]) => `code ${code} (thriftchain.move:${line})`);
+check(`all ${assertCodes.size} assert! codes have a catalogue entry`, unmapped, []);
+
+// 2. No stale entries
+const stale = Object.keys(THRIFTCHAIN_ABORT_CODES)
+  .map(Number)
+  .filter(code => !assertCodes.has(code));
+check('catalogue has no codes missing from the contract', stale, []);
+
+// 3. Entries are well-formed
+const entries = Object.entries(THRIFTCHAIN_ABORT_CODES);
+check(
+  'entries are keyed by their own code and have a message',
+  entries.filter(([key, info]) => Number(key) !== info.code || !info.message.trim()).map(([key]) => key),
+  []
+);
+const names = entries.map(([, info]) => info.name);
+check('entry names are unique', names.filter((name, index) => names.indexOf(name) !== index), []);
+
+// 4. Classification uses the catalogue
+const rawAbort = (module, fn, code) =>
+  `MoveAbort(MoveLocation { module: ModuleId { address: ${'0x' + '1'.repeat(64)}, name: Identifier("${module}") }, ` +
+  `function: 21, instruction: 36, function_name: Some("${fn}") }, ${code}) in command 1`;
+
+const accept = classifyTransactionError(rawAbort('thriftchain', 'accept_offer_by_id', 30), 'digest');
+check(
+  'accept_offer_by_id abort 30 is decoded',
+  [accept.kind, accept.abort?.functionName, accept.abort?.reason?.name, accept.message],
+  ['move_abort', 'accept_offer_by_id', 'OFFER_NOT_OPEN_ACCEPT', THRIFTCHAIN_ABORT_CODES[30].message]
+);
+
+const create = classifyTransactionError(new Error(`Dry run failed: ${rawAbort('thriftchain', 'create_offer_by_id', 40)}`));
+check('create_offer_by_id abort 40 is decoded from a wallet error', create.abort?.reason?.name, 'PAYMENT_AMOUNT_MISMATCH');
+
+const missing = classifyTransactionError(rawAbort('dynamic_field', 'borrow_child_object', 1));
+check('missing table entries map to the framework entry', missing.abort?.reason?.name, 'NOT_FOUND');
+
+const unknown = classifyTransactionError(rawAbort('thriftchain', 'accept_offer_by_id', 999));
+check(
+  'unknown codes fall back to the raw code',
+  [unknown.abort?.reason, unknown.message],
+  [null, 'Contract aborted in accept_offer_by_id with code 999']
+);
+check('codes from other modules are not taken from the thriftchain catalogue', describeAbortCode('coin', 30), null);
+
+finish('All abort code checks passed');
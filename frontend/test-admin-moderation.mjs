@@ -0,0 +1,183 @@
+/**
+ * Admin Moderation Test
+ *
+ * Checks lib/moderation/admin against a stub Supabase client:
+ *
+ * 1. ADMIN_ADDRESSES is parsed into normalized addresses, and only those
+ *    are admins
+ * 2. reports are validated, and a second open report is refused
+ * 3. the queue groups open reports, flags and unreviewed verdicts per
+ *    listing, newest activity first
+ * 4. hide / ban / dismiss write the verdict or ban, resolve open reports
+ *    and flags, and are recorded in the audit log
+ *
+ *   node test-admin-moderation.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+async function rejects(promise) {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return `${error.name}: ${error.message} (${error.status})`;
+  }
+}
+
+console.log('=== Admin moderation ===\n');
+
+const SOURCES = ['moderation/types.ts', 'moderation/admin.ts'];
+const { load } = transpileLib('admin-moderation-test', SOURCES);
+
+const {
+  applyAdminAction,
+  createReport,
+  getAdminAddresses,
+  isAdmin,
+  loadItemCase,
+  loadModerationQueue,
+} = await load('moderation/admin.ts');
+
+/**
+ * Supabase stand-in: every query chain is recorded as { table, ops } and
+ * answered by respond(table, ops) when awaited
+ */
+function stubClient(respond) {
+  const queries = [];
+  const chain = (table, ops) => new Proxy({}, {
+    get(_, prop) {
+      if (prop === 'then') return (resolve) => resolve(respond(table, ops));
+      return (...args) => {
+        ops.push([prop, ...args]);
+        return chain(table, ops);
+      };
+    },
+  });
+  return {
+    queries,
+    from: (table) => {
+      const ops = [];
+      queries.push({ table, ops });
+      return chain(table, ops);
+    },
+  };
+}
+const op = (ops, name) => ops.find(([prop]) => prop === name);
+const written = (client, table, name) => client.queries
+  .filter(query => query.table === table && op(query.ops, name))
+  .map(query => op(query.ops, name).slice(1));
+
+// 1. Allowlist
+const ADMIN = `0x${'a'.repeat(64)}`;
+const admins = getAdminAddresses(` 0xAAAA${'a'.repeat(60)}, 0x2 ,, `);
+check('addresses are trimmed and normalized', [...admins], [ADMIN, `0x${'0'.repeat(63)}2`]);
+check('listed addresses are admins', isAdmin(ADMIN, admins), true);
+check('others are not', isAdmin(`0x${'b'.repeat(64)}`, admins), false);
+check('nobody without a session', isAdmin(null, admins), false);
+check('nobody without ADMIN_ADDRESSES', getAdminAddresses(undefined).size, 0);
+
+// 2. Reports
+const ITEM = '0x1234';
+const reportClient = stubClient((table, ops) => ({
+  data: { id: 7, status: 'open', created_at: '2026-10-01T00:00:00Z', resolved_at: null, ...op(ops, 'insert')[1] },
+  error: null,
+}));
+const report = await createReport(reportClient, '0xshopper', { itemId: ITEM, reason: 'scam', details: '  Asks for Venmo  ' });
+check('reports are stored trimmed', [report.id, report.itemId, report.reporter, report.reason, report.details, report.status],
+  [7, ITEM, '0xshopper', 'scam', 'Asks for Venmo', 'open']);
+check('item IDs must be object IDs', await rejects(createReport(reportClient, '0xs', { itemId: "0x1,reporter.eq.x", reason: 'scam' })),
+  'ModerationAdminError: itemId must be a Sui object ID (400)');
+check('reasons must be known', (await rejects(createReport(reportClient, '0xs', { itemId: ITEM, reason: 'ugly' })))?.startsWith('ModerationAdminError: reason must be one of'), true);
+check('"other" needs details', await rejects(createReport(reportClient, '0xs', { itemId: ITEM, reason: 'other', details: ' ' })),
+  'ModerationAdminError: Tell us what is wrong with this listing (400)');
+check('long details are refused', (await rejects(createReport(reportClient, '0xs', { itemId: ITEM, reason: 'scam', details: 'x'.repeat(1001) })))?.endsWith('(400)'), true);
+
+const duplicateClient = stubClient(() => ({ data: null, error: { code: '23505', message: 'duplicate key' } }));
+check('one open report per shopper and listing', await rejects(createReport(duplicateClient, '0xs', { itemId: ITEM, reason: 'scam' })),
+  'ModerationAdminError: You have already reported this listing (409)');
+
+// 3. Queue
+const queueClient = stubClient((table) => ({
+  listing_reports: {
+    data: [
+      { sui_object_id: '0xa', reason: 'counterfeit', created_at: '2026-10-03T00:00:00Z' },
+      { sui_object_id: '0xa', reason: 'scam', created_at: '2026-10-02T00:00:00Z' },
+      { sui_object_id: '0xa', reason: 'scam', created_at: '2026-10-01T00:00:00Z' },
+    ],
+    error: null,
+  },
+  moderation_flags: { data: [{ sui_object_id: '0xb', created_at: '2026-10-05T00:00:00Z' }], error: null },
+  moderation_verdicts: {
+    data: [{ sui_object_id: '0xc', seller: '0xs3', status: 'pending_review', checked_at: '2026-10-04T00:00:00Z' }],
+    error: null,
+  },
+  marketplace_items: { data: [{ item_id: '0xa', title: 'Designer bag', seller: '0xs1' }], error: null },
+})[table]);
+const queue = await loadModerationQueue(queueClient);
+check('newest activity first', queue.map(entry => entry.itemId), ['0xb', '0xc', '0xa']);
+check('reports are counted with their reasons, most reported first', queue[2],
+  { itemId: '0xa', title: 'Designer bag', seller: '0xs1', reports: 3, reasons: ['scam', 'counterfeit'], flags: 0, verdict: null, latestAt: '2026-10-03T00:00:00Z' });
+check('held verdicts bring their seller', [queue[1].verdict, queue[1].seller, queue[1].title], ['pending_review', '0xs3', null]);
+check('flags are counted', queue[0].flags, 1);
+const verdictQuery = queueClient.queries.find(query => query.table === 'moderation_verdicts').ops;
+check('only unreviewed, non-approved verdicts', [op(verdictQuery, 'neq'), op(verdictQuery, 'is')],
+  [['neq', 'status', 'approved'], ['is', 'reviewed_by', null]]);
+
+// 4. Actions
+const SELLER = `0x${'5'.repeat(64)}`;
+const EARLIER = { source: 'rules', code: 'contact_info', severity: 'review', reason: 'Contact details' };
+const actionClient = () => stubClient((table, ops) => {
+  if (table === 'moderation_verdicts' && op(ops, 'maybeSingle')) {
+    return { data: { findings: [EARLIER], classifier: 'gemini' }, error: null };
+  }
+  if (op(ops, 'update')) {
+    return { data: table === 'listing_reports' ? [{ id: 1 }, { id: 2 }] : [{ id: 3 }], error: null };
+  }
+  if (table === 'moderation_audit_log') {
+    return { data: { id: 9, created_at: '2026-10-19T00:00:00Z', ...op(ops, 'insert')[1] }, error: null };
+  }
+  return { data: null, error: null };
+});
+
+const hideClient = actionClient();
+const hidden = await applyAdminAction(hideClient, ADMIN, { action: 'hide', itemId: ITEM, seller: SELLER, note: ' Replica ' });
+const [[hiddenVerdict, hideOptions]] = written(hideClient, 'moderation_verdicts', 'upsert');
+check('hide blocks the listing as reviewed', [hiddenVerdict.status, hiddenVerdict.seller, hiddenVerdict.reviewed_by, hideOptions.onConflict],
+  ['blocked', SELLER, ADMIN, 'sui_object_id']);
+check('the seller is told why, after the earlier findings',
+  hiddenVerdict.findings.map(finding => [finding.source, finding.severity, finding.reason]),
+  [['rules', 'review', 'Contact details'], ['moderator', 'block', 'Replica']]);
+check('the pipeline\'s classifier stays on record', hiddenVerdict.classifier, 'gemini');
+check('open reports and flags are actioned',
+  ['listing_reports', 'moderation_flags'].map(table => written(hideClient, table, 'update')[0][0].status),
+  ['actioned', 'actioned']);
+check('only open ones', hideClient.queries.filter(query => op(query.ops, 'update')).map(query => query.ops.filter(([prop]) => prop === 'eq')),
+  [[['eq', 'sui_object_id', ITEM], ['eq', 'status', 'open']], [['eq', 'sui_object_id', ITEM], ['eq', 'status', 'open']]]);
+check('hide is audited', [hidden.id, hidden.admin, hidden.action, hidden.itemId, hidden.address, hidden.note, hidden.details],
+  [9, ADMIN, 'hide', ITEM, null, 'Replica', { reports: 2, flags: 1 }]);
+
+const dismissClient = actionClient();
+const dismissed = await applyAdminAction(dismissClient, ADMIN, { action: 'dismiss', itemId: ITEM, seller: SELLER });
+const [[approved]] = written(dismissClient, 'moderation_verdicts', 'upsert');
+check('dismiss approves the listing as reviewed, findings kept', [approved.status, approved.reviewed_by, approved.findings.length],
+  ['approved', ADMIN, 1]);
+check('and dismisses reports and flags', written(dismissClient, 'listing_reports', 'update')[0][0].status, 'dismissed');
+check('dismiss is audited', [dismissed.action, dismissed.note], ['dismiss', '']);
+
+const banClient = actionClient();
+const banned = await applyAdminAction(banClient, ADMIN, { action: 'ban', itemId: ITEM, seller: SELLER, note: 'Repeat counterfeits' });
+const [[ban, banOptions]] = written(banClient, 'banned_addresses', 'upsert');
+check('ban bans the seller', [ban.address, ban.reason, ban.banned_by, banOptions.onConflict], [SELLER, 'Repeat counterfeits', ADMIN, 'address']);
+check('without touching the verdict', written(banClient, 'moderation_verdicts', 'upsert').length, 0);
+check('ban is audited with the address', [banned.action, banned.address, banned.itemId], ['ban', SELLER, ITEM]);
+
+const unknownClient = actionClient();
+check('unknown actions are refused', await rejects(applyAdminAction(unknownClient, ADMIN, { action: 'delete', itemId: ITEM, seller: SELLER })),
+  'ModerationAdminError: action must be one of: hide, ban, dismiss (400)');
+check('and nothing is written', unknownClient.queries.length, 0);
+
+check('cases only load for object IDs', await rejects(loadItemCase(actionClient(), ITEM, 'x),admin.neq.y')),
+  'ModerationAdminError: Not a Sui object ID (400)');
+
+finish('All admin moderation checks passed');
@@ -0,0 +1,141 @@
+/**
+ * Contract Client Drift Test
+ *
+ * Fails when the Move module and the TypeScript contract client disagree:
+ *
+ * 1. src/lib/sui/contract/thriftchain.generated.ts must be exactly what
+ *    scripts/generate-contract-client.mjs renders from thriftchain.move
+ * 2. every event an entry function emits must be known to the decoder
+ * 3. every generated builder must produce a moveCall whose target and
+ *    argument count match the Move signature
+ * 4. invalid arguments must be rejected before anything reaches the transaction
+ * 5. no code outside lib/sui/contract may assemble thriftchain call targets
+ *
+ *   node test-contract-drift.mjs
+ */
+
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  GENERATED_CLIENT,
+  MOVE_SOURCE,
+  parseEntryFunctions,
+  renderContractClient,
+} from './scripts/generate-contract-client.mjs';
+import { LIB, ROOT, check, finish, transpileLib } from './test-utils.mjs';
+
+const PACKAGE_ID = '0x' + '1'.repeat(64);
+const MARKETPLACE_ID = '0x' + '2'.repeat(64);
+const SAMPLE_ID = '0x' + 'ab'.repeat(32);
+
+console.log('=== Contract client drift ===\n');
+
+// 1. Generated module is current
+const moveSource = readFileSync(MOVE_SOURCE, 'utf8');
+const functions = parseEntryFunctions(moveSource);
+check(
+  'generated client matches thriftchain.move (run `npm run generate:contract` if not)',
+  readFileSync(GENERATED_CLIENT, 'utf8') === renderContractClient(moveSource),
+  true
+);
+
+// Transpile the client into node_modules so @mysten/sui resolves normally
+const SOURCES = ['indexer/events.ts', 'sui/contract/runtime.ts', 'sui/contract/thriftchain.generated.ts'];
+const { load } = transpileLib('contract-test', SOURCES);
+
+// Configuration is read at import time
+process.env.NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID = PACKAGE_ID;
+process.env.NEXT_PUBLIC_MARKETPLACE_ID = MARKETPLACE_ID;
+
+const { MARKETPLACE_EVENT_NAMES } = await load('indexer/events.ts');
+const { ContractArgumentError } = await load('sui/contract/runtime.ts');
+const client = await load('sui/contract/thriftchain.generated.ts');
+const { Transaction } = await import('@mysten/sui/transactions');
+
+// 2. Emitted events are decodable
+const unknownEvents = [...new Set(functions.flatMap(fn => fn.emits))]
+  .filter(name => !MARKETPLACE_EVENT_NAMES.includes(name));
+check('every emitted event is known to the decoder', unknownEvents, []);
+
+// 3. Builders match the Move signatures
+const camel = (name) => name.replace(/_([a-z0-9])/g, (_, char) => char.toUpperCase());
+
+function sampleValue(tx, param) {
+  if (param.kind === 'object') return SAMPLE_ID;
+  if (param.kind === 'coin') return tx.gas;
+  if (param.type.startsWith('vector<')) return [];
+  if (['u8', 'u16', 'u32'].includes(param.type)) return 1;
+  if (param.type.startsWith('u')) return '1000';
+  if (param.type === 'bool') return true;
+  if (param.type === 'ID' || param.type === 'address') return SAMPLE_ID;
+  return 'sample';
+}
+
+const mismatched = [];
+for (const fn of functions) {
+  const builder = client[camel(fn.name)];
+  if (typeof builder !== 'function') {
+    mismatched.push(`${fn.name}: no builder`);
+    continue;
+  }
+
+  const tx = new Transaction();
+  const args = Object.fromEntries(fn.params.map(param => [param.key, sampleValue(tx, param)]));
+  builder(tx, args);
+
+  const call = tx.getData().commands[0]?.MoveCall;
+  const expectedArgs = fn.params.filter(param => param.kind !== 'context').length;
+  if (
+    !call ||
+    call.package !== PACKAGE_ID ||
+    call.module !== 'thriftchain' ||
+    call.function !== fn.name ||
+    call.arguments.length !== expectedArgs
+  ) {
+    mismatched.push(`${fn.name}: ${JSON.stringify(call && { ...call, arguments: call.arguments.length })}`);
+  }
+}
+check(`all ${functions.length} entry functions build matching moveCalls`, mismatched, []);
+
+// 4. Validation happens before the transaction is touched
+function rejects(label, build) {
+  const tx = new Transaction();
+  let error = null;
+  try {
+    build(tx);
+  } catch (caught) {
+    error = caught;
+  }
+  check(label, [error instanceof ContractArgumentError, tx.getData().commands.length, tx.getData().inputs.length], [true, 0, 0]);
+}
+
+const validItem = {
+  title: 'Jacket', description: 'Denim', price: BigInt('2500000000'), category: 'Clothing',
+  condition: 'Good', brand: '', size: 'M', color: 'Blue', material: 'Cotton', walrusImageIds: ['blob'],
+};
+
+rejects('negative u64 is rejected', tx => client.createItem(tx, { ...validItem, price: -1 }));
+rejects('fractional u64 is rejected', tx => client.createItem(tx, { ...validItem, price: 1.5 }));
+rejects('u64 overflow is rejected', tx => client.createItem(tx, { ...validItem, price: BigInt(2) ** BigInt(64) }));
+rejects('non-string in vector<String> is rejected', tx => client.createItem(tx, { ...validItem, walrusImageIds: [42] }));
+rejects('malformed ID is rejected', tx => client.acceptOfferById(tx, { offerId: 'not-an-id', itemId: SAMPLE_ID }));
+rejects('missing ID is rejected', tx => client.cancelOfferById(tx, {}));
+rejects('missing payment coin is rejected', tx =>
+  client.createOfferById(tx, { itemId: SAMPLE_ID, amount: 1, message: '', expiresInHours: 24 })
+);
+
+// 5. Nobody bypasses the client
+function walk(dir) {
+  return readdirSync(dir).flatMap(entry => {
+    const path = join(dir, entry);
+    return statSync(path).isDirectory() ? walk(path) : [path];
+  });
+}
+
+const bypasses = walk(join(ROOT, 'src'))
+  .filter(path => /\.(ts|tsx)$/.test(path) && !path.startsWith(join(LIB, 'sui/contract')))
+  .filter(path => /moveCall\(|::thriftchain::[a-z][a-z_]*\b/.test(readFileSync(path, 'utf8')))
+  .map(path => relative(ROOT, path));
+check('no moveCall or hand-built thriftchain targets outside lib/sui/contract', bypasses, []);
+
+finish('All contract client checks passed');
@@ -0,0 +1,108 @@
+/**
+ * Duplicate Listing Test
+ *
+ * Checks duplicate and re-listed item detection (src/lib/ai/duplicates.ts)
+ * with a stub Supabase client:
+ *
+ * 1. thresholds come from the environment, with defaults for bad values
+ * 2. the seller's own near-duplicates and other sellers' photo matches are
+ *    told apart; without photos only the whole listing is compared
+ * 3. photo matches are queued in moderation_flags once per pair
+ *
+ *   node test-duplicates.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+console.log('=== Duplicate listings ===\n');
+
+const { load } = transpileLib('duplicates-test', ['ai/duplicates.ts']);
+
+const {
+  DEFAULT_DUPLICATE_THRESHOLDS,
+  classifyDuplicates,
+  findDuplicateListings,
+  flagPhotoMatches,
+  getDuplicateThresholds,
+} = await load('ai/duplicates.ts');
+
+// 1. Configuration
+check('defaults without configuration', getDuplicateThresholds({}), DEFAULT_DUPLICATE_THRESHOLDS);
+check('thresholds from the environment',
+  getDuplicateThresholds({ DUPLICATE_LISTING_THRESHOLD: '0.85', DUPLICATE_PHOTO_THRESHOLD: '0.9' }),
+  { listing: 0.85, photo: 0.9 });
+check('out-of-range values fall back',
+  getDuplicateThresholds({ DUPLICATE_LISTING_THRESHOLD: '1.5', DUPLICATE_PHOTO_THRESHOLD: 'high' }),
+  DEFAULT_DUPLICATE_THRESHOLDS);
+
+// 2. Classification
+const SELLER = '0xaaa';
+const thresholds = { listing: 0.9, photo: 0.95 };
+const match = (itemId, seller, imageSimilarity, combinedSimilarity) => ({
+  itemId, seller, title: itemId, imageSimilarity, combinedSimilarity,
+});
+const candidates = [
+  match('own-relist', '0xAAA', 0.5, 0.93),     // Same seller (any case), same listing text
+  match('own-photos', SELLER, 0.97, 0.6),      // Same seller, same photos
+  match('own-similar', SELLER, 0.8, 0.85),     // Same seller, only alike
+  match('lifted', '0xbbb', 0.98, 0.4),         // Other seller, same photos
+  match('other-similar', '0xbbb', 0.6, 0.96),  // Other seller, same kind of item
+];
+const ids = ({ sameSeller, photoMatches }) => [sameSeller.map(m => m.itemId), photoMatches.map(m => m.itemId)];
+check('own near-duplicates and lifted photos are told apart',
+  ids(classifyDuplicates(candidates, SELLER, true, thresholds)),
+  [['own-relist', 'own-photos'], ['lifted']]);
+check('without photos only the whole listing counts',
+  ids(classifyDuplicates(candidates, SELLER, false, thresholds)),
+  [['own-relist'], []]);
+
+// 3. Lookup and flagging
+function stubClient(rows) {
+  const calls = [];
+  return {
+    calls,
+    rpc: async (name, params) => {
+      calls.push(['rpc', name, params]);
+      return { data: rows, error: null };
+    },
+    from: (table) => ({
+      upsert: async (values, options) => {
+        calls.push(['upsert', table, values, options]);
+        return { error: null };
+      },
+    }),
+  };
+}
+
+const rows = [
+  { item_id: 'own-relist', seller: SELLER, title: 'Jacket', image_similarity: 0.5, combined_similarity: 0.93 },
+  { item_id: 'lifted', seller: '0xbbb', title: 'Jacket', image_similarity: 0.98, combined_similarity: 0.4 },
+];
+const embeddings = { imageEmbedding: [1, 0], combinedEmbedding: [0, 1], model: 'stub-2' };
+
+const client = stubClient(rows);
+const report = await findDuplicateListings(client, { seller: SELLER, embeddings, hasPhotos: true, excludeItem: '0xnew' }, thresholds);
+check('matches are mapped and classified', ids(report), [['own-relist'], ['lifted']]);
+const params = client.calls[0][2];
+check('the rpc gets both embeddings, thresholds and the listing to skip',
+  [params.p_image_embedding, params.p_combined_embedding, params.p_model, params.image_threshold, params.combined_threshold, params.p_exclude_item],
+  [[1, 0], [0, 1], 'stub-2', 0.95, 0.9, '0xnew']);
+
+const noPhotos = stubClient([]);
+await findDuplicateListings(noPhotos, { seller: SELLER, embeddings, hasPhotos: false }, thresholds);
+check('without photos no image threshold is sent', [noPhotos.calls[0][2].image_threshold, noPhotos.calls[0][2].p_exclude_item], [null, null]);
+
+const flagged = await flagPhotoMatches(client, '0xnew', report.photoMatches);
+const [, table, values, options] = client.calls[1];
+check('photo matches are flagged', [flagged, table], [1, 'moderation_flags']);
+check('flags name both listings and the score', values, [{
+  sui_object_id: '0xnew',
+  kind: 'duplicate_photo',
+  matched_item_id: 'lifted',
+  score: 0.98,
+  details: { matched_seller: '0xbbb', matched_title: 'Jacket' },
+}]);
+check('an already flagged pair is left alone', options, { onConflict: 'sui_object_id,kind,matched_item_id', ignoreDuplicates: true });
+check('nothing to flag makes no call', [await flagPhotoMatches(client, '0xnew', []), client.calls.length], [0, 2]);
+
+finish('All duplicate listing checks passed');
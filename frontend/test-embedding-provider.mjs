@@ -0,0 +1,196 @@
+/**
+ * Embedding Provider Test
+ *
+ * Checks the pluggable embedding providers (src/lib/ai/embedding-providers.ts)
+ * without a network or API key:
+ *
+ * 1. the local hash provider is deterministic, unit length and puts texts
+ *    sharing words closer than unrelated ones
+ * 2. the provider is chosen from EMBEDDING_PROVIDER and friends
+ * 3. the OpenAI-compatible provider speaks the /embeddings API (stub fetch)
+ * 4. embedText rejects vectors of the wrong dimension
+ * 5. item embeddings record the model and dimension they were made with
+ * 6. photos are fused into the item: captions and attributes, pixel
+ *    vectors from multimodal providers, every photo rather than the first
+ *
+ *   node test-embedding-provider.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+async function rejects(promise) {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+console.log('=== Embedding providers ===\n');
+
+delete process.env.GEMINI_API_KEY;
+delete process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+delete process.env.EMBEDDING_PROVIDER;
+
+const SOURCES = ['ai/embedding-providers.ts', 'ai/embeddings.ts'];
+const { load } = transpileLib('embedding-test', SOURCES);
+
+const {
+  EMBEDDING_DIMENSIONS,
+  LocalHashEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+} = await load('ai/embedding-providers.ts');
+const {
+  MAX_IMAGES,
+  cosineSimilarity,
+  embedText,
+  fuseEmbeddings,
+  generateItemEmbeddings,
+  imageAnalysisText,
+  normalizeImageAnalysis,
+} =
+  await load('ai/embeddings.ts');
+
+// 1. Local provider
+const local = new LocalHashEmbeddingProvider();
+const jacket = await local.embed('Vintage leather jacket');
+check('local vectors fill the schema columns', jacket.length, EMBEDDING_DIMENSIONS);
+check('local vectors are unit length', Math.abs(Math.hypot(...jacket) - 1) < 1e-9, true);
+check('same text, same vector', await local.embed('Vintage leather jacket'), jacket);
+check('case and punctuation do not matter', await local.embed('vintage, LEATHER jacket!'), jacket);
+
+const similar = cosineSimilarity(jacket, await local.embed('leather jackets from the 90s, vintage'));
+const unrelated = cosineSimilarity(jacket, await local.embed('bicycle helmet'));
+check('shared words score higher than unrelated text', similar > unrelated, true);
+check('word fragments overlap (jacket ~ jackets)',
+  cosineSimilarity(await local.embed('jacket'), await local.embed('jackets')) > 0.3, true);
+check('dimension is configurable', (await new LocalHashEmbeddingProvider(16).embed('jacket')).length, 16);
+
+// 2. Selection
+check('no Gemini key means local', getEmbeddingProvider().model, 'local-hash-v1');
+setEmbeddingProvider(undefined);
+process.env.EMBEDDING_PROVIDER = 'gemini';
+check('gemini without a key is refused', await rejects(Promise.resolve().then(getEmbeddingProvider)),
+  'Gemini API key not configured. Set GEMINI_API_KEY in .env.local\nGet a key at: https://makersuite.google.com/app/apikey');
+process.env.EMBEDDING_PROVIDER = 'openai';
+check('openai needs a URL and model', await rejects(Promise.resolve().then(getEmbeddingProvider)),
+  'EMBEDDING_PROVIDER=openai needs EMBEDDING_API_URL and EMBEDDING_MODEL');
+process.env.EMBEDDING_API_URL = 'http://localhost:11434/v1/';
+process.env.EMBEDDING_MODEL = 'nomic-embed-text';
+const configured = getEmbeddingProvider();
+check('openai provider is configured from the environment',
+  [configured.name, configured.model, configured.dimensions], ['openai', 'nomic-embed-text', 768]);
+setEmbeddingProvider(undefined);
+process.env.EMBEDDING_PROVIDER = 'cohere';
+check('unknown providers are refused', await rejects(Promise.resolve().then(getEmbeddingProvider)),
+  'Unknown EMBEDDING_PROVIDER "cohere" (expected gemini, openai or local)');
+delete process.env.EMBEDDING_PROVIDER;
+delete process.env.EMBEDDING_API_URL;
+delete process.env.EMBEDDING_MODEL;
+
+// 3. OpenAI-compatible HTTP
+const requests = [];
+globalThis.fetch = async (url, init) => {
+  requests.push([url, init]);
+  const body = JSON.parse(init.body);
+  if (body.input === 'fail') {
+    return { ok: false, status: 503 };
+  }
+  return { ok: true, json: async () => ({ data: [{ embedding: [0.6, 0.8] }] }) };
+};
+const remote = new OpenAICompatibleEmbeddingProvider({
+  baseUrl: 'https://api.example.com/v1/',
+  apiKey: 'sk-test',
+  model: 'text-embedding-3-small',
+  dimensions: 2,
+});
+check('remote embedding is returned', await remote.embed('denim'), [0.6, 0.8]);
+const [url, init] = requests[0];
+check('request goes to /embeddings', url, 'https://api.example.com/v1/embeddings');
+check('request names model, input and dimensions', JSON.parse(init.body),
+  { model: 'text-embedding-3-small', input: 'denim', dimensions: 2 });
+check('API key is sent as a bearer token', init.headers.Authorization, 'Bearer sk-test');
+check('server errors surface', await rejects(remote.embed('fail')), 'Embedding server responded 503');
+check('text-only servers do not embed images', remote.embedImage, undefined);
+const multimodal = new OpenAICompatibleEmbeddingProvider({ baseUrl: 'https://api.example.com/v1', model: 'jina-clip-v2', dimensions: 2, imageInput: true });
+await multimodal.embedImage({ data: 'AAAA', mimeType: 'image/png' });
+check('images are sent as data URLs', JSON.parse(requests.at(-1)[1].body).input, [{ image: 'data:image/png;base64,AAAA' }]);
+
+// 4. Dimension check
+const logError = console.error;
+const logWarn = console.warn;
+console.error = () => {};
+const shortModel = { name: 'test', model: 'short-model', dimensions: 3, embed: async () => [0.6, 0.8] };
+check('wrong-size vectors are rejected', await rejects(embedText('denim', shortModel)),
+  'Failed to generate text embedding: Expected 3-dim embedding from short-model, got 2');
+console.error = logError;
+
+// 5. Item embeddings
+setEmbeddingProvider(local);
+const item = await generateItemEmbeddings({ title: 'Vintage leather jacket', description: 'Brown, size M' });
+check('item embeddings record their model', [item.model, item.dimensions], ['local-hash-v1', EMBEDDING_DIMENSIONS]);
+check('title embedding comes from the provider', item.titleEmbedding, jacket);
+check('without photos the image embedding is the title', item.imageEmbedding, jacket);
+
+// 6. Multimodal fusion
+const round = (vector) => vector.map(value => Math.round(value * 1000) / 1000);
+check('fusion weights unit vectors and normalises', round(fuseEmbeddings([{ vector: [2, 0], weight: 1 }, { vector: [0, 1], weight: 1 }])),
+  [0.707, 0.707]);
+check('missing parts hand over their weight', fuseEmbeddings([{ vector: [3, 4], weight: 0.5 }, { vector: undefined, weight: 0.5 }]), [0.6, 0.8]);
+check('fusing nothing is refused', await rejects(Promise.resolve().then(() => fuseEmbeddings([{ weight: 1 }]))),
+  'Nothing to fuse: every part is missing');
+
+const analysis = normalizeImageAnalysis({
+  caption: ' A red floral midi dress. ',
+  itemType: 'dress',
+  colors: ['red', '', 42, 'white '],
+  pattern: 'floral',
+  material: null,
+});
+check('vision JSON is normalised', analysis, {
+  caption: 'A red floral midi dress.',
+  attributes: { itemType: 'dress', colors: ['red', 'white'], pattern: 'floral', material: '', style: '', brand: '', visibleText: '' },
+});
+check('a photo without a caption is refused', await rejects(Promise.resolve().then(() => normalizeImageAnalysis({ colors: ['red'] }))),
+  'Vision model returned no caption');
+check('caption text lists the attributes found', imageAnalysisText(analysis),
+  'A red floral midi dress. Item: dress. Colors: red, white. Pattern: floral.');
+
+const dress = { title: 'Summer dress', description: 'Midi length, size S' };
+const plain = await generateItemEmbeddings(dress);
+const captioned = await generateItemEmbeddings({
+  ...dress,
+  imageAnalyses: [analysis, normalizeImageAnalysis({ caption: 'Back view with a zip.', pattern: 'floral' })],
+});
+check('every analysed photo is kept', captioned.imageAnalyses.length, 2);
+const query = await local.embed('floral dress');
+check('captions pull the combined vector toward what the photos show',
+  cosineSimilarity(captioned.combinedEmbedding, query) > cosineSimilarity(plain.combinedEmbedding, query), true);
+check('without photos the combined vector is the text', cosineSimilarity(plain.combinedEmbedding, await local.embed('Summer dress. Midi length, size S')) > 0.999999, true);
+
+// No Gemini key here, so photos can only come from a provider that embeds pixels
+const pixelCalls = [];
+const pixelProvider = {
+  name: 'test',
+  model: 'clip-test',
+  dimensions: 2,
+  embed: async () => [1, 0],
+  embedImage: async (image) => {
+    pixelCalls.push(image.data);
+    return [0, 1];
+  },
+};
+const photos = Array.from({ length: MAX_IMAGES + 2 }, (_, i) => `data:image/jpeg;base64,photo${i}`);
+console.warn = () => {};
+const pixels = await generateItemEmbeddings({ ...dress, base64Images: photos, provider: pixelProvider });
+check(`every photo up to ${MAX_IMAGES} is embedded`, pixelCalls, photos.slice(0, MAX_IMAGES).map((_, i) => `photo${i}`));
+check('the image embedding comes from the pixels', pixels.imageEmbedding, [0, 1]);
+check('text and pixels are fused by weight', round(pixels.combinedEmbedding), [0.928, 0.371]);
+const fallback = await generateItemEmbeddings({ ...dress, base64Images: photos.slice(0, 1) });
+check('photos nothing can embed fall back to the title', fallback.imageEmbedding, await local.embed('Summer dress'));
+console.warn = logWarn;
+
+finish('All embedding provider checks passed');
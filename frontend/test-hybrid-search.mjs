@@ -0,0 +1,131 @@
+/**
+ * Hybrid Search Test
+ *
+ * Checks rank fusion and facet counting for /api/ai/search with a stub
+ * Supabase client, so no database or embedding API is needed:
+ *
+ * 1. reciprocal rank fusion favours items both retrievers agree on and keeps
+ *    items only one of them found
+ * 2. an exact-token keyword hit (size "32x30") the vector side missed still
+ *    makes the results
+ * 3. both retrievers receive the same filters
+ * 4. facets count case-insensitively and bucket prices
+ * 5. search by photo queries image and combined embeddings and labels
+ *    each hit "visual" and/or "text"
+ *
+ *   node test-hybrid-search.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+console.log('=== Hybrid search ===\n');
+
+const SOURCES = ['types/sui-objects.ts', 'ai/hybrid-search.ts'];
+const { load } = transpileLib('search-test', SOURCES);
+
+const { fuseRankings, computeFacets, hybridSearch, RRF_K } =
+  await load('ai/hybrid-search.ts');
+
+// 1. Fusion
+const fused = fuseRankings([['a', 'b', 'c'], ['b', 'd', 'a']]);
+check('items in both lists rank first', fused.map((r) => r.id), ['b', 'a', 'd', 'c']);
+check('score is the sum of reciprocal ranks', fused[0].score, 1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+check('ranks record absence', fused.find((r) => r.id === 'd').ranks, [null, 2]);
+check('duplicates count once per list', fuseRankings([['a', 'a']])[0].score, 1 / (RRF_K + 1));
+
+// 2-3. Search with a stub client
+const ITEMS = {
+  '0xjeans': { category: 'Bottoms', condition: 'Good', size: '32x30', price: '15000000000' },
+  '0xdenim': { category: 'bottoms', condition: 'Like New', size: 'M', price: '4000000000' },
+  '0xjacket': { category: 'Outerwear', condition: 'Good', size: 'L', price: '60000000000' },
+};
+
+const calls = {};
+const stubClient = {
+  rpc: async (name, params) => {
+    calls[name] = params;
+    if (name === 'search_items_by_keyword') {
+      return { data: [{ item_id: '0xjeans', rank: 0.9 }], error: null };
+    }
+    return { data: [{ sui_object_id: '0xdenim' }, { sui_object_id: '0xjacket' }], error: null };
+  },
+  from: () => ({
+    select: () => ({
+      in: async (_column, ids) => ({ data: ids.map((id) => ITEMS[id]), error: null }),
+    }),
+  }),
+};
+
+const { results, facets } = await hybridSearch(stubClient, { text: 'levis 32x30', textEmbedding: [0.1, 0.2], model: 'test-model' }, {
+  filters: { condition: 'Good', maxPrice: 100000000000n },
+  maxResults: 10,
+  similarityThreshold: 0.3,
+  useCombined: true,
+});
+
+check('keyword-only hit is kept', results.map((r) => r.id).includes('0xjeans'), true);
+check('results fuse both retrievers', results.map((r) => r.id), ['0xjeans', '0xdenim', '0xjacket']);
+check(
+  'both retrievers get the filters',
+  [calls.search_items_by_keyword.p_condition, calls.search_items_by_embedding.p_condition,
+    calls.search_items_by_keyword.p_max_price, calls.search_items_by_embedding.p_max_price],
+  ['Good', 'Good', '100000000000', '100000000000']
+);
+check('only active items are searched', calls.search_items_by_embedding.p_status, 0);
+check('vectors are compared within the query model', calls.search_items_by_embedding.p_model, 'test-model');
+check('text-only search matches by text', results.every((r) => r.matchedBy.join() === 'text'), true);
+
+// 4. Facets
+check('categories count case-insensitively', facets.category, [
+  { value: 'Bottoms', count: 2 },
+  { value: 'Outerwear', count: 1 },
+]);
+check('sizes are facets', facets.size.map((f) => f.value), ['32x30', 'L', 'M']);
+check('prices are bucketed', facets.price.map((b) => [b.label, b.count]), [
+  ['Under 5 SUI', 1],
+  ['5-20 SUI', 1],
+  ['50+ SUI', 1],
+]);
+check('no results, no facets', computeFacets([]).category, []);
+
+// 5. Search by photo
+const photoCalls = [];
+const photoClient = {
+  ...stubClient,
+  rpc: async (name, params) => {
+    photoCalls.push([name, params]);
+    if (name === 'search_items_by_image') {
+      return { data: [{ sui_object_id: '0xjacket' }, { sui_object_id: '0xjeans' }], error: null };
+    }
+    return { data: [{ sui_object_id: '0xdenim' }, { sui_object_id: '0xjeans' }], error: null };
+  },
+};
+
+const photo = await hybridSearch(photoClient, { imageEmbedding: [0.3, 0.4], model: 'test-model' }, {
+  filters: { category: 'Bottoms' },
+  maxResults: 10,
+  similarityThreshold: 0.3,
+  useCombined: false,
+});
+check('photo alone skips keyword search', photoCalls.map(([name]) => name), [
+  'search_items_by_image',
+  'search_items_by_embedding',
+]);
+check('photo matches text via combined embeddings', photoCalls[1][1].use_combined, true);
+check('photo search stays within the model', photoCalls.map(([, params]) => params.p_model), ['test-model', 'test-model']);
+check('photo search gets the filters', photoCalls.map(([, params]) => params.p_category), ['Bottoms', 'Bottoms']);
+check('hits say how they matched', Object.fromEntries(photo.results.map((r) => [r.id, r.matchedBy])), {
+  '0xjeans': ['visual', 'text'],
+  '0xjacket': ['visual'],
+  '0xdenim': ['text'],
+});
+
+let threw = false;
+try {
+  await hybridSearch(photoClient, { text: 'jeans', model: 'test-model' }, { maxResults: 10, similarityThreshold: 0.3, useCombined: true });
+} catch {
+  threw = true;
+}
+check('search without an embedding is rejected', threw, true);
+
+finish('All hybrid search checks passed');
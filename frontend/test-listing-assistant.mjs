@@ -0,0 +1,95 @@
+/**
+ * Listing Assistant Test
+ *
+ * Checks auto-fill from photos (src/lib/ai/listing-assistant.ts) with a
+ * canned describer, so no vision model or API key is needed:
+ *
+ * 1. model output is held to the form: categories and conditions from
+ *    its lists, text within its limits, confidences within 0..1
+ * 2. photos are validated and passed on as raw base64 + MIME type
+ * 3. without a Gemini key there is no describer (503)
+ *
+ *   node test-listing-assistant.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+async function rejects(promise) {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return [error.message, error.status];
+  }
+}
+
+console.log('=== Listing assistant ===\n');
+
+delete process.env.GEMINI_API_KEY;
+delete process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+
+const SOURCES = ['constants.ts', 'ai/embedding-providers.ts', 'ai/embeddings.ts', 'ai/listing-assistant.ts'];
+const { load } = transpileLib('listing-assistant-test', SOURCES);
+
+const {
+  FIELD_MAX_LENGTHS,
+  LISTING_FIELDS,
+  describeListing,
+  getListingDescriber,
+  normalizeListingSuggestions,
+  setListingDescriber,
+} = await load('ai/listing-assistant.ts');
+
+// 1. Normalization
+const canned = {
+  title: { value: "  Vintage Levi's Denim Jacket ", confidence: 0.9 },
+  description: { value: 'x'.repeat(1500), confidence: 0.7 },
+  price: { value: '12.345 SUI', confidence: '0.4' },
+  category: { value: 'clothing', confidence: 0.95 },
+  condition: { value: 'Gently used', confidence: 0.6 },
+  brand: { value: "Levi's", confidence: 1.7 },
+  size: { value: null, confidence: 0 },
+  color: { value: 'light blue', confidence: -2 },
+};
+const suggestions = normalizeListingSuggestions(canned);
+check('every form field gets an entry', Object.keys(suggestions), LISTING_FIELDS);
+check('text is trimmed', suggestions.title, { value: "Vintage Levi's Denim Jacket", confidence: 0.9 });
+check('text is cut to the form limit', suggestions.description.value.length, FIELD_MAX_LENGTHS.description);
+check('prices are numbers in SUI, two decimals', suggestions.price, { value: 12.35, confidence: 0.4 });
+check('categories take the form spelling', suggestions.category, { value: 'Clothing', confidence: 0.95 });
+check('conditions outside the list are dropped', suggestions.condition, null);
+check('confidence is clamped', [suggestions.brand.confidence, suggestions.color.confidence], [1, 0]);
+check('fields without a value are null', [suggestions.size, suggestions.material], [null, null]);
+check('zero and negative prices are dropped', normalizeListingSuggestions({ price: { value: 0, confidence: 1 } }).price, null);
+check('garbage gives no suggestions', Object.values(normalizeListingSuggestions('nope')).every(value => value === null), true);
+
+// 2. Photos
+const seen = [];
+const stub = {
+  name: 'stub',
+  describe: async (photos) => {
+    seen.push(...photos);
+    return normalizeListingSuggestions(canned);
+  },
+};
+const drafted = await describeListing(['data:image/png;base64,AAAA', 'BBBB'], stub);
+check('the describer gets raw base64 and MIME types', seen, [
+  { mimeType: 'image/png', data: 'AAAA' },
+  { mimeType: 'image/jpeg', data: 'BBBB' },
+]);
+check('suggestions are returned as drafted', drafted.category.value, 'Clothing');
+check('no photos is refused', await rejects(describeListing([], stub)),
+  ['images must be a non-empty array of base64 strings', 400]);
+check('more than five photos is refused', await rejects(describeListing(Array(6).fill('AAAA'), stub)), ['At most 5 photos', 400]);
+check('non-images are refused', await rejects(describeListing(['data:application/pdf;base64,AAAA'], stub)),
+  ['Every photo must be an image', 400]);
+
+setListingDescriber(stub);
+check('the configured describer is used', (await describeListing(['AAAA'])).title.value, "Vintage Levi's Denim Jacket");
+
+// 3. Selection
+setListingDescriber(undefined);
+check('without a key there is no describer', await rejects(Promise.resolve().then(getListingDescriber)),
+  ['Auto-fill is not available: no vision model is configured', 503]);
+
+finish('All listing assistant checks passed');
@@ -0,0 +1,124 @@
+/**
+ * Listing Moderation Test
+ *
+ * Checks the moderation pipeline (src/lib/moderation) with canned
+ * classifiers and a stub Supabase client, so no model or key is needed:
+ *
+ * 1. text rules catch prohibited items, off-platform payment and contact
+ *    details, and leave ordinary listings alone
+ * 2. classifier scores become findings by threshold, a failing classifier
+ *    holds the listing, and findings decide the verdict
+ * 3. verdicts are stored per sui_object_id, unless a moderator already
+ *    decided, and sellers get theirs back
+ *
+ *   node test-moderation.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+console.log('=== Listing moderation ===\n');
+
+delete process.env.GEMINI_API_KEY;
+delete process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+delete process.env.MODERATION_CLASSIFIER;
+
+const SOURCES = [
+  'ai/embedding-providers.ts', 'ai/embeddings.ts',
+  'moderation/types.ts', 'moderation/rules.ts', 'moderation/classifier.ts', 'moderation/pipeline.ts',
+];
+const { load } = transpileLib('moderation-test', SOURCES);
+
+const { applyTextRules } = await load('moderation/rules.ts');
+const { getSafetyClassifier, normalizeSafetyScores } = await load('moderation/classifier.ts');
+const {
+  listHiddenListings,
+  moderateListing,
+  saveVerdict,
+} = await load('moderation/pipeline.ts');
+
+// 1. Text rules
+const codes = (...fields) => applyTextRules(fields).map(finding => `${finding.code}:${finding.severity}`);
+check('ordinary listings pass', codes("Vintage Levi's 501 jeans", 'Light wash, 32x30, barely worn. Gunmetal buttons.'), []);
+check('weapons are blocked', codes('Hunting rifle scope and ammo'), ['prohibited_weapons:block']);
+check('drugs are blocked', codes('THC carts, 10 pack'), ['prohibited_drugs:block']);
+check('counterfeits are blocked', codes('Designer bag', '1:1 quality, looks just like the real thing'), ['prohibited_counterfeit:block']);
+check('off-platform payment is blocked', codes('Sneakers', 'Venmo me and I ship today'), ['off_platform_payment:block']);
+check('asking to be paid directly is blocked', codes('Sneakers', 'Pay me directly for a discount'), ['off_platform_payment:block']);
+check('emails are held for review', codes('Desk lamp', 'Questions? seller@example.com'), ['contact_info:review']);
+check('phone numbers are held for review', codes('Desk lamp', 'Call (555) 123-4567'), ['contact_info:review']);
+check('social handles are held for review', codes('Desk lamp', 'More on IG: @lampguy'), ['contact_info:review']);
+check('sizes and prices aren\'t phone numbers', codes('Jeans 32x30', 'Waist 81 cm, inseam 76 cm, paid 120 new'), []);
+const [finding] = applyTextRules(['Camera', 'Text me at 555-123-4567']);
+check('findings carry the reason and what matched', [finding.source, finding.excerpt, typeof finding.reason], ['rules', '555-123-4567', 'string']);
+
+// 2. Classifier and verdicts
+check('scores are held to known categories and 0..1',
+  normalizeSafetyScores({ weapons: 1.4, drugs: '0.2', sexual: -1, spam: 0.9, hate: 'no' }),
+  [{ category: 'sexual', score: 0 }, { category: 'weapons', score: 1 }, { category: 'drugs', score: 0.2 }]);
+check('without a key only the rules run', getSafetyClassifier(), null);
+
+const seen = [];
+const scoring = (scores) => ({
+  name: 'stub',
+  classify: async (listing) => {
+    seen.push(listing);
+    return normalizeSafetyScores(scores);
+  },
+});
+const listing = { title: 'Leather jacket', description: 'Brown, size M', images: ['data:image/png;base64,AAAA'] };
+
+check('clean listings are approved', await moderateListing(listing, scoring({ sexual: 0.1 })),
+  { status: 'approved', findings: [], classifier: 'stub' });
+check('the classifier sees text and decoded photos', seen[0].images, [{ mimeType: 'image/png', data: 'AAAA' }]);
+
+const held = await moderateListing(listing, scoring({ counterfeit: 0.6 }));
+check('middling scores hold the listing', [held.status, held.findings[0].code, held.findings[0].score], ['pending_review', 'counterfeit', 0.6]);
+check('high scores block it', (await moderateListing(listing, scoring({ weapons: 0.9, counterfeit: 0.6 }))).status, 'blocked');
+check('rules and classifier findings add up',
+  (await moderateListing({ ...listing, description: 'Email me: a@b.co' }, scoring({ weapons: 0.95 }))).findings.map(f => f.code),
+  ['contact_info', 'weapons']);
+
+const failing = { name: 'flaky', classify: async () => { throw new Error('quota'); } };
+const unchecked = await moderateListing(listing, failing);
+check('a failing classifier holds the listing', [unchecked.status, unchecked.findings[0].code], ['pending_review', 'classifier_unavailable']);
+check('rules only without a classifier', await moderateListing({ ...listing, otherText: ['Paypal only'] }, null),
+  { status: 'blocked', findings: applyTextRules(['Paypal only']), classifier: null });
+
+// 3. Storage
+const calls = [];
+const query = (result) => new Proxy({}, {
+  get(_, prop) {
+    if (prop === 'then') return (resolve) => resolve(result);
+    return (...args) => {
+      calls.push([prop, ...args]);
+      return query(result);
+    };
+  },
+});
+const client = {
+  from: (table) => {
+    calls.push(['from', table]);
+    return query({
+      data: [{ sui_object_id: '0x1', status: 'blocked', findings: null, classifier: null, checked_at: '2026-10-01T00:00:00Z' }],
+      error: null,
+    });
+  },
+};
+
+const saved = await saveVerdict(client, '0x1', '0xseller', held);
+const [, row, options] = calls.find(([prop]) => prop === 'upsert');
+check('verdicts are upserted per item', [saved, row.sui_object_id, row.seller, row.status, row.classifier, options.onConflict],
+  ['pending_review', '0x1', '0xseller', 'pending_review', 'stub', 'sui_object_id']);
+
+calls.length = 0;
+const reviewed = { from: () => query({ data: { status: 'blocked', reviewed_by: '0xadmin' }, error: null }) };
+check('a moderator\'s decision outlasts re-indexing', await saveVerdict(reviewed, '0x1', '0xseller', held), 'blocked');
+check('and is left as it is', calls.some(([prop]) => prop === 'upsert'), false);
+
+calls.length = 0;
+const hidden = await listHiddenListings(client, '0xseller');
+check('sellers get their hidden listings', hidden, [{ itemId: '0x1', status: 'blocked', findings: [], classifier: null, checkedAt: '2026-10-01T00:00:00Z' }]);
+check('only their own, and not approved ones', calls.filter(([prop]) => prop === 'eq' || prop === 'neq'),
+  [['eq', 'seller', '0xseller'], ['neq', 'status', 'approved']]);
+
+finish('All moderation checks passed');
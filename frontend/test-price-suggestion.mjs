@@ -0,0 +1,141 @@
+/**
+ * Price Suggestion Test
+ *
+ * Checks price suggestions from sold comparables (src/lib/ai/pricing.ts)
+ * with a stub Supabase client and a stub embedding provider:
+ *
+ * 1. comparables are weighted by similarity, condition, brand and recency
+ * 2. the range is the weighted 25th/50th/75th percentile, and too few
+ *    comparables give no range
+ * 3. drafts are embedded, listed items reuse their stored embedding and are
+ *    left out of their own comparables, and MIST becomes SUI
+ *
+ *   node test-price-suggestion.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+async function rejects(promise) {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return [error.message, error.status];
+  }
+}
+
+console.log('=== Price suggestions ===\n');
+
+const SOURCES = ['constants.ts', 'types/sui-objects.ts', 'ai/embedding-providers.ts', 'ai/embeddings.ts', 'ai/pricing.ts'];
+const { load } = transpileLib('pricing-test', SOURCES);
+
+const {
+  BRAND_MATCH_WEIGHT,
+  BRAND_MISMATCH_WEIGHT,
+  priceRange,
+  suggestPrice,
+  weightComparables,
+} = await load('ai/pricing.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 1);
+const sale = (overrides) => ({
+  itemId: '0x1', title: 'Denim jacket', category: 'Clothing', condition: 'Good', brand: "Levi's",
+  soldPrice: 10, soldAtMs: NOW, similarity: 1, ...overrides,
+});
+const round = (value) => Math.round(value * 1000) / 1000;
+
+// 1. Weighting
+const [same, worn, otherBrand, noBrand, old] = weightComparables([
+  sale({}),
+  sale({ condition: 'Needs Repair' }),
+  sale({ brand: 'Wrangler' }),
+  sale({ brand: '' }),
+  sale({ soldAtMs: NOW - 90 * DAY_MS }),
+], { condition: 'Good', brand: "levi's" }, NOW);
+check('same condition and brand (any case) weigh the most', same.weight, BRAND_MATCH_WEIGHT);
+check('each condition step away costs weight', round(worn.weight), round(0.6 * BRAND_MATCH_WEIGHT));
+check('a different brand weighs less', otherBrand.weight, BRAND_MISMATCH_WEIGHT);
+check('an unknown brand is neutral', noBrand.weight, 1);
+check('a sale counts half after the half-life', old.weight, BRAND_MATCH_WEIGHT / 2);
+check('without a target brand or condition only similarity and age count',
+  weightComparables([sale({ similarity: 0.8 })], {}, NOW)[0].weight, 0.8);
+
+// 2. Range
+const prices = [4, 8, 10, 12, 30].map((soldPrice, index) => sale({ itemId: `0x${index}`, soldPrice }));
+const range = priceRange(prices, {}, NOW);
+check('range is the weighted quartiles', [range.low, range.suggested, range.high], [8, 10, 12]);
+check('every comparable is counted', range.basedOn, 5);
+const skewed = priceRange(prices.map(comparable => comparable.soldPrice === 30 ? { ...comparable, similarity: 10 } : comparable), {}, NOW);
+check('heavier comparables pull the range', [skewed.suggested, skewed.comparables[0].soldPrice], [30, 30]);
+check('fewer than three comparables give no range', priceRange(prices.slice(0, 2), {}, NOW), null);
+
+// 3. Lookup
+function stubQuery(result) {
+  const query = new Proxy({}, {
+    get(_, prop) {
+      if (prop === 'then') {
+        return (resolve, reject) => Promise.resolve(result).then(resolve, reject);
+      }
+      return () => query;
+    },
+  });
+  return query;
+}
+
+function stubClient({ tables = {}, rows = [] } = {}) {
+  const rpcCalls = [];
+  return {
+    rpcCalls,
+    from: (table) => stubQuery(tables[table] ?? { data: null, error: null }),
+    rpc: async (name, params) => {
+      rpcCalls.push([name, params]);
+      return { data: rows, error: null };
+    },
+  };
+}
+
+const embedded = [];
+const provider = {
+  name: 'stub', model: 'stub-3', dimensions: 3,
+  embed: async (text) => {
+    embedded.push(text);
+    return [1, 0, 0];
+  },
+};
+const rows = [3, 5, 7].map((sui, index) => ({
+  item_id: `0x${index}`, title: 'Jacket', category: 'Clothing', condition: 'Good', brand: '',
+  sold_price: String(sui * 1_000_000_000), sold_at_ms: NOW, similarity: 0.9,
+}));
+
+const draftClient = stubClient({ rows });
+const draft = await suggestPrice(draftClient, { title: 'Denim jacket', description: 'Light wash' }, { provider, now: NOW });
+check('drafts are embedded from title and description', embedded, ['Denim jacket. Light wash']);
+check('sold prices are converted from MIST', [draft.low, draft.suggested, draft.high], [3, 5, 7]);
+check('the rpc gets the embedding and model', [draftClient.rpcCalls[0][1].p_embedding, draftClient.rpcCalls[0][1].p_model, draftClient.rpcCalls[0][1].p_exclude_item],
+  [[1, 0, 0], 'stub-3', null]);
+
+const itemClient = stubClient({
+  tables: {
+    item_search_index: { data: { combined_embedding: '[0,1,0]' }, error: null },
+    marketplace_items: { data: { title: 'Jacket', description: '', condition: 'New', brand: 'Acme' }, error: null },
+  },
+  rows,
+});
+embedded.length = 0;
+await suggestPrice(itemClient, { itemId: '0xabc' }, { provider, now: NOW });
+check('listed items reuse their stored embedding', [itemClient.rpcCalls[0][1].p_embedding, embedded.length], ['[0,1,0]', 0]);
+check('listed items are left out of their own comparables', itemClient.rpcCalls[0][1].p_exclude_item, '0xabc');
+
+const unindexed = stubClient({
+  tables: { marketplace_items: { data: { title: 'Wool scarf', description: 'Red', condition: 'Good', brand: '' }, error: null } },
+  rows,
+});
+await suggestPrice(unindexed, { itemId: '0xdef' }, { provider, now: NOW });
+check('items not indexed yet are embedded from the projection', embedded, ['Wool scarf. Red']);
+
+check('unknown items are a 404', await rejects(suggestPrice(stubClient(), { itemId: '0x404' }, { provider })), ['Item not found', 404]);
+check('drafts need a title', await rejects(suggestPrice(stubClient(), { title: '  ' }, { provider })), ['title is required', 400]);
+check('too few sales give no suggestion', await suggestPrice(stubClient({ rows: rows.slice(0, 2) }), { title: 'Jacket' }, { provider }), null);
+
+finish('All price suggestion checks passed');
@@ -0,0 +1,69 @@
+/**
+ * Query Parser Test
+ *
+ * Checks how /api/ai/search turns a natural-language query into filters,
+ * using the rule parser and a fake LLM parser so no API key is needed:
+ *
+ * 1. the rule parser pulls out prices, sizes, conditions, categories and
+ *    colors, and leaves the descriptive words as text
+ * 2. normalization drops values the listing form can't produce and fixes
+ *    inverted price bounds
+ * 3. a failing parser falls back to the rules
+ * 4. interpretations become search filters with prices in MIST
+ *
+ *   node test-query-parser.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+console.log('=== Query parser ===\n');
+
+const SOURCES = ['constants.ts', 'types/sui-objects.ts', 'ai/query-parser.ts'];
+const { load } = transpileLib('query-parser-test', SOURCES);
+
+const { RuleQueryParser, normalizeInterpretation, interpretQuery, interpretationFilters } =
+  await load('ai/query-parser.ts');
+
+const rules = new RuleQueryParser();
+
+// 1. Rule parser
+check(
+  'full query',
+  await rules.parse("black Levi's jeans size 32 under 5 SUI in good condition"),
+  { text: "black Levi's jeans", size: '32', color: 'black', condition: 'Good', maxPrice: 5 }
+);
+check(
+  'waist x length size and price range',
+  await rules.parse('denim 32x30 between 2 and 8 sui'),
+  { text: 'denim', size: '32x30', minPrice: 2, maxPrice: 8 }
+);
+check('longest condition wins', (await rules.parse('like new shoes')).condition, 'Like New');
+check('category stays in the text', await rules.parse('running shoes'), { text: 'running shoes', category: 'Shoes' });
+check('plain query is untouched', await rules.parse('vintage leather jacket'), { text: 'vintage leather jacket' });
+check('filter-only query keeps the query as text', (await rules.parse('under 3 sui')).text, 'under 3 sui');
+
+// 2. Normalization
+check(
+  'invented values are dropped',
+  normalizeInterpretation({ text: 'coat', category: 'Coats', condition: 'mint', minPrice: -1, brand: '  ' }, 'coat'),
+  { text: 'coat' }
+);
+check(
+  'canonical casing and swapped bounds',
+  normalizeInterpretation({ text: 'tee', category: 'clothing', minPrice: '9', maxPrice: 3, color: 'Red' }, 'tee'),
+  { text: 'tee', category: 'Clothing', color: 'red', minPrice: 3, maxPrice: 9 }
+);
+
+// 3. Fallback
+const broken = { name: 'broken', parse: async () => { throw new Error('quota exceeded'); } };
+const originalWarn = console.warn;
+console.warn = () => {};
+check('failing parser falls back to rules', await interpretQuery('scarf under 2 sui', broken), { text: 'scarf', maxPrice: 2 });
+console.warn = originalWarn;
+
+// 4. Filters
+const filters = interpretationFilters({ text: 'jeans', brand: "Levi's", minPrice: 1.5, maxPrice: 5 });
+check('prices become MIST', [filters.minPrice, filters.maxPrice].map(String), ['1500000000', '5000000000']);
+check('other fields pass through', [filters.brand, filters.size], ["Levi's", undefined]);
+
+finish('All query parser checks passed');
@@ -0,0 +1,233 @@
+/**
+ * Re-embedding Job Test
+ *
+ * Walks a re-embedding job (src/lib/ai/reembed.ts) through start, run and
+ * swap with a stub Supabase client, chain, Walrus and embedding provider:
+ *
+ * 1. starting prepares the shadow table and refuses while a job is active
+ * 2. runs resume where the last call stopped, skip items gone from chain,
+ *    send each item's Walrus photos to the embedder and throttle calls
+ * 3. failed items are retried in the next pass; the job ends ready
+ * 4. dry runs count without embedding or writing
+ * 5. swapping refuses items that failed for good unless forced, then
+ *    re-embeds saved searches with the new model
+ *
+ *   node test-reembed.mjs
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+async function rejects(promise) {
+  try {
+    await promise;
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+console.log('=== Re-embedding job ===\n');
+
+delete process.env.GEMINI_API_KEY;
+delete process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+delete process.env.REEMBED_PROVIDER;
+
+const SOURCES = ['ai/embedding-providers.ts', 'ai/embeddings.ts', 'ai/reembed.ts'];
+const { outDir, load } = transpileLib('reembed-test', SOURCES);
+
+// Chain and Walrus are injected through ReembedDeps; the defaults are never called
+for (const [path, name] of [['sui/queries.mjs', 'getItemsByIds'], ['walrus/upload.mjs', 'fetchBlobFromWalrus']]) {
+  mkdirSync(dirname(join(outDir, path)), { recursive: true });
+  writeFileSync(join(outDir, path), `export const ${name} = () => { throw new Error('not stubbed'); };\n`);
+}
+
+const { MAX_ATTEMPTS, runReembedJob, startReembedJob, swapReembedJob } =
+  await load('ai/reembed.ts');
+
+/**
+ * Chainable stand-in for a PostgREST query: records each call and resolves
+ * to `result(calls made on this query)` when awaited
+ */
+function stubQuery(table, result, calls) {
+  const own = [];
+  const query = new Proxy({}, {
+    get(_, prop) {
+      if (prop === 'then') {
+        return (resolve, reject) => Promise.resolve().then(() => result(own)).then(resolve, reject);
+      }
+      return (...args) => {
+        own.push([prop, ...args]);
+        calls.push([table, prop, ...args]);
+        return query;
+      };
+    },
+  });
+  return query;
+}
+
+/**
+ * `job` is the reembed_jobs row every read returns (updates are applied to
+ * it, an insert creates it); other tables and rpcs answer from queues
+ */
+function stubClient({ job = null, tables = {}, rpc = {} } = {}) {
+  const calls = [];
+  const client = {
+    calls,
+    job,
+    from: (table) => {
+      if (table === 'reembed_jobs') {
+        return stubQuery(table, (own) => {
+          for (const [prop, values] of own) {
+            if (prop === 'insert') client.job = jobRow({ id: 8, ...values });
+            if (prop === 'update') Object.assign(client.job, values);
+          }
+          return { data: client.job, error: null };
+        }, calls);
+      }
+      const queue = tables[table] ?? [];
+      const result = queue.length > 0 ? queue.shift() : { data: null, error: null };
+      return stubQuery(table, () => result, calls);
+    },
+    rpc: async (name, params) => {
+      calls.push(['rpc', name, params]);
+      const queue = rpc[name] ?? [];
+      return queue.length > 0 ? queue.shift() : { data: [], error: null };
+    },
+  };
+  return client;
+}
+
+const rpcCalls = (client, name) => client.calls.filter(([kind, rpcName]) => kind === 'rpc' && rpcName === name).map(([, , params]) => params);
+const pending = (...ids) => ({ data: ids.map(sui_object_id => ({ sui_object_id })), error: null });
+
+const provider = { name: 'test', model: 'next-model', dimensions: 4, embed: async () => [0.5, 0.5, 0.5, 0.5] };
+
+const jobRow = (overrides = {}) => ({
+  id: 7,
+  embedding_model: 'next-model',
+  embedding_dimensions: 4,
+  dry_run: false,
+  status: 'running',
+  pass: 1,
+  last_item_id: '',
+  total: 3,
+  processed: 0,
+  skipped_ids: [],
+  failures: {},
+  started_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  finished_at: null,
+  ...overrides,
+});
+
+const chainItem = (objectId, images = []) => ({
+  objectId,
+  fields: { title: `Item ${objectId}`, description: 'Worn twice', walrus_image_ids: images },
+});
+
+// 1. Start
+const startClient = stubClient({ tables: { item_search_index: [{ count: 3, error: null }] } });
+const started = await startReembedJob(startClient, {}, provider);
+check('start sizes the shadow table for the new model', rpcCalls(startClient, 'prepare_item_search_index_shadow'), [{ p_dimensions: 4 }]);
+check('start records the model and item count',
+  [started.model, started.dimensions, started.total, started.status], ['next-model', 4, 3, 'running']);
+
+const busyClient = stubClient({ job: jobRow() });
+check('a second job is refused while one runs', await rejects(startReembedJob(busyClient, {}, provider)),
+  'Job 7 is still running; swap or cancel it first');
+
+// 2-3. Run
+const runClient = stubClient({
+  job: jobRow(),
+  rpc: {
+    reembed_pending: [pending('0xa', '0xb', '0xc'), pending(), pending('0xc'), pending('0xc'), pending(), pending()],
+  },
+});
+const loadedImages = [];
+const embedded = [];
+const sleeps = [];
+let cFailed = false;
+const deps = {
+  provider,
+  loadItems: async (ids) => [chainItem('0xa', ['blob-a', 'blob-a2']), chainItem('0xc')].filter(item => ids.includes(item.objectId)),
+  loadImage: async (blobId) => {
+    loadedImages.push(blobId);
+    return `data:image/jpeg;base64,${blobId}`;
+  },
+  embed: async (input) => {
+    embedded.push([input.title, input.base64Images ?? null, input.provider.model]);
+    if (input.title === 'Item 0xc' && !cFailed) {
+      cFailed = true;
+      throw new Error('quota exceeded');
+    }
+    const vector = [0.5, 0.5, 0.5, 0.5];
+    return { titleEmbedding: vector, descriptionEmbedding: vector, imageEmbedding: vector, combinedEmbedding: vector, model: 'next-model', dimensions: 4 };
+  },
+  sleep: async (ms) => {
+    sleeps.push(ms);
+  },
+};
+
+const logWarn = console.warn;
+console.warn = () => {};
+const first = await runReembedJob(runClient, { maxItems: 3, minIntervalMs: 60000 }, deps);
+check('items gone from chain are skipped', first.skipped, ['0xb']);
+check('failures are retried, not fatal', [first.processed, first.retrying, first.failed], [1, 1, []]);
+check('progress is saved where the run stopped', runClient.job.last_item_id, '0xc');
+check('every Walrus photo is fetched', loadedImages, ['blob-a', 'blob-a2']);
+check('the photos and target provider reach the embedder', embedded[0],
+  ['Item 0xa', ['data:image/jpeg;base64,blob-a', 'data:image/jpeg;base64,blob-a2'], 'next-model']);
+check('embedding calls are throttled', sleeps.length === 1 && sleeps[0] > 59000, true);
+check('vectors go to the shadow table',
+  runClient.calls.filter(([table, prop]) => table === 'item_search_index_next' && prop === 'upsert').map(([, , row]) => row.sui_object_id), ['0xa']);
+
+const second = await runReembedJob(runClient, { minIntervalMs: 0 }, deps);
+check('a second pass retries the failure and the job ends ready',
+  [second.status, second.pass, second.processed, second.retrying, second.percent, second.etaSeconds], ['ready', 2, 2, 0, 100, null]);
+check('skipped items are excluded from later passes', rpcCalls(runClient, 'reembed_pending')[1].p_exclude, ['0xb']);
+
+const mismatch = stubClient({ job: jobRow() });
+check('a run with another model is refused',
+  await rejects(runReembedJob(mismatch, {}, { ...deps, provider: { ...provider, model: 'other-model' } })),
+  'Job 7 targets next-model (4), but the provider is other-model (4); cancel it and start again');
+
+// 4. Dry run
+const dryClient = stubClient({ job: jobRow({ dry_run: true, total: 2 }), rpc: { reembed_pending: [pending('0xa', '0xb'), pending()] } });
+embedded.length = 0;
+const dry = await runReembedJob(dryClient, {}, deps);
+check('a dry run counts what would happen', [dry.status, dry.processed, dry.skipped], ['ready', 1, ['0xb']]);
+check('a dry run walks already re-embedded items too', rpcCalls(dryClient, 'reembed_pending')[0].p_include_done, true);
+check('a dry run embeds and writes nothing',
+  [embedded.length, dryClient.calls.some(([table]) => table === 'item_search_index_next')], [0, false]);
+check('a finished dry run does not block a real start', await rejects(startReembedJob(dryClient, {}, provider)), null);
+
+// 5. Swap
+const stuck = () => jobRow({ status: 'ready', skipped_ids: ['0xb'], failures: { '0xc': { attempts: MAX_ATTEMPTS, error: 'quota exceeded' } } });
+check('items that failed for good block the swap', await rejects(swapReembedJob(stubClient({ job: stuck() }), {}, deps)),
+  '1 items could not be re-embedded; fix them and run again, or force the swap');
+
+const refusedClient = stubClient({
+  job: jobRow({ status: 'ready' }),
+  rpc: { swap_item_search_index: [{ data: null, error: { message: '2 indexed items are missing from the shadow index' } }] },
+});
+check('a shadow table that fell behind is refused',
+  await rejects(swapReembedJob(refusedClient, {}, deps)),
+  'Swap refused: 2 indexed items are missing from the shadow index. Run the job again to catch up.');
+
+const swapClient = stubClient({
+  job: stuck(),
+  tables: { saved_searches: [{ data: [{ id: 's1', match_text: 'red dress' }], error: null }, { error: null }] },
+  rpc: { swap_item_search_index: [{ data: 1, error: null }] },
+});
+const swapped = await swapReembedJob(swapClient, { force: true }, deps);
+check('a forced swap excludes skipped items', rpcCalls(swapClient, 'swap_item_search_index'), [{ p_exclude: ['0xb'], p_force: true }]);
+check('the swap reports the job and dropped items', [swapped.progress.status, swapped.dropped], ['swapped', 1]);
+check('saved searches on other models are re-embedded', swapped.savedSearches, { reembedded: 1, failed: 0 });
+const update = swapClient.calls.find(([table, prop]) => table === 'saved_searches' && prop === 'update');
+check('saved searches are tagged with the new model', [update[2].embedding_model, JSON.parse(update[2].query_embedding)],
+  ['next-model', [0.5, 0.5, 0.5, 0.5]]);
+console.warn = logWarn;
+
+finish('All re-embedding checks passed');
@@ -0,0 +1,336 @@
+/**
+ * Saved Search Test
+ *
+ * Checks saved searches and their alerts (src/lib/ai/saved-searches.ts)
+ * with a stub Supabase client and embedding provider, so no database or API key is
+ * needed:
+ *
+ * 1. an item must meet every filter (case-insensitive, price bounds in MIST)
+ * 2. digest targets are validated (webhooks must be https and resolve to
+ *    public addresses)
+ * 3. saving interprets the query like search does; explicit filters win
+ * 4. a new item alerts only the nearby searches whose filters it meets
+ * 5. digests go to the channels a search asked for (email only once
+ *    confirmed), a failed channel leaves its alerts for the next run, and
+ *    a search that fails to load doesn't stop the others
+ * 6. a new email address needs confirming by the mailed link
+ * 7. webhooks re-check the host, connect only to the addresses checked and
+ *    treat redirects as failures
+ *
+ *   node test-saved-searches.mjs
+ */
+
+import { createHash } from 'crypto';
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+async function rejects(promiseOrFn) {
+  try {
+    await (typeof promiseOrFn === 'function' ? promiseOrFn() : promiseOrFn);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+console.log('=== Saved searches ===\n');
+
+// Interpret queries with the local rule parser
+delete process.env.GEMINI_API_KEY;
+delete process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+process.env.QUERY_PARSER = 'rules';
+
+const SOURCES = [
+  'constants.ts',
+  'types/sui-objects.ts',
+  'ai/embedding-providers.ts',
+  'ai/embeddings.ts',
+  'ai/hybrid-search.ts',
+  'ai/query-parser.ts',
+  'ai/saved-searches.ts',
+];
+const { load } = transpileLib('saved-search-test', SOURCES);
+
+const {
+  confirmNotifyEmail,
+  createSavedSearch,
+  isPrivateAddress,
+  itemMatchesFilters,
+  notifySavedSearches,
+  sendAlertDigests,
+  sendEmailConfirmation,
+  updateSavedSearch,
+  validateNotificationTargets,
+  WebhookDigestChannel,
+} = await load('ai/saved-searches.ts');
+
+/**
+ * Chainable stand-in for a PostgREST query: records each call and resolves
+ * to `result` when awaited
+ */
+function stubQuery(result, calls) {
+  const query = new Proxy({}, {
+    get(_, prop) {
+      if (prop === 'then') {
+        return (resolve, reject) => Promise.resolve(result).then(resolve, reject);
+      }
+      return (...args) => {
+        calls.push([prop, ...args]);
+        return query;
+      };
+    },
+  });
+  return query;
+}
+
+function stubClient(responses, rpc = {}) {
+  const calls = [];
+  return {
+    calls,
+    from: (table) => {
+      const queue = responses[table] ?? [];
+      return stubQuery(queue.length > 0 ? queue.shift() : { data: null, error: null }, calls);
+    },
+    rpc: async (name, params) => {
+      calls.push(['rpc', name, params]);
+      return rpc[name] ?? { data: [], error: null };
+    },
+  };
+}
+
+const callsNamed = (client, name) => client.calls.filter(([prop]) => prop === name);
+
+// 1. Filters
+const item = {
+  objectId: '0xitem',
+  fields: {
+    seller: '0xseller',
+    title: "Levi's 501 jeans",
+    price: '4000000000',
+    category: 'Bottoms',
+    condition: 'Good',
+    brand: "Levi's",
+    size: '32',
+    color: 'Blue',
+  },
+};
+check('matching filters pass', itemMatchesFilters(item.fields, { brand: "levi's", color: 'blue', maxPrice: 5000000000n }), true);
+check('a different size fails', itemMatchesFilters(item.fields, { size: '34' }), false);
+check('too cheap fails', itemMatchesFilters(item.fields, { minPrice: 5000000000n }), false);
+check('no filters pass', itemMatchesFilters(item.fields, {}), true);
+
+// 2. Targets
+const DNS = {
+  'hooks.example.com': ['93.184.216.34', '2606:2800:220:1::1'],
+  'localhost': ['127.0.0.1', '::1'],
+  'internal.example.com': ['10.0.0.7'],
+  'rebind.example.com': ['93.184.216.34', '169.254.169.254'],
+};
+const resolver = async (hostname) => {
+  if (!DNS[hostname]) throw new Error('ENOTFOUND');
+  return DNS[hostname];
+};
+const webhookError = (url) => rejects(() => validateNotificationTargets({ webhookUrl: url }, resolver));
+
+check('email and https webhook are fine',
+  await rejects(() => validateNotificationTargets({ notifyEmail: 'a@b.co', webhookUrl: 'https://hooks.example.com/x' }, resolver)), null);
+check('http webhook is rejected', await webhookError('http://hooks.example.com/x'), 'webhookUrl must be an https URL');
+check('bad email is rejected',
+  await rejects(() => validateNotificationTargets({ notifyEmail: 'nope' }, resolver)), 'notifyEmail must be an email address');
+check('hosts resolving to loopback, private or link-local addresses are rejected', await Promise.all([
+  webhookError('https://localhost/x'),
+  webhookError('https://internal.example.com/x'),
+  webhookError('https://rebind.example.com/x'),
+  webhookError('https://169.254.169.254/latest/meta-data'),
+  webhookError('https://[::1]/x'),
+  webhookError('https://[::ffff:127.0.0.1]/x'),
+]), Array(6).fill('webhookUrl must point to a public host'));
+check('unresolvable hosts are rejected', await webhookError('https://nowhere.example/x'),
+  'webhookUrl host nowhere.example could not be resolved');
+check('private and reserved ranges', [
+  '10.1.2.3', '172.20.0.1', '192.168.1.1', '100.64.0.1', '0.0.0.0', '224.0.0.1', '240.0.0.1', '192.0.0.8', '192.0.2.1',
+  '198.18.0.1', '198.51.100.7', '203.0.113.9', 'fe80::1', 'fd00::1', '::', '64:ff9b::a00:1',
+].filter((address) => !isPrivateAddress(address)), []);
+check('public addresses', ['8.8.8.8', '172.32.0.1', '192.0.3.1', '203.0.114.1', '2606:4700::1111', '::ffff:8.8.8.8'].map(isPrivateAddress),
+  [false, false, false, false, false, false]);
+
+// 3. Saving
+const saveClient = stubClient({
+  saved_searches: [
+    { count: 0, error: null },
+    { data: { id: 's1', name: 'jeans', query: 'jeans under 5 sui', filters: {}, match_text: 'jeans', match_filters: {} }, error: null },
+  ],
+});
+const embedded = [];
+const provider = (embed) => ({ name: 'test', model: 'test-model', dimensions: 2, embed });
+await createSavedSearch(saveClient, '0xbuyer', {
+  query: 'blue jeans under 5 sui',
+  filters: { color: 'black' },
+}, provider(async (text) => {
+  embedded.push(text);
+  return [0.1, 0.2];
+}));
+const [, inserted] = callsNamed(saveClient, 'insert')[0];
+check('the descriptive text is embedded', embedded, ['blue jeans']);
+check('the embedding model is stored with it', inserted.embedding_model, 'test-model');
+check('filters combine parsed and explicit, explicit winning', inserted.match_filters, {
+  color: 'black',
+  maxPrice: '5000000000',
+});
+check('explicit filters are kept as saved', inserted.filters, { color: 'black' });
+check('default alert threshold', inserted.similarity_threshold, 0.5);
+
+const fullClient = stubClient({ saved_searches: [{ count: 20, error: null }] });
+check('saved searches are capped',
+  await rejects(createSavedSearch(fullClient, '0xbuyer', { query: 'jeans' }, provider(async () => [0, 0]))),
+  'You can save up to 20 searches');
+check('empty queries are rejected',
+  await rejects(createSavedSearch(saveClient, '0xbuyer', { query: '  ' }, provider(async () => [0, 0]))),
+  'query cannot be empty');
+
+// 4. Alerts
+const alertClient = stubClient({ search_alerts: [{ error: null }] }, {
+  saved_searches_near: {
+    data: [
+      { id: 'match', address: '0xa', match_filters: { brand: "Levi's" }, similarity: 0.8 },
+      { id: 'wrong-size', address: '0xb', match_filters: { size: '34' }, similarity: 0.9 },
+      { id: 'too-cheap', address: '0xc', match_filters: { maxPrice: '1000000000' }, similarity: 0.7 },
+    ],
+    error: null,
+  },
+});
+check('only searches the item meets are alerted', await notifySavedSearches(alertClient, item, [0.3, 0.4], 'test-model'), 1);
+const [, nearCall, nearParams] = callsNamed(alertClient, 'rpc')[0];
+check('the seller is not alerted about their own item', [nearCall, nearParams.p_exclude_address], ['saved_searches_near', '0xseller']);
+check('only searches embedded with the item model are matched', nearParams.p_model, 'test-model');
+const [, alertRows, alertOptions] = callsNamed(alertClient, 'upsert')[0];
+check('alert records the item as listed', alertRows.map((row) => [row.saved_search_id, row.item_title, row.item_price]), [
+  ['match', "Levi's 501 jeans", '4000000000'],
+]);
+check('repeat alerts are ignored', alertOptions.ignoreDuplicates, true);
+
+// 5. Digests
+const sent = [];
+const channel = (name, key, fail = false) => ({
+  name,
+  accepts: (digest) => Boolean(digest.search[key]),
+  send: async (digest) => {
+    if (fail) throw new Error(`${name} down`);
+    sent.push([name, digest.search.id, digest.items.map((i) => i.url)]);
+  },
+});
+
+// Searches are sent concurrently: both alert loads come before the mark
+const CONFIRMED = '2026-10-01T00:00:00Z';
+const digestClient = stubClient({
+  saved_searches: [{
+    data: [
+      { id: 's-email', name: 'Jeans', query: 'jeans', notify_email: 'a@b.co', notify_email_confirmed_at: CONFIRMED, webhook_url: null },
+      { id: 's-hook', name: 'Boots', query: 'boots', notify_email: null, notify_email_confirmed_at: null, webhook_url: 'https://x.example' },
+      { id: 's-unconfirmed', name: 'Hats', query: 'hats', notify_email: 'c@d.co', notify_email_confirmed_at: null, webhook_url: 'https://y.example' },
+    ],
+    error: null,
+  }],
+  search_alerts: [
+    { data: [{ id: 1, item_id: '0x1', item_title: 'Jeans', item_price: 4000000000 }], error: null },
+    { data: [{ id: 2, item_id: '0x2', item_title: 'Boots', item_price: 9000000000 }], error: null },
+    { data: [{ id: 3, item_id: '0x3', item_title: 'Hat', item_price: 1000000000 }], error: null },
+    { error: null },
+  ],
+});
+const result = await sendAlertDigests(digestClient, [channel('email', 'notifyEmail'), channel('webhook', 'webhookUrl', true)], 'https://thrift.example/');
+check('digests go to requested channels with item links', sent, [['email', 's-email', ['https://thrift.example/items/0x1']]]);
+check('failed channels are counted', result, { sent: 1, failed: 2 });
+check('only delivered alerts are marked', callsNamed(digestClient, 'in').map(([, , ids]) => ids), [[1]]);
+check('only confirmed emails or webhooks are loaded', callsNamed(digestClient, 'or')[0][1],
+  'notify_email_confirmed_at.not.is.null,webhook_url.not.is.null');
+
+sent.length = 0;
+const brokenClient = stubClient({
+  saved_searches: [{
+    data: [
+      { id: 's-broken', name: 'Jeans', query: 'jeans', notify_email: 'a@b.co', notify_email_confirmed_at: CONFIRMED, webhook_url: null },
+      { id: 's-ok', name: 'Boots', query: 'boots', notify_email: 'b@b.co', notify_email_confirmed_at: CONFIRMED, webhook_url: null },
+    ],
+    error: null,
+  }],
+  search_alerts: [
+    { error: { message: 'statement timeout' } },
+    { data: [{ id: 4, item_id: '0x4', item_title: 'Boots', item_price: 9000000000 }], error: null },
+    { error: null },
+  ],
+});
+const brokenResult = await sendAlertDigests(brokenClient, [channel('email', 'notifyEmail')], 'https://thrift.example');
+check('a search whose alerts fail to load is counted without stopping the others',
+  [brokenResult, sent.map(([, id]) => id)], [{ sent: 1, failed: 1 }, ['s-ok']]);
+
+// 6. Email confirmation
+const SEARCH = { id: 's1', notifyEmail: 'a@b.co', notifyEmailConfirmed: false };
+const mailed = [];
+const mailer = async (to, url) => mailed.push([to, url]);
+const linkClient = stubClient({ saved_searches: [{ error: null }] });
+check('unconfirmed emails are sent a link', await sendEmailConfirmation(linkClient, SEARCH, 'https://thrift.example/', mailer), true);
+const [[to, link]] = mailed;
+const token = new URL(link).searchParams.get('token');
+check('the link goes to the address and the confirm route', [to, link.split('?')[0]],
+  ['a@b.co', 'https://thrift.example/api/saved-searches/confirm-email']);
+check('only the token hash is stored, for that address',
+  [callsNamed(linkClient, 'update')[0][1], callsNamed(linkClient, 'eq').map(([, column, value]) => [column, value])],
+  [{ notify_email_token_hash: createHash('sha256').update(token).digest('hex') }, [['id', 's1'], ['notify_email', 'a@b.co']]]);
+check('confirmed emails and searches without one are not sent links', [
+  await sendEmailConfirmation(linkClient, { ...SEARCH, notifyEmailConfirmed: true }, 'https://thrift.example', mailer),
+  await sendEmailConfirmation(linkClient, { ...SEARCH, notifyEmail: null }, 'https://thrift.example', mailer),
+  mailed.length,
+], [false, false, 1]);
+
+const confirmClient = stubClient({ saved_searches: [{ data: [{ id: 's1' }], error: null }, { data: [], error: null }] });
+check('the link confirms the email once', [await confirmNotifyEmail(confirmClient, token), await confirmNotifyEmail(confirmClient, token)], [true, false]);
+const [, confirmUpdate] = callsNamed(confirmClient, 'update')[0];
+check('confirming records the time and retires the token',
+  [typeof confirmUpdate.notify_email_confirmed_at, confirmUpdate.notify_email_token_hash], ['string', null]);
+check('empty tokens confirm nothing', await confirmNotifyEmail(confirmClient, ''), false);
+
+const row = { id: 's1', name: 'jeans', query: 'jeans', notify_email: 'new@b.co', notify_email_confirmed_at: null };
+const changeClient = stubClient({ saved_searches: [{ data: { notify_email: 'old@b.co' }, error: null }, { data: row, error: null }] });
+const changed = await updateSavedSearch(changeClient, '0xbuyer', 's1', { notifyEmail: 'new@b.co' });
+check('a new address resets the confirmation', callsNamed(changeClient, 'update')[0][1],
+  { notify_email: 'new@b.co', notify_email_confirmed_at: null, notify_email_token_hash: null });
+check('and is reported unconfirmed', changed.notifyEmailConfirmed, false);
+const sameClient = stubClient({
+  saved_searches: [{ data: { notify_email: 'a@b.co' }, error: null }, { data: { ...row, notify_email: 'a@b.co', notify_email_confirmed_at: CONFIRMED }, error: null }],
+});
+const same = await updateSavedSearch(sameClient, '0xbuyer', 's1', { notifyEmail: 'a@b.co', similarityThreshold: 0.6 });
+check('saving the same address keeps it confirmed', [callsNamed(sameClient, 'update')[0][1], same.notifyEmailConfirmed],
+  [{ similarity_threshold: 0.6 }, true]);
+
+// 7. Webhook delivery
+// Stands in for https.request: the socket connects wherever `lookup` says
+const lookupWith = (lookup, hostname, all) => new Promise((resolve, reject) =>
+  lookup(hostname, { all }, (error, address) => (error ? reject(error) : resolve(address))));
+const requests = [];
+let respondWith = 200;
+const transport = async (url, body, lookup) => {
+  const addresses = await lookupWith(lookup, url.hostname, true);
+  requests.push([url.href, JSON.parse(body).type, addresses, await lookupWith(lookup, url.hostname, false)]);
+  return respondWith;
+};
+const hookDigest = (webhookUrl) => ({ search: { id: 's1', name: 'Boots', query: 'boots', notifyEmail: null, webhookUrl }, items: [] });
+const webhook = new WebhookDigestChannel(resolver, transport);
+await webhook.send(hookDigest('https://hooks.example.com/x'));
+check('webhooks connect to the checked addresses', requests, [[
+  'https://hooks.example.com/x',
+  'saved_search.digest',
+  [{ address: '93.184.216.34', family: 4 }, { address: '2606:2800:220:1::1', family: 6 }],
+  '93.184.216.34',
+]]);
+check('hosts that now resolve privately are refused before sending',
+  [await rejects(webhook.send(hookDigest('https://rebind.example.com/x'))), requests.length],
+  ['webhookUrl must point to a public host', 1]);
+let flips = 0;
+const flipping = async () => (flips++ === 0 ? ['93.184.216.34'] : ['169.254.169.254']);
+check('hosts that turn private between the check and the connection are not connected to',
+  [await rejects(new WebhookDigestChannel(flipping, transport).send(hookDigest('https://flip.example.com/x'))), requests.length],
+  ['webhookUrl must point to a public host', 1]);
+respondWith = 302;
+check('redirects count as failures', await rejects(webhook.send(hookDigest('https://hooks.example.com/x'))), 'Webhook responded 302');
+
+finish('All saved search checks passed');
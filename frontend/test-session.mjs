@@ -0,0 +1,108 @@
+/**
+ * Server Session Test
+ *
+ * Checks sign-in verification and session cookies for API routes with a
+ * local Ed25519 keypair standing in for a wallet:
+ *
+ * 1. a signed sign-in message yields a session for the signer's address
+ * 2. session tokens round-trip and reject tampering and expiry
+ * 3. messages for another site, stale messages and signatures by another
+ *    key are refused
+ * 4. signed actions only pass for their action, signer and exact payload
+ *
+ *   node test-session.mjs
+ */
+
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+const DOMAIN = 'thriftchain.test';
+
+console.log('=== Server sessions ===\n');
+
+// Transpile the session modules into node_modules so @mysten/sui resolves normally
+const SOURCES = ['sui/client.ts', 'session/actions.ts', 'session/identity.ts', 'session/server.ts'];
+const { load } = transpileLib('session-test', SOURCES);
+
+process.env.SESSION_SECRET = 'test-session-secret';
+
+const { formatSignInMessage, parseSignInMessage } = await load('session/identity.ts');
+const { formatActionMessage, hashActionPayload } = await load('session/actions.ts');
+const { verifySignIn, verifySignedAction, encodeSessionToken, decodeSessionToken, sessionOwnsAddress, SessionError } =
+  await load('session/server.ts');
+
+const user = new Ed25519Keypair();
+const address = user.toSuiAddress();
+const now = Date.now();
+
+const message = (overrides = {}) => formatSignInMessage({
+  domain: DOMAIN,
+  address,
+  issuedAt: new Date(now).toISOString(),
+  nonce: 'a1b2c3d4',
+  ...overrides,
+});
+const signed = async (text, signer = user) =>
+  (await signer.signPersonalMessage(new TextEncoder().encode(text))).signature;
+
+// 1. Sign-in
+const text = message();
+check('sign-in message round-trips', parseSignInMessage(text)?.address, address);
+
+const session = await verifySignIn(text, await signed(text), { domain: DOMAIN, now });
+check('session is for the signer', [session.address, session.method], [address, 'wallet']);
+check('session owns its address', sessionOwnsAddress(session, address), true);
+check('session does not own other addresses', sessionOwnsAddress(session, new Ed25519Keypair().toSuiAddress()), false);
+
+// 2. Tokens
+const token = encodeSessionToken(session);
+check('token decodes to the session', decodeSessionToken(token, now)?.address, address);
+
+const [payload, mac] = token.split('.');
+const forged = Buffer.from(JSON.stringify({ ...session, address: '0x' + 'f'.repeat(64) })).toString('base64url');
+check('token with a swapped address is rejected', decodeSessionToken(`${forged}.${mac}`, now), null);
+check('token with a broken mac is rejected', decodeSessionToken(`${payload}.${mac.slice(1)}x`, now), null);
+check('expired token is rejected', decodeSessionToken(token, (session.expiresAt + 1) * 1000), null);
+
+// 3. Refusals
+const refusals = {
+  'message for another site': async () => {
+    const other = message({ domain: 'evil.test' });
+    return verifySignIn(other, await signed(other), { domain: DOMAIN, now });
+  },
+  'stale message': async () => {
+    const stale = message({ issuedAt: new Date(now - 10 * 60 * 1000).toISOString() });
+    return verifySignIn(stale, await signed(stale), { domain: DOMAIN, now });
+  },
+  'signature by another key': async () => verifySignIn(text, await signed(text, new Ed25519Keypair()), { domain: DOMAIN, now }),
+  'not a sign-in message': async () => verifySignIn('hello', await signed('hello'), { domain: DOMAIN, now }),
+};
+for (const [label, attempt] of Object.entries(refusals)) {
+  const error = await attempt().then(() => null, (e) => e);
+  check(`refused: ${label}`, error instanceof SessionError, true);
+}
+
+// 4. Signed actions
+const listing = { sui_object_id: '0x' + 'a'.repeat(64), title: 'Denim jacket', images: [] };
+const signAction = async (action, payload, signer = user, issuedAt = now) => {
+  const actionText = formatActionMessage({
+    action,
+    address: signer.toSuiAddress(),
+    payloadHash: await hashActionPayload(payload),
+    issuedAt: new Date(issuedAt).toISOString(),
+  });
+  return { message: actionText, signature: await signed(actionText, signer) };
+};
+const expectAction = (auth, payload = listing) =>
+  verifySignedAction(auth, { action: 'index-item', address, payload }, { now }).then(() => 'ok', (e) => e.status);
+
+check('signed action passes', await expectAction(await signAction('index-item', listing)), 'ok');
+check('payload key order does not matter',
+  await expectAction(await signAction('index-item', { images: [], title: 'Denim jacket', sui_object_id: listing.sui_object_id })), 'ok');
+check('unsigned request is refused', await expectAction(undefined), 401);
+check('other action is refused', await expectAction(await signAction('link-sui-id', listing)), 401);
+check('other payload is refused', await expectAction(await signAction('index-item', { ...listing, title: 'Wool coat' })), 401);
+check('other signer is refused', await expectAction(await signAction('index-item', listing, new Ed25519Keypair())), 403);
+check('stale action is refused', await expectAction(await signAction('index-item', listing, user, now - 10 * 60 * 1000)), 401);
+
+finish('All session checks passed');
@@ -0,0 +1,212 @@
+/**
+ * Gas Sponsorship Test
+ *
+ * Runs the sponsorship policy, the per-address rate limiter and the local
+ * keypair backend against hand-built transaction kinds, with a stub RPC
+ * client so no network is needed:
+ *
+ * 1. allowlisted ThriftChain calls are sponsored
+ * 2. other packages, non-allowlisted functions, transfers and anything
+ *    touching the gas coin are refused
+ * 3. the rate limiter caps hits per address within the window
+ * 4. the keypair backend returns bytes with the sponsor as gas owner and
+ *    executes them with both signatures
+ * 5. object inputs must be shared, immutable or the sender's own, so a
+ *    kind can't spend a second coin of the sponsor's
+ *
+ *   node test-sponsorship.mjs
+ */
+
+import { Inputs, Transaction } from '@mysten/sui/transactions';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { verifyTransactionSignature } from '@mysten/sui/verify';
+import { toBase64 } from '@mysten/sui/utils';
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+const PACKAGE_ID = '0x' + '1'.repeat(64);
+const MARKETPLACE_ID = '0x' + '2'.repeat(64);
+const OTHER_PACKAGE = '0x' + '9'.repeat(64);
+const ITEM_ID = '0x' + 'ab'.repeat(32);
+const COIN_ID = '0x' + 'cd'.repeat(32);
+const DIGEST = '11111111111111111111111111111111';
+
+console.log('=== Gas sponsorship ===\n');
+
+// Transpile the sponsor modules into node_modules so @mysten/sui resolves normally
+const SOURCES = [
+  'indexer/events.ts',
+  'sui/client.ts',
+  'sui/contract/abort-codes.ts',
+  'sui/contract/runtime.ts',
+  'sui/contract/thriftchain.generated.ts',
+  'sui/contract/index.ts',
+  'sponsor/policy.ts',
+  'sponsor/rate-limit.ts',
+  'sponsor/backend.ts',
+];
+const { load } = transpileLib('sponsor-test', SOURCES);
+
+// Configuration is read at import time
+process.env.NEXT_PUBLIC_THRIFTCHAIN_PACKAGE_ID = PACKAGE_ID;
+process.env.NEXT_PUBLIC_MARKETPLACE_ID = MARKETPLACE_ID;
+
+const { checkSponsorInputs, checkSponsorshipPolicy } = await load('sponsor/policy.ts');
+const { clientIp, SlidingWindowRateLimiter } = await load('sponsor/rate-limit.ts');
+const { KeypairSponsorBackend } = await load('sponsor/backend.ts');
+
+// Kinds are built by hand with resolved inputs so no RPC is needed
+const marketplace = (tx) =>
+  tx.object(Inputs.SharedObjectRef({ objectId: MARKETPLACE_ID, initialSharedVersion: 1, mutable: true }));
+const clock = (tx) =>
+  tx.object(Inputs.SharedObjectRef({ objectId: '0x6', initialSharedVersion: 1, mutable: false }));
+const ownedCoin = (tx) =>
+  tx.object(Inputs.ObjectRef({ objectId: COIN_ID, version: '1', digest: DIGEST }));
+
+async function kind(build) {
+  const tx = new Transaction();
+  build(tx);
+  return toBase64(await tx.build({ onlyTransactionKind: true }));
+}
+
+const cancelItem = (tx, pkg = PACKAGE_ID, fn = 'cancel_item_by_id') =>
+  tx.moveCall({ target: `${pkg}::thriftchain::${fn}`, arguments: [marketplace(tx), tx.pure.id(ITEM_ID)] });
+
+const offerFrom = (tx, coin) => {
+  const [payment] = tx.splitCoins(coin, [tx.pure.u64(1000)]);
+  tx.moveCall({
+    target: `${PACKAGE_ID}::thriftchain::create_offer_by_id`,
+    arguments: [marketplace(tx), tx.pure.id(ITEM_ID), tx.pure.u64(1000), tx.pure.string(''), tx.pure.u64(24), payment, clock(tx)],
+  });
+};
+
+// 1. Allowed
+const allowed = checkSponsorshipPolicy(await kind(tx => cancelItem(tx)));
+check('allowlisted call is sponsored', allowed, { allowed: true, functions: ['cancel_item_by_id'] });
+
+const ownCoinOffer = checkSponsorshipPolicy(await kind(tx => offerFrom(tx, ownedCoin(tx))));
+check('offer paid from the buyer\'s own coin is sponsored', ownCoinOffer.allowed, true);
+
+// 2. Refused
+const refusals = {
+  'other package': await kind(tx => cancelItem(tx, OTHER_PACKAGE)),
+  'function not on the allowlist': await kind(tx => cancelItem(tx, PACKAGE_ID, 'refund_escrow_by_id')),
+  'offer paid from the gas coin': await kind(tx => offerFrom(tx, tx.gas)),
+  'transfer of the gas coin': await kind(tx => {
+    cancelItem(tx);
+    tx.transferObjects([tx.gas], tx.pure.address(ITEM_ID));
+  }),
+  'no marketplace call': await kind(tx => tx.splitCoins(ownedCoin(tx), [tx.pure.u64(1)])),
+  'garbage bytes': 'not-base64-kind-bytes',
+};
+for (const [label, bytes] of Object.entries(refusals)) {
+  check(`refused: ${label}`, checkSponsorshipPolicy(bytes).allowed, false);
+}
+
+// 3. Rate limit
+const limiter = new SlidingWindowRateLimiter(2, 1000);
+check(
+  'rate limiter allows 2 per window per address',
+  [limiter.take('a', 0).allowed, limiter.take('a', 10).allowed, limiter.take('a', 20).allowed, limiter.take('b', 20).allowed],
+  [true, true, false, true]
+);
+check('rate limiter reports when to retry', limiter.take('a', 500).retryAfterMs, 500);
+check('rate limiter frees the slot after the window', limiter.take('a', 1001).allowed, true);
+check(
+  'client IP is the first forwarded address',
+  [
+    clientIp(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' })),
+    clientIp(new Headers({ 'x-real-ip': '198.51.100.2' })),
+    clientIp(new Headers()),
+  ],
+  ['203.0.113.7', '198.51.100.2', 'unknown']
+);
+
+// 4. Keypair backend
+const sponsorKeypair = new Ed25519Keypair();
+const user = new Ed25519Keypair();
+const sponsorAddress = sponsorKeypair.toSuiAddress();
+const executed = [];
+
+const stubClient = {
+  getReferenceGasPrice: async () => '1000',
+  getCoins: async ({ owner }) => ({
+    data: owner === sponsorAddress
+      ? [{ coinObjectId: '0x' + 'ef'.repeat(32), version: '1', digest: DIGEST, balance: '10000000000', coinType: '0x2::sui::SUI' }]
+      : [],
+    hasNextPage: false,
+    nextCursor: null,
+  }),
+  dryRunTransactionBlock: async () => ({
+    effects: {
+      status: { status: 'success' },
+      gasUsed: { computationCost: '1000000', storageCost: '2000000', storageRebate: '0', nonRefundableStorageFee: '0' },
+    },
+  }),
+  executeTransactionBlock: async (input) => {
+    executed.push(input);
+    return { digest: 'executed' };
+  },
+};
+
+const backend = new KeypairSponsorBackend(sponsorKeypair, stubClient);
+const sponsored = await backend.sponsor({
+  sender: user.toSuiAddress(),
+  transactionKindBytes: await kind(tx => cancelItem(tx)),
+  allowedMoveCallTargets: [],
+});
+
+const data = Transaction.from(sponsored.bytes).getData();
+check('sponsored bytes keep the user as sender', data.sender, user.toSuiAddress());
+check('sponsored bytes make the sponsor the gas owner', data.gasData.owner, sponsorAddress);
+
+const { signature } = await user.signTransaction(Uint8Array.from(Buffer.from(sponsored.bytes, 'base64')));
+const result = await backend.execute(sponsored.digest, signature);
+const [userSignature, sponsorSignature] = executed[0]?.signature ?? [];
+const sponsorSigner = await verifyTransactionSignature(Buffer.from(sponsored.bytes, 'base64'), sponsorSignature)
+  .then(key => key.toSuiAddress(), () => null);
+check('execute submits both signatures', [result.digest, userSignature === signature, sponsorSigner], ['executed', true, sponsorAddress]);
+
+let replayError = null;
+await backend.execute(sponsored.digest, signature).catch(error => { replayError = error; });
+check('a sponsored transaction can only be executed once', replayError?.status, 404);
+
+// 5. Input ownership
+const SPONSOR_COIN_ID = '0x' + 'ef'.repeat(32);
+const owners = {
+  [MARKETPLACE_ID]: { Shared: { initial_shared_version: '1' } },
+  ['0x' + '0'.repeat(63) + '6']: { Shared: { initial_shared_version: '1' } },
+  [COIN_ID]: { AddressOwner: user.toSuiAddress() },
+  [SPONSOR_COIN_ID]: { AddressOwner: sponsorAddress },
+  [ITEM_ID]: { ObjectOwner: MARKETPLACE_ID },
+};
+const ownerClient = {
+  multiGetObjects: async ({ ids }) => ids.map(id =>
+    owners[id] ? { data: { objectId: id, owner: owners[id] } } : { error: { code: 'notExists', object_id: id } }),
+};
+const sponsorCoin = (tx) =>
+  tx.object(Inputs.ObjectRef({ objectId: SPONSOR_COIN_ID, version: '1', digest: DIGEST }));
+const objectOwned = (tx) =>
+  tx.object(Inputs.ObjectRef({ objectId: ITEM_ID, version: '1', digest: DIGEST }));
+const missing = (tx) =>
+  tx.object(Inputs.ObjectRef({ objectId: '0x' + '77'.repeat(32), version: '1', digest: DIGEST }));
+
+const inputsOf = async (build) => checkSponsorInputs(await kind(build), user.toSuiAddress(), ownerClient);
+check('pure values and shared objects are sponsored', await inputsOf(tx => cancelItem(tx)), null);
+check('the sender\'s own coin is sponsored', await inputsOf(tx => offerFrom(tx, ownedCoin(tx))), null);
+check(
+  'offer paid from another sponsor coin is refused',
+  await inputsOf(tx => offerFrom(tx, sponsorCoin(tx))),
+  `Object ${SPONSOR_COIN_ID} is not owned by the sender`
+);
+for (const [label, build] of Object.entries({
+  'an object owned by another object': tx => offerFrom(tx, objectOwned(tx)),
+  'an object that does not exist': tx => offerFrom(tx, missing(tx)),
+  'a receiving ticket': tx => {
+    cancelItem(tx);
+    tx.object(Inputs.ReceivingRef({ objectId: COIN_ID, version: '1', digest: DIGEST }));
+  },
+})) {
+  check(`refused input: ${label}`, typeof await inputsOf(build), 'string');
+}
+
+finish('All sponsorship checks passed');
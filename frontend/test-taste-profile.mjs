@@ -0,0 +1,76 @@
+/**
+ * Taste Profile Test
+ *
+ * Checks how the "For you" feed builds profiles and ranks items
+ * (src/lib/ai/taste-profile.ts), with tiny 2-d embeddings:
+ *
+ * 1. purchases outweigh offers outweigh views, and old signals fade
+ * 2. the profile is the normalised weighted mean; unindexed items are skipped
+ * 3. freshness lifts new listings over slightly closer old ones
+ * 4. diversity stops one category or seller filling the feed
+ *
+ *   node test-taste-profile.mjs
+ */
+
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+const close = (a, b) => Math.abs(a - b) < 1e-9;
+
+console.log('=== Taste profiles ===\n');
+
+const { load } = transpileLib('taste-test', ['ai/taste-profile.ts']);
+
+const { buildTasteProfile, rankFeed, signalWeight, SIGNAL_HALF_LIFE_DAYS } =
+  await load('ai/taste-profile.ts');
+
+const NOW = Date.UTC(2026, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+// 1. Weights
+const weight = (kind, daysAgo = 0) => signalWeight({ itemId: 'x', kind, at: NOW - daysAgo * DAY }, NOW);
+check('purchase > offer > view', weight('purchase') > weight('offer') && weight('offer') > weight('view'), true);
+check('a signal halves after the half-life', close(weight('offer', SIGNAL_HALF_LIFE_DAYS), weight('offer') / 2), true);
+check('future timestamps do not grow', weight('view', -5), weight('view'));
+
+// 2. Profile
+const embeddings = new Map([
+  ['jacket', [1, 0]],
+  ['jeans', [0, 1]],
+]);
+const profile = buildTasteProfile([
+  { itemId: 'jacket', kind: 'purchase', at: NOW },
+  { itemId: 'jeans', kind: 'view', at: NOW },
+  { itemId: 'unindexed', kind: 'offer', at: NOW },
+], embeddings, NOW);
+check('unindexed items are skipped', profile.signalCount, 2);
+check('profile has unit length', close(Math.hypot(...profile.embedding), 1), true);
+check('profile leans to the purchase', close(profile.embedding[0] / profile.embedding[1], 5), true);
+check('no indexed signals, no profile', buildTasteProfile([{ itemId: 'unindexed', kind: 'view', at: NOW }], embeddings, NOW), null);
+
+// 3-4. Ranking
+const candidate = (id, similarity, category, seller, daysOld) => ({
+  id, similarity, category, seller, createdAtMs: NOW - daysOld * DAY,
+});
+
+const fresh = [
+  candidate('old-close', 0.9, 'Tops', 'a', 60),
+  candidate('new-near', 0.85, 'Bottoms', 'b', 0),
+];
+check('similarity alone keeps the closest first',
+  rankFeed(fresh, { limit: 2, freshness: 0, diversity: 0, now: NOW }), ['old-close', 'new-near']);
+check('freshness lifts the new listing',
+  rankFeed(fresh, { limit: 2, freshness: 0.2, diversity: 0, now: NOW }), ['new-near', 'old-close']);
+
+const samey = [
+  candidate('tee-1', 0.9, 'Tops', 'a', 1),
+  candidate('tee-2', 0.89, 'tops', 'a', 1),
+  candidate('tee-3', 0.88, 'Tops', 'c', 1),
+  candidate('boots', 0.7, 'Shoes', 'd', 1),
+];
+check('without diversity one category fills the feed',
+  rankFeed(samey, { limit: 3, freshness: 0, diversity: 0, now: NOW }), ['tee-1', 'tee-2', 'tee-3']);
+check('diversity mixes categories and sellers',
+  rankFeed(samey, { limit: 3, freshness: 0, diversity: 0.3, now: NOW }), ['tee-1', 'boots', 'tee-3']);
+check('limit caps the feed', rankFeed(samey, { limit: 1, now: NOW }).length, 1);
+
+finish('All taste profile checks passed');
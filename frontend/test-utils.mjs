@@ -0,0 +1,80 @@
+/**
+ * Test Utilities
+ *
+ * Shared by the test-*.mjs suites:
+ *
+ * - check(label, actual, expected) compares as JSON and counts failures
+ * - transpileLib(name, sources) transpiles src/lib sources into
+ *   node_modules/.cache/thriftchain-<name>, where @mysten/sui and other
+ *   packages resolve as usual, and returns load(source) to import them
+ * - finish(message) removes the transpiled output, prints the summary and
+ *   exits non-zero if any check failed
+ *
+ *   import { check, finish, transpileLib } from './test-utils.mjs';
+ */
+
+import ts from 'typescript';
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+export const ROOT = dirname(fileURLToPath(import.meta.url));
+export const LIB = join(ROOT, 'src/lib');
+
+let failures = 0;
+const outDirs = [];
+
+export function check(label, actual, expected) {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`✗ ${label}`);
+    console.log('    expected:', expected);
+    console.log('    actual:  ', actual);
+  }
+}
+
+/**
+ * Transpile `sources` (paths under src/lib) for Node ESM: relative imports
+ * get .mjs, or /index.mjs when they name a directory
+ *
+ * @returns outDir, and load(source) to import a transpiled source by its
+ *          .ts path
+ */
+export function transpileLib(name, sources) {
+  const outDir = join(ROOT, 'node_modules/.cache', `thriftchain-${name}`);
+  rmSync(outDir, { recursive: true, force: true });
+  outDirs.push(outDir);
+
+  for (const source of sources) {
+    const sourcePath = join(LIB, source);
+    const { outputText } = ts.transpileModule(readFileSync(sourcePath, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+    });
+    const rewritten = outputText.replace(/from '(\.{1,2}\/[^']+)'/g, (_, specifier) => {
+      const target = resolve(dirname(sourcePath), specifier);
+      const isDirectory = existsSync(target) && statSync(target).isDirectory();
+      return `from '${specifier}${isDirectory ? '/index' : ''}.mjs'`;
+    });
+    const target = join(outDir, source.replace(/\.ts$/, '.mjs'));
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, rewritten);
+  }
+
+  return {
+    outDir,
+    load: (source) => import(pathToFileURL(join(outDir, source.replace(/\.ts$/, '.mjs'))).href),
+  };
+}
+
+/**
+ * Clean up and exit: 0 with `passed` printed, or 1 with the failure count
+ */
+export function finish(passed) {
+  for (const outDir of outDirs) {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+  console.log(failures === 0 ? `\n${passed}` : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
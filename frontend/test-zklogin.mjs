@@ -0,0 +1,142 @@
+/**
+ * zkLogin Flow Test
+ *
+ * Runs the server half of zkLogin against a locally signed id_token, the
+ * HMAC salt service and the mock prover, then signs with the resulting
+ * ZkLoginSigner. No OAuth provider, prover or RPC is needed:
+ *
+ * 1. a valid token yields the address Sui derives for (iss, aud, sub, salt)
+ * 2. the signer produces a zkLogin signature for that address, wrapping an
+ *    ephemeral-key signature over the same message
+ * 3. wrong nonce, audience, issuer, expiry, signature, key or max epoch
+ *    are rejected
+ *
+ *   node test-zklogin.mjs
+ */
+
+import { generateKeyPairSync, sign } from 'crypto';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { parseSerializedSignature } from '@mysten/sui/cryptography';
+import { generateNonce, generateRandomness, jwtToAddress, ZkLoginPublicIdentifier } from '@mysten/sui/zklogin';
+import { toBase64 } from '@mysten/sui/utils';
+import { check, finish, transpileLib } from './test-utils.mjs';
+
+const ISSUER = 'https://accounts.google.com';
+const CLIENT_ID = 'thriftchain-test.apps.googleusercontent.com';
+const KEY_ID = 'test-key';
+const EPOCH = 100;
+
+console.log('=== zkLogin ===\n');
+
+// Transpile the zkLogin modules into node_modules so @mysten/sui resolves normally
+const SOURCES = [
+  'sui/client.ts',
+  'zklogin/jwt.ts',
+  'zklogin/salt.ts',
+  'zklogin/prover.ts',
+  'zklogin/session.ts',
+  'zklogin/server.ts',
+  'zklogin/signer.ts',
+];
+const { load } = transpileLib('zklogin-test', SOURCES);
+
+const { HmacSaltService } = await load('zklogin/salt.ts');
+const { MockProver } = await load('zklogin/prover.ts');
+const { issueZkLoginCredentials, ZkLoginError } = await load('zklogin/server.ts');
+const { ZkLoginSigner } = await load('zklogin/signer.ts');
+
+// A local "provider": RSA key, JWKS lookup and token signing
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+
+function idToken(claims = {}, { kid = KEY_ID, key = privateKey } = {}) {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid, typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    sub: '110169484474386276334',
+    email: 'seller@example.com',
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    iat: Math.floor(Date.now() / 1000),
+    ...claims,
+  })).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), key).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+const salt = new HmacSaltService('test-salt-secret-that-is-long-enough');
+const service = {
+  provider: {
+    name: 'google',
+    authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    issuers: [ISSUER],
+    clientId: CLIENT_ID,
+    resolveKey: async (kid) => (kid === KEY_ID ? jwk : null),
+  },
+  salt,
+  prover: new MockProver(),
+  currentEpoch: async () => EPOCH,
+};
+
+// Browser side of the flow: ephemeral key and nonce
+const ephemeral = new Ed25519Keypair();
+const maxEpoch = EPOCH + 2;
+const randomness = generateRandomness();
+const nonce = generateNonce(ephemeral.getPublicKey(), maxEpoch, randomness);
+const request = (jwt, overrides = {}) => ({
+  jwt,
+  ephemeralPublicKey: ephemeral.getPublicKey().toBase64(),
+  maxEpoch,
+  randomness,
+  ...overrides,
+});
+
+// 1. Credentials
+const jwt = idToken({ nonce });
+const credentials = await issueZkLoginCredentials(service, request(jwt));
+const userSalt = await salt.getSalt({ iss: ISSUER, aud: CLIENT_ID, sub: '110169484474386276334' });
+
+check('address matches Sui\'s derivation for the token and salt', credentials.address, jwtToAddress(jwt, userSalt));
+check('salt is stable per account', await salt.getSalt({ iss: ISSUER, aud: CLIENT_ID, sub: '110169484474386276334' }), userSalt);
+check('salt fits in 128 bits', BigInt(userSalt) < BigInt(2) ** BigInt(128), true);
+check('display name comes from the token', credentials.displayName, 'seller@example.com');
+
+// 2. Signing
+const signer = new ZkLoginSigner(ephemeral, credentials);
+const message = new TextEncoder().encode('ThriftChain zkLogin test');
+const { signature } = await signer.signPersonalMessage(message);
+const parsed = parseSerializedSignature(signature);
+
+check('signature is a zkLogin signature', parsed.signatureScheme, 'ZkLogin');
+check(
+  'signature resolves to the zkLogin address',
+  ZkLoginPublicIdentifier.fromBytes(parsed.publicKey).toSuiAddress(),
+  credentials.address
+);
+check('signature carries the max epoch', parsed.zkLogin.maxEpoch, String(maxEpoch));
+check(
+  'inner signature is by the ephemeral key',
+  await ephemeral.getPublicKey().verifyPersonalMessage(message, toBase64(Uint8Array.from(parsed.zkLogin.userSignature))),
+  true
+);
+check('signer reports the zkLogin address', signer.toSuiAddress(), credentials.address);
+
+// 3. Rejections
+const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+const rejections = {
+  'nonce for a different key': [request(idToken({ nonce: generateNonce(new Ed25519Keypair().getPublicKey(), maxEpoch, randomness) })), 401],
+  'different audience': [request(idToken({ nonce, aud: 'someone-else' })), 401],
+  'different issuer': [request(idToken({ nonce, iss: 'https://evil.example.com' })), 401],
+  'expired token': [request(idToken({ nonce, exp: Math.floor(Date.now() / 1000) - 3600 })), 401],
+  'forged signature': [request(idToken({ nonce }, { key: otherKey })), 401],
+  'unknown signing key': [request(idToken({ nonce }, { kid: 'rotated-out' })), 401],
+  'max epoch beyond the allowed window': [request(jwt, { maxEpoch: EPOCH + 10 }), 400],
+  'max epoch already passed': [request(jwt, { maxEpoch: EPOCH - 1 }), 400],
+  'malformed ephemeral key': [request(jwt, { ephemeralPublicKey: 'AAAA' }), 400],
+};
+for (const [label, [input, status]] of Object.entries(rejections)) {
+  const error = await issueZkLoginCredentials(service, input).then(() => null, (e) => e);
+  check(`rejected: ${label}`, [error instanceof ZkLoginError, error?.status], [true, status]);
+}
+
+finish('All zkLogin checks passed');